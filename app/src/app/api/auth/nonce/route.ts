@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createNonce } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Issue a sign-in nonce for a wallet
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { walletAddress } = body;
+
+    if (!walletAddress || typeof walletAddress !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Wallet address is required" },
+        { status: 400 }
+      );
+    }
+
+    let nonce;
+    try {
+      nonce = await createNonce(walletAddress);
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Invalid wallet address" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: nonce,
+    });
+  } catch (error) {
+    console.error("Create nonce error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, getSession, deleteSession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Exchange a signed nonce for a session token
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { walletAddress, nonce, signature } = body;
+
+    if (!walletAddress || !nonce || !signature) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "walletAddress, nonce and signature are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await createSession(walletAddress, nonce, signature);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: "Invalid or expired signature" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token: result.token,
+        ...result.session,
+      },
+    });
+  } catch (error) {
+    console.error("Create session error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Check the current session
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      { success: false, message: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ success: true, data: session });
+}
+
+// Sign out
+export async function DELETE(request: NextRequest) {
+  try {
+    await deleteSession(request);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete session error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { findCard } from "@/lib/card-store";
+import {
+  getAutoReloadRule,
+  getReloadHistory,
+  parseAutoReloadRule,
+  saveAutoReloadRule,
+} from "@/lib/card-auto-reload";
+
+export const dynamic = "force-dynamic";
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, message: "Wallet signature required" },
+    { status: 401 }
+  );
+}
+
+function cardNotFound() {
+  return NextResponse.json(
+    { success: false, message: "Card not found" },
+    { status: 404 }
+  );
+}
+
+// GET ?cardId= - a card's auto top-up rule and reload history (see card-auto-reload.ts)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const cardId = new URL(request.url).searchParams.get("cardId");
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, cardId);
+    if (!card) return cardNotFound();
+
+    const [rule, history] = await Promise.all([
+      getAutoReloadRule(session.walletAddress, card.cardId),
+      getReloadHistory(session.walletAddress, card.cardId),
+    ]);
+
+    return NextResponse.json({ success: true, data: { rule, history } });
+  } catch (error) {
+    console.error("Get auto top-up error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { cardId, rule } - set a card's auto top-up rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const { cardId, rule } = await request.json();
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseAutoReloadRule(rule);
+    if (typeof parsed === "string") {
+      return NextResponse.json(
+        { success: false, message: parsed },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) return cardNotFound();
+    if (card.status === "closed") {
+      return NextResponse.json(
+        { success: false, message: "Card is closed" },
+        { status: 409 }
+      );
+    }
+
+    const saved = await saveAutoReloadRule(
+      session.walletAddress,
+      card.cardId,
+      parsed
+    );
+    return NextResponse.json({
+      success: true,
+      message: "Auto top-up saved",
+      data: saved,
+    });
+  } catch (error) {
+    console.error("Save auto top-up error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
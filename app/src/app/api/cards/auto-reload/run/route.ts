@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, isCronRequest, isInternalRequest } from "@/lib/auth";
+import { runAutoReloads, runWalletAutoReloads } from "@/lib/card-auto-reload";
+
+export const dynamic = "force-dynamic";
+
+// Runs the card auto top-up scheduler (see card-auto-reload.ts).
+//
+// - Vercel Cron (GET, see vercel.json) and internal calls: check every card
+//   with an auto top-up rule
+// - Signed-in wallets: check their own cards right away
+async function run(
+  request: NextRequest,
+  everyCard: boolean
+): Promise<NextResponse> {
+  try {
+    if (everyCard) {
+      const result = await runAutoReloads();
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        ...result,
+      });
+    }
+
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await runWalletAutoReloads(session.walletAddress);
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Card auto top-up error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  return run(request, true);
+}
+
+export async function POST(request: NextRequest) {
+  return run(request, isInternalRequest(request));
+}
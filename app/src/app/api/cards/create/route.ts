@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, isInternalRequest } from "@/lib/auth";
+import { debitCardSpend, creditRefund } from "@/lib/ledger";
+import { upsertCard } from "@/lib/card-store";
+import { addPendingRefund } from "@/lib/pending-refunds";
+import {
+  quoteCardIssuance,
+  isStaleFeeQuote,
+  CURRENT_FEE_SCHEDULE,
+} from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { selectCardIssuer } from "@/lib/card-issuers";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Users pay from their balance; internal callers (ops tooling) create unassigned cards
+    const session = await getSession(request);
+    if (!session && !isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+    const walletAddress = session?.walletAddress;
+
+    const body = await request.json();
+    const { amount, bankBin, firstName, lastName, feeScheduleVersion } = body;
+
+    const minimumLoad = CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad;
+    if (!amount || amount < minimumLoad) {
+      return NextResponse.json(
+        { success: false, message: `Minimum card amount is $${minimumLoad}` },
+        { status: 400 }
+      );
+    }
+
+    // Pick the issuer before taking any money, so an unavailable one costs the user nothing
+    let issuer;
+    try {
+      issuer = selectCardIssuer({
+        bankBin: bankBin ? String(bankBin) : undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof CardIssuerError)) throw error;
+      const { status, message } = describeCardIssuerError(error);
+      return NextResponse.json({ success: false, message }, { status });
+    }
+
+    // The client priced this against an older fee schedule - make them re-quote
+    if (isStaleFeeQuote(feeScheduleVersion)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fees have changed. Please review the updated price.",
+          feeScheduleVersion: CURRENT_FEE_SCHEDULE.version,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Debit the user's balance (total cost including fees) before issuing
+    const fees = quoteCardIssuance(
+      amount,
+      walletAddress ? await resolveFeeTier(walletAddress) : "standard"
+    );
+    const creationId = crypto.randomUUID();
+    if (walletAddress) {
+      const debited = await debitCardSpend(walletAddress, {
+        type: "card_creation_debit",
+        amount: fees.totalCost,
+        serviceFee: fees.serviceFee,
+        reference: creationId,
+        feeScheduleVersion: fees.scheduleVersion,
+      });
+      if (!debited) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Insufficient balance. Need $${fees.totalCost.toFixed(
+              2
+            )} (including fees)`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    let nameOnCard = "Trench Bank"; // Default name
+    if (firstName && lastName) {
+      nameOnCard = `${String(firstName).substring(0, 25)} ${String(
+        lastName
+      ).substring(0, 25)}`.trim();
+    } else if (firstName) {
+      nameOnCard = String(firstName).substring(0, 50);
+    }
+
+    console.log(`=== CREATE CARD (${issuer.name}) ===`);
+    console.log("Amount:", amount, "BIN:", bankBin || "issuer default");
+
+    // Our issuer account balance before the attempt, to tell later whether a failed one was refunded to us
+    const issuerBalanceBefore = walletAddress
+      ? await issuer.getBalance().catch(() => undefined)
+      : undefined;
+
+    let cardId: string;
+    try {
+      ({ cardId } = await issuer.createCard({
+        amount,
+        bankBin: bankBin ? String(bankBin) : undefined,
+        nameOnCard,
+      }));
+    } catch (error) {
+      // The issuer turned it down, so no card exists - give the user their money back
+      if (error instanceof CardIssuerError && error.refused) {
+        if (walletAddress) {
+          await creditRefund(
+            walletAddress,
+            fees.totalCost,
+            creationId,
+            error.message,
+            `card_creation:${creationId}:refund`
+          );
+        }
+        const { status, message } = describeCardIssuerError(error);
+        return NextResponse.json(
+          {
+            success: false,
+            message,
+            needsFunding: error.code === "insufficient_balance" || undefined,
+          },
+          { status }
+        );
+      }
+
+      // The card may exist anyway: hold the refund until the issuer's refund to us is confirmed (see check-refunds)
+      if (walletAddress) {
+        const refund = await addPendingRefund({
+          walletAddress,
+          amount: fees.totalCost,
+          reason:
+            error instanceof Error ? error.message : "Card creation error",
+          kripiCardBalanceBefore: issuerBalanceBefore,
+        });
+        console.error(
+          `Card creation outcome unknown, pending refund ${refund.id}:`,
+          error
+        );
+      }
+      if (!(error instanceof CardIssuerError)) throw error;
+
+      return NextResponse.json(
+        {
+          success: false,
+          pending: Boolean(walletAddress) || undefined,
+          message:
+            "The card provider did not confirm the card. If it was not created, your balance will be refunded.",
+        },
+        { status: 502 }
+      );
+    }
+
+    // Register the card, and who issued it, to the wallet that paid for it
+    if (walletAddress) {
+      await upsertCard(walletAddress, cardId, {
+        issuer: issuer.id,
+        balance: amount,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Card created successfully",
+      card_id: cardId,
+      data: {
+        cardId,
+        amount,
+        issuer: issuer.id,
+      },
+    });
+  } catch (error) {
+    console.error("Create card error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
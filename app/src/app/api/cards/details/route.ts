@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { findCard, upsertCard } from "@/lib/card-store";
+import {
+  hasSealedSecrets,
+  isCardVaultConfigured,
+  sealCardSecrets,
+  splitCardDetails,
+} from "@/lib/card-vault";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { issuerForCard } from "@/lib/card-issuers";
+import { recordCardTransactions } from "@/lib/card-transactions";
+
+export const dynamic = "force-dynamic";
+
+// GET - a card's balance, status and transactions. The card number, CVV and expiry
+// are never returned here: they go into the card vault, and out through /api/cards/reveal.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cardId = searchParams.get("cardId");
+
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+
+    const issuer = issuerForCard(card);
+    const [details, transactions] = await Promise.all([
+      issuer.getCardDetails(card.cardId),
+      issuer.getTransactions(card.cardId),
+    ]);
+
+    const { summary, secrets } = splitCardDetails(details);
+
+    // First sight of the card's secrets - keep them in the vault for reveals
+    if (isCardVaultConfigured() && Object.keys(secrets).length > 0) {
+      try {
+        if (!(await hasSealedSecrets(session.walletAddress, card.cardId))) {
+          await sealCardSecrets(session.walletAddress, card.cardId, secrets);
+        }
+      } catch (error) {
+        console.error(`Failed to seal secrets of card ${card.cardId}:`, error);
+      }
+    }
+    try {
+      await recordCardTransactions(session.walletAddress, card, transactions);
+    } catch (error) {
+      console.error(
+        `Failed to record transactions of card ${card.cardId}:`,
+        error
+      );
+    }
+    if (summary.lastFour && summary.lastFour !== card.lastFour) {
+      await upsertCard(session.walletAddress, card.cardId, {
+        lastFour: summary.lastFour,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Card details retrieved successfully",
+      data: {
+        details: summary,
+        Transactions: transactions,
+      },
+    });
+  } catch (error) {
+    if (error instanceof CardIssuerError) {
+      const { status, message } = describeCardIssuerError(error);
+      return NextResponse.json({ success: false, message }, { status });
+    }
+    console.error("Get card details error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, isInternalRequest } from "@/lib/auth";
+import { findCard, upsertCard } from "@/lib/card-store";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { issuerForCard } from "@/lib/card-issuers";
+
+// POST { cardId, action } - freeze or unfreeze a card.
+// Internal callers (spending rules, see card-rules.ts) act for a wallet: { walletAddress, reason }.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    const internal = !session && isInternalRequest(request);
+    if (!session && !internal) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { cardId, action, reason } = body;
+    const walletAddress =
+      session?.walletAddress ||
+      (internal && body.walletAddress ? String(body.walletAddress) : "");
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, message: "Wallet address is required" },
+        { status: 400 }
+      );
+    }
+
+    // Validate required fields
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!action || !["freeze", "unfreeze"].includes(action)) {
+      return NextResponse.json(
+        { success: false, message: 'Action must be "freeze" or "unfreeze"' },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+    if (card.status === "closed") {
+      return NextResponse.json(
+        { success: false, message: "Card is closed" },
+        { status: 409 }
+      );
+    }
+
+    await issuerForCard(card).setFrozen(card.cardId, action === "freeze");
+    const status = action === "freeze" ? "frozen" : "active";
+    await upsertCard(walletAddress, card.cardId, { status });
+
+    if (internal) {
+      console.log(
+        `Card ${card.cardId} of ${walletAddress} ${status}: ${
+          reason || "internal request"
+        }`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Card ${
+        action === "freeze" ? "frozen" : "unfrozen"
+      } successfully`,
+      data: { cardId: card.cardId, status },
+    });
+  } catch (error) {
+    if (error instanceof CardIssuerError) {
+      const { status, message } = describeCardIssuerError(error);
+      return NextResponse.json({ success: false, message }, { status });
+    }
+    console.error("Freeze/unfreeze card error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { debitCardSpend, creditRefund } from "@/lib/ledger";
+import { findCard, withCardLease } from "@/lib/card-store";
+import {
+  quoteCardFunding,
+  isStaleFeeQuote,
+  CURRENT_FEE_SCHEDULE,
+} from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { issuerForCard } from "@/lib/card-issuers";
+import { recordCardFunding } from "@/lib/card-funding";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { cardId, amount, feeScheduleVersion } = body;
+
+    // Validate required fields
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const minimumLoad = CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad;
+    if (!amount || amount < minimumLoad) {
+      return NextResponse.json(
+        { success: false, message: `Amount must be at least $${minimumLoad}` },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+    if (card.status === "closed") {
+      return NextResponse.json(
+        { success: false, message: "Card is closed" },
+        { status: 409 }
+      );
+    }
+
+    // Don't take the user's money for an issuer we can't reach
+    const issuer = issuerForCard(card);
+    if (!issuer.isAvailable()) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `${issuer.name} is not available right now`,
+        },
+        { status: 503 }
+      );
+    }
+
+    // The client priced this against an older fee schedule - make them re-quote
+    if (isStaleFeeQuote(feeScheduleVersion)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Fees have changed. Please review the updated price.",
+          feeScheduleVersion: CURRENT_FEE_SCHEDULE.version,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Nothing else moves money on the card meanwhile (auto top-ups, closing it)
+    const response = await withCardLease(card.cardId, async () => {
+      // Closed while this request was checking it
+      const current = await findCard(session.walletAddress, card.cardId);
+      if (current?.status === "closed") {
+        return NextResponse.json(
+          { success: false, message: "Card is closed" },
+          { status: 409 }
+        );
+      }
+
+      // Debit the user's balance (total cost including fees) before funding
+      const fees = quoteCardFunding(
+        amount,
+        await resolveFeeTier(session.walletAddress)
+      );
+      const debited = await debitCardSpend(session.walletAddress, {
+        type: "card_funding_debit",
+        amount: fees.totalCost,
+        serviceFee: fees.serviceFee,
+        reference: String(cardId),
+        feeScheduleVersion: fees.scheduleVersion,
+      });
+      if (!debited) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Insufficient balance. Need $${fees.totalCost.toFixed(
+              2
+            )} (including fees)`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const funding = {
+        walletAddress: session.walletAddress,
+        cardId: card.cardId,
+        source: "manual" as const,
+        amount,
+        totalCost: fees.totalCost,
+      };
+
+      try {
+        const { reference } = await issuer.fundCard(card.cardId, amount);
+        await recordCardFunding({ ...funding, status: "funded", reference });
+        return NextResponse.json({
+          success: true,
+          message: "Card funded successfully",
+          data: { cardId: card.cardId, amount, reference },
+        });
+      } catch (error) {
+        // The issuer turned it down, so nothing was loaded - give the user their money back
+        if (error instanceof CardIssuerError && error.refused) {
+          await creditRefund(
+            session.walletAddress,
+            fees.totalCost,
+            String(cardId),
+            error.message
+          );
+          const { status, message } = describeCardIssuerError(error);
+          return NextResponse.json({ success: false, message }, { status });
+        }
+
+        // The card may have been funded anyway: settle it once the issuer reports the card's transactions
+        const reason =
+          error instanceof Error ? error.message : "Card funding error";
+        const pending = await recordCardFunding({
+          ...funding,
+          status: "pending",
+          error: reason,
+        });
+        console.error(`Card funding ${pending.id} outcome unknown:`, error);
+        return NextResponse.json(
+          {
+            success: true,
+            pending: true,
+            message:
+              "Card funding is being confirmed with the card provider. If it did not go through, your balance will be refunded.",
+            data: { cardId: card.cardId, amount, fundingId: pending.id },
+          },
+          { status: 202 }
+        );
+      }
+    });
+
+    return (
+      response ??
+      NextResponse.json(
+        {
+          success: false,
+          message: "Card is busy. Please try again in a moment.",
+        },
+        { status: 409 }
+      )
+    );
+  } catch (error) {
+    console.error("Fund card error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
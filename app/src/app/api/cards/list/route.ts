@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { getCards } from "@/lib/card-store";
+import { issuerForCard } from "@/lib/card-issuers";
+
+export const dynamic = "force-dynamic";
+
+// GET - the wallet's cards with their live balance and status.
+// The cards come from our card store; each is refreshed from the issuer that holds it.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const cards = await Promise.all(
+      (
+        await getCards(session.walletAddress)
+      ).map(async (card) => {
+        const issuer = issuerForCard(card);
+        // Closed cards keep their last known state
+        if (card.status === "closed") {
+          return {
+            cardId: card.cardId,
+            issuer: issuer.id,
+            lastFour: card.lastFour,
+            balance: 0,
+            status: card.status,
+            closedAt: card.closedAt,
+          };
+        }
+        try {
+          const details = await issuer.getCardDetails(card.cardId);
+          return {
+            cardId: card.cardId,
+            issuer: issuer.id,
+            lastFour: card.lastFour,
+            balance: details.balance,
+            status: details.status,
+          };
+        } catch (error) {
+          console.error(`Failed to refresh card ${card.cardId}:`, error);
+          return {
+            cardId: card.cardId,
+            issuer: issuer.id,
+            lastFour: card.lastFour,
+            balance: card.balance,
+            status: card.status,
+            stale: true,
+          };
+        }
+      })
+    );
+
+    return NextResponse.json({ success: true, cards });
+  } catch (error) {
+    console.error("List cards error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createActionChallenge, getSession } from "@/lib/auth";
+import { findCard } from "@/lib/card-store";
+import { REVEAL_CARD_ACTION } from "@/lib/card-vault";
+
+export const dynamic = "force-dynamic";
+
+// POST - a one-time message for the wallet to sign before /api/cards/reveal
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { cardId } = body;
+
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+
+    const challenge = await createActionChallenge(
+      session.walletAddress,
+      REVEAL_CARD_ACTION,
+      card.cardId,
+      `Card: •••• ${card.lastFour || card.cardId.slice(-4)}`
+    );
+
+    return NextResponse.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Card reveal challenge error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, verifyActionChallenge } from "@/lib/auth";
+import { findCard } from "@/lib/card-store";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { issuerForCard } from "@/lib/card-issuers";
+import {
+  REVEAL_CARD_ACTION,
+  isCardVaultConfigured,
+  openCardSecrets,
+  recordRevealAttempt,
+  sealCardSecrets,
+  splitCardDetails,
+} from "@/lib/card-vault";
+
+export const dynamic = "force-dynamic";
+
+// POST - a card's number, CVV and expiry. Needs a fresh signature of the
+// challenge from /api/cards/reveal/challenge; every attempt is audited.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { cardId, nonce, signature } = body;
+
+    if (!cardId || !nonce || !signature) {
+      return NextResponse.json(
+        { success: false, message: "cardId, nonce and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+
+    const audit = {
+      walletAddress: session.walletAddress,
+      cardId: card.cardId,
+      ip:
+        request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+        request.headers.get("x-real-ip") ||
+        undefined,
+      userAgent: request.headers.get("user-agent") || undefined,
+    };
+
+    const verified = await verifyActionChallenge(
+      session.walletAddress,
+      REVEAL_CARD_ACTION,
+      card.cardId,
+      String(nonce),
+      String(signature)
+    );
+    if (!verified) {
+      await recordRevealAttempt({
+        ...audit,
+        outcome: "denied",
+        reason: "Invalid or expired signature",
+      });
+      // 403, not 401 - the session itself is fine
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Invalid or expired signature. Please try again.",
+        },
+        { status: 403 }
+      );
+    }
+
+    let secrets = isCardVaultConfigured()
+      ? await openCardSecrets(session.walletAddress, card.cardId)
+      : null;
+
+    // Not in the vault yet - ask the issuer, and keep them for next time
+    if (!secrets?.cardNumber) {
+      try {
+        const fromIssuer = splitCardDetails(
+          await issuerForCard(card).getCardDetails(card.cardId)
+        ).secrets;
+        secrets = { ...fromIssuer, ...secrets };
+        if (isCardVaultConfigured()) {
+          await sealCardSecrets(session.walletAddress, card.cardId, fromIssuer);
+        }
+      } catch (error) {
+        if (!(error instanceof CardIssuerError)) throw error;
+        await recordRevealAttempt({
+          ...audit,
+          outcome: "unavailable",
+          reason: error.message,
+        });
+        const { status, message } = describeCardIssuerError(error);
+        return NextResponse.json({ success: false, message }, { status });
+      }
+    }
+
+    await recordRevealAttempt({ ...audit, outcome: "revealed" });
+
+    return NextResponse.json(
+      { success: true, message: "Card details revealed", data: secrets },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Card reveal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
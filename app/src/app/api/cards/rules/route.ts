@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { findCard } from "@/lib/card-store";
+import { getCardRules, parseCardRules, saveCardRules } from "@/lib/card-rules";
+
+export const dynamic = "force-dynamic";
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, message: "Wallet signature required" },
+    { status: 401 }
+  );
+}
+
+function cardNotFound() {
+  return NextResponse.json(
+    { success: false, message: "Card not found" },
+    { status: 404 }
+  );
+}
+
+// GET ?cardId= - a card's spending rules (see card-rules.ts)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const cardId = new URL(request.url).searchParams.get("cardId");
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, cardId);
+    if (!card) return cardNotFound();
+
+    return NextResponse.json({
+      success: true,
+      data: await getCardRules(session.walletAddress, card.cardId),
+    });
+  } catch (error) {
+    console.error("Get card rules error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { cardId, rules } - replace a card's spending rules
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const { cardId, rules } = await request.json();
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseCardRules(rules);
+    if (typeof parsed === "string") {
+      return NextResponse.json(
+        { success: false, message: parsed },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) return cardNotFound();
+
+    const saved = await saveCardRules(
+      session.walletAddress,
+      card.cardId,
+      parsed
+    );
+    return NextResponse.json({
+      success: true,
+      message: "Card rules saved",
+      data: saved,
+    });
+  } catch (error) {
+    console.error("Save card rules error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,58 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { kv } from '@vercel/kv';
+import { getSession } from '@/lib/auth';
+import { findCard, upsertCard } from '@/lib/card-store';
+import { hasCardSecrets, isCardVaultConfigured, migratePlaintextSecrets, sealCardSecrets } from '@/lib/card-vault';
 
-// Key prefix for cards storage
-const CARDS_PREFIX = 'cards:';
-
-interface StoredCard {
-  id: string;
-  cardId: string;
-  walletAddress: string;
-  createdAt: string;
-  lastFour?: string;
-  status: 'active' | 'frozen' | 'inactive';
-  balance?: number;
-  cardNumber?: string;
-  cvv?: string;
-  expiry?: string;
-  cardHolder?: string;
-}
-
-// Get cards for a wallet from Vercel KV
-async function getCards(walletAddress: string): Promise<StoredCard[]> {
-  try {
-    const cards = await kv.get<StoredCard[]>(`${CARDS_PREFIX}${walletAddress}`);
-    return cards || [];
-  } catch (error) {
-    console.error('Failed to get cards from KV:', error);
-    return [];
-  }
-}
-
-// Save cards for a wallet to Vercel KV
-async function saveCards(walletAddress: string, cards: StoredCard[]): Promise<void> {
-  try {
-    await kv.set(`${CARDS_PREFIX}${walletAddress}`, cards);
-  } catch (error) {
-    console.error('Failed to save cards to KV:', error);
-    throw error;
-  }
-}
-
-// GET - Retrieve cards for a wallet
+// GET - Retrieve cards for the signed-in wallet
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get('walletAddress');
-    
-    if (!walletAddress) {
+    const session = await getSession(request);
+    if (!session) {
       return NextResponse.json(
-        { success: false, message: 'Wallet address is required' },
-        { status: 400 }
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
       );
     }
-    
-    const userCards = await getCards(walletAddress);
+
+    // Card numbers and CVVs older versions stored here move to the vault
+    const userCards = await migratePlaintextSecrets(session.walletAddress);
     
     return NextResponse.json({
       success: true,
@@ -67,13 +30,22 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Store a new card
+// POST - Update a card owned by the signed-in wallet
+// (new cards are registered by /api/cards/create when they are issued).
+// Card number, CVV, expiry and cardholder go into the card vault, not the card store.
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
     const { 
       cardId, 
-      walletAddress, 
       lastFour, 
       balance, 
       cardNumber,
@@ -82,47 +54,35 @@ export async function POST(request: NextRequest) {
       cardHolder,
     } = body;
     
-    if (!cardId || !walletAddress) {
+    if (!cardId) {
       return NextResponse.json(
-        { success: false, message: 'cardId and walletAddress are required' },
+        { success: false, message: 'cardId is required' },
         { status: 400 }
       );
     }
     
-    const userCards = await getCards(walletAddress);
-    
-    // Check if card already exists
-    const existingIndex = userCards.findIndex(c => c.cardId === cardId);
-    if (existingIndex !== -1) {
-      // Update existing card
-      userCards[existingIndex] = {
-        ...userCards[existingIndex],
-        lastFour,
-        balance,
-        cardNumber,
-        cvv,
-        expiry,
-        cardHolder,
-      };
-    } else {
-      // Add new card
-      const newCard: StoredCard = {
-        id: crypto.randomUUID(),
-        cardId,
-        walletAddress,
-        createdAt: new Date().toISOString(),
-        lastFour,
-        status: 'active',
-        balance,
-        cardNumber,
-        cvv,
-        expiry,
-        cardHolder,
-      };
-      userCards.push(newCard);
+    if (!(await findCard(session.walletAddress, cardId))) {
+      return NextResponse.json(
+        { success: false, message: 'Card not found' },
+        { status: 404 }
+      );
     }
     
-    await saveCards(walletAddress, userCards);
+    const secrets = { cardNumber, cvv, expiry, cardHolder };
+    if (hasCardSecrets(secrets)) {
+      if (!isCardVaultConfigured()) {
+        return NextResponse.json(
+          { success: false, message: 'Card vault not configured' },
+          { status: 500 }
+        );
+      }
+      await sealCardSecrets(session.walletAddress, cardId, secrets);
+    }
+
+    await upsertCard(session.walletAddress, cardId, {
+      lastFour: lastFour || (typeof cardNumber === 'string' ? cardNumber.slice(-4) : undefined),
+      balance,
+    });
     
     return NextResponse.json({
       success: true,
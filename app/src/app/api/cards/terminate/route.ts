@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { findCard } from "@/lib/card-store";
+import { CardIssuerError, describeCardIssuerError } from "@/lib/card-issuer";
+import { terminateCard } from "@/lib/card-termination";
+
+export const dynamic = "force-dynamic";
+
+// POST { cardId } - close a card for good and credit what was left on it
+// to the TrenchBank balance (see card-termination.ts)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const { cardId } = await request.json();
+    if (!cardId) {
+      return NextResponse.json(
+        { success: false, message: "Card ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const card = await findCard(session.walletAddress, String(cardId));
+    if (!card) {
+      return NextResponse.json(
+        { success: false, message: "Card not found" },
+        { status: 404 }
+      );
+    }
+    if (card.status === "closed") {
+      return NextResponse.json(
+        { success: false, message: "Card is already closed" },
+        { status: 409 }
+      );
+    }
+
+    const result = await terminateCard(session.walletAddress, card);
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Card is busy. Please try again in a moment.",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Card closed. $${result.residualBalance.toFixed(
+        2
+      )} returned to your balance`,
+      data: {
+        cardId: card.cardId,
+        residualBalance: result.residualBalance,
+        closedAt: result.card.closedAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof CardIssuerError) {
+      const { status, message } = describeCardIssuerError(error);
+      return NextResponse.json({ success: false, message }, { status });
+    }
+    console.error("Terminate card error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { getCards } from "@/lib/card-store";
+import {
+  searchCardTransactions,
+  type CardTransactionFilter,
+} from "@/lib/card-transactions";
+import { isStatementFormat, toCsv, toOfx } from "@/lib/card-statements";
+import { isSpendingCategory } from "@/lib/merchants";
+
+export const dynamic = "force-dynamic";
+
+const TRANSACTION_TYPES = ["charge", "refund", "funding"];
+
+// GET - the wallet's synced card transactions, newest first.
+//
+// Filters: cardId, q (merchant or transaction ID), merchant, category, type,
+// from and to (ISO dates). format=csv or format=ofx downloads them instead.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get("category");
+    const type = searchParams.get("type");
+    const format = searchParams.get("format") || "json";
+
+    if (category && !isSpendingCategory(category)) {
+      return NextResponse.json(
+        { success: false, message: "Unknown category" },
+        { status: 400 }
+      );
+    }
+    if (type && !TRANSACTION_TYPES.includes(type)) {
+      return NextResponse.json(
+        { success: false, message: "Unknown transaction type" },
+        { status: 400 }
+      );
+    }
+    if (format !== "json" && !isStatementFormat(format)) {
+      return NextResponse.json(
+        { success: false, message: "Format must be json, csv or ofx" },
+        { status: 400 }
+      );
+    }
+    for (const param of ["from", "to"]) {
+      const value = searchParams.get(param);
+      if (value && isNaN(Date.parse(value))) {
+        return NextResponse.json(
+          { success: false, message: `Invalid ${param} date` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const filter: CardTransactionFilter = {
+      cardId: searchParams.get("cardId") || undefined,
+      query: searchParams.get("q") || undefined,
+      merchant: searchParams.get("merchant") || undefined,
+      category: category && isSpendingCategory(category) ? category : undefined,
+      type: (type || undefined) as CardTransactionFilter["type"],
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    };
+
+    const transactions = await searchCardTransactions(
+      session.walletAddress,
+      filter
+    );
+
+    if (format === "json") {
+      return NextResponse.json({ success: true, data: transactions });
+    }
+
+    const cards = await getCards(session.walletAddress);
+    const filename = `kryptcash-card-transactions-${new Date()
+      .toISOString()
+      .slice(0, 10)}.${format}`;
+
+    return new NextResponse(
+      format === "csv"
+        ? toCsv(transactions, cards)
+        : toOfx(transactions, cards),
+      {
+        headers: {
+          "Content-Type":
+            format === "csv" ? "text/csv; charset=utf-8" : "application/x-ofx",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Card transactions error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, isCronRequest, isInternalRequest } from "@/lib/auth";
+import {
+  runCardTransactionSync,
+  syncWalletCardTransactions,
+} from "@/lib/card-transactions";
+
+export const dynamic = "force-dynamic";
+
+// Pulls card transactions from the issuers (see card-transactions.ts).
+//
+// - Vercel Cron (GET, see vercel.json) and internal calls: sync every card
+// - Signed-in wallets: sync their own cards right away
+async function sync(
+  request: NextRequest,
+  everyCard: boolean
+): Promise<NextResponse> {
+  try {
+    if (everyCard) {
+      const result = await runCardTransactionSync();
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        ...result,
+      });
+    }
+
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await syncWalletCardTransactions(session.walletAddress);
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Card transaction sync error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  return sync(request, true);
+}
+
+export async function POST(request: NextRequest) {
+  return sync(request, isInternalRequest(request));
+}
@@ -2,78 +2,91 @@ import { NextRequest, NextResponse } from 'next/server';
 import { 
   CryptoCurrency, 
   CryptoNetwork, 
+  CryptoDepositRequest,
   generateDepositReference,
   usdToCrypto,
-  NETWORK_CONFIG,
 } from '@/lib/crypto-deposit';
+import { getAsset, getNetwork, isCryptoCurrency, isCryptoNetwork, isEvmNetwork } from '@/lib/assets';
+import { getSession } from '@/lib/auth';
+import { lockPriceQuote } from '@/lib/price-oracle';
+import { saveCryptoDeposit } from '@/lib/crypto-deposit-store';
+import { buildDepositPaymentUri } from '@/lib/payment-uri';
+import { getEvmChainId } from '@/lib/ethereum-payouts';
+import {
+  generateReferenceKey,
+  getEthereumDepositAddress,
+  isEthereumDerivationConfigured,
+} from '@/lib/deposit-binding';
 
-// Minimum deposit amounts
+// Minimum deposit amounts (assets can set a higher one)
 const MIN_DEPOSIT_USD = 20;
 
-// Get deposit addresses from environment variables
-function getDepositAddress(network: CryptoNetwork): string | null {
-  if (network === 'solana') {
-    return process.env.DEPOSIT_WALLET_SOLANA || null;
-  } else if (network === 'ethereum') {
-    return process.env.DEPOSIT_WALLET_ETHEREUM || null;
+// Solana deposits go to the shared deposit wallet (bound by reference key
+// or memo); EVM deposits to the user's own derived address, the same one
+// on every EVM network
+async function getDepositAddress(network: CryptoNetwork, walletAddress: string): Promise<string | null> {
+  if (isEvmNetwork(network)) {
+    return isEthereumDerivationConfigured() ? getEthereumDepositAddress(walletAddress) : null;
   }
-  return null;
+  return process.env.DEPOSIT_WALLET_SOLANA || null;
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
+      );
+    }
+    const walletAddress = session.walletAddress;
+
     const body = await request.json();
-    const { walletAddress, amount, netAmount, currency, network } = body as {
-      walletAddress: string;
+    const { amount, netAmount, currency, network } = body as {
       amount: number; // Gross amount (what user sends, including fees)
       netAmount?: number; // Net amount (what user receives after fees)
       currency: CryptoCurrency;
       network: CryptoNetwork;
     };
 
-    // Validate wallet address
-    if (!walletAddress || typeof walletAddress !== 'string') {
-      return NextResponse.json(
-        { success: false, message: 'Wallet address is required' },
-        { status: 400 }
-      );
-    }
-
-    // Validate amount - check netAmount if provided, otherwise gross amount
-    const amountToValidate = netAmount || amount;
-    if (!amountToValidate || amountToValidate < MIN_DEPOSIT_USD) {
+    // Validate currency
+    if (!isCryptoCurrency(currency)) {
       return NextResponse.json(
-        { success: false, message: `Minimum amount to receive is $${MIN_DEPOSIT_USD}` },
+        { success: false, message: 'Invalid currency' },
         { status: 400 }
       );
     }
 
-    // Validate currency
-    if (!currency || !['SOL', 'USDT', 'ETH'].includes(currency)) {
+    // Validate network
+    if (!isCryptoNetwork(network)) {
       return NextResponse.json(
-        { success: false, message: 'Invalid currency. Use SOL, USDT, or ETH' },
+        { success: false, message: 'Invalid network' },
         { status: 400 }
       );
     }
 
-    // Validate network
-    if (!network || !['solana', 'ethereum'].includes(network)) {
+    // Check if currency is valid for network
+    const asset = getAsset(network, currency);
+    if (!asset?.deposits) {
       return NextResponse.json(
-        { success: false, message: 'Invalid network. Use solana or ethereum' },
+        { success: false, message: `${currency} deposits are not available on ${getNetwork(network).name}` },
         { status: 400 }
       );
     }
 
-    // Check if currency is valid for network
-    if (!NETWORK_CONFIG[network].currencies.includes(currency)) {
+    // Validate amount - check netAmount if provided, otherwise gross amount
+    const minimum = Math.max(MIN_DEPOSIT_USD, asset.minDeposit);
+    const amountToValidate = netAmount || amount;
+    if (!amountToValidate || amountToValidate < minimum) {
       return NextResponse.json(
-        { success: false, message: `${currency} is not available on ${network}` },
+        { success: false, message: `Minimum amount to receive is $${minimum}` },
         { status: 400 }
       );
     }
 
     // Get deposit address
-    const depositAddress = getDepositAddress(network);
+    const depositAddress = await getDepositAddress(network, walletAddress);
     if (!depositAddress) {
       return NextResponse.json(
         { success: false, message: `${network} deposits not configured. Contact support.` },
@@ -84,29 +97,45 @@ export async function POST(request: NextRequest) {
     // Generate unique reference
     const reference = generateDepositReference();
     
+    // Lock the price the deposit is quoted at; verification credits at this price
+    const priceQuote = await lockPriceQuote({ walletAddress, symbol: currency, purpose: 'deposit' });
+
     // Calculate crypto amount
-    const cryptoAmount = usdToCrypto(amount, currency);
+    const cryptoAmount = usdToCrypto(amount, currency, priceQuote.price);
 
     // Create deposit request
-    const deposit = {
+    const deposit: CryptoDepositRequest = {
       id: crypto.randomUUID(),
       walletAddress,
       amount, // Gross amount (what user sends)
       netAmount: netAmount || amount, // Net amount (what user receives)
       cryptoAmount,
+      cryptoPrice: priceQuote.price,
+      priceQuoteId: priceQuote.id,
+      priceLockedUntil: priceQuote.expiresAt,
       currency,
       network,
       depositAddress,
       reference,
-      status: 'pending' as const,
+      referenceKey: network === 'solana' ? generateReferenceKey() : undefined,
+      status: 'pending',
       createdAt: new Date().toISOString(),
       expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour
     };
 
+    // Lets a wallet pre-fill the exact payment (QR code / deep link)
+    deposit.paymentUri = buildDepositPaymentUri(
+      deposit,
+      isEvmNetwork(network) ? getEvmChainId(network) : undefined
+    );
+
+    // Kept server-side so the deposit watcher can match the payment to it
+    await saveCryptoDeposit(deposit);
+
     console.log('=== CRYPTO DEPOSIT CREATED ===');
     console.log('Deposit ID:', deposit.id);
     console.log('Reference:', reference);
-    console.log('Gross Amount:', `$${amount} = ${cryptoAmount} ${currency}`);
+    console.log('Gross Amount:', `$${amount} = ${cryptoAmount} ${currency} @ $${priceQuote.price}`);
     console.log('Net Amount (user receives):', `$${netAmount || amount}`);
     console.log('Network:', network);
     console.log('Deposit Address:', depositAddress);
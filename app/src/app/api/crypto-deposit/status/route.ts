@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import {
+  getCryptoDeposit,
+  getWalletCryptoDeposits,
+} from "@/lib/crypto-deposit-store";
+import {
+  advanceConfirmingDeposit,
+  confirmByReference,
+} from "@/lib/deposit-watcher";
+
+export const dynamic = "force-dynamic";
+
+// GET ?id= one of the signed-in wallet's deposit requests, or all of them without an id
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { success: false, message: "Wallet signature required" },
+      { status: 401 }
+    );
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({
+      success: true,
+      data: await getWalletCryptoDeposits(session.walletAddress),
+    });
+  }
+
+  let deposit = await getCryptoDeposit(id);
+  if (!deposit || deposit.walletAddress !== session.walletAddress) {
+    return NextResponse.json(
+      { success: false, message: "Deposit not found" },
+      { status: 404 }
+    );
+  }
+
+  // Look the payment up by its reference key instead of waiting for the next watcher run
+  if (deposit.status === "pending" && deposit.referenceKey) {
+    try {
+      deposit = (await confirmByReference(id)) ?? deposit;
+    } catch (error) {
+      console.error("Reference lookup failed:", error);
+    }
+  }
+
+  // Likewise, credit it as soon as its transaction is final
+  if (deposit.status === "confirming") {
+    try {
+      await advanceConfirmingDeposit(deposit);
+      deposit = (await getCryptoDeposit(id)) ?? deposit;
+    } catch (error) {
+      console.error("Finality check failed:", error);
+    }
+  }
+
+  return NextResponse.json({ success: true, data: deposit });
+}
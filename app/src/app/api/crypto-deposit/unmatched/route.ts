@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isInternalRequest } from "@/lib/auth";
+import {
+  clearCryptoDepositFlag,
+  getFlaggedCryptoDeposits,
+  getUnmatchedTransfers,
+  resolveUnmatchedTransfer,
+} from "@/lib/crypto-deposit-store";
+
+export const dynamic = "force-dynamic";
+
+// GET transfers to the deposit addresses that matched no request, and
+// deposit requests flagged for support (e.g. reorged payments) (internal only)
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const status =
+    new URL(request.url).searchParams.get("status") === "resolved"
+      ? "resolved"
+      : "open";
+  const transfers = await getUnmatchedTransfers(status);
+  const flaggedDeposits = await getFlaggedCryptoDeposits();
+
+  return NextResponse.json({
+    success: true,
+    transfers,
+    total: transfers.length,
+    flaggedDeposits,
+  });
+}
+
+// POST { id, note? } - mark an unmatched transfer as sorted out, or
+// { depositId } - clear a deposit request's flag (internal only)
+export async function POST(request: NextRequest) {
+  try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const { id, depositId, note } = await request.json();
+
+    if (depositId) {
+      const deposit = await clearCryptoDepositFlag(depositId);
+      if (!deposit) {
+        return NextResponse.json(
+          { success: false, message: "Deposit not found or not flagged" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ success: true, deposit });
+    }
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, message: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const transfer = await resolveUnmatchedTransfer(id, note);
+    if (!transfer) {
+      return NextResponse.json(
+        { success: false, message: "Transfer not found or already resolved" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, transfer });
+  } catch (error) {
+    console.error("Resolve unmatched transfer error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
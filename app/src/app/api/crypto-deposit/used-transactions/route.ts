@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isInternalRequest } from "@/lib/auth";
+import { getCryptoDeposit } from "@/lib/crypto-deposit-store";
+import {
+  getTransactionClaim,
+  getWalletTransactionClaims,
+} from "@/lib/transaction-registry";
+
+export const dynamic = "force-dynamic";
+
+// GET ?signature= who claimed a transaction (with the deposit it paid), or
+// ?wallet= every transaction claimed for a wallet's deposits (internal only)
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const params = new URL(request.url).searchParams;
+  const signature = params.get("signature");
+  const wallet = params.get("wallet");
+
+  if (signature) {
+    const claim = await getTransactionClaim(signature);
+    if (!claim) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Transaction has not been used for a deposit",
+        },
+        { status: 404 }
+      );
+    }
+    const deposit = claim.depositId
+      ? await getCryptoDeposit(claim.depositId)
+      : null;
+    return NextResponse.json({ success: true, claim, deposit });
+  }
+
+  if (wallet) {
+    const claims = await getWalletTransactionClaims(wallet);
+    return NextResponse.json({ success: true, claims, total: claims.length });
+  }
+
+  return NextResponse.json(
+    { success: false, message: "signature or wallet is required" },
+    { status: 400 }
+  );
+}
@@ -1,161 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Connection } from '@solana/web3.js';
-import { kv } from '@vercel/kv';
-
-// Key for used transactions in Vercel KV
-const USED_TX_KEY = 'used_transactions';
-
-async function loadUsedTransactions(): Promise<Set<string>> {
-  try {
-    const txArray = await kv.get<string[]>(USED_TX_KEY);
-    return new Set(txArray || []);
-  } catch (error) {
-    console.error('Failed to load used transactions:', error);
-  return new Set();
-  }
-}
-
-async function saveUsedTransactions(txSet: Set<string>): Promise<void> {
-  try {
-    await kv.set(USED_TX_KEY, Array.from(txSet));
-  } catch (error) {
-    console.error('Failed to save used transactions:', error);
-    throw error;
-  }
-}
-
-// Verify a Solana transaction
-async function verifySolanaTransaction(
-  txSignature: string,
-  expectedAddress: string,
-  expectedAmount: number,
-  currency: 'SOL' | 'USDT'
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getSession } from '@/lib/auth';
+import { getUserBalance } from '@/lib/ledger';
+import { quoteDeposit } from '@/lib/fees';
+import { resolveFeeTier } from '@/lib/fee-tier';
+import { consumePriceQuote, getPrice, getPriceQuote } from '@/lib/price-oracle';
+import {
+  closeVerifiedCryptoDeposit,
+  creditCryptoDeposit,
+  getCryptoDeposit,
+} from '@/lib/crypto-deposit-store';
+import { claimTransaction, getTransactionClaim, releaseTransaction } from '@/lib/transaction-registry';
+import { isTransferBoundTo, readEthereumTransfers, readSolanaTransfers } from '@/lib/deposit-watcher';
+import { getEthereumDepositOwner } from '@/lib/deposit-binding';
+import { checkFinality, describeFinality, getFinalityRequirement } from '@/lib/deposit-finality';
+import { isEvmNetwork } from '@/lib/assets';
+import type { CryptoDepositRequest } from '@/lib/crypto-deposit';
+
+// Verify that a transaction pays `deposit`: received at the deposit's
+// address, in its currency, carrying its binding (see deposit-binding.ts)
+async function verifyDepositTransaction(
+  deposit: CryptoDepositRequest,
+  txSignature: string
 ): Promise<{ valid: boolean; message: string; actualAmount?: number }> {
   try {
-    const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
-    
-    // Get transaction details
-    const tx = await connection.getParsedTransaction(txSignature, {
-      maxSupportedTransactionVersion: 0,
-    });
-    
-    if (!tx) {
+    let transfers;
+    if (isEvmNetwork(deposit.network)) {
+      // Only the user's own derived address binds an EVM deposit
+      if ((await getEthereumDepositOwner(deposit.depositAddress)) !== deposit.walletAddress) {
+        return { valid: false, message: 'This deposit has no personal deposit address. Please create a new deposit.' };
+      }
+      transfers = await readEthereumTransfers(txSignature, [deposit.depositAddress], deposit.network);
+    } else {
+      const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com';
+      const connection = new Connection(rpcUrl, 'confirmed');
+      transfers = await readSolanaTransfers(connection, txSignature, new PublicKey(deposit.depositAddress));
+    }
+
+    if (!transfers) {
       return { valid: false, message: 'Transaction not found. It may still be processing.' };
     }
-    
-    if (tx.meta?.err) {
-      return { valid: false, message: 'Transaction failed on-chain' };
+
+    const transfer = transfers.find(t => t.currency === deposit.currency);
+    if (!transfer) {
+      return { valid: false, message: `No ${deposit.currency} received at the deposit address in this transaction` };
     }
-    
-    // Check for SOL transfer
-    if (currency === 'SOL') {
-      // Look for SOL transfer in post balances
-      const accountKeys = tx.transaction.message.accountKeys;
-      const preBalances = tx.meta?.preBalances || [];
-      const postBalances = tx.meta?.postBalances || [];
-      
-      // Find the deposit address in the transaction
-      const depositIndex = accountKeys.findIndex(
-        key => key.pubkey.toString() === expectedAddress
-      );
-      
-      if (depositIndex === -1) {
-        return { valid: false, message: 'Deposit address not found in transaction' };
-      }
-      
-      // Calculate received amount (in SOL)
-      const received = (postBalances[depositIndex] - preBalances[depositIndex]) / 1e9;
-      
-      if (received <= 0) {
-        return { valid: false, message: 'No SOL received in this transaction' };
-      }
-      
-      // Allow 1% tolerance for price fluctuations
-      const tolerance = expectedAmount * 0.01;
-      if (received < expectedAmount - tolerance) {
-        return { 
-          valid: false, 
-          message: `Insufficient amount. Expected ${expectedAmount} SOL, received ${received} SOL`,
-          actualAmount: received,
-        };
-      }
-      
-      return { valid: true, message: 'Transaction verified', actualAmount: received };
+
+    if (!isTransferBoundTo(transfer, deposit)) {
+      return {
+        valid: false,
+        message: `Transaction does not include this deposit's reference (${deposit.reference})`,
+        actualAmount: transfer.amount,
+      };
     }
-    
-    // Check for USDT (SPL token) transfer
-    if (currency === 'USDT') {
-      const instructions = tx.transaction.message.instructions;
-      
-      let usdtReceived = 0;
-      
-      // Check parsed instructions for SPL token transfers
-      for (const ix of instructions) {
-        if ('parsed' in ix && ix.program === 'spl-token') {
-          const parsed = ix.parsed;
-          if (parsed.type === 'transfer' || parsed.type === 'transferChecked') {
-            const info = parsed.info;
-            // Check if it's USDT and going to our address
-            if (info.destination && info.amount) {
-              // Would need to resolve token account to wallet address
-              // For simplicity, we'll check the amount
-              usdtReceived += Number(info.amount) / 1e6; // USDT has 6 decimals
-            }
-          }
-        }
-      }
-      
-      if (usdtReceived <= 0) {
-        return { valid: false, message: 'No USDT transfer found in this transaction' };
-      }
-      
-      const tolerance = expectedAmount * 0.01;
-      if (usdtReceived < expectedAmount - tolerance) {
-        return {
-          valid: false,
-          message: `Insufficient amount. Expected ${expectedAmount} USDT, received ${usdtReceived} USDT`,
-          actualAmount: usdtReceived,
-        };
-      }
-      
-      return { valid: true, message: 'Transaction verified', actualAmount: usdtReceived };
+
+    // Allow 1% tolerance for price fluctuations
+    const tolerance = deposit.cryptoAmount * 0.01;
+    if (transfer.amount < deposit.cryptoAmount - tolerance) {
+      return {
+        valid: false,
+        message: `Insufficient amount. Expected ${deposit.cryptoAmount} ${deposit.currency}, received ${transfer.amount} ${deposit.currency}`,
+        actualAmount: transfer.amount,
+      };
     }
-    
-    return { valid: false, message: 'Unknown currency' };
+
+    return { valid: true, message: 'Transaction verified', actualAmount: transfer.amount };
   } catch (error) {
-    console.error('Solana verification error:', error);
+    console.error('Deposit verification error:', error);
     return { valid: false, message: 'Failed to verify transaction. Please try again.' };
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
-    const { 
-      depositId,
-      txSignature, 
-      network, 
-      currency, 
-      expectedAmount,
-      depositAddress,
-    } = body;
-
-    if (!txSignature) {
+    const { depositId, txSignature } = body;
+
+    if (!txSignature || !depositId) {
       return NextResponse.json(
-        { success: false, message: 'Transaction signature is required' },
+        { success: false, message: 'Deposit ID and transaction signature are required' },
         { status: 400 }
       );
     }
 
+    // The request the user is paying - its binding, address and quote come from the server
+    const deposit = await getCryptoDeposit(depositId);
+    if (!deposit || deposit.walletAddress !== session.walletAddress) {
+      return NextResponse.json(
+        { success: false, message: 'Deposit request not found' },
+        { status: 404 }
+      );
+    }
+    if (deposit.status === 'confirming' || deposit.status === 'completed') {
+      return NextResponse.json(
+        { success: false, message: deposit.status === 'completed' ? 'This deposit has already been credited' : 'Payment already detected - it will be credited once confirmed' },
+        { status: 409 }
+      );
+    }
+    const { network, currency, priceQuoteId } = deposit;
+
     // Normalize the transaction signature (trim whitespace)
     const normalizedTxSig = txSignature.trim();
 
-    // Load used transactions from KV
-    const usedTransactions = await loadUsedTransactions();
-
-    // CHECK FOR DUPLICATE TRANSACTION - CRITICAL SECURITY CHECK
-    if (usedTransactions.has(normalizedTxSig)) {
+    // Quick duplicate check (also covers transactions the deposit watcher
+    // already picked up); the claim below is what actually guards it
+    if (await getTransactionClaim(normalizedTxSig)) {
       console.log('=== DUPLICATE TRANSACTION DETECTED ===');
       console.log('TX Signature:', normalizedTxSig);
       return NextResponse.json(
@@ -164,63 +121,100 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!network || !['solana', 'ethereum'].includes(network)) {
-      return NextResponse.json(
-        { success: false, message: 'Valid network is required' },
-        { status: 400 }
-      );
-    }
-
     console.log('=== VERIFYING CRYPTO DEPOSIT ===');
     console.log('Deposit ID:', depositId);
     console.log('TX Signature:', normalizedTxSig);
     console.log('Network:', network);
     console.log('Currency:', currency);
-    console.log('Expected Amount:', expectedAmount);
+    console.log('Expected Amount:', deposit.cryptoAmount);
 
-    let verificationResult: { valid: boolean; message: string; actualAmount?: number };
-
-    if (network === 'solana') {
-      verificationResult = await verifySolanaTransaction(
-        normalizedTxSig,
-        depositAddress,
-        expectedAmount,
-        currency
-      );
-    } else if (network === 'ethereum') {
-      // For Ethereum, we'd need to use ethers.js or similar
-      // For now, return a placeholder
-      verificationResult = {
-        valid: false,
-        message: 'Ethereum verification coming soon. Please contact support with your TX hash.',
-      };
-    } else {
-      verificationResult = { valid: false, message: 'Unsupported network' };
-    }
+    const verificationResult = await verifyDepositTransaction(deposit, normalizedTxSig);
 
     console.log('Verification Result:', verificationResult);
 
     if (verificationResult.valid) {
-      // MARK TRANSACTION AS USED - Prevent double-spending
-      usedTransactions.add(normalizedTxSig);
-      await saveUsedTransactions(usedTransactions);
-      console.log('Transaction marked as used:', normalizedTxSig);
+      // Price at the quote locked when the deposit was created, or the live
+      // oracle price if that quote has expired. The quote is only read here and
+      // consumed once the deposit is closed, so a failed attempt can be retried at it
+      const quoteOwner = { walletAddress: session.walletAddress, symbol: currency, purpose: 'deposit' as const };
+      const priceQuote = priceQuoteId ? await getPriceQuote(priceQuoteId, quoteOwner) : null;
+      const cryptoPrice = priceQuote ? priceQuote.price : await getPrice(currency);
 
       // Calculate USD value to credit
-      const usdAmount = currency === 'USDT' 
-        ? verificationResult.actualAmount 
-        : (verificationResult.actualAmount || 0) * (currency === 'SOL' ? 185 : 3200);
+      const usdAmount = Math.round((verificationResult.actualAmount || 0) * cryptoPrice * 100) / 100;
+
+      // Credit the net amount (after the deposit fee for this rail) to the signed-in wallet
+      const quote = quoteDeposit(network, usdAmount, await resolveFeeTier(session.walletAddress));
+      const feeAmount = Math.min(usdAmount, quote.fee);
+      const creditAmount = quote.netAmount;
+
+      // Credit now only if the transaction is already as settled as the
+      // finality policy wants for this amount; otherwise the deposit watcher
+      // completes it once it is
+      const finality = getFinalityRequirement(network, usdAmount);
+      const finalityCheck = await checkFinality(network, normalizedTxSig, finality);
+      const status = finalityCheck.state === 'final' ? 'completed' : 'confirming';
+
+      // CLAIM THE TRANSACTION - only one deposit can ever be paid by it
+      const claimed = await claimTransaction(normalizedTxSig, {
+        network,
+        depositId,
+        walletAddress: session.walletAddress,
+        source: 'verify',
+      });
+      if (!claimed) {
+        return NextResponse.json(
+          { success: false, message: 'This transaction has already been used to verify a deposit.' },
+          { status: 400 }
+        );
+      }
+      console.log('Transaction claimed:', normalizedTxSig);
+
+      // Close the request first, so it's credited once even if the deposit watcher picks up the same payment
+      const closed = await closeVerifiedCryptoDeposit(depositId, session.walletAddress, status, {
+        txSignature: normalizedTxSig,
+        receivedAmount: verificationResult.actualAmount,
+        creditPrice: cryptoPrice,
+        creditAmount,
+        feeAmount,
+        feeScheduleVersion: quote.scheduleVersion,
+        finality,
+        confirmations: finalityCheck.confirmations,
+      });
+      if (!closed) {
+        await releaseTransaction(normalizedTxSig, depositId);
+        return NextResponse.json(
+          { success: false, message: 'This deposit has already been credited' },
+          { status: 409 }
+        );
+      }
+      if (priceQuote) await consumePriceQuote(priceQuote.id, quoteOwner);
+      if (status === 'completed') await creditCryptoDeposit(closed);
+      const balance = status === 'completed' && creditAmount > 0
+        ? (await getUserBalance(session.walletAddress)).balance
+        : undefined;
 
       return NextResponse.json({
         success: true,
-        message: 'Transaction verified successfully',
+        message: status === 'completed'
+          ? 'Transaction verified successfully'
+          : `Transaction verified - waiting for ${describeFinality(finality)} before crediting`,
         data: {
           depositId,
           txSignature: normalizedTxSig,
           verified: true,
+          status,
+          finality,
+          confirmations: finalityCheck.confirmations,
           actualAmount: verificationResult.actualAmount,
           currency,
+          cryptoPrice,
+          priceSource: priceQuote ? 'locked' : 'live',
           usdValue: usdAmount,
+          feeAmount,
+          creditAmount,
+          feeScheduleVersion: quote.scheduleVersion,
+          balance,
         },
       });
     } else {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest, isInternalRequest } from "@/lib/auth";
+import { runDepositWatcher } from "@/lib/deposit-watcher";
+
+export const dynamic = "force-dynamic";
+
+// Runs the deposit watcher (see deposit-watcher.ts). Internal only - run by
+// Vercel Cron (GET, see vercel.json) or POSTed with the internal secret.
+async function runWatcher(): Promise<NextResponse> {
+  try {
+    const result = await runDepositWatcher();
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Deposit watcher error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  return runWatcher();
+}
+
+export async function POST(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  return runWatcher();
+}
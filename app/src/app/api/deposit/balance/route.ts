@@ -1,128 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { kv } from '@vercel/kv';
+import { getBalanceBreakdown, getUserBalance } from '@/lib/ledger';
+import { getSession } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
-// Key prefix for balance storage
-const BALANCE_PREFIX = 'balance:';
+// Balances only change through ledger postings made by other server routes
+// (deposit webhooks/verification, card creation/funding, withdrawals, refunds).
+// There is deliberately no POST handler: credits are never callable over HTTP.
 
-interface UserBalance {
-  balance: number;
-  totalDeposited: number;
-  totalSpent: number;
-  lastUpdated: string;
-}
-
-// Get balance from Vercel KV
-async function getBalance(walletAddress: string): Promise<UserBalance> {
-  try {
-    const balance = await kv.get<UserBalance>(`${BALANCE_PREFIX}${walletAddress}`);
-    return balance || {
-      balance: 0,
-      totalDeposited: 0,
-      totalSpent: 0,
-      lastUpdated: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error('Failed to get balance from KV:', error);
-    return {
-      balance: 0,
-      totalDeposited: 0,
-      totalSpent: 0,
-      lastUpdated: new Date().toISOString(),
-    };
-  }
-}
-
-// Save balance to Vercel KV
-async function saveBalance(walletAddress: string, balance: UserBalance): Promise<void> {
-  try {
-    await kv.set(`${BALANCE_PREFIX}${walletAddress}`, balance);
-  } catch (error) {
-    console.error('Failed to save balance to KV:', error);
-    throw error;
-  }
-}
-
-// Get balance
+// Get balance for the signed-in wallet (computed from the ledger)
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const walletAddress = searchParams.get('wallet');
-
-    if (!walletAddress) {
+    const session = await getSession(request);
+    if (!session) {
       return NextResponse.json(
-        { success: false, message: 'Wallet address is required' },
-        { status: 400 }
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
       );
     }
 
-    const balance = await getBalance(walletAddress);
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        walletAddress,
-        ...balance,
-      },
-    });
-  } catch (error) {
-    console.error('Get balance error:', error);
-    return NextResponse.json(
-      { success: false, message: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
-
-// Update balance (internal use - for crediting after deposits or debiting after card operations)
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { walletAddress, action, amount } = body;
+    const searchParams = request.nextUrl.searchParams;
+    const walletAddress = session.walletAddress;
+    const includeEntries = searchParams.get('entries') === 'true';
 
-    if (!walletAddress || !action || typeof amount !== 'number') {
+    if (searchParams.get('wallet') && searchParams.get('wallet') !== walletAddress) {
       return NextResponse.json(
-        { success: false, message: 'Invalid request parameters' },
-        { status: 400 }
+        { success: false, message: 'Session does not match wallet' },
+        { status: 403 }
       );
     }
 
-    const current = await getBalance(walletAddress);
-
-    if (action === 'credit') {
-      // Add funds (deposit completed)
-      current.balance += amount;
-      current.totalDeposited += amount;
-    } else if (action === 'debit') {
-      // Remove funds (card created/funded)
-      if (current.balance < amount) {
-        return NextResponse.json(
-          { success: false, message: 'Insufficient balance' },
-          { status: 400 }
-        );
-      }
-      current.balance -= amount;
-      current.totalSpent += amount;
-    } else {
-      return NextResponse.json(
-        { success: false, message: 'Invalid action. Use "credit" or "debit"' },
-        { status: 400 }
-      );
+    if (includeEntries) {
+      const breakdown = await getBalanceBreakdown(walletAddress);
+      return NextResponse.json({ success: true, data: breakdown });
     }
 
-    current.lastUpdated = new Date().toISOString();
-    await saveBalance(walletAddress, current);
+    const balance = await getUserBalance(walletAddress);
 
     return NextResponse.json({
       success: true,
-      data: {
-        walletAddress,
-        ...current,
-      },
+      data: balance,
     });
   } catch (error) {
-    console.error('Update balance error:', error);
+    console.error('Get balance error:', error);
     return NextResponse.json(
       { success: false, message: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
@@ -1,23 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPayment } from '@/lib/cryptomus';
+import { getSession } from '@/lib/auth';
+import { quoteDeposit, CURRENT_FEE_SCHEDULE } from '@/lib/fees';
+import { resolveFeeTier } from '@/lib/fee-tier';
 
 // Minimum deposit amount in USD
-const MIN_DEPOSIT = 20;
-const DEPOSIT_FEE_PERCENT = 2;
-const DEPOSIT_FEE_FIXED = 5;
+const MIN_DEPOSIT = CURRENT_FEE_SCHEDULE.deposits.cryptomus.minimum;
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { amount, walletAddress, currency } = body;
-
-    // Validate wallet address
-    if (!walletAddress || typeof walletAddress !== 'string') {
+    const session = await getSession(request);
+    if (!session) {
       return NextResponse.json(
-        { success: false, message: 'Wallet address is required' },
-        { status: 400 }
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
       );
     }
+    const walletAddress = session.walletAddress;
+
+    const body = await request.json();
+    const { amount, currency } = body;
 
     // Validate amount
     const depositAmount = parseFloat(amount);
@@ -28,8 +30,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate fee (similar to KripiCard: 2% + $5)
-    const fee = (depositAmount * DEPOSIT_FEE_PERCENT / 100) + DEPOSIT_FEE_FIXED;
+    // Fee is added on top of the invoice (see fees.ts)
+    const { fee, scheduleVersion } = quoteDeposit('cryptomus', depositAmount, await resolveFeeTier(walletAddress));
     const totalAmount = depositAmount + fee;
 
     // Generate unique order ID
@@ -80,6 +82,7 @@ export async function POST(request: NextRequest) {
         amount: depositAmount,
         fee,
         totalAmount,
+        feeScheduleVersion: scheduleVersion,
         currency: 'USD',
         expiresAt: result.expired_at,
         status: result.status,
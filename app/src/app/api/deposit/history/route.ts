@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { getDepositHistory } from "@/lib/deposit-reconciliation";
+
+export const dynamic = "force-dynamic";
+
+// Get the signed-in wallet's Cryptomus deposits and how each was reconciled
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const deposits = await getDepositHistory(session.walletAddress);
+
+    return NextResponse.json({
+      success: true,
+      data: deposits,
+    });
+  } catch (error) {
+    console.error("Get deposit history error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isInternalRequest } from "@/lib/auth";
+import {
+  getHeldDeposits,
+  approveHeldDeposit,
+  rejectHeldDeposit,
+} from "@/lib/deposit-reconciliation";
+
+export const dynamic = "force-dynamic";
+
+// GET deposits held for manual review (internal only)
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const held = await getHeldDeposits();
+
+  return NextResponse.json({
+    success: true,
+    held,
+    totalHeld: held.length,
+    totalAmount: held.reduce((sum, d) => sum + d.paidAmount, 0),
+  });
+}
+
+// POST { paymentId, action: 'approve' | 'reject', note?, creditAmount? } (internal only - credits balances)
+export async function POST(request: NextRequest) {
+  try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { paymentId, action, note, creditAmount } = body;
+
+    if (!paymentId || (action !== "approve" && action !== "reject")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "paymentId and action ('approve' or 'reject') are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      creditAmount !== undefined &&
+      !(typeof creditAmount === "number" && creditAmount > 0)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "creditAmount must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    const record =
+      action === "approve"
+        ? await approveHeldDeposit(paymentId, note, creditAmount)
+        : await rejectHeldDeposit(paymentId, note);
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, message: "Deposit not found or not held for review" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deposit: record });
+  } catch (error) {
+    console.error("Review deposit error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
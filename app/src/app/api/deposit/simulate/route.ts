@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCryptomusTransport, isSimulatorEnabled } from "@/lib/cryptomus";
+import {
+  CryptomusSimulator,
+  type SimulatedOutcome,
+  type SimulatedStatus,
+} from "@/lib/cryptomus-simulator";
+import { isInternalRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Drives the in-process Cryptomus simulator (CRYPTOMUS_TRANSPORT=simulator) for end-to-end tests.
+// Internal only, and 404 unless the simulator is the active transport.
+
+const OUTCOMES: SimulatedOutcome[] = [
+  "paid",
+  "paid_over",
+  "wrong_amount",
+  "cancel",
+];
+const STATUSES: SimulatedStatus[] = ["process", "check", ...OUTCOMES];
+
+function getSimulator(request: NextRequest): CryptomusSimulator | NextResponse {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  const transport = isSimulatorEnabled() ? getCryptomusTransport() : null;
+  if (!(transport instanceof CryptomusSimulator)) {
+    return NextResponse.json(
+      { success: false, message: "Simulator not enabled" },
+      { status: 404 }
+    );
+  }
+  return transport;
+}
+
+// GET simulated invoices (?paymentId= for one invoice and its webhooks)
+export async function GET(request: NextRequest) {
+  const simulator = getSimulator(request);
+  if (simulator instanceof NextResponse) return simulator;
+
+  const paymentId = request.nextUrl.searchParams.get("paymentId");
+  if (!paymentId) {
+    return NextResponse.json({
+      success: true,
+      invoices: simulator.listInvoices(),
+    });
+  }
+
+  const invoice = simulator.getInvoice(paymentId);
+  if (!invoice) {
+    return NextResponse.json(
+      { success: false, message: "Invoice not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    invoice,
+    webhooks: simulator.webhooks.filter((w) => w.payload.uuid === invoice.uuid),
+  });
+}
+
+// POST { paymentId, status } to step an invoice, { paymentId, outcome } to run it to a final
+// status, or { paymentId, resend: true } to redeliver its last webhook
+export async function POST(request: NextRequest) {
+  const simulator = getSimulator(request);
+  if (simulator instanceof NextResponse) return simulator;
+
+  try {
+    const body = await request.json();
+    const { paymentId, status, outcome, paidAmountUsd, resend } = body;
+
+    if (!paymentId) {
+      return NextResponse.json(
+        { success: false, message: "paymentId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (resend) {
+      const webhook = await simulator.resendWebhook(paymentId);
+      if (!webhook) {
+        return NextResponse.json(
+          { success: false, message: "Nothing to resend" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, webhook });
+    }
+
+    let invoice;
+    if (outcome) {
+      if (!OUTCOMES.includes(outcome)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `outcome must be one of ${OUTCOMES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+      invoice = await simulator.settle(paymentId, outcome, paidAmountUsd);
+    } else if (status) {
+      if (!STATUSES.includes(status)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `status must be one of ${STATUSES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+      invoice = await simulator.advance(paymentId, status, paidAmountUsd);
+    } else {
+      return NextResponse.json(
+        { success: false, message: "status, outcome or resend is required" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invoice,
+      webhooks: simulator.webhooks.filter(
+        (w) => w.payload.uuid === invoice.uuid
+      ),
+    });
+  } catch (error) {
+    console.error("Simulator error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "Simulator error",
+      },
+      { status: 400 }
+    );
+  }
+}
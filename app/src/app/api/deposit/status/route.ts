@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPaymentInfo, isPaymentSuccessful, isPaymentFinal } from '@/lib/cryptomus';
+import { getSession } from '@/lib/auth';
+import { getDepositRecord } from '@/lib/deposit-reconciliation';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Wallet signature required' },
+        { status: 401 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const paymentId = searchParams.get('paymentId');
     const orderId = searchParams.get('orderId');
@@ -30,16 +40,26 @@ export async function GET(request: NextRequest) {
     }
 
     const { result } = paymentInfo;
+
+    // Only the wallet that created the invoice can see it
+    let paymentWallet = '';
+    try {
+      paymentWallet = result.additional_data ? JSON.parse(result.additional_data).wallet || '' : '';
+    } catch {
+      paymentWallet = '';
+    }
+    if (paymentWallet !== session.walletAddress) {
+      return NextResponse.json(
+        { success: false, message: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
     const isSuccess = isPaymentSuccessful(result.status);
     const isFinal = isPaymentFinal(result.status);
 
-    // Calculate credited amount if payment was successful
-    let creditAmount = 0;
-    if (isSuccess && result.payment_amount_usd) {
-      const totalPaid = parseFloat(result.payment_amount_usd);
-      const fee = (totalPaid * 0.02) + 5;
-      creditAmount = totalPaid - fee;
-    }
+    // What was actually credited (or held) once the webhook reconciled the payment
+    const record = await getDepositRecord(result.uuid);
 
     return NextResponse.json({
       success: true,
@@ -51,7 +71,10 @@ export async function GET(request: NextRequest) {
         isFinal,
         amount: result.amount,
         paidAmount: result.payment_amount_usd,
-        creditAmount: isSuccess ? creditAmount : 0,
+        creditAmount: record?.status === 'credited' ? record.creditAmount : 0,
+        outcome: record?.outcome ?? null,
+        depositStatus: record?.status ?? null,
+        holdReason: record?.holdReason ?? null,
         currency: result.currency,
         payerCurrency: result.payer_currency,
         network: result.network,
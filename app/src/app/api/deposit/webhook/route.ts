@@ -1,29 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyWebhookSignature, isPaymentSuccessful, CryptomusWebhookPayload } from '@/lib/cryptomus';
-import { kv } from '@vercel/kv';
+import { verifyWebhookPayload, isAllowedWebhookSource, CryptomusWebhookPayload } from '@/lib/cryptomus';
+import { recordDepositPayment, isCreditableStatus, isFinalFailureStatus } from '@/lib/deposit-reconciliation';
+import { isInternalRequest } from '@/lib/auth';
+import { handleWebhookDelivery, getDeliveryHistory, getPaymentWebhookState } from '@/lib/webhook-inbox';
 
-// Key prefix for webhook deposits in Vercel KV
-const WEBHOOK_DEPOSITS_PREFIX = 'webhook_deposit:';
-
-interface WebhookDeposit {
-  orderId: string;
-  walletAddress: string;
-  amount: number;
-  status: string;
-  paymentId: string;
-  paidAt?: string;
-}
-
-async function saveWebhookDeposit(orderId: string, deposit: WebhookDeposit): Promise<void> {
-  try {
-    await kv.set(`${WEBHOOK_DEPOSITS_PREFIX}${orderId}`, deposit);
-  } catch (error) {
-    console.error('Failed to save webhook deposit:', error);
+// Apply a verified, first-time delivery to balances
+async function applyDepositWebhook(body: CryptomusWebhookPayload): Promise<void> {
+  if (isCreditableStatus(body.status) || isFinalFailureStatus(body.status)) {
+    // Final outcome - credit what was actually paid (or hold it for review)
+    const record = await recordDepositPayment(body);
+    console.log('=== PAYMENT RECONCILED ===');
+    console.log('Outcome:', record.outcome, 'Status:', record.status);
+    console.log('Paid:', record.paidAmount, 'Fee:', record.feeAmount, 'Credit:', record.creditAmount);
+    if (record.holdReason) {
+      console.log('Held for review:', record.holdReason);
+    }
+  } else {
+    // Payment still processing
+    console.log('=== PAYMENT PROCESSING ===');
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
+    if (!isAllowedWebhookSource(request)) {
+      console.error('Webhook from disallowed source IP');
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json() as CryptomusWebhookPayload;
     
     console.log('=== CRYPTOMUS WEBHOOK RECEIVED ===');
@@ -33,11 +40,7 @@ export async function POST(request: NextRequest) {
     console.log('Is Final:', body.is_final);
 
     // Verify webhook signature
-    const signature = body.sign;
-    // Remove sign from body for verification
-    const { sign: _, ...bodyWithoutSign } = body;
-    
-    if (!verifyWebhookSignature(bodyWithoutSign as Record<string, unknown>, signature)) {
+    if (!verifyWebhookPayload(body)) {
       console.error('Invalid webhook signature');
       return NextResponse.json(
         { success: false, message: 'Invalid signature' },
@@ -45,58 +48,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Extract wallet address from additional_data
-    let walletAddress = '';
-    if (body.additional_data) {
-      try {
-        const additionalData = JSON.parse(body.additional_data);
-        walletAddress = additionalData.wallet || '';
-      } catch {
-        console.warn('Could not parse additional_data');
-      }
-    }
-
-    // Process payment status
-    if (isPaymentSuccessful(body.status)) {
-      console.log('=== PAYMENT SUCCESSFUL ===');
-      
-      // Calculate the credited amount (subtract our fee)
-      // Fee: 2% + $5
-      const totalPaid = parseFloat(body.payment_amount_usd);
-      const fee = (totalPaid * 0.02) + 5;
-      const creditAmount = totalPaid - fee;
-      
-      console.log('Total Paid:', totalPaid);
-      console.log('Fee:', fee);
-      console.log('Credit Amount:', creditAmount);
-      
-      // Store the successful deposit
-      await saveWebhookDeposit(body.order_id, {
-        orderId: body.order_id,
-        walletAddress,
-        amount: creditAmount,
-        status: 'paid',
-        paymentId: body.uuid,
-        paidAt: new Date().toISOString(),
-      });
-      
-      console.log('Deposit completed for wallet:', walletAddress, 'Amount:', creditAmount);
-    } else if (body.is_final) {
-      // Payment failed or cancelled
-      console.log('=== PAYMENT FAILED/CANCELLED ===');
-      console.log('Final Status:', body.status);
-      
-      await saveWebhookDeposit(body.order_id, {
-        orderId: body.order_id,
-        walletAddress,
-        amount: 0,
-        status: body.status,
-        paymentId: body.uuid,
-      });
-    } else {
-      // Payment still processing
-      console.log('=== PAYMENT PROCESSING ===');
-    }
+    // Each uuid + status is applied once; retries and stale statuses are only recorded
+    const { result } = await handleWebhookDelivery('deposit', body, applyDepositWebhook);
+    console.log('Webhook delivery:', `${body.uuid}:${body.status}`, result);
 
     // Cryptomus expects a success response
     return NextResponse.json({ success: true });
@@ -108,3 +62,27 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// GET delivery history for a payment (internal only)
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
+  const paymentId = request.nextUrl.searchParams.get('paymentId');
+  if (!paymentId) {
+    return NextResponse.json({ success: false, message: 'paymentId is required' }, { status: 400 });
+  }
+
+  const [state, deliveries] = await Promise.all([
+    getPaymentWebhookState(paymentId),
+    getDeliveryHistory(paymentId),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    paymentId,
+    currentStatus: state?.status ?? null,
+    deliveries,
+  });
+}
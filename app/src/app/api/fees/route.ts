@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import {
+  CURRENT_FEE_SCHEDULE,
+  quoteCardIssuance,
+  quoteCardFunding,
+  quoteDeposit,
+  quoteDepositForNet,
+  quoteWithdrawal,
+  type DepositRail,
+  type FeeTier,
+} from "@/lib/fees";
+import type { WithdrawalCurrency } from "@/lib/withdrawal";
+
+export const dynamic = "force-dynamic";
+
+// Fee quotes from the current fee schedule.
+// Signed-in wallets are quoted at their tier; everyone else at the standard tier.
+//
+//   GET /api/fees                                        -> schedule + tier
+//   GET /api/fees?type=card_issuance&amount=25
+//   GET /api/fees?type=card_funding&amount=25
+//   GET /api/fees?type=deposit&rail=solana&amount=50     (add &net=true to quote for a net amount)
+//   GET /api/fees?type=withdrawal&currency=SOL&amount=50
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    const tier: FeeTier = session
+      ? await resolveFeeTier(session.walletAddress)
+      : "standard";
+
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get("type");
+
+    if (!type) {
+      return NextResponse.json({
+        success: true,
+        data: { tier, schedule: CURRENT_FEE_SCHEDULE },
+      });
+    }
+
+    const amount = parseFloat(searchParams.get("amount") || "");
+    if (isNaN(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, message: "A positive amount is required" },
+        { status: 400 }
+      );
+    }
+
+    switch (type) {
+      case "card_issuance":
+        return NextResponse.json({
+          success: true,
+          data: quoteCardIssuance(amount, tier),
+        });
+
+      case "card_funding":
+        return NextResponse.json({
+          success: true,
+          data: quoteCardFunding(amount, tier),
+        });
+
+      case "deposit": {
+        const rail = searchParams.get("rail") as DepositRail;
+        if (!(rail in CURRENT_FEE_SCHEDULE.deposits)) {
+          return NextResponse.json(
+            {
+              success: false,
+              message: `rail must be one of ${Object.keys(
+                CURRENT_FEE_SCHEDULE.deposits
+              ).join(", ")}`,
+            },
+            { status: 400 }
+          );
+        }
+        const quote =
+          searchParams.get("net") === "true"
+            ? quoteDepositForNet(rail, amount, tier)
+            : quoteDeposit(rail, amount, tier);
+        return NextResponse.json({ success: true, data: quote });
+      }
+
+      case "withdrawal": {
+        const currency = searchParams.get("currency") as WithdrawalCurrency;
+        if (!(currency in CURRENT_FEE_SCHEDULE.withdrawals)) {
+          return NextResponse.json(
+            {
+              success: false,
+              message: `currency must be one of ${Object.keys(
+                CURRENT_FEE_SCHEDULE.withdrawals
+              ).join(", ")}`,
+            },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({
+          success: true,
+          data: quoteWithdrawal(currency, amount, tier),
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          {
+            success: false,
+            message:
+              "type must be card_issuance, card_funding, deposit or withdrawal",
+          },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error("Fee quote error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { depositAndCreateCard, getApiBalance, autoDepositToKripicard } from '@/lib/kripicard-deposit';
+import { isInternalRequest } from '@/lib/auth';
+import { describeCardIssuerError } from '@/lib/card-issuer';
+import { KripiCardApiError, getKripiCardProvider } from '@/lib/kripicard-provider';
 
 /**
  * POST /api/kripicard/auto-create
  * 
+ * Internal only (x-internal-secret): the card is paid for by the treasury,
+ * not from a user's balance.
+ *
  * Full automated flow:
  * 1. Check if Kripicard API has sufficient balance
  * 2. If not, auto-deposit from treasury
  * 3. Create the card
  * 
- * Body: { amount: number, walletAddress: string }
+ * Body: { amount: number, walletAddress?: string }
  */
 export async function POST(request: NextRequest) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { amount, walletAddress } = body;
 
@@ -24,13 +37,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!walletAddress) {
-      return NextResponse.json(
-        { success: false, message: 'Wallet address is required' },
-        { status: 400 }
-      );
-    }
-
     console.log('=== AUTO-CREATE CARD REQUEST ===');
     console.log('Amount:', amount, 'Wallet:', walletAddress);
 
@@ -65,34 +71,16 @@ export async function POST(request: NextRequest) {
     // Step 3: Balance is sufficient, just create the card
     console.log('Balance sufficient, creating card directly');
     
-    const apiKey = process.env.KRIPICARD_API_KEY;
     const bankBin = process.env.KRIPICARD_BANK_BIN;
 
-    const response = await fetch('https://kripicard.com/api/premium/Create_card', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        api_key: apiKey,
-        amount,
-        bankBin: Number(bankBin),
-      }),
-    });
-
-    const responseText = await response.text();
     let data;
-    
     try {
-      data = JSON.parse(responseText);
-    } catch {
-      return NextResponse.json(
-        { success: false, message: 'Invalid response from Kripicard' },
-        { status: 502 }
-      );
-    }
+      data = await getKripiCardProvider().createCard({ amount, bankBin: String(bankBin) });
+    } catch (error) {
+      if (!(error instanceof KripiCardApiError)) throw error;
 
-    if (!data.success) {
       // If insufficient funds error, try depositing
-      if (data.message?.includes('INSUFFICIENT')) {
+      if (error.code === 'insufficient_balance') {
         console.log('API returned insufficient funds, attempting deposit...');
         const depositResult = await autoDepositToKripicard(requiredAmount);
         
@@ -107,10 +95,8 @@ export async function POST(request: NextRequest) {
         }, { status: 202 }); // 202 Accepted - processing
       }
 
-      return NextResponse.json(
-        { success: false, message: data.message || 'Failed to create card' },
-        { status: 400 }
-      );
+      const { status, message } = describeCardIssuerError(error);
+      return NextResponse.json({ success: false, message }, { status });
     }
 
     return NextResponse.json({
@@ -133,10 +119,17 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/kripicard/auto-create
- * Check current Kripicard API balance
+ * Check current Kripicard API balance (internal only)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const balance = await getApiBalance();
     
     return NextResponse.json({
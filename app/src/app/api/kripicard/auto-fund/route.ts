@@ -3,6 +3,8 @@ import { initiateKripicardDeposit, getDepositAddressFromCryptomus } from '@/lib/
 import { Connection, Keypair, PublicKey, Transaction, SystemProgram, sendAndConfirmTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { addPendingDeposit, markDepositAsSent, getDepositSummary } from '@/lib/pending-deposits';
+import { getPrice } from '@/lib/price-oracle';
+import { isInternalRequest } from '@/lib/auth';
 
 // Supported currencies and their mappings
 const CURRENCY_MAP: Record<string, string> = {
@@ -17,16 +19,6 @@ const CURRENCY_MAP: Record<string, string> = {
   'TRON': 'TRX',
 };
 
-async function getSolPrice(): Promise<number> {
-  try {
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
-    const data = await response.json();
-    return data.solana?.usd || 180;
-  } catch {
-    return 180; // Fallback price
-  }
-}
-
 async function sendSolPayment(destinationAddress: string, amountSol: number): Promise<string> {
   const privateKey = process.env.TREASURY_PRIVATE_KEY_SOLANA;
   if (!privateKey) {
@@ -63,8 +55,16 @@ async function sendSolPayment(destinationAddress: string, amountSol: number): Pr
   return signature;
 }
 
+// Internal only - sends money from the treasury wallet
 export async function POST(request: NextRequest) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { amount, chain = 'SOL', autoSend = false } = body;
 
@@ -130,7 +130,7 @@ export async function POST(request: NextRequest) {
 
     // Step 3: If autoSend is enabled and we have an address, send the payment
     if (autoSend && depositAddress && currency === 'SOL') {
-      const solPrice = await getSolPrice();
+      const solPrice = await getPrice('SOL');
       const solAmount = parseFloat(depositResult.amount || '0') || (amount / solPrice);
 
       console.log(`Sending ${solAmount} SOL to ${depositAddress}`);
@@ -185,7 +185,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
   const summary = await getDepositSummary();
   
   return NextResponse.json({
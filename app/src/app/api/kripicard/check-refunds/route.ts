@@ -1,17 +1,26 @@
 import { NextResponse } from 'next/server';
 import { 
-  loadPendingRefunds, 
+  getAllPendingRefunds, 
+  getPendingRefund, 
   updateRefundStatus, 
   cleanupExpiredRefunds,
 } from '@/lib/pending-refunds';
+import { creditRefund } from '@/lib/ledger';
+import { isInternalRequest } from '@/lib/auth';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     // Clean up expired refunds
     await cleanupExpiredRefunds();
     
-    const pendingRefunds = await loadPendingRefunds();
-    const pending = pendingRefunds.filter(r => r.status === 'pending');
+    const pending = await getAllPendingRefunds();
     
     return NextResponse.json({
       success: true,
@@ -28,9 +37,16 @@ export async function GET() {
   }
 }
 
-// POST to manually process a refund when detected
+// POST to manually process a refund when detected (internal only - credits balances)
 export async function POST(request: Request) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { refundId, currentKripiCardBalance } = body;
 
@@ -41,8 +57,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const pendingRefunds = await loadPendingRefunds();
-    const refund = pendingRefunds.find(r => r.id === refundId);
+    const refund = await getPendingRefund(refundId);
 
     if (!refund) {
       return NextResponse.json(
@@ -61,6 +76,12 @@ export async function POST(request: Request) {
     // If current balance is provided, check if refund arrived
     if (currentKripiCardBalance !== undefined) {
       const expectedBalance = refund.kripiCardBalanceBefore;
+      if (expectedBalance === undefined) {
+        return NextResponse.json(
+          { success: false, message: 'No KripiCard balance was recorded for this refund; confirm it by hand' },
+          { status: 400 }
+        );
+      }
       const refundArrived = currentKripiCardBalance >= expectedBalance - 1; // Allow $1 tolerance
 
       if (!refundArrived) {
@@ -73,41 +94,37 @@ export async function POST(request: Request) {
       }
     }
 
-    // Credit the user's TrenchBank balance
-    const creditResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/deposit/balance`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        walletAddress: refund.walletAddress,
-        action: 'credit',
-        amount: refund.amount,
-      }),
-    });
-
-    const creditResult = await creditResponse.json();
-
-    if (!creditResult.success) {
-      return NextResponse.json({
-        success: false,
-        message: 'Failed to credit user balance',
-        error: creditResult.message,
-      });
+    // Claim the refund first (pending -> credited) so concurrent calls can't credit it twice
+    const creditedAt = new Date().toISOString();
+    const claimed = await updateRefundStatus(refundId, 'credited', { creditedAt }, ['pending']);
+    if (!claimed) {
+      const current = await getPendingRefund(refundId);
+      return NextResponse.json(
+        { success: false, message: `Refund already ${current?.status ?? 'processed'}` },
+        { status: 400 }
+      );
     }
 
-    // Update refund status
-    await updateRefundStatus(refundId, 'credited', {
-      creditedAt: new Date().toISOString(),
-    });
+    // Credit the user's TrenchBank balance; release the claim if that fails
+    let newBalance;
+    try {
+      newBalance = await creditRefund(
+        refund.walletAddress,
+        refund.amount,
+        refund.id,
+        refund.reason,
+        `pending_refund:${refund.id}`
+      );
+    } catch (error) {
+      await updateRefundStatus(refundId, 'pending', { creditedAt: undefined }, ['credited']);
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
       message: `Refunded $${refund.amount.toFixed(2)} to user ${refund.walletAddress.slice(0, 8)}...`,
-      refund: {
-        ...refund,
-        status: 'credited',
-        creditedAt: new Date().toISOString(),
-      },
-      newBalance: creditResult.data?.balance,
+      refund: claimed,
+      newBalance: newBalance.balance,
     });
   } catch (error) {
     console.error('Process refund error:', error);
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isInternalRequest } from '@/lib/auth';
 
 // Helper to extract and combine cookies
 function extractCookies(setCookieHeader: string | null): Record<string, string> {
@@ -22,10 +23,17 @@ function cookiesToString(cookies: Record<string, string>): string {
 }
 
 // Attempt to create a deposit on KripiCard via their internal API
-// This bypasses the broken frontend form
+// This bypasses the broken frontend form. Internal only - it funds our KripiCard account
 
 export async function POST(request: NextRequest) {
   try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { amount } = body;
 
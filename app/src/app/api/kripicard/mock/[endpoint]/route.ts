@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKripiCardMockEnabled } from "@/lib/kripicard-provider";
+import { getKripiCardMock, type MockResponse } from "@/lib/kripicard-mock";
+
+export const dynamic = "force-dynamic";
+
+// The KripiCard premium API, mocked (KRIPICARD_MOCK=true) so the card flows run locally.
+// 404 unless the mock is enabled.
+
+function toResponse({ status, body, headers }: MockResponse): NextResponse {
+  if (typeof body === "string") {
+    return new NextResponse(body, {
+      status,
+      headers: { "Content-Type": "text/html", ...headers },
+    });
+  }
+  return NextResponse.json(body, { status, headers });
+}
+
+function notEnabled(): NextResponse {
+  return NextResponse.json(
+    { success: false, message: "KripiCard mock not enabled" },
+    { status: 404 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { endpoint: string } }
+) {
+  if (!isKripiCardMockEnabled()) return notEnabled();
+
+  const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+  return toResponse(getKripiCardMock().handle(params.endpoint, query));
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { endpoint: string } }
+) {
+  if (!isKripiCardMockEnabled()) return notEnabled();
+
+  const body = await request.json().catch(() => ({}));
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body)) values[key] = String(value);
+  return toResponse(getKripiCardMock().handle(params.endpoint, values));
+}
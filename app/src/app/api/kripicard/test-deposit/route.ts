@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isInternalRequest } from '@/lib/auth';
 
 const KRIPICARD_BASE_URL = 'https://kripicard.com';
 
+// Debugging aid for the KripiCard deposit form. Internal only, and 404 in production.
 export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ success: false, message: 'Not found' }, { status: 404 });
+  }
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
   const logs: string[] = [];
   const log = (msg: string) => {
     console.log(msg);
@@ -1,11 +1,26 @@
 import { NextResponse } from 'next/server';
 import { loginToKripicard, getKripicardBalance, initiateDeposit, clearSession } from '@/lib/kripicard-dashboard';
+import { isInternalRequest } from '@/lib/auth';
+
+// Debugging aids for the KripiCard dashboard session. Internal only, and 404 in production.
+function guard(request: Request): NextResponse | null {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ success: false, message: 'Not found' }, { status: 404 });
+  }
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+  return null;
+}
 
 /**
  * GET /api/kripicard/test-login
  * Test the Kripicard dashboard login and get balance
  */
-export async function GET() {
+export async function GET(request: Request) {
+  const blocked = guard(request);
+  if (blocked) return blocked;
+
   try {
     // Clear any cached session to force fresh login
     clearSession();
@@ -46,7 +61,10 @@ export async function GET() {
  * POST /api/kripicard/test-login
  * Test initiating a deposit
  */
-export async function POST() {
+export async function POST(request: Request) {
+  const blocked = guard(request);
+  if (blocked) return blocked;
+
   try {
     console.log('=== TESTING KRIPICARD DEPOSIT INITIATION ===');
     
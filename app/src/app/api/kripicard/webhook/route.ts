@@ -8,33 +8,76 @@ import {
   getDepositSummary,
   addPendingDeposit,
 } from '@/lib/pending-deposits';
+import { internalHeaders, isInternalRequest } from '@/lib/auth';
+import { verifyWebhookPayload, isAllowedWebhookSource, CryptomusWebhookPayload } from '@/lib/cryptomus';
+import { handleWebhookDelivery, getDeliveryHistory } from '@/lib/webhook-inbox';
 
-// Cryptomus webhook payload type
-interface CryptomusWebhook {
-  type: string;
-  uuid: string;
-  order_id: string;
-  amount: string;
-  payment_amount: string;
-  payment_amount_usd: string;
-  merchant_amount: string;
-  commission: string;
-  is_final: boolean;
-  status: string;
-  from: string;
-  wallet_address_uuid: string;
-  network: string;
-  currency: string;
-  payer_currency: string;
-  additional_data: string;
-  txid: string;
-  sign: string;
+// Apply a verified, first-time delivery to the tracked KripiCard deposit
+async function applyKripicardWebhook(webhookData: CryptomusWebhookPayload): Promise<void> {
+  const paymentId = webhookData.uuid;
+  const status = webhookData.status;
+
+  // Check if we're tracking this deposit
+  const deposit = await getDepositByPaymentId(paymentId);
+  
+  if (!deposit) {
+    // New deposit we didn't track - add it
+    console.log(`New deposit from webhook: ${paymentId}`);
+    await addPendingDeposit({
+      paymentId,
+      amountUsd: parseFloat(webhookData.payment_amount_usd) || 0,
+      amountCrypto: `${webhookData.payment_amount} ${webhookData.currency}`,
+      currency: webhookData.currency,
+    });
+  }
+
+  // Update deposit status based on Cryptomus status
+  if (status === 'paid' || status === 'paid_over' || status === 'confirm_check') {
+    // Null if the deposit was already confirmed by an earlier status
+    const confirmed = await markDepositAsConfirmed(paymentId);
+    console.log(`✅ Deposit ${paymentId} confirmed!`);
+    
+    // Automatically try to create a card (only on the transition into confirmed)
+    if (confirmed && !confirmed.cardCreated) {
+      try {
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        const cardResponse = await fetch(`${appUrl}/api/cards/create`, {
+          method: 'POST',
+          headers: internalHeaders(),
+          body: JSON.stringify({ amount: 10 }), // Minimum card amount
+        });
+        
+        const cardResult = await cardResponse.json();
+        if (cardResult.success) {
+          await markDepositAsCredited(paymentId, true, cardResult.card_id);
+          console.log('🎉 Card created automatically!', cardResult);
+        } else {
+          await markDepositAsCredited(paymentId, false);
+          console.log('Card creation failed:', cardResult.message);
+        }
+      } catch (cardError) {
+        console.error('Error creating card:', cardError);
+        await markDepositAsCredited(paymentId, false);
+      }
+    }
+  } else if (status === 'cancel' || status === 'fail' || status === 'wrong_amount') {
+    await markDepositAsFailed(paymentId, `Payment ${status}`);
+    console.log(`❌ Deposit ${paymentId} failed: ${status}`);
+  }
 }
 
 export async function POST(request: NextRequest) {
   try {
+    if (!isAllowedWebhookSource(request)) {
+      console.error('Webhook from disallowed source IP');
+      return NextResponse.json(
+        { success: false, message: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.text();
-    const webhookData: CryptomusWebhook = JSON.parse(body);
+    const webhookData: CryptomusWebhookPayload = JSON.parse(body);
     
     console.log('=== CRYPTOMUS WEBHOOK RECEIVED ===');
     console.log('Payment ID:', webhookData.uuid);
@@ -45,55 +88,20 @@ export async function POST(request: NextRequest) {
     console.log('Is Final:', webhookData.is_final);
     console.log('TXID:', webhookData.txid);
 
+    // Reject deliveries that weren't signed by Cryptomus
+    if (!verifyWebhookPayload(webhookData)) {
+      console.error('Invalid webhook signature');
+      return NextResponse.json(
+        { success: false, message: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
     const paymentId = webhookData.uuid;
     const status = webhookData.status;
-    
-    // Check if we're tracking this deposit
-    let deposit = await getDepositByPaymentId(paymentId);
-    
-    if (!deposit) {
-      // New deposit we didn't track - add it
-      console.log(`New deposit from webhook: ${paymentId}`);
-      deposit = await addPendingDeposit({
-        paymentId,
-        amountUsd: parseFloat(webhookData.payment_amount_usd) || 0,
-        amountCrypto: `${webhookData.payment_amount} ${webhookData.currency}`,
-        currency: webhookData.currency,
-      });
-    }
 
-    // Update deposit status based on Cryptomus status
-    if (status === 'paid' || status === 'paid_over' || status === 'confirm_check') {
-      await markDepositAsConfirmed(paymentId);
-      console.log(`✅ Deposit ${paymentId} confirmed!`);
-      
-      // Automatically try to create a card
-      if (!deposit.cardCreated) {
-        try {
-          const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-          const cardResponse = await fetch(`${appUrl}/api/kripicard/create`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ amount: 10 }), // Minimum card amount
-          });
-          
-          const cardResult = await cardResponse.json();
-          if (cardResult.success) {
-            await markDepositAsCredited(paymentId, true, cardResult.cardId);
-            console.log('🎉 Card created automatically!', cardResult);
-          } else {
-            await markDepositAsCredited(paymentId, false);
-            console.log('Card creation failed:', cardResult.message);
-          }
-        } catch (cardError) {
-          console.error('Error creating card:', cardError);
-          await markDepositAsCredited(paymentId, false);
-        }
-      }
-    } else if (status === 'cancel' || status === 'fail' || status === 'wrong_amount') {
-      await markDepositAsFailed(paymentId, `Payment ${status}`);
-      console.log(`❌ Deposit ${paymentId} failed: ${status}`);
-    }
+    // Each uuid + status is applied once; retries and stale statuses are only recorded
+    const { result } = await handleWebhookDelivery('kripicard', webhookData, applyKripicardWebhook);
 
     // Respond to Cryptomus
     return NextResponse.json({ 
@@ -101,6 +109,7 @@ export async function POST(request: NextRequest) {
       message: 'Webhook processed',
       paymentId,
       status,
+      result,
     });
 
   } catch (error) {
@@ -112,15 +121,20 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to check pending deposits status
+// GET endpoint to check pending deposits status (internal only)
 export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
   const { searchParams } = new URL(request.url);
   const paymentId = searchParams.get('paymentId');
   
   if (paymentId) {
     const deposit = await getDepositByPaymentId(paymentId);
     if (deposit) {
-      return NextResponse.json({ success: true, deposit });
+      const deliveries = await getDeliveryHistory(paymentId);
+      return NextResponse.json({ success: true, deposit, deliveries });
     }
     return NextResponse.json({ success: false, message: 'Deposit not found' }, { status: 404 });
   }
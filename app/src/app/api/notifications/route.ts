@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import {
+  listNotifications,
+  markNotificationsRead,
+} from "@/lib/notification-store";
+
+export const dynamic = "force-dynamic";
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, message: "Wallet signature required" },
+    { status: 401 }
+  );
+}
+
+// GET the signed-in wallet's notifications; ?unread=true for undismissed ones only
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const unreadOnly =
+      new URL(request.url).searchParams.get("unread") === "true";
+    const notifications = await listNotifications(
+      session.walletAddress,
+      unreadOnly
+    );
+    return NextResponse.json({ success: true, data: notifications });
+  } catch (error) {
+    console.error("Notifications error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { ids } - dismiss notifications
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const { ids } = await request.json();
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "Notification IDs are required" },
+        { status: 400 }
+      );
+    }
+
+    const marked = await markNotificationsRead(
+      session.walletAddress,
+      ids.map(String)
+    );
+    return NextResponse.json({ success: true, data: { marked } });
+  } catch (error) {
+    console.error("Mark notifications read error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
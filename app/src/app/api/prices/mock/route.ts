@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isMockPricingEnabled,
+  clearPriceCache,
+  PRICE_SYMBOLS,
+  type PriceSymbol,
+} from "@/lib/price-oracle";
+import { getMockPriceProvider } from "@/lib/price-providers";
+import { isInternalRequest } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Drives the mock price provider (PRICE_PROVIDERS=mock) for end-to-end tests.
+// Internal only, and 404 unless the mock provider is active.
+
+function checkAccess(request: NextRequest): NextResponse | null {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+  if (!isMockPricingEnabled()) {
+    return NextResponse.json(
+      { success: false, message: "Mock pricing not enabled" },
+      { status: 404 }
+    );
+  }
+  return null;
+}
+
+// GET the mock's current prices
+export async function GET(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  return NextResponse.json({
+    success: true,
+    data: getMockPriceProvider().getState(),
+  });
+}
+
+// POST { symbol, price, ageSeconds? } to set a price, { symbol, remove: true } to stop
+// serving it, { failing: boolean } to simulate an outage, or { reset: true }
+export async function POST(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    const { symbol, price, ageSeconds, remove, failing, reset } =
+      await request.json();
+    const mock = getMockPriceProvider();
+
+    if (reset) {
+      mock.reset();
+    } else if (typeof failing === "boolean") {
+      mock.setFailing(failing);
+    } else if (PRICE_SYMBOLS.includes(symbol as PriceSymbol)) {
+      if (remove) {
+        mock.removePrice(symbol);
+      } else if (typeof price === "number" && price > 0) {
+        mock.setPrice(symbol, price, (ageSeconds || 0) * 1000);
+      } else {
+        return NextResponse.json(
+          { success: false, message: "A positive price is required" },
+          { status: 400 }
+        );
+      }
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `symbol must be one of ${PRICE_SYMBOLS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Drop cached prices so the change takes effect immediately
+    clearPriceCache();
+
+    return NextResponse.json({ success: true, data: mock.getState() });
+  } catch (error) {
+    console.error("Mock price error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "Mock price error",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import {
+  lockPriceQuote,
+  PRICE_SYMBOLS,
+  type PriceQuotePurpose,
+  type PriceSymbol,
+} from "@/lib/price-oracle";
+
+export const dynamic = "force-dynamic";
+
+const PURPOSES: PriceQuotePurpose[] = ["deposit", "withdrawal"];
+
+// POST { symbol, purpose } - lock a price for the signed-in wallet.
+// Pass the returned quote id when creating the withdrawal.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+
+    const { symbol, purpose } = (await request.json()) as {
+      symbol: PriceSymbol;
+      purpose: PriceQuotePurpose;
+    };
+
+    if (!PRICE_SYMBOLS.includes(symbol)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `symbol must be one of ${PRICE_SYMBOLS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (!PURPOSES.includes(purpose)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `purpose must be one of ${PURPOSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const quote = await lockPriceQuote({
+      walletAddress: session.walletAddress,
+      symbol,
+      purpose,
+    });
+
+    return NextResponse.json({ success: true, data: quote });
+  } catch (error) {
+    console.error("Price quote error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to lock price",
+      },
+      { status: 503 }
+    );
+  }
+}
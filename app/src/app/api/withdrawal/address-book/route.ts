@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import {
+  addAddressBookEntry,
+  getAddressBook,
+  getWithdrawalLimits,
+  getWithdrawalSettings,
+  removeAddressBookEntry,
+  setAllowListOnly,
+} from "@/lib/withdrawal-policy";
+
+import { isValidAddress } from "@/lib/withdrawal";
+import { getNetwork, isCryptoNetwork } from "@/lib/assets";
+
+export const dynamic = "force-dynamic";
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, message: "Wallet signature required" },
+    { status: 401 }
+  );
+}
+
+// GET the signed-in wallet's withdrawal address book and settings
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) return unauthorized();
+  const walletAddress = session.walletAddress;
+
+  const limits = getWithdrawalLimits();
+  return NextResponse.json({
+    success: true,
+    data: {
+      entries: await getAddressBook(walletAddress),
+      settings: await getWithdrawalSettings(walletAddress),
+      cooldownHours: limits.addressCooldownMs / (60 * 60 * 1000),
+      dailyLimitUsd: limits.dailyLimitUsd,
+      weeklyLimitUsd: limits.weeklyLimitUsd,
+    },
+  });
+}
+
+// POST { network, address, label? } - add a destination (usable after the cool-down)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) return unauthorized();
+    const walletAddress = session.walletAddress;
+
+    const { network, address, label } = await req.json();
+    if (!isCryptoNetwork(network)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid network" },
+        { status: 400 }
+      );
+    }
+    if (!address || !isValidAddress(address, network)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Invalid ${getNetwork(network).name} address`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const entry = await addAddressBookEntry(
+      walletAddress,
+      network,
+      address,
+      label
+    );
+    return NextResponse.json({ success: true, data: entry });
+  } catch (error) {
+    console.error("Address book add error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to add address" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT { allowListOnly } - only allow withdrawals to address-book entries
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) return unauthorized();
+    const walletAddress = session.walletAddress;
+
+    const { allowListOnly } = await req.json();
+    if (typeof allowListOnly !== "boolean") {
+      return NextResponse.json(
+        { success: false, message: "allowListOnly must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await setAllowListOnly(walletAddress, allowListOnly);
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    console.error("Address book settings error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id= - remove a destination
+export async function DELETE(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) return unauthorized();
+  const walletAddress = session.walletAddress;
+
+  const id = new URL(req.url).searchParams.get("id");
+  if (!id || !(await removeAddressBookEntry(walletAddress, id))) {
+    return NextResponse.json(
+      { success: false, message: "Address not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true });
+}
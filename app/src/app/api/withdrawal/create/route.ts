@@ -1,58 +1,69 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// In-memory storage for withdrawals (in production, use a database)
-// This is shared across requests in the same server instance
-const withdrawalStore = new Map<string, {
-  id: string;
-  walletAddress: string;
-  destinationAddress: string;
-  amount: number;
-  cryptoAmount: number;
-  currency: string;
-  network: string;
-  status: string;
-  createdAt: string;
-}>();
-
-// Balance storage (simple in-memory, should be database in production)
-const balanceStore = new Map<string, number>();
-
-// Withdrawal fees
-const WITHDRAWAL_FEES: Record<string, number> = {
-  SOL: 0.01,
-  USDT: 0.01,
-  ETH: 0.02,
-};
-
-// Network fees in USD
-const NETWORK_FEES: Record<string, number> = {
-  SOL: 0.01,
-  USDT: 0.02,
-  ETH: 5,
-};
-
-// Minimum withdrawals
-const MIN_WITHDRAWAL: Record<string, number> = {
-  SOL: 10,
-  USDT: 10,
-  ETH: 25,
-};
+import { getSession } from "@/lib/auth";
+import { CURRENT_FEE_SCHEDULE, isStaleFeeQuote, quoteWithdrawal } from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import { consumePriceQuote } from "@/lib/price-oracle";
+import { createWithdrawal, getWalletWithdrawals, getWithdrawal } from "@/lib/withdrawal-queue";
+import { withLock } from "@/lib/kv-store";
+import { evaluateWithdrawal } from "@/lib/withdrawal-policy";
+import { isValidAddress, type WithdrawalCurrency } from "@/lib/withdrawal";
+import { getAsset, getNetwork, isCryptoNetwork } from "@/lib/assets";
 
 export async function POST(req: NextRequest) {
   try {
+    const session = await getSession(req);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Wallet signature required" },
+        { status: 401 }
+      );
+    }
+    const walletAddress = session.walletAddress;
+
     const body = await req.json();
-    const { walletAddress, destinationAddress, amount, currency, network, cryptoPrice } = body;
+    const { destinationAddress, amount, currency, network, priceQuoteId, feeScheduleVersion } = body;
 
     // Validate required fields
-    if (!walletAddress || !destinationAddress || !amount || !currency || !network || !cryptoPrice) {
+    if (!destinationAddress || !amount || !currency || !network || !priceQuoteId) {
       return NextResponse.json(
         { success: false, message: "Missing required fields" },
         { status: 400 }
       );
     }
 
+    if (!(currency in CURRENT_FEE_SCHEDULE.withdrawals)) {
+      return NextResponse.json(
+        { success: false, message: `Unsupported currency: ${currency}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isCryptoNetwork(network)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid network" },
+        { status: 400 }
+      );
+    }
+
+    if (!getAsset(network, currency as WithdrawalCurrency)?.withdrawals) {
+      return NextResponse.json(
+        { success: false, message: `${currency} withdrawals are not available on ${getNetwork(network).name}` },
+        { status: 400 }
+      );
+    }
+
+    // The user was shown fees from an older schedule
+    if (isStaleFeeQuote(feeScheduleVersion)) {
+      return NextResponse.json(
+        { success: false, message: "Fees have changed, please review the new quote", feeScheduleVersion: CURRENT_FEE_SCHEDULE.version },
+        { status: 409 }
+      );
+    }
+
+    const quote = quoteWithdrawal(currency as WithdrawalCurrency, amount, await resolveFeeTier(walletAddress));
+
     // Validate minimum withdrawal
-    const minAmount = MIN_WITHDRAWAL[currency] || 10;
+    const minAmount = quote.minimum;
     if (amount < minAmount) {
       return NextResponse.json(
         { success: false, message: `Minimum withdrawal for ${currency} is $${minAmount}` },
@@ -61,41 +72,15 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate destination address format
-    if (network === 'solana') {
-      if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(destinationAddress)) {
-        return NextResponse.json(
-          { success: false, message: "Invalid Solana address" },
-          { status: 400 }
-        );
-      }
-    } else if (network === 'ethereum') {
-      if (!/^0x[a-fA-F0-9]{40}$/.test(destinationAddress)) {
-        return NextResponse.json(
-          { success: false, message: "Invalid Ethereum address" },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Get user's current balance (from the balance API storage)
-    // In production, this would be a database query
-    const balanceResponse = await fetch(`${req.nextUrl.origin}/api/deposit/balance?walletAddress=${walletAddress}`);
-    const balanceData = await balanceResponse.json();
-    const currentBalance = balanceData.success ? balanceData.data.balance : 0;
-
-    if (currentBalance < amount) {
+    if (!isValidAddress(destinationAddress, network)) {
       return NextResponse.json(
-        { success: false, message: "Insufficient balance" },
+        { success: false, message: `Invalid ${getNetwork(network).name} address` },
         { status: 400 }
       );
     }
 
     // Calculate fees
-    const feePercent = WITHDRAWAL_FEES[currency] || 0.01;
-    const feeUsd = amount * feePercent;
-    const networkFeeUsd = NETWORK_FEES[currency] || 0;
-    const netAmountUsd = amount - feeUsd - networkFeeUsd;
-    const cryptoAmount = netAmountUsd / cryptoPrice;
+    const { feeUsd, networkFeeUsd, netAmountUsd } = quote;
 
     if (netAmountUsd <= 0) {
       return NextResponse.json(
@@ -104,40 +89,69 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Create withdrawal request
-    const withdrawalId = crypto.randomUUID();
-    const withdrawal = {
-      id: withdrawalId,
-      walletAddress,
-      destinationAddress,
-      amount,
-      cryptoAmount,
-      currency,
-      network,
-      status: 'pending',
-      feeUsd,
-      networkFeeUsd,
-      netAmountUsd,
-      createdAt: new Date().toISOString(),
-    };
-
-    // Store the withdrawal
-    withdrawalStore.set(withdrawalId, withdrawal);
-
-    // Deduct balance immediately (will be refunded if withdrawal fails)
-    await fetch(`${req.nextUrl.origin}/api/deposit/balance`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
+    // One withdrawal at a time per wallet, so parallel requests can't each pass
+    // the velocity limits and together exceed them
+    return await withLock(`withdraw:${walletAddress}`, async () => {
+      // Risk policy: velocity limits, destination cool-down / allow-list, review threshold
+      const policy = await evaluateWithdrawal({
         walletAddress,
-        action: 'debit',
         amount,
-      }),
-    });
+        network,
+        destinationAddress,
+        recentWithdrawals: await getWalletWithdrawals(walletAddress),
+      });
+      if (policy.decision === 'reject') {
+        return NextResponse.json(
+          { success: false, message: policy.reasons.join('. '), reasons: policy.reasons },
+          { status: 400 }
+        );
+      }
+
+      // Price with the quote locked for this wallet (never a client-supplied price)
+      const priceQuote = await consumePriceQuote(priceQuoteId, {
+        walletAddress,
+        symbol: currency as WithdrawalCurrency,
+        purpose: 'withdrawal',
+      });
+      if (!priceQuote) {
+        return NextResponse.json(
+          { success: false, message: "Price quote expired, please review the new price" },
+          { status: 409 }
+        );
+      }
+      const cryptoPrice = priceQuote.price;
+      const cryptoAmount = netAmountUsd / cryptoPrice;
 
-    return NextResponse.json({
-      success: true,
-      data: withdrawal,
+      // Queue the withdrawal, reserving the amount from the balance (released if the payout fails)
+      const withdrawal = await createWithdrawal({
+        walletAddress,
+        destinationAddress,
+        amount,
+        cryptoAmount,
+        cryptoPrice,
+        priceQuoteId: priceQuote.id,
+        currency: currency as WithdrawalCurrency,
+        network,
+        feeUsd,
+        networkFeeUsd,
+        netAmountUsd,
+        feeScheduleVersion: quote.scheduleVersion,
+        holdUntil: policy.holdUntil,
+        reviewReasons: policy.decision === 'review' ? policy.reasons : undefined,
+      });
+      if (!withdrawal) {
+        return NextResponse.json(
+          { success: false, message: "Insufficient balance" },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: withdrawal,
+        // Why the payout won't go out right away, if it won't
+        reasons: policy.reasons.length ? policy.reasons : undefined,
+      });
     });
   } catch (error) {
     console.error("Withdrawal create error:", error);
@@ -148,15 +162,30 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// Get withdrawal status
+// Get withdrawal status (only the signed-in wallet's own withdrawals)
 export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json(
+      { success: false, message: "Wallet signature required" },
+      { status: 401 }
+    );
+  }
+
   const { searchParams } = new URL(req.url);
   const withdrawalId = searchParams.get('id');
   const walletAddress = searchParams.get('walletAddress');
 
+  if (walletAddress && walletAddress !== session.walletAddress) {
+    return NextResponse.json(
+      { success: false, message: "Session does not match wallet" },
+      { status: 403 }
+    );
+  }
+
   if (withdrawalId) {
-    const withdrawal = withdrawalStore.get(withdrawalId);
-    if (!withdrawal) {
+    const withdrawal = await getWithdrawal(withdrawalId);
+    if (!withdrawal || withdrawal.walletAddress !== session.walletAddress) {
       return NextResponse.json(
         { success: false, message: "Withdrawal not found" },
         { status: 404 }
@@ -166,9 +195,7 @@ export async function GET(req: NextRequest) {
   }
 
   if (walletAddress) {
-    const withdrawals = Array.from(withdrawalStore.values())
-      .filter(w => w.walletAddress === walletAddress)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const withdrawals = await getWalletWithdrawals(walletAddress);
     return NextResponse.json({ success: true, data: withdrawals });
   }
 
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isInternalRequest } from "@/lib/auth";
+import {
+  approveReviewedWithdrawal,
+  getWithdrawalsAwaitingReview,
+  rejectReviewedWithdrawal,
+} from "@/lib/withdrawal-queue";
+import {
+  getHourlyOutflow,
+  getPayoutPause,
+  getWithdrawalLimits,
+  pausePayouts,
+  resumePayouts,
+} from "@/lib/withdrawal-policy";
+
+export const dynamic = "force-dynamic";
+
+// GET withdrawals awaiting review and the payout pause state (internal only)
+export async function GET(request: NextRequest) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json(
+      { success: false, message: "Forbidden" },
+      { status: 403 }
+    );
+  }
+
+  const awaiting = await getWithdrawalsAwaitingReview();
+
+  return NextResponse.json({
+    success: true,
+    awaiting,
+    totalAwaiting: awaiting.length,
+    totalAmount: awaiting.reduce((sum, w) => sum + w.amount, 0),
+    paused: await getPayoutPause(),
+    hourlyOutflow: await getHourlyOutflow(),
+    hourlyOutflowCap: getWithdrawalLimits().hourlyOutflowCapUsd,
+  });
+}
+
+// POST { withdrawalId, action: 'approve' | 'reject', note? } or { action: 'pause' | 'resume', reason? } (internal only)
+export async function POST(request: NextRequest) {
+  try {
+    if (!isInternalRequest(request)) {
+      return NextResponse.json(
+        { success: false, message: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { withdrawalId, action, note, reason } = body;
+
+    if (action === "pause") {
+      const pause = await pausePayouts(reason || "Paused manually");
+      return NextResponse.json({ success: true, paused: pause });
+    }
+    if (action === "resume") {
+      await resumePayouts();
+      return NextResponse.json({ success: true, paused: null });
+    }
+
+    if (!withdrawalId || (action !== "approve" && action !== "reject")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "withdrawalId and action ('approve' or 'reject') are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const withdrawal =
+      action === "approve"
+        ? await approveReviewedWithdrawal(withdrawalId, note)
+        : await rejectReviewedWithdrawal(withdrawalId, note);
+
+    if (!withdrawal) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Withdrawal not found or not awaiting review",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, withdrawal });
+  } catch (error) {
+    console.error("Review withdrawal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
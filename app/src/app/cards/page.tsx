@@ -6,55 +6,43 @@ import { VirtualCard } from "@/components/VirtualCard";
 import { useWallet } from "@solana/wallet-adapter-react";
 import toast from "react-hot-toast";
 import {
-  kripicardClient,
+  cardClient,
   getStoredCards,
   storeCard,
   updateStoredCard,
   StoredCard,
-  CardDetails,
+  CardSummary,
   CardTransaction,
-} from "@/lib/kripicard";
+} from "@/lib/cards";
+import { CURRENT_FEE_SCHEDULE, describeRateFee, quoteCardIssuance, quoteCardFunding } from "@/lib/fees";
+import { useFeeTier } from "@/hooks/useFeeTier";
 import { depositClient } from "@/lib/deposit";
+import { authFetch } from "@/lib/session";
+import { useWalletSession } from "@/contexts/WalletSessionProvider";
 import { CryptoDepositModal } from "@/components/CryptoDepositModal";
 import { WithdrawalModal } from "@/components/WithdrawalModal";
+import { DepositHistory } from "@/components/DepositHistory";
+import { CardTransactionHistory } from "@/components/CardTransactionHistory";
+import { CardSettings } from "@/components/CardSettings";
+import { CardAutoReload } from "@/components/CardAutoReload";
+import { CardAlerts } from "@/components/CardAlerts";
 import { getPendingCryptoDeposits, CryptoDepositRequest } from "@/lib/crypto-deposit";
 
-// Bank BIN is now configured via KRIPICARD_BANK_BIN environment variable
-
-// KripiCard Fee Structure
-const CARD_FEE = 4.00; // Flat $4 card fee (new cards only)
-const SERVICE_FEE_PERCENT = 0.02; // 2%
-const SERVICE_FEE_FLAT = 1.00; // + $1
-
-function calculateCardFees(amount: number) {
-  const serviceFee = (amount * SERVICE_FEE_PERCENT) + SERVICE_FEE_FLAT;
-  const totalFees = CARD_FEE + serviceFee;
-  const totalCost = amount + totalFees;
-  return {
-    cardAmount: amount,
-    cardFee: CARD_FEE,
-    serviceFee,
-    totalFees,
-    totalCost,
-  };
-}
+// The card issuer (and its bank BIN) is chosen server-side - see card-issuers.ts
 
-// Funding fees (no card fee, just service fee)
-function calculateFundingFees(amount: number) {
-  const serviceFee = (amount * SERVICE_FEE_PERCENT) + SERVICE_FEE_FLAT;
-  const totalCost = amount + serviceFee;
-  return {
-    fundAmount: amount,
-    serviceFee,
-    totalCost,
-  };
+// Closed cards stay in history but aren't selected by default
+function firstOpenCard(cards: StoredCard[]): StoredCard | null {
+  return cards.find((card) => card.status !== "closed") || null;
 }
 
 export default function CardsPage() {
   const { publicKey, connected } = useWallet();
+  const { isAuthenticated, isSigningIn, signIn } = useWalletSession();
+  const { tier } = useFeeTier();
   const [cards, setCards] = useState<StoredCard[]>([]);
   const [selectedCard, setSelectedCard] = useState<StoredCard | null>(null);
-  const [cardDetails, setCardDetails] = useState<CardDetails | null>(null);
+  const [showClosedCards, setShowClosedCards] = useState(false);
+  const [cardDetails, setCardDetails] = useState<CardSummary | null>(null);
   const [transactions, setTransactions] = useState<CardTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -66,9 +54,9 @@ export default function CardsPage() {
   const [userBalance, setUserBalance] = useState(0);
   const [pendingDeposits, setPendingDeposits] = useState<CryptoDepositRequest[]>([]);
 
-  // Load stored cards and balance on mount
+  // Load stored cards and balance once the wallet has signed in
   useEffect(() => {
-    if (publicKey) {
+    if (publicKey && isAuthenticated) {
       const walletAddress = publicKey.toString();
       
       // Fetch cards from server storage (persists across browsers)
@@ -77,7 +65,7 @@ export default function CardsPage() {
         const localCards = getStoredCards(walletAddress);
         
         try {
-          const response = await fetch(`/api/cards/store?walletAddress=${encodeURIComponent(walletAddress)}`);
+          const response = await authFetch('/api/cards/store');
           const data = await response.json();
           
           if (data.success && data.cards && data.cards.length > 0) {
@@ -88,20 +76,20 @@ export default function CardsPage() {
             
             setCards(mergedCards);
             if (mergedCards.length > 0 && !selectedCard) {
-              setSelectedCard(mergedCards[0]);
+              setSelectedCard(firstOpenCard(mergedCards));
             }
           } else {
             // Server has no cards, use localStorage
             setCards(localCards);
             if (localCards.length > 0 && !selectedCard) {
-              setSelectedCard(localCards[0]);
+              setSelectedCard(firstOpenCard(localCards));
             }
           }
         } catch {
           // Fallback to localStorage on error
           setCards(localCards);
           if (localCards.length > 0 && !selectedCard) {
-            setSelectedCard(localCards[0]);
+            setSelectedCard(firstOpenCard(localCards));
           }
         }
       };
@@ -119,7 +107,7 @@ export default function CardsPage() {
       setPendingDeposits([]);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [publicKey]);
+  }, [publicKey, isAuthenticated]);
 
   // Fetch user balance
   const fetchBalance = useCallback(async () => {
@@ -147,14 +135,15 @@ export default function CardsPage() {
 
     setIsLoading(true);
     try {
-      const response = await kripicardClient.getCardDetails(selectedCard.cardId);
+      const response = await cardClient.getCardDetails(selectedCard.cardId);
       if (response.success && response.data) {
         setCardDetails(response.data.details);
         setTransactions(response.data.Transactions || []);
         updateStoredCard(selectedCard.cardId, {
           balance: response.data.details.balance,
-          status: response.data.details.status,
-          lastFour: response.data.details.card_number?.slice(-4),
+          // The issuer only sees a closed card as frozen
+          status: selectedCard.status === "closed" ? "closed" : response.data.details.status,
+          lastFour: response.data.details.lastFour,
         });
       }
     } catch (error) {
@@ -171,18 +160,18 @@ export default function CardsPage() {
     }
   }, [selectedCard, fetchCardDetails]);
 
-  // Create a new card
+  // Create a new card (the server debits the balance and refunds it if issuing fails)
   const handleCreateCard = async () => {
     if (!publicKey) return;
 
     const amount = parseFloat(createAmount);
-    if (isNaN(amount) || amount < 10) {
-      toast.error("Minimum card amount is $10");
+    if (isNaN(amount) || amount < CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad) {
+      toast.error(`Minimum card amount is $${CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad}`);
       return;
     }
 
     // Calculate total cost with fees
-    const fees = calculateCardFees(amount);
+    const fees = quoteCardIssuance(amount, tier);
 
     // Check if user has sufficient balance for total cost
     if (userBalance < fees.totalCost) {
@@ -192,21 +181,9 @@ export default function CardsPage() {
 
     setIsLoading(true);
     try {
-      // First, debit the user's balance (total cost including fees)
-      const debitResponse = await depositClient.updateBalance({
-        walletAddress: publicKey.toString(),
-        action: 'debit',
-        amount: fees.totalCost,
-      });
-
-      if (!debitResponse.success) {
-        toast.error(debitResponse.message || "Insufficient balance");
-        return;
-      }
-
-      // Now create the card via KripiCard
-      const response = await kripicardClient.createCard({
+      const response = await cardClient.createCard({
         amount,
+        feeScheduleVersion: fees.scheduleVersion,
       });
 
       if (response.success && response.card_id) {
@@ -219,101 +196,36 @@ export default function CardsPage() {
           balance: amount,
         };
 
-        // Save to localStorage first (always works)
+        // Keep a local copy (the server registers the card to this wallet)
         storeCard(newCard);
         
-        // Also persist to server (Vercel KV) for cross-device persistence
-        try {
-          const storeResponse = await fetch('/api/cards/store', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              cardId: newCard.cardId,
-              walletAddress: newCard.walletAddress,
-              balance: newCard.balance,
-            }),
-          });
-          const storeData = await storeResponse.json();
-          if (!storeData.success) {
-            console.error('Failed to persist card to KV:', storeData.message);
-          }
-        } catch (e) {
-          console.error('Failed to persist card to server:', e);
-        }
-        
         setCards((prev) => [...prev, newCard]);
         setSelectedCard(newCard);
         setShowCreateModal(false);
-        setUserBalance(debitResponse.data?.balance ?? userBalance - fees.totalCost);
         toast.success(`Card created with $${amount} balance!`);
       } else {
-        // Card creation failed, refund the total cost
-        await depositClient.updateBalance({
-          walletAddress: publicKey.toString(),
-          action: 'credit',
-          amount: fees.totalCost,
-        });
-        fetchBalance();
-        
-        // Track as pending refund from KripiCard (they may send money back to merchant wallet)
-        try {
-          await fetch('/api/kripicard/track-refund', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              walletAddress: publicKey.toString(),
-              amount: fees.totalCost,
-              reason: response.message || 'Card creation failed',
-            }),
-          });
-        } catch (e) {
-          console.error('Failed to track pending refund:', e);
-        }
-        
         toast.error(response.message || "Failed to create card");
       }
     } catch (error) {
-      // Refund on error
-      await depositClient.updateBalance({
-        walletAddress: publicKey.toString(),
-        action: 'credit',
-        amount: fees.totalCost,
-      });
-      fetchBalance();
-      
-      // Track as pending refund from KripiCard
-      try {
-        await fetch('/api/kripicard/track-refund', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            walletAddress: publicKey.toString(),
-            amount: fees.totalCost,
-            reason: error instanceof Error ? error.message : 'Card creation error',
-          }),
-        });
-      } catch (e) {
-        console.error('Failed to track pending refund:', e);
-      }
-      
       toast.error(error instanceof Error ? error.message : "Failed to create card");
     } finally {
+      fetchBalance();
       setIsLoading(false);
     }
   };
 
-  // Fund existing card
+  // Fund existing card (the server debits the balance and refunds it if funding fails)
   const handleFundCard = async () => {
     if (!selectedCard || !publicKey) return;
 
     const amount = parseFloat(fundAmount);
-    if (isNaN(amount) || amount < 10) {
-      toast.error("Minimum funding amount is $10");
+    if (isNaN(amount) || amount < CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad) {
+      toast.error(`Minimum funding amount is $${CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad}`);
       return;
     }
 
     // Calculate total cost with fees
-    const fees = calculateFundingFees(amount);
+    const fees = quoteCardFunding(amount, tier);
 
     // Check if user has sufficient balance for total cost
     if (userBalance < fees.totalCost) {
@@ -323,50 +235,23 @@ export default function CardsPage() {
 
     setIsLoading(true);
     try {
-      // First, debit the user's balance (total cost including fees)
-      const debitResponse = await depositClient.updateBalance({
-        walletAddress: publicKey.toString(),
-        action: 'debit',
-        amount: fees.totalCost,
-      });
-
-      if (!debitResponse.success) {
-        toast.error(debitResponse.message || "Insufficient balance");
-        return;
-      }
-
-      // Now fund the card via KripiCard
-      const response = await kripicardClient.fundCard({
+      const response = await cardClient.fundCard({
         cardId: selectedCard.cardId,
         amount,
+        feeScheduleVersion: fees.scheduleVersion,
       });
 
       if (response.success) {
         toast.success(`Added $${amount} to card!`);
         setShowFundModal(false);
-        setUserBalance(debitResponse.data?.balance ?? userBalance - fees.totalCost);
         fetchCardDetails();
       } else {
-        // Funding failed, refund the total cost
-        await depositClient.updateBalance({
-          walletAddress: publicKey.toString(),
-          action: 'credit',
-          amount: fees.totalCost,
-        });
-        fetchBalance();
         toast.error(response.message || "Failed to fund card");
       }
     } catch (error) {
-      // Refund on error - need to get fees again since they might be out of scope
-      const refundFees = calculateFundingFees(parseFloat(fundAmount) || 0);
-      await depositClient.updateBalance({
-        walletAddress: publicKey.toString(),
-        action: 'credit',
-        amount: refundFees.totalCost,
-      });
-      fetchBalance();
       toast.error(error instanceof Error ? error.message : "Failed to fund card");
     } finally {
+      fetchBalance();
       setIsLoading(false);
     }
   };
@@ -377,7 +262,7 @@ export default function CardsPage() {
 
     setIsLoading(true);
     try {
-      const response = await kripicardClient.freezeUnfreeze({
+      const response = await cardClient.freezeUnfreeze({
         cardId: selectedCard.cardId,
         action: "freeze",
       });
@@ -407,7 +292,7 @@ export default function CardsPage() {
 
     setIsLoading(true);
     try {
-      const response = await kripicardClient.freezeUnfreeze({
+      const response = await cardClient.freezeUnfreeze({
         cardId: selectedCard.cardId,
         action: "unfreeze",
       });
@@ -431,6 +316,37 @@ export default function CardsPage() {
     }
   };
 
+  // Close the card; what's left on it goes back to the TrenchBank balance
+  const handleTerminateCard = async () => {
+    if (!selectedCard) return;
+    if (!window.confirm("Close this card for good? Its remaining balance will be returned to your TrenchBank balance.")) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await cardClient.terminateCard(selectedCard.cardId);
+
+      if (response.success && response.data) {
+        toast.success(response.message || "Card closed");
+        const { residualBalance, closedAt } = response.data;
+        const updates = { status: "closed" as const, balance: 0, residualBalance, closedAt };
+        updateStoredCard(selectedCard.cardId, updates);
+        setCards((prev) =>
+          prev.map((c) => (c.cardId === selectedCard.cardId ? { ...c, ...updates } : c))
+        );
+        setSelectedCard({ ...selectedCard, ...updates });
+        fetchBalance();
+      } else {
+        toast.error(response.message || "Failed to close card");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to close card");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Handle successful deposit
   const handleDepositSuccess = (amount: number) => {
     setUserBalance(prev => prev + amount);
@@ -473,7 +389,7 @@ export default function CardsPage() {
             <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-trench-cyan/10 border border-trench-cyan/20 mb-6">
               <span className="w-2 h-2 rounded-full bg-trench-cyan animate-pulse" />
               <span className="text-sm text-trench-cyan font-medium">
-                Powered by Kripicard
+                Issued instantly
               </span>
             </div>
             <h1 className="text-4xl md:text-6xl font-bold mb-4 tracking-tight">
@@ -488,8 +404,11 @@ export default function CardsPage() {
             </p>
           </div>
 
-          {connected ? (
+          {connected && isAuthenticated ? (
             <div className="max-w-4xl mx-auto">
+              {/* Alerts */}
+              <CardAlerts />
+
               {/* Balance Card */}
               <div className="gradient-border p-6 mb-6">
                 <div className="flex items-center justify-between">
@@ -609,42 +528,54 @@ export default function CardsPage() {
                       </div>
                     ) : (
                       <div className="space-y-2">
-                        {cards.map((card) => (
-                          <button
-                            key={card.id}
-                            onClick={() => setSelectedCard(card)}
-                            className={`w-full p-3 rounded-xl border transition-all text-left ${
-                              selectedCard?.id === card.id
-                                ? "bg-trench-accent/10 border-trench-accent/50"
-                                : "bg-trench-card/50 border-trench-border hover:border-trench-accent/30"
-                            }`}
-                          >
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center gap-3">
-                                <div
-                                  className={`w-10 h-7 rounded-md ${
-                                    card.status === "frozen"
-                                      ? "bg-gradient-to-br from-slate-600 to-slate-700"
-                                      : "bg-gradient-to-br from-emerald-500 to-teal-600"
-                                  }`}
-                                />
-                                <div>
-                                  <p className="text-white font-medium text-sm">
-                                    •••• {card.lastFour || "••••"}
-                                  </p>
-                                  <p className="text-gray-400 text-xs">
-                                    {card.status === "frozen" ? "Frozen" : "Active"}
-                                  </p>
+                        {cards
+                          .filter((card) => showClosedCards || card.status !== "closed")
+                          .map((card) => (
+                            <button
+                              key={card.id}
+                              onClick={() => setSelectedCard(card)}
+                              className={`w-full p-3 rounded-xl border transition-all text-left ${
+                                selectedCard?.id === card.id
+                                  ? "bg-trench-accent/10 border-trench-accent/50"
+                                  : "bg-trench-card/50 border-trench-border hover:border-trench-accent/30"
+                              }`}
+                            >
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-3">
+                                  <div
+                                    className={`w-10 h-7 rounded-md ${
+                                      card.status === "frozen" || card.status === "closed"
+                                        ? "bg-gradient-to-br from-slate-600 to-slate-700"
+                                        : "bg-gradient-to-br from-emerald-500 to-teal-600"
+                                    }`}
+                                  />
+                                  <div>
+                                    <p className="text-white font-medium text-sm">
+                                      •••• {card.lastFour || "••••"}
+                                    </p>
+                                    <p className="text-gray-400 text-xs">
+                                      {card.status === "closed" ? "Closed" : card.status === "frozen" ? "Frozen" : "Active"}
+                                    </p>
+                                  </div>
                                 </div>
+                                {card.balance !== undefined && card.status !== "closed" && (
+                                  <p className="text-trench-accent font-semibold">
+                                    ${card.balance.toFixed(2)}
+                                  </p>
+                                )}
                               </div>
-                              {card.balance !== undefined && (
-                                <p className="text-trench-accent font-semibold">
-                                  ${card.balance.toFixed(2)}
-                                </p>
-                              )}
-                            </div>
+                            </button>
+                          ))}
+                        {cards.some((card) => card.status === "closed") && (
+                          <button
+                            onClick={() => setShowClosedCards((show) => !show)}
+                            className="w-full text-xs text-gray-400 hover:text-trench-accent transition-colors pt-1"
+                          >
+                            {showClosedCards
+                              ? "Hide closed cards"
+                              : `Show closed cards (${cards.filter((card) => card.status === "closed").length})`}
                           </button>
-                        ))}
+                        )}
                       </div>
                     )}
                   </div>
@@ -661,13 +592,21 @@ export default function CardsPage() {
                         lastFour={selectedCard.lastFour}
                         storedBalance={selectedCard.balance}
                         storedStatus={selectedCard.status}
-                        storedExpiry={selectedCard.expiry}
+                        closedAt={selectedCard.closedAt}
+                        residualBalance={selectedCard.residualBalance}
                         onFund={() => setShowFundModal(true)}
                         onFreeze={handleFreezeCard}
                         onUnfreeze={handleUnfreezeCard}
+                        onTerminate={handleTerminateCard}
                         onRefresh={fetchCardDetails}
                         isLoading={isLoading}
                       />
+                      {selectedCard.status !== "closed" && (
+                        <>
+                          <CardSettings cardId={selectedCard.cardId} />
+                          <CardAutoReload cardId={selectedCard.cardId} />
+                        </>
+                      )}
                     </div>
                   ) : (
                     <div className="gradient-border p-12 text-center">
@@ -695,6 +634,12 @@ export default function CardsPage() {
                 </div>
               </div>
 
+              {/* Card Transactions */}
+              <CardTransactionHistory cards={cards} />
+
+              {/* Deposit History */}
+              <DepositHistory />
+
               {/* Features */}
               <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-6">
                 <FeatureCard
@@ -714,6 +659,38 @@ export default function CardsPage() {
                 />
               </div>
             </div>
+          ) : connected ? (
+            <div className="max-w-lg mx-auto">
+              <div className="gradient-border p-8 text-center">
+                <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-trench-cyan/10 flex items-center justify-center">
+                  <svg
+                    className="w-10 h-10 text-trench-cyan"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="text-2xl font-bold mb-3">Verify Your Wallet</h2>
+                <p className="text-gray-400 mb-6">
+                  Sign a message with your wallet to access your balance and cards. This is free and
+                  does not send a transaction.
+                </p>
+                <button
+                  onClick={signIn}
+                  disabled={isSigningIn}
+                  className="px-6 py-3 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isSigningIn ? "Waiting for signature..." : "Sign In with Wallet"}
+                </button>
+              </div>
+            </div>
           ) : (
             <div className="max-w-lg mx-auto">
               <div className="gradient-border p-8 text-center">
@@ -756,9 +733,9 @@ export default function CardsPage() {
             Available balance: ${userBalance.toFixed(2)}
           </p>
           {(() => {
-            const fees = calculateCardFees(parseFloat(createAmount) || 0);
+            const fees = quoteCardIssuance(parseFloat(createAmount) || 0, tier);
             const canAfford = userBalance >= fees.totalCost;
-            const validAmount = (parseFloat(createAmount) || 0) >= 10;
+            const validAmount = (parseFloat(createAmount) || 0) >= CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad;
             
             return (
               <>
@@ -797,7 +774,7 @@ export default function CardsPage() {
                       placeholder="10"
                     />
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">Minimum: $10</p>
+                  <p className="text-xs text-gray-500 mt-1">Minimum: ${CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad}</p>
                 </div>
 
                 {/* Fee Breakdown */}
@@ -812,7 +789,7 @@ export default function CardsPage() {
                       <span className="text-gray-300">${fees.cardFee.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between text-sm mb-2">
-                      <span className="text-gray-400">Service Fee (2% + $1)</span>
+                      <span className="text-gray-400">Service Fee ({describeRateFee(CURRENT_FEE_SCHEDULE.service, tier)})</span>
                       <span className="text-gray-300">${fees.serviceFee.toFixed(2)}</span>
                     </div>
                     <div className="border-t border-trench-border my-2" />
@@ -853,9 +830,9 @@ export default function CardsPage() {
             Available balance: ${userBalance.toFixed(2)}
           </p>
           {(() => {
-            const fees = calculateFundingFees(parseFloat(fundAmount) || 0);
+            const fees = quoteCardFunding(parseFloat(fundAmount) || 0, tier);
             const canAfford = userBalance >= fees.totalCost;
-            const validAmount = (parseFloat(fundAmount) || 0) >= 10;
+            const validAmount = (parseFloat(fundAmount) || 0) >= CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad;
             
             return (
               <>
@@ -883,7 +860,7 @@ export default function CardsPage() {
                       placeholder="10"
                     />
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">Minimum: $10</p>
+                  <p className="text-xs text-gray-500 mt-1">Minimum: ${CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad}</p>
                 </div>
 
                 {/* Fee Breakdown */}
@@ -894,7 +871,7 @@ export default function CardsPage() {
                       <span className="text-trench-cyan">${fees.fundAmount.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between text-sm mb-2">
-                      <span className="text-gray-400">Service Fee (2% + $1)</span>
+                      <span className="text-gray-400">Service Fee ({describeRateFee(CURRENT_FEE_SCHEDULE.service, tier)})</span>
                       <span className="text-gray-300">${fees.serviceFee.toFixed(2)}</span>
                     </div>
                     <div className="border-t border-trench-border my-2" />
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { notificationClient, AppNotification } from "@/lib/notifications";
+
+// Unread notifications, e.g. a card frozen by one of its spending rules or a failed auto top-up
+export function CardAlerts() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await notificationClient.getUnread();
+      if (response.success && response.data) {
+        setNotifications(response.data);
+      }
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const dismiss = async (ids: string[]) => {
+    setNotifications((current) => current.filter((n) => !ids.includes(n.id)));
+    try {
+      await notificationClient.markRead(ids);
+    } catch (error) {
+      console.error("Failed to dismiss notifications:", error);
+    }
+  };
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          className="flex items-start justify-between gap-4 p-4 rounded-xl border border-red-500/30 bg-red-500/10"
+        >
+          <div>
+            <p className="text-sm font-semibold text-red-400">{notification.title}</p>
+            <p className="text-xs text-gray-300 mt-1">{notification.message}</p>
+            <p className="text-xs text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+          </div>
+          <button
+            onClick={() => dismiss([notification.id])}
+            className="text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+      {notifications.length > 1 && (
+        <button
+          onClick={() => dismiss(notifications.map((n) => n.id))}
+          className="text-xs text-gray-400 hover:text-trench-accent transition-colors"
+        >
+          Dismiss all
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import toast from "react-hot-toast";
+import { cardClient } from "@/lib/cards";
+import { CURRENT_FEE_SCHEDULE, quoteCardFunding } from "@/lib/fees";
+import { useFeeTier } from "@/hooks/useFeeTier";
+import type { CardReloadRecord } from "@/lib/card-auto-reload";
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 rounded-lg bg-trench-card border border-trench-border focus:border-trench-accent focus:outline-none text-sm text-white";
+
+// Per-card auto top-up from the TrenchBank balance (see card-auto-reload.ts)
+export function CardAutoReload({ cardId }: { cardId: string }) {
+  const { tier } = useFeeTier();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [threshold, setThreshold] = useState("10");
+  const [amount, setAmount] = useState("25");
+  const [maxPerDay, setMaxPerDay] = useState("1");
+  const [history, setHistory] = useState<CardReloadRecord[]>([]);
+
+  const loadAutoReload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await cardClient.getAutoReload(cardId);
+      if (response.success && response.data) {
+        const { rule } = response.data;
+        setEnabled(rule?.enabled ?? false);
+        setThreshold(rule ? String(rule.threshold) : "10");
+        setAmount(rule ? String(rule.amount) : "25");
+        setMaxPerDay(rule ? String(rule.maxPerDay) : "1");
+        setHistory(response.data.history);
+      }
+    } catch (error) {
+      console.error("Failed to load auto top-up:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    if (isOpen) loadAutoReload();
+  }, [isOpen, loadAutoReload]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await cardClient.saveAutoReload(cardId, {
+        enabled,
+        threshold: parseFloat(threshold),
+        amount: parseFloat(amount),
+        maxPerDay: parseInt(maxPerDay, 10),
+      });
+      if (response.success) {
+        toast.success(enabled ? "Auto top-up on" : "Auto top-up saved");
+      } else {
+        toast.error(response.message || "Failed to save auto top-up");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save auto top-up");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const parsedAmount = parseFloat(amount);
+  const quote =
+    parsedAmount >= CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad ? quoteCardFunding(parsedAmount, tier) : null;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-trench-border">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center justify-between w-full text-left"
+      >
+        <span className="font-semibold">Auto Top-Up</span>
+        <span className="text-xs text-gray-400">{isOpen ? "Hide" : "Edit"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              disabled={isLoading}
+            />
+            Top up this card automatically from my balance
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="text-sm text-gray-400">
+              When below ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                disabled={isLoading}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Top up ($)
+              <input
+                type="number"
+                min={CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                disabled={isLoading}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Max per day
+              <input
+                type="number"
+                min="1"
+                max="10"
+                step="1"
+                value={maxPerDay}
+                onChange={(e) => setMaxPerDay(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                disabled={isLoading}
+              />
+            </label>
+          </div>
+
+          {quote && (
+            <p className="text-xs text-gray-500">
+              Each top-up costs ${quote.totalCost.toFixed(2)} (${quote.serviceFee.toFixed(2)} service fee).
+            </p>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+            className="w-full py-2 rounded-xl bg-trench-accent text-black font-semibold hover:bg-trench-accent/90 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Auto Top-Up"}
+          </button>
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-400">Recent top-ups</p>
+              {history.slice(0, 5).map((reload) => (
+                <div
+                  key={reload.id}
+                  className="flex items-center justify-between p-3 rounded-xl bg-trench-card/50 border border-trench-border"
+                >
+                  <div>
+                    <p className="text-sm text-white">+${reload.amount.toFixed(2)}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(reload.createdAt).toLocaleString()} · balance was ${reload.balanceBefore.toFixed(2)}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full ${
+                      reload.status === "funded"
+                        ? "bg-green-500/10 text-green-400"
+                        : reload.status === "pending"
+                          ? "bg-yellow-500/10 text-yellow-400"
+                          : "bg-red-500/10 text-red-400"
+                    }`}
+                    title={reload.error}
+                  >
+                    {reload.status === "funded" ? "Funded" : reload.status === "pending" ? "Confirming" : "Failed"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import { cardClient } from "@/lib/cards";
+import { SPENDING_CATEGORIES, SpendingCategory } from "@/lib/merchants";
+import type { CardRules } from "@/lib/card-rules";
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 rounded-lg bg-trench-card border border-trench-border focus:border-trench-accent focus:outline-none text-sm text-white";
+
+// Per-card spending rules (see card-rules.ts). Breaking one freezes the card.
+export function CardSettings({ cardId }: { cardId: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState("");
+  const [monthlyLimit, setMonthlyLimit] = useState("");
+  const [blockedMerchants, setBlockedMerchants] = useState("");
+  const [blockedCategories, setBlockedCategories] = useState<SpendingCategory[]>([]);
+  const [singleUse, setSingleUse] = useState(false);
+
+  const applyRules = (rules: CardRules) => {
+    setDailyLimit(rules.dailyLimit ? String(rules.dailyLimit) : "");
+    setMonthlyLimit(rules.monthlyLimit ? String(rules.monthlyLimit) : "");
+    setBlockedMerchants(rules.blockedMerchants.join(", "));
+    setBlockedCategories(rules.blockedCategories);
+    setSingleUse(rules.singleUse);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    cardClient
+      .getRules(cardId)
+      .then((response) => {
+        if (!cancelled && response.success && response.data) applyRules(response.data);
+      })
+      .catch((error) => console.error("Failed to load card rules:", error))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId, isOpen]);
+
+  const toggleCategory = (category: SpendingCategory) => {
+    setBlockedCategories((current) =>
+      current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await cardClient.saveRules(cardId, {
+        dailyLimit: dailyLimit ? parseFloat(dailyLimit) : undefined,
+        monthlyLimit: monthlyLimit ? parseFloat(monthlyLimit) : undefined,
+        blockedMerchants: blockedMerchants.split(",").map((m) => m.trim()).filter(Boolean),
+        blockedCategories,
+        singleUse,
+      });
+      if (response.success && response.data) {
+        applyRules(response.data);
+        toast.success("Card rules saved");
+      } else {
+        toast.error(response.message || "Failed to save card rules");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save card rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-trench-border">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center justify-between w-full text-left"
+      >
+        <span className="font-semibold">Spending Controls</span>
+        <span className="text-xs text-gray-400">{isOpen ? "Hide" : "Edit"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            A charge that breaks one of these rules freezes the card and sends you an alert.
+            Rules apply to charges made after you save them.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-400">
+              Daily limit ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={dailyLimit}
+                onChange={(e) => setDailyLimit(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                disabled={isLoading}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Monthly limit ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={monthlyLimit}
+                onChange={(e) => setMonthlyLimit(e.target.value)}
+                className={`${INPUT_CLASS} mt-1`}
+                disabled={isLoading}
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm text-gray-400">
+            Blocked merchants (comma separated keywords)
+            <input
+              type="text"
+              placeholder="e.g. casino, bet365"
+              value={blockedMerchants}
+              onChange={(e) => setBlockedMerchants(e.target.value)}
+              className={`${INPUT_CLASS} mt-1`}
+              disabled={isLoading}
+            />
+          </label>
+
+          <div>
+            <p className="text-sm text-gray-400 mb-2">Blocked categories</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SPENDING_CATEGORIES) as SpendingCategory[])
+                .filter((category) => category !== "card_funding")
+                .map((category) => (
+                  <button
+                    key={category}
+                    onClick={() => toggleCategory(category)}
+                    disabled={isLoading}
+                    className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                      blockedCategories.includes(category)
+                        ? "border-red-500/50 bg-red-500/10 text-red-400"
+                        : "border-trench-border text-gray-400 hover:border-trench-accent"
+                    }`}
+                  >
+                    {SPENDING_CATEGORIES[category]}
+                  </button>
+                ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={singleUse}
+              onChange={(e) => setSingleUse(e.target.checked)}
+              disabled={isLoading}
+            />
+            Single-use card (freeze after the first charge)
+          </label>
+
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving}
+            className="w-full py-2 rounded-xl bg-trench-accent text-black font-semibold hover:bg-trench-accent/90 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Rules"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
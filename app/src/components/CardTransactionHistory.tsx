@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import toast from "react-hot-toast";
+import { cardClient, StoredCard } from "@/lib/cards";
+import { SPENDING_CATEGORIES, isSpendingCategory } from "@/lib/merchants";
+import type { CardTransactionFilter, SyncedCardTransaction } from "@/lib/card-transactions";
+
+const STATUS_STYLES: Record<SyncedCardTransaction["status"], { label: string; className: string }> = {
+  completed: { label: "Completed", className: "bg-green-500/10 text-green-400" },
+  pending: { label: "Pending", className: "bg-yellow-500/10 text-yellow-400" },
+  failed: { label: "Failed", className: "bg-red-500/10 text-red-400" },
+};
+
+const INPUT_CLASS =
+  "bg-trench-card/50 border border-trench-border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-trench-accent";
+
+export function CardTransactionHistory({ cards }: { cards: StoredCard[] }) {
+  const [transactions, setTransactions] = useState<SyncedCardTransaction[]>([]);
+  const [filter, setFilter] = useState<CardTransactionFilter>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const loadTransactions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await cardClient.getTransactions(filter);
+      if (response.success && response.data) {
+        setTransactions(response.data);
+      }
+    } catch (error) {
+      console.error("Failed to load card transactions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    // Don't hit the API on every keystroke of the search box
+    const timer = setTimeout(loadTransactions, 300);
+    return () => clearTimeout(timer);
+  }, [loadTransactions]);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await cardClient.syncTransactions();
+      if (!result.success) {
+        toast.error(result.message || "Some cards could not be synced");
+      }
+      await loadTransactions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to sync transactions");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "ofx") => {
+    try {
+      await cardClient.exportTransactions(filter, format);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export transactions");
+    }
+  };
+
+  const updateFilter = (updates: Partial<CardTransactionFilter>) => {
+    setFilter((current) => ({ ...current, ...updates }));
+  };
+
+  if (cards.length === 0) return null;
+
+  const merchants = Array.from(
+    new Set(transactions.map((tx) => tx.merchant).concat(filter.merchant).filter((m): m is string => Boolean(m)))
+  ).sort();
+  const lastFour = (cardId: string) =>
+    cards.find((card) => card.cardId === cardId)?.lastFour || cardId.slice(-4);
+
+  return (
+    <div className="gradient-border p-4 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Card Transactions</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => handleExport("csv")}
+            disabled={transactions.length === 0}
+            className="text-xs text-gray-400 hover:text-trench-accent transition-colors disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport("ofx")}
+            disabled={transactions.length === 0}
+            className="text-xs text-gray-400 hover:text-trench-accent transition-colors disabled:opacity-50"
+          >
+            Export OFX
+          </button>
+          <button
+            onClick={handleSync}
+            disabled={isSyncing || isLoading}
+            className="text-xs text-gray-400 hover:text-trench-accent transition-colors disabled:opacity-50"
+          >
+            {isSyncing ? "Syncing..." : "Sync"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-4">
+        <input
+          type="text"
+          placeholder="Search merchant or ID"
+          value={filter.query || ""}
+          onChange={(e) => updateFilter({ query: e.target.value || undefined })}
+          className={`${INPUT_CLASS} col-span-2`}
+        />
+        <select
+          value={filter.cardId || ""}
+          onChange={(e) => updateFilter({ cardId: e.target.value || undefined })}
+          className={INPUT_CLASS}
+        >
+          <option value="">All cards</option>
+          {cards.map((card) => (
+            <option key={card.cardId} value={card.cardId}>
+              •••• {lastFour(card.cardId)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.merchant || ""}
+          onChange={(e) => updateFilter({ merchant: e.target.value || undefined })}
+          className={INPUT_CLASS}
+        >
+          <option value="">All merchants</option>
+          {merchants.map((merchant) => (
+            <option key={merchant} value={merchant}>
+              {merchant}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.category || ""}
+          onChange={(e) =>
+            updateFilter({ category: isSpendingCategory(e.target.value) ? e.target.value : undefined })
+          }
+          className={INPUT_CLASS}
+        >
+          <option value="">All categories</option>
+          {Object.entries(SPENDING_CATEGORIES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            aria-label="From"
+            value={filter.from || ""}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={`${INPUT_CLASS} w-full`}
+          />
+          <input
+            type="date"
+            aria-label="To"
+            value={filter.to || ""}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={`${INPUT_CLASS} w-full`}
+          />
+        </div>
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          {isLoading ? "Loading..." : "No transactions found"}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {transactions.map((tx) => {
+            const status = STATUS_STYLES[tx.status];
+            return (
+              <div
+                key={tx.id}
+                className="flex items-center justify-between p-3 rounded-xl bg-trench-card/50"
+              >
+                <div>
+                  <p className="text-sm text-white">
+                    {tx.merchant || (tx.type === "funding" ? "Card funding" : "Card transaction")}
+                    <span className="text-xs text-gray-400 ml-2">{SPENDING_CATEGORIES[tx.category]}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(tx.createdAt).toLocaleString()} · •••• {lastFour(tx.cardId)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`text-sm ${tx.type === "charge" ? "text-white" : "text-green-400"}`}>
+                    {tx.type === "charge" ? "-" : "+"}${tx.amount.toFixed(2)}
+                  </p>
+                  {tx.status !== "completed" && (
+                    <span className={`text-xs px-2 py-1 rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { QRCodeSVG } from "qrcode.react";
 import toast from "react-hot-toast";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import {
   CryptoCurrency,
   CryptoNetwork,
@@ -12,11 +13,13 @@ import {
   completeCryptoDeposit,
   cancelCryptoDeposit,
   getPendingCryptoDeposits,
-  isTransactionUsed,
-  markTransactionUsed,
   NETWORK_CONFIG,
 } from "@/lib/crypto-deposit";
-import { depositClient } from "@/lib/deposit";
+import { CURRENCIES, NETWORKS, formatCryptoAmount, getDepositAssets, isEvmNetwork } from "@/lib/assets";
+import { authFetch } from "@/lib/session";
+import { CURRENT_FEE_SCHEDULE, describeRateFee, quoteDeposit, quoteDepositForNet } from "@/lib/fees";
+import { useFeeTier } from "@/hooks/useFeeTier";
+import { buildDepositTransfer } from "@/lib/deposit-transfer";
 
 interface CryptoDepositModalProps {
   walletAddress: string;
@@ -29,45 +32,25 @@ interface PriceData {
   price: number;
 }
 
-// Deposit Fee Structure (2% + $5)
-const DEPOSIT_FEE_PERCENT = 0.02; // 2%
-const DEPOSIT_FEE_FLAT = 5.00; // $5
-
-// Calculate fees when you know the GROSS amount (what user sends)
-function calculateFeesFromGross(grossAmount: number) {
-  const percentFee = grossAmount * DEPOSIT_FEE_PERCENT;
-  const totalFee = percentFee + DEPOSIT_FEE_FLAT;
-  const netAmount = grossAmount - totalFee;
-  return {
-    grossAmount,
-    percentFee,
-    flatFee: DEPOSIT_FEE_FLAT,
-    totalFee,
-    netAmount: Math.max(0, netAmount),
-  };
-}
+type DepositStep = "pending" | "select" | "payment" | "verify" | "complete";
 
-// Calculate gross amount when you know the NET amount (what user wants to receive)
-// Formula: net = gross - (gross * 0.02 + 5) => gross = (net + 5) / 0.98
-function calculateGrossFromNet(netAmount: number) {
-  const grossAmount = (netAmount + DEPOSIT_FEE_FLAT) / (1 - DEPOSIT_FEE_PERCENT);
-  const percentFee = grossAmount * DEPOSIT_FEE_PERCENT;
-  const totalFee = percentFee + DEPOSIT_FEE_FLAT;
-  return {
-    grossAmount,
-    percentFee,
-    flatFee: DEPOSIT_FEE_FLAT,
-    totalFee,
-    netAmount,
-  };
-}
+const DEPOSIT_ASSETS = getDepositAssets();
+const DEPOSIT_CURRENCIES = DEPOSIT_ASSETS
+  .map((a) => a.symbol)
+  .filter((symbol, i, all) => all.indexOf(symbol) === i);
 
-// Legacy function for compatibility
-function calculateDepositFees(amount: number) {
-  return calculateFeesFromGross(amount);
+// Networks `currency` can be deposited on
+function depositNetworksFor(currency: CryptoCurrency): CryptoNetwork[] {
+  return DEPOSIT_ASSETS.filter((a) => a.symbol === currency).map((a) => a.network);
 }
 
-type DepositStep = "pending" | "select" | "payment" | "verify" | "complete";
+// e.g. "5/12 confirmations" or "waiting for finalization"
+function describeConfirmationProgress(deposit: CryptoDepositRequest | null): string {
+  const finality = deposit?.finality;
+  if (finality?.confirmations) return `${Math.min(deposit?.confirmations ?? 0, finality.confirmations)}/${finality.confirmations} confirmations`;
+  if (finality?.commitment === "finalized") return "waiting for finalization";
+  return "waiting for network confirmations";
+}
 
 export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: CryptoDepositModalProps) {
   const [step, setStep] = useState<DepositStep>("select");
@@ -82,8 +65,14 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
     SOL: { symbol: "SOL", price: 185 },
     ETH: { symbol: "ETH", price: 3200 },
     USDT: { symbol: "USDT", price: 1 },
+    USDC: { symbol: "USDC", price: 1 },
+    PYUSD: { symbol: "PYUSD", price: 1 },
   });
   const [copied, setCopied] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const { tier } = useFeeTier();
+  const { publicKey, sendTransaction } = useWallet();
+  const { connection } = useConnection();
 
   // Check for pending deposits on mount
   useEffect(() => {
@@ -110,42 +99,42 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
   // User enters NET amount (what they want to receive)
   // We calculate GROSS amount (what they need to send, including fees)
   const netAmount = parseFloat(amount) || 0;
-  const feeCalc = calculateGrossFromNet(netAmount);
+  const feeCalc = quoteDepositForNet(network, netAmount, tier);
   const grossAmount = feeCalc.grossAmount;
+  const minAmount = feeCalc.minimum;
+  const minGrossAmount = quoteDepositForNet(network, minAmount, tier).grossAmount;
+  const feeLabel = describeRateFee(CURRENT_FEE_SCHEDULE.deposits[network], tier);
   
   // Convert GROSS to crypto (this is what user actually sends)
-  const cryptoAmount = currency === "USDT" 
+  const cryptoAmount = CURRENCIES[currency].stablecoin
     ? grossAmount
     : grossAmount / (prices[currency]?.price || 1);
 
   // Handle currency/network selection
   const handleCurrencySelect = (cur: CryptoCurrency) => {
     setCurrency(cur);
-    // Auto-select network based on currency
-    if (cur === "ETH") {
-      setNetwork("ethereum");
-    } else if (cur === "SOL") {
-      setNetwork("solana");
+    // Keep the network if it offers the currency, otherwise take the first that does
+    const networks = depositNetworksFor(cur);
+    if (!networks.includes(network)) {
+      setNetwork(networks[0]);
     }
-    // USDT can be on either network, default to Solana
   };
 
   // Create deposit request
   const handleCreateDeposit = async () => {
     // User enters NET amount (what they want to receive)
-    if (isNaN(netAmount) || netAmount < 20) {
-      toast.error("Minimum amount to receive is $20");
+    if (isNaN(netAmount) || netAmount < minAmount) {
+      toast.error(`Minimum amount to receive is $${minAmount}`);
       return;
     }
 
     setIsLoading(true);
     try {
       // Send GROSS amount to API (what user will actually send)
-      const response = await fetch("/api/crypto-deposit/create", {
+      const response = await authFetch("/api/crypto-deposit/create", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          walletAddress,
           amount: grossAmount, // Gross amount (including fees)
           netAmount: netAmount, // Net amount (what user receives)
           currency,
@@ -158,8 +147,11 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
       if (data.success) {
         // Store locally with both amounts
         const localDeposit = createCryptoDeposit({
+          id: data.data.id,
+          reference: data.data.reference,
           walletAddress,
           amount: grossAmount, // Store gross as the deposit amount
+          cryptoAmount: data.data.cryptoAmount,
           currency,
           network,
           depositAddress: data.data.depositAddress,
@@ -178,6 +170,46 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
     }
   };
 
+  // The deposit watcher picks up the payment on its own; follow the request's status
+  useEffect(() => {
+    if (!deposit || (step !== "payment" && step !== "verify")) return;
+
+    const poll = async () => {
+      try {
+        const response = await authFetch(`/api/crypto-deposit/status?id=${deposit.id}`);
+        const data = await response.json();
+        if (!data.success) return;
+
+        const server: CryptoDepositRequest = data.data;
+        if (server.status === "confirming") {
+          setDeposit({ ...deposit, ...server });
+          if (deposit.status !== "confirming") {
+            updateCryptoDeposit(deposit.id, { status: "confirming", txSignature: server.txSignature });
+          }
+        } else if (server.status === "pending" && deposit.status === "confirming") {
+          // The payment's transaction failed or was dropped in a reorg
+          setDeposit({ ...deposit, ...server, txSignature: undefined });
+          updateCryptoDeposit(deposit.id, { status: "pending", txSignature: undefined });
+          toast.error("Your payment's transaction didn't settle on-chain. Please check your wallet or contact support.");
+        } else if (server.status === "completed") {
+          const creditAmount = server.creditAmount ?? 0;
+          completeCryptoDeposit(deposit.id, server.txSignature || "");
+          setDeposit({ ...deposit, ...server, netAmount: creditAmount });
+          refreshPendingDeposits();
+          setStep("complete");
+          onSuccess(creditAmount);
+          toast.success(`$${creditAmount.toFixed(2)} credited to your balance! (Fee: $${(server.feeAmount ?? 0).toFixed(2)})`);
+        }
+      } catch (error) {
+        console.error("Deposit status check failed:", error);
+      }
+    };
+
+    const interval = setInterval(poll, 10000);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [deposit?.id, deposit?.status, step]);
+
   // Copy address to clipboard
   const copyAddress = () => {
     if (deposit?.depositAddress) {
@@ -188,9 +220,9 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
     }
   };
 
-  // Copy amount to clipboard
+  // Copy amount to clipboard (the amount quoted by the server)
   const copyAmount = () => {
-    navigator.clipboard.writeText(cryptoAmount.toFixed(currency === "USDT" ? 2 : 6));
+    navigator.clipboard.writeText(formatCryptoAmount(deposit?.cryptoAmount ?? cryptoAmount, currency));
     toast.success("Amount copied!");
   };
 
@@ -228,9 +260,9 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
     }
   };
 
-  // Verify transaction
-  const handleVerifyTransaction = async () => {
-    if (!txSignature.trim()) {
+  // Verify transaction (the pasted signature, or one just sent from the connected wallet)
+  const handleVerifyTransaction = async (signature: string = txSignature) => {
+    if (!signature.trim()) {
       toast.error("Please enter the transaction signature");
       return;
     }
@@ -240,53 +272,31 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
       return;
     }
 
-    // Check if this transaction has already been used (client-side check)
-    if (isTransactionUsed(txSignature)) {
-      toast.error("This transaction has already been used to verify a deposit.");
-      return;
-    }
-
     setIsLoading(true);
     try {
-      const response = await fetch("/api/crypto-deposit/verify", {
+      const response = await authFetch("/api/crypto-deposit/verify", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           depositId: deposit.id,
-          txSignature: txSignature.trim(),
-          network: deposit.network,
-          currency: deposit.currency,
-          expectedAmount: deposit.cryptoAmount,
-          depositAddress: deposit.depositAddress,
-          walletAddress,
+          txSignature: signature.trim(),
         }),
       });
 
       const data = await response.json();
 
-      if (data.success && data.data.verified) {
-        // Mark transaction as used (client-side tracking)
-        markTransactionUsed(txSignature);
-        
+      if (data.success && data.data.verified && data.data.status === "confirming") {
+        // Credited by the status poll once the transaction is final
+        updateCryptoDeposit(deposit.id, { status: "confirming", txSignature: signature });
+        setDeposit({ ...deposit, status: "confirming", txSignature: signature, finality: data.data.finality, confirmations: data.data.confirmations });
+        toast.success(data.message);
+      } else if (data.success && data.data.verified) {
         // Mark deposit as complete locally
-        completeCryptoDeposit(deposit.id, txSignature);
+        completeCryptoDeposit(deposit.id, signature);
         
-        // Use stored netAmount or calculate from gross
-        const creditAmount = deposit.netAmount || calculateFeesFromGross(deposit.amount).netAmount;
-        const feeAmount = deposit.amount - creditAmount;
-        
-        // Credit balance (net amount after fees)
-        const balanceResult = await depositClient.updateBalance({
-          walletAddress,
-          action: "credit",
-          amount: creditAmount,
-        });
-
-        if (!balanceResult.success) {
-          console.error("Failed to credit balance:", balanceResult.message);
-          toast.error("Transaction verified but failed to credit balance. Please contact support.");
-          return;
-        }
+        // The server credits the net amount (after fees) when it verifies the transaction
+        const creditAmount: number = data.data.creditAmount ?? 0;
+        const feeAmount: number = data.data.feeAmount ?? 0;
 
         // Refresh pending list
         refreshPendingDeposits();
@@ -304,6 +314,35 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
     }
   };
 
+  // Pay a Solana deposit from the connected wallet, then verify it right away
+  const handlePayWithWallet = async () => {
+    if (!deposit || !publicKey) return;
+
+    setIsPaying(true);
+    try {
+      const { transaction, blockhash, lastValidBlockHeight } = await buildDepositTransfer(connection, publicKey, deposit);
+      const signature = await sendTransaction(transaction, connection);
+      setTxSignature(signature);
+      updateCryptoDeposit(deposit.id, { txSignature: signature });
+      setStep("verify");
+
+      toast.loading("Waiting for confirmation...", { id: "deposit-pay" });
+      const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+      toast.dismiss("deposit-pay");
+      if (confirmation.value.err) {
+        toast.error("Transaction failed on-chain");
+        return;
+      }
+
+      await handleVerifyTransaction(signature);
+    } catch (error) {
+      toast.dismiss("deposit-pay");
+      toast.error(error instanceof Error ? error.message : "Payment was not sent");
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
   // Render based on step
   const renderStep = () => {
     switch (step) {
@@ -325,7 +364,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                   <div className="flex justify-between items-start mb-2">
                     <div>
                       <p className="font-semibold text-white">
-                        {pending.cryptoAmount.toFixed(pending.currency === "USDT" ? 2 : 6)} {pending.currency}
+                        {formatCryptoAmount(pending.cryptoAmount, pending.currency)} {pending.currency}
                       </p>
                       <p className="text-sm text-gray-400">≈ ${pending.amount.toFixed(2)}</p>
                     </div>
@@ -379,11 +418,11 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
           <>
             <h3 className="text-xl font-bold mb-2">Deposit Crypto</h3>
             <p className="text-gray-400 text-sm mb-2">
-              Deposit SOL, USDT, or ETH directly. No third-party processors.
+              Deposit {DEPOSIT_CURRENCIES.join(", ")} directly. No third-party processors.
             </p>
             <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3 mb-4">
               <p className="text-xs text-blue-400">
-                ℹ️ Deposit fee: <span className="font-semibold">2% + $5</span>
+                ℹ️ Deposit fee: <span className="font-semibold">{feeLabel}</span>
               </p>
             </div>
 
@@ -420,14 +459,14 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                   placeholder="50"
                 />
               </div>
-              <p className="text-xs text-gray-500 mt-1">Minimum: $20 (you&apos;ll send ~${(20 + 5) / 0.98 > 0 ? ((20 + 5) / 0.98).toFixed(2) : '25.51'} after fees)</p>
+              <p className="text-xs text-gray-500 mt-1">Minimum: ${minAmount} (you&apos;ll send ~${minGrossAmount.toFixed(2)} after fees)</p>
             </div>
 
             {/* Currency Selection */}
             <div className="mb-4">
               <label className="block text-sm text-gray-400 mb-2">Select Currency</label>
               <div className="grid grid-cols-3 gap-2">
-                {(["SOL", "USDT", "ETH"] as CryptoCurrency[]).map((cur) => (
+                {DEPOSIT_CURRENCIES.map((cur) => (
                   <button
                     key={cur}
                     onClick={() => handleCurrencySelect(cur)}
@@ -446,47 +485,39 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               </div>
             </div>
 
-            {/* Network Selection (for USDT) */}
-            {currency === "USDT" && (
+            {/* Network Selection (for currencies on more than one network) */}
+            {depositNetworksFor(currency).length > 1 && (
               <div className="mb-4">
                 <label className="block text-sm text-gray-400 mb-2">Select Network</label>
                 <div className="grid grid-cols-2 gap-2">
-                  <button
-                    onClick={() => setNetwork("solana")}
-                    className={`p-3 rounded-xl border transition-all ${
-                      network === "solana"
-                        ? "bg-trench-accent/20 border-trench-accent"
-                        : "bg-trench-card border-trench-border hover:border-trench-accent/50"
-                    }`}
-                  >
-                    <div className="font-semibold">Solana</div>
-                    <div className="text-xs text-gray-400">Fast & cheap</div>
-                  </button>
-                  <button
-                    onClick={() => setNetwork("ethereum")}
-                    className={`p-3 rounded-xl border transition-all ${
-                      network === "ethereum"
-                        ? "bg-trench-accent/20 border-trench-accent"
-                        : "bg-trench-card border-trench-border hover:border-trench-accent/50"
-                    }`}
-                  >
-                    <div className="font-semibold">Ethereum</div>
-                    <div className="text-xs text-gray-400">ERC-20</div>
-                  </button>
+                  {depositNetworksFor(currency).map((net) => (
+                    <button
+                      key={net}
+                      onClick={() => setNetwork(net)}
+                      className={`p-3 rounded-xl border transition-all ${
+                        network === net
+                          ? "bg-trench-accent/20 border-trench-accent"
+                          : "bg-trench-card border-trench-border hover:border-trench-accent/50"
+                      }`}
+                    >
+                      <div className="font-semibold">{NETWORKS[net].name}</div>
+                      <div className="text-xs text-gray-400">{isEvmNetwork(net) ? "ERC-20" : "Fast & cheap"}</div>
+                    </button>
+                  ))}
                 </div>
               </div>
             )}
 
             {/* Fee Breakdown */}
             {(() => {
-              const validAmount = netAmount >= 20;
+              const validAmount = netAmount >= minAmount;
               
               return (
                 <div className="bg-trench-black/50 rounded-xl p-4 mb-6 border border-trench-border">
                   <div className="flex justify-between text-sm mb-2">
                     <span className="text-gray-400">You&apos;ll send</span>
                     <span className="text-white font-mono">
-                      {cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}
+                      {formatCryptoAmount(cryptoAmount, currency)} {currency}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm mb-2">
@@ -501,8 +532,8 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                     <>
                       <div className="border-t border-trench-border my-2" />
                       <div className="flex justify-between text-sm mb-2">
-                        <span className="text-gray-400">Deposit Fee (2% + $5)</span>
-                        <span className="text-red-400">-${feeCalc.totalFee.toFixed(2)}</span>
+                        <span className="text-gray-400">Deposit Fee ({feeLabel})</span>
+                        <span className="text-red-400">-${feeCalc.fee.toFixed(2)}</span>
                       </div>
                       <div className="border-t border-trench-border my-2" />
                       <div className="flex justify-between font-semibold">
@@ -525,7 +556,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               </button>
               <button
                 onClick={handleCreateDeposit}
-                disabled={isLoading || parseFloat(amount) < 20}
+                disabled={isLoading || parseFloat(amount) < minAmount}
                 className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
               >
                 {isLoading ? "Creating..." : "Continue"}
@@ -542,15 +573,28 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               Send exactly the amount shown to the address below.
             </p>
 
-            {/* QR Code */}
-            <div className="flex justify-center mb-4">
+            {/* QR Code - a payment request where supported, so the wallet fills in amount and reference */}
+            <div className="flex flex-col items-center mb-4">
               <div className="bg-white p-4 rounded-xl">
                 <QRCodeSVG
-                  value={deposit?.depositAddress || ""}
+                  value={deposit?.paymentUri || deposit?.depositAddress || ""}
                   size={160}
                   level="H"
                 />
               </div>
+              {deposit?.paymentUri && (
+                <>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Scan with {isEvmNetwork(network) ? `an ${NETWORKS[network].name}` : "a Solana Pay"} wallet to pre-fill the payment
+                  </p>
+                  <a
+                    href={deposit.paymentUri}
+                    className="text-xs text-trench-cyan hover:underline mt-1"
+                  >
+                    Open in wallet
+                  </a>
+                </>
+              )}
             </div>
 
             {/* Amount to Send */}
@@ -559,8 +603,13 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                 <div>
                   <p className="text-xs text-gray-400 mb-1">Amount to send</p>
                   <p className="text-xl font-bold font-mono text-trench-cyan">
-                    {deposit?.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}
+                    {deposit && formatCryptoAmount(deposit.cryptoAmount, currency)} {currency}
                   </p>
+                  {deposit?.priceLockedUntil && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Price locked until {new Date(deposit.priceLockedUntil).toLocaleTimeString()}
+                    </p>
+                  )}
                 </div>
                 <button
                   onClick={copyAmount}
@@ -573,6 +622,17 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               </div>
             </div>
 
+            {/* One-click payment from the connected Solana wallet */}
+            {network === "solana" && publicKey && (
+              <button
+                onClick={handlePayWithWallet}
+                disabled={isPaying || !deposit}
+                className="w-full mb-4 py-3 px-4 rounded-xl bg-trench-accent/20 border border-trench-accent text-trench-accent font-semibold hover:bg-trench-accent/30 transition-colors disabled:opacity-50"
+              >
+                {isPaying ? "Sending..." : `Pay with connected wallet (${publicKey.toBase58().slice(0, 4)}...${publicKey.toBase58().slice(-4)})`}
+              </button>
+            )}
+
             {/* Deposit Address */}
             <div className="mb-4">
               <p className="text-xs text-gray-400 mb-2">Deposit Address ({NETWORK_CONFIG[network].name})</p>
@@ -599,11 +659,21 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               </div>
             </div>
 
-            {/* Reference Code */}
-            {deposit?.reference && (
+            {/* Reference Code - Solana payments must carry it, EVM ones go to the user's own address */}
+            {deposit?.reference && network === "solana" && (
               <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-3 mb-4">
-                <p className="text-xs text-yellow-400 mb-1">Reference (include in memo if possible)</p>
+                <p className="text-xs text-yellow-400 mb-1">Memo (required)</p>
                 <code className="font-mono font-bold text-yellow-300">{deposit.reference}</code>
+                <p className="text-xs text-gray-400 mt-1">
+                  Add this memo to your transfer. Payments without it can&apos;t be matched to your account.
+                </p>
+              </div>
+            )}
+            {isEvmNetwork(network) && (
+              <div className="bg-trench-black/50 rounded-xl p-3 mb-4 border border-trench-border">
+                <p className="text-xs text-gray-400">
+                  This address is yours alone - anything sent to it is credited to your account.
+                </p>
               </div>
             )}
 
@@ -615,17 +685,26 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                   <span className="text-white">${deposit.amount.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-xs mb-1">
-                  <span className="text-gray-400">Fee (2% + $5)</span>
-                  <span className="text-red-400">-${calculateFeesFromGross(deposit.amount).totalFee.toFixed(2)}</span>
+                  <span className="text-gray-400">Fee ({feeLabel})</span>
+                  <span className="text-red-400">-${quoteDeposit(deposit.network, deposit.amount, tier).fee.toFixed(2)}</span>
                 </div>
                 <div className="border-t border-trench-border my-1" />
                 <div className="flex justify-between text-sm font-semibold">
                   <span className="text-gray-300">You&apos;ll receive</span>
-                  <span className="text-trench-cyan">${(deposit.netAmount || calculateFeesFromGross(deposit.amount).netAmount).toFixed(2)}</span>
+                  <span className="text-trench-cyan">${(deposit.netAmount || quoteDeposit(deposit.network, deposit.amount, tier).netAmount).toFixed(2)}</span>
                 </div>
               </div>
             )}
 
+            {/* Detection status */}
+            <div className="bg-trench-black/50 rounded-xl p-3 mb-4 border border-trench-border">
+              <p className="text-xs text-gray-400">
+                {deposit?.status === "confirming"
+                  ? `Payment detected - ${describeConfirmationProgress(deposit)}. Your balance is credited automatically.`
+                  : "Waiting for your payment. It's detected automatically once sent - no need to paste the transaction."}
+              </p>
+            </div>
+
             {/* Warning */}
             <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-3 mb-6">
               <p className="text-xs text-red-400">
@@ -665,7 +744,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
               <textarea
                 value={txSignature}
                 onChange={(e) => setTxSignature(e.target.value)}
-                placeholder={network === "solana" ? "e.g., 5xG7...abc" : "e.g., 0x123...abc"}
+                placeholder={isEvmNetwork(network) ? "e.g., 0x123...abc" : "e.g., 5xG7...abc"}
                 className="w-full p-3 rounded-xl bg-trench-card border border-trench-border focus:border-trench-accent focus:outline-none text-white font-mono text-sm resize-none"
                 rows={3}
               />
@@ -677,17 +756,25 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                   rel="noopener noreferrer"
                   className="text-trench-cyan hover:underline"
                 >
-                  {network === "solana" ? "Solscan" : "Etherscan"}
+                  {NETWORKS[network].explorerName}
                 </a>
               </p>
             </div>
 
+            {deposit?.status === "confirming" && (
+              <div className="bg-trench-accent/10 border border-trench-accent/30 rounded-xl p-3 mb-4">
+                <p className="text-xs text-trench-accent">
+                  Payment verified - {describeConfirmationProgress(deposit)}. Your balance is credited automatically once it&apos;s final.
+                </p>
+              </div>
+            )}
+
             {/* Expected Details */}
             <div className="bg-trench-black/50 rounded-xl p-4 mb-6 border border-trench-border">
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-gray-400">Expected amount</span>
                 <span className="text-white font-mono">
-                  {deposit?.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}
+                  {deposit && formatCryptoAmount(deposit.cryptoAmount, currency)} {currency}
                 </span>
               </div>
               <div className="flex justify-between text-sm">
@@ -707,8 +794,8 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                 Back
               </button>
               <button
-                onClick={handleVerifyTransaction}
-                disabled={isLoading || !txSignature.trim()}
+                onClick={() => handleVerifyTransaction()}
+                disabled={isLoading || isPaying || !txSignature.trim() || deposit?.status === "confirming"}
                 className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
               >
                 {isLoading ? "Verifying..." : "Verify & Credit"}
@@ -718,7 +805,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
         );
 
       case "complete":
-        const completeNetAmount = deposit?.netAmount || (deposit ? calculateFeesFromGross(deposit.amount).netAmount : 0);
+        const completeNetAmount = deposit?.netAmount || (deposit ? quoteDeposit(deposit.network, deposit.amount, tier).netAmount : 0);
         const completeFeeAmount = deposit ? deposit.amount - completeNetAmount : 0;
         return (
           <>
@@ -738,7 +825,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                     <span className="text-white">${deposit.amount.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between text-sm mb-2">
-                    <span className="text-gray-400">Fee (2% + $5)</span>
+                    <span className="text-gray-400">Fee ({feeLabel})</span>
                     <span className="text-red-400">-${completeFeeAmount.toFixed(2)}</span>
                   </div>
                   <div className="border-t border-trench-border my-2" />
@@ -756,7 +843,7 @@ export function CryptoDepositModal({ walletAddress, onClose, onSuccess }: Crypto
                   rel="noopener noreferrer"
                   className="text-sm text-trench-cyan hover:underline"
                 >
-                  View on {network === "solana" ? "Solscan" : "Etherscan"} →
+                  View on {NETWORKS[network].explorerName} →
                 </a>
               )}
             </div>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { depositClient } from "@/lib/deposit";
+import type { DepositRecord } from "@/lib/deposit-reconciliation";
+
+const OUTCOME_LABELS: Record<DepositRecord["outcome"], string> = {
+  exact: "Paid",
+  overpaid: "Overpaid",
+  underpaid: "Underpaid",
+  failed: "Not paid",
+};
+
+const STATUS_STYLES: Record<DepositRecord["status"], { label: string; className: string }> = {
+  pending: { label: "Crediting", className: "bg-yellow-500/10 text-yellow-400" },
+  credited: { label: "Credited", className: "bg-green-500/10 text-green-400" },
+  held: { label: "Under review", className: "bg-orange-500/10 text-orange-400" },
+  rejected: { label: "Rejected", className: "bg-red-500/10 text-red-400" },
+  failed: { label: "Cancelled", className: "bg-gray-500/10 text-gray-400" },
+};
+
+export function DepositHistory() {
+  const [deposits, setDeposits] = useState<DepositRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await depositClient.getDepositHistory();
+      if (response.success && response.data) {
+        setDeposits(response.data);
+      }
+    } catch (error) {
+      console.error("Failed to load deposit history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  if (deposits.length === 0) return null;
+
+  return (
+    <div className="gradient-border p-4 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Deposit History</h2>
+        <button
+          onClick={loadHistory}
+          disabled={isLoading}
+          className="text-xs text-gray-400 hover:text-trench-accent transition-colors disabled:opacity-50"
+        >
+          {isLoading ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {deposits.map((deposit) => {
+          const status = STATUS_STYLES[deposit.status];
+          return (
+            <div
+              key={deposit.id}
+              className="flex items-center justify-between p-3 rounded-xl bg-trench-card/50"
+            >
+              <div>
+                <p className="text-sm text-white">
+                  {OUTCOME_LABELS[deposit.outcome]} ${deposit.paidAmount.toFixed(2)}
+                  {deposit.outcome !== "exact" && deposit.outcome !== "failed" && (
+                    <span className="text-xs text-gray-400 ml-2">
+                      (invoice ${deposit.invoicedAmount.toFixed(2)}, {deposit.difference > 0 ? "+" : ""}
+                      {deposit.difference.toFixed(2)})
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(deposit.createdAt).toLocaleString()}
+                  {deposit.status === "held" && deposit.holdReason && ` · ${deposit.holdReason}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <span className={`text-xs px-2 py-1 rounded-full ${status.className}`}>
+                  {status.label}
+                </span>
+                {deposit.status === "credited" && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    +${deposit.creditAmount.toFixed(2)} (fee ${deposit.feeAmount.toFixed(2)})
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,28 @@
 "use client";
 
-import { useState } from "react";
-import { CardDetails, CardTransaction } from "@/lib/kripicard";
+import { useEffect, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import toast from "react-hot-toast";
+import { CardSecrets, CardSummary, CardTransaction, StoredCard, cardClient } from "@/lib/cards";
+
+// Revealed card details are dropped again after this long
+const REVEAL_TIMEOUT_MS = 60_000;
+
+type SecretField = "number" | "expiry" | "cvv";
 
 interface VirtualCardProps {
   cardId: string;
-  details?: CardDetails;
+  details?: CardSummary;
   transactions?: CardTransaction[];
   lastFour?: string; // Fallback last 4 digits from stored card
   storedBalance?: number; // Fallback balance from stored card
-  storedStatus?: 'active' | 'frozen' | 'inactive'; // Fallback status
-  storedExpiry?: string; // Fallback expiry from stored card (format: "MM/YY")
+  storedStatus?: StoredCard['status']; // Fallback status; 'closed' is only known to us
+  closedAt?: string;
+  residualBalance?: number;
   onFund: () => void;
   onFreeze: () => void;
   onUnfreeze: () => void;
+  onTerminate: () => void;
   onRefresh: () => void;
   isLoading?: boolean;
 }
@@ -25,103 +34,95 @@ export function VirtualCard({
   lastFour,
   storedBalance,
   storedStatus,
-  storedExpiry,
+  closedAt,
+  residualBalance,
   onFund,
   onFreeze,
   onUnfreeze,
+  onTerminate,
   onRefresh,
   isLoading,
 }: VirtualCardProps) {
+  const { signMessage } = useWallet();
+  const [secrets, setSecrets] = useState<CardSecrets | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
   const [showFullNumber, setShowFullNumber] = useState(false);
   const [showExpiry, setShowExpiry] = useState(false);
   const [showCVV, setShowCVV] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
 
+  // Forget revealed details when the card changes, and after a minute
+  useEffect(() => {
+    setSecrets(null);
+    setShowFullNumber(false);
+    setShowExpiry(false);
+    setShowCVV(false);
+  }, [cardId]);
+
+  useEffect(() => {
+    if (!secrets) return;
+    const timer = setTimeout(() => {
+      setSecrets(null);
+      setShowFullNumber(false);
+      setShowExpiry(false);
+      setShowCVV(false);
+    }, REVEAL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [secrets]);
+
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
     setCopiedField(field);
     setTimeout(() => setCopiedField(null), 2000);
   };
 
-  // Always show last 4 digits, mask the rest
-  const formatCardNumber = (number?: string) => {
-    // Use the full card number if available
-    if (number && number.length >= 4) {
-      const last4 = number.slice(-4);
-      
-      if (showFullNumber) {
-        // Show full number formatted
-        return number.replace(/(.{4})/g, "$1 ").trim();
-      }
-      
-      // Show last 4 digits
-      return `•••• •••• •••• ${last4}`;
-    }
-    
-    // Fallback to stored lastFour if no full number
-    if (lastFour && lastFour.length === 4) {
-      return `•••• •••• •••• ${lastFour}`;
-    }
-    
-    return "•••• •••• •••• ••••";
-  };
+  // Show or hide a field, fetching the card's details first (the wallet signs for it)
+  const toggleField = async (field: SecretField) => {
+    const setShown = field === "number" ? setShowFullNumber : field === "expiry" ? setShowExpiry : setShowCVV;
+    const shown = field === "number" ? showFullNumber : field === "expiry" ? showExpiry : showCVV;
 
-  // Check if expiry data is available (from API or stored)
-  const hasExpiryData = () => {
-    // Check API details first
-    if (details) {
-    const month = details.expiry_month;
-    const year = details.expiry_year;
-    const monthInvalid = !month || month === "" || month === "undefined" || month === "null";
-    const yearInvalid = !year || year === "" || year === "undefined" || year === "null";
-      if (!monthInvalid && !yearInvalid) return true;
+    if (shown) {
+      setShown(false);
+      return;
     }
-    // Fallback to stored expiry
-    if (storedExpiry && storedExpiry !== "" && storedExpiry !== "undefined" && storedExpiry !== "null") {
-      return true;
+    if (!secrets) {
+      if (!signMessage) {
+        toast.error("Your wallet doesn't support message signing");
+        return;
+      }
+      setIsRevealing(true);
+      try {
+        setSecrets(await cardClient.revealCard(cardId, signMessage));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to reveal card details");
+        return;
+      } finally {
+        setIsRevealing(false);
+      }
     }
-    return false;
+    setShown(true);
   };
 
-  // Format expiry date - hidden by default, toggle to show
-  // Works same as CVV: shows dots if no data OR if hidden
-  const formatExpiry = () => {
-    if (!hasExpiryData()) return "••/••"; // No data = always dots
-    if (!showExpiry) return "••/••";      // Has data but hidden = dots
-    
-    // Try API data first
-    if (details) {
-      const month = details.expiry_month;
-      const year = details.expiry_year;
-      const monthValid = month && month !== "" && month !== "undefined" && month !== "null";
-      const yearValid = year && year !== "" && year !== "undefined" && year !== "null";
-      
-      if (monthValid && yearValid) {
-        const formattedMonth = String(month).padStart(2, "0");
-        const yearStr = String(year);
-    const formattedYear = yearStr.length === 4 ? yearStr.slice(-2) : yearStr.padStart(2, "0");
-    return `${formattedMonth}/${formattedYear}`;
-      }
+  const cardLastFour = details?.lastFour || lastFour;
+
+  // Last 4 digits unless revealed
+  const formatCardNumber = () => {
+    if (showFullNumber && secrets?.cardNumber) {
+      return secrets.cardNumber.replace(/(.{4})/g, "$1 ").trim();
     }
-    
-    // Fallback to stored expiry (already in MM/YY format)
-    if (storedExpiry) {
-      return storedExpiry;
+    if (cardLastFour && cardLastFour.length === 4) {
+      return `•••• •••• •••• ${cardLastFour}`;
     }
-    
-    return "••/••";
+    return "•••• •••• •••• ••••";
   };
 
-  // Format CVV - hidden by default, toggle to show
-  const formatCVV = () => {
-    if (!details?.cvv) return "•••"; // No data = always dots
-    if (!showCVV) return "•••";      // Has data but hidden = dots
-    return details.cvv;
-  };
+  const formatExpiry = () => (showExpiry && secrets?.expiry ? secrets.expiry : "••/••");
+
+  const formatCVV = () => (showCVV && secrets?.cvv ? secrets.cvv : "•••");
 
   // Use details or fallback to stored values
-  const isFrozen = (details?.status || storedStatus) === "frozen";
-  const cardNumberExists = (details?.card_number && details.card_number.length >= 4) || (lastFour && lastFour.length === 4);
+  const isClosed = storedStatus === "closed";
+  const isFrozen = isClosed || (details?.status || storedStatus) === "frozen";
   // Use API balance if available and > 0, otherwise fall back to stored balance
   // This prevents showing $0.00 when API returns 0 but we have a known stored balance
   const cardBalance = (details?.balance !== undefined && details.balance > 0) 
@@ -168,7 +169,7 @@ export function VirtualCard({
                   d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707"
                 />
               </svg>
-              <span className="text-sm font-medium text-white">Card Frozen</span>
+              <span className="text-sm font-medium text-white">{isClosed ? "Card Closed" : "Card Frozen"}</span>
             </div>
           </div>
         )}
@@ -206,17 +207,17 @@ export function VirtualCard({
           {/* Card Number */}
           <div className="flex items-center gap-3">
             <div
-              className={`group flex-1 ${cardNumberExists && showFullNumber ? 'cursor-pointer' : ''}`}
+              className={`group flex-1 ${secrets?.cardNumber && showFullNumber ? 'cursor-pointer' : ''}`}
               onClick={() =>
-                details?.card_number &&
+                secrets?.cardNumber &&
                 showFullNumber &&
-                copyToClipboard(details.card_number, "number")
+                copyToClipboard(secrets.cardNumber, "number")
               }
             >
               <p className="text-white text-xl md:text-2xl font-mono tracking-widest select-none">
-                {formatCardNumber(details?.card_number)}
+                {formatCardNumber()}
               </p>
-              {showFullNumber && details?.card_number && (
+              {showFullNumber && secrets?.cardNumber && (
                 <p className="text-white/50 text-xs mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
                   {copiedField === "number" ? "Copied!" : "Click to copy"}
                 </p>
@@ -226,9 +227,10 @@ export function VirtualCard({
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                setShowFullNumber(!showFullNumber);
+                toggleField("number");
               }}
-              className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              disabled={isRevealing}
+              className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
               title={showFullNumber ? "Hide card number" : "Show full card number"}
             >
               {showFullNumber ? (
@@ -266,9 +268,10 @@ export function VirtualCard({
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    setShowExpiry(!showExpiry);
+                    toggleField("expiry");
                   }}
-                  className="p-0.5 rounded hover:bg-white/10 transition-colors"
+                  disabled={isRevealing}
+                  className="p-0.5 rounded hover:bg-white/10 transition-colors disabled:opacity-50"
                   title={showExpiry ? "Hide expiry" : "Show expiry"}
                 >
                   {showExpiry ? (
@@ -290,11 +293,11 @@ export function VirtualCard({
               </p>
               <div className="flex items-center gap-1">
                 <p
-                  className={`text-white font-mono ${showCVV && details?.cvv ? 'cursor-pointer' : ''}`}
+                  className={`text-white font-mono ${showCVV && secrets?.cvv ? 'cursor-pointer' : ''}`}
                   onClick={() =>
-                    details?.cvv &&
+                    secrets?.cvv &&
                     showCVV &&
-                    copyToClipboard(details.cvv, "cvv")
+                    copyToClipboard(secrets.cvv, "cvv")
                   }
                 >
                   {formatCVV()}
@@ -303,9 +306,10 @@ export function VirtualCard({
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    setShowCVV(!showCVV);
+                    toggleField("cvv");
                   }}
-                  className="p-0.5 rounded hover:bg-white/10 transition-colors"
+                  disabled={isRevealing}
+                  className="p-0.5 rounded hover:bg-white/10 transition-colors disabled:opacity-50"
                   title={showCVV ? "Hide CVV" : "Show CVV"}
                 >
                   {showCVV ? (
@@ -366,54 +370,70 @@ export function VirtualCard({
       </div>
 
       {/* Action Buttons */}
-      <div className="grid grid-cols-2 gap-3">
-        <button
-          onClick={onFund}
-          disabled={isFrozen}
-          className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-            />
-          </svg>
-          Add Funds
-        </button>
-        {isFrozen ? (
-          <button
-            onClick={onUnfreeze}
-            className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-trench-card border border-cyan-500/50 text-cyan-400 font-semibold hover:bg-cyan-500/10 transition-colors"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707"
-              />
-            </svg>
-            Unfreeze Card
-          </button>
-        ) : (
+      {isClosed ? (
+        <p className="text-sm text-gray-400 text-center py-3 rounded-xl bg-trench-card/50 border border-trench-border">
+          Closed{closedAt && ` on ${new Date(closedAt).toLocaleDateString()}`}
+          {residualBalance !== undefined && ` · $${residualBalance.toFixed(2)} returned to your balance`}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={onFund}
+              disabled={isFrozen}
+              className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                />
+              </svg>
+              Add Funds
+            </button>
+            {isFrozen ? (
+              <button
+                onClick={onUnfreeze}
+                className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-trench-card border border-cyan-500/50 text-cyan-400 font-semibold hover:bg-cyan-500/10 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707"
+                  />
+                </svg>
+                Unfreeze Card
+              </button>
+            ) : (
+              <button
+                onClick={onFreeze}
+                className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-trench-card border border-trench-border text-gray-300 font-semibold hover:border-red-500/50 hover:text-red-400 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+                  />
+                </svg>
+                Freeze Card
+              </button>
+            )}
+          </div>
           <button
-            onClick={onFreeze}
-            className="flex items-center justify-center gap-2 py-3 px-4 rounded-xl bg-trench-card border border-trench-border text-gray-300 font-semibold hover:border-red-500/50 hover:text-red-400 transition-colors"
+            onClick={onTerminate}
+            disabled={isLoading}
+            className="w-full text-xs text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
           >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
-              />
-            </svg>
-            Freeze Card
+            Close card and return its balance
           </button>
-        )}
-      </div>
+        </>
+      )}
 
       {/* Transactions */}
       {transactions.length > 0 && (
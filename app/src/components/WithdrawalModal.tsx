@@ -5,14 +5,15 @@ import toast from "react-hot-toast";
 import {
   WithdrawalCurrency,
   WithdrawalNetwork,
-  MIN_WITHDRAWAL,
-  WITHDRAWAL_FEES,
-  NETWORK_FEES,
   calculateWithdrawal,
   isValidAddress,
   createWithdrawalLocal,
   updateWithdrawalLocal,
 } from "@/lib/withdrawal";
+import { authFetch } from "@/lib/session";
+import { useFeeTier } from "@/hooks/useFeeTier";
+import type { PriceQuote } from "@/lib/price-oracle";
+import { NETWORKS, formatCryptoAmount, getWithdrawalAssets, isEvmNetwork } from "@/lib/assets";
 
 interface WithdrawalModalProps {
   walletAddress: string;
@@ -28,6 +29,16 @@ interface PriceData {
 
 type WithdrawalStep = "select" | "confirm" | "processing" | "complete" | "failed";
 
+const WITHDRAWAL_ASSETS = getWithdrawalAssets();
+const WITHDRAWAL_CURRENCIES = WITHDRAWAL_ASSETS
+  .map((a) => a.symbol)
+  .filter((symbol, i, all) => all.indexOf(symbol) === i);
+
+// Networks `currency` can be withdrawn on
+function withdrawalNetworksFor(currency: WithdrawalCurrency): WithdrawalNetwork[] {
+  return WITHDRAWAL_ASSETS.filter((a) => a.symbol === currency).map((a) => a.network);
+}
+
 export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess }: WithdrawalModalProps) {
   const [step, setStep] = useState<WithdrawalStep>("select");
   const [amount, setAmount] = useState("");
@@ -39,12 +50,17 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
     SOL: { symbol: "SOL", price: 185 },
     ETH: { symbol: "ETH", price: 3200 },
     USDT: { symbol: "USDT", price: 1 },
+    USDC: { symbol: "USDC", price: 1 },
+    PYUSD: { symbol: "PYUSD", price: 1 },
   });
   const [withdrawalResult, setWithdrawalResult] = useState<{
     txSignature?: string;
     explorer?: string;
+    reasons?: string[]; // Why it's held (destination cool-down, manual review)
     error?: string;
   } | null>(null);
+  const { tier } = useFeeTier();
+  const [priceQuote, setPriceQuote] = useState<PriceQuote | null>(null);
 
   // Fetch current prices
   useEffect(() => {
@@ -60,19 +76,20 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
 
   // Calculate withdrawal details
   const amountNum = parseFloat(amount) || 0;
-  const cryptoPrice = prices[currency]?.price || 1;
-  const withdrawal = calculateWithdrawal(amountNum, currency, cryptoPrice);
-  const minAmount = MIN_WITHDRAWAL[currency];
+  // Once a price is locked for confirmation, show what the server will send
+  const cryptoPrice = priceQuote?.price || prices[currency]?.price || 1;
+  const withdrawal = calculateWithdrawal(amountNum, currency, cryptoPrice, tier);
+  const minAmount = withdrawal.minimum;
   const isValidAmount = amountNum >= minAmount && amountNum <= userBalance;
   const addressValid = destinationAddress ? isValidAddress(destinationAddress, network) : false;
 
   // Handle currency selection
   const handleCurrencySelect = (cur: WithdrawalCurrency) => {
     setCurrency(cur);
-    if (cur === "ETH") {
-      setNetwork("ethereum");
-    } else if (cur === "SOL") {
-      setNetwork("solana");
+    // Keep the network if it offers the currency, otherwise take the first that does
+    const networks = withdrawalNetworksFor(cur);
+    if (!networks.includes(network)) {
+      setNetwork(networks[0]);
     }
   };
 
@@ -88,7 +105,25 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
       return;
     }
 
-    setStep("confirm");
+    // Lock the price the withdrawal will be sent at
+    setIsLoading(true);
+    try {
+      const response = await authFetch("/api/prices/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ symbol: currency, purpose: "withdrawal" }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.message || "Failed to get a price");
+      }
+      setPriceQuote(data.data);
+      setStep("confirm");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to get a price");
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   // Process the withdrawal
@@ -98,16 +133,16 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
 
     try {
       // Step 1: Create withdrawal request
-      const createResponse = await fetch("/api/withdrawal/create", {
+      const createResponse = await authFetch("/api/withdrawal/create", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          walletAddress,
           destinationAddress,
           amount: amountNum,
           currency,
           network,
-          cryptoPrice,
+          priceQuoteId: priceQuote?.id,
+          feeScheduleVersion: withdrawal.scheduleVersion,
         }),
       });
 
@@ -127,13 +162,13 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
         network,
       });
 
-      // Step 2: Process the withdrawal (send crypto)
-      const processResponse = await fetch("/api/withdrawal/process", {
+      // Step 2: Nudge the withdrawal worker so it's sent right away
+      // (it's queued either way - the worker picks it up on its next run)
+      const processResponse = await authFetch("/api/withdrawal/process", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           withdrawalId: createData.data.id,
-          walletAddress,
         }),
       });
 
@@ -151,10 +186,11 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
       setWithdrawalResult({
         txSignature: processData.data.txSignature,
         explorer: processData.data.explorer,
+        reasons: processData.data.txSignature ? undefined : createData.reasons,
       });
       setStep("complete");
       onSuccess(amountNum);
-      toast.success("Withdrawal sent successfully!");
+      toast.success(processData.data.txSignature ? "Withdrawal sent successfully!" : "Withdrawal queued!");
 
     } catch (error: any) {
       console.error("Withdrawal error:", error);
@@ -214,7 +250,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
             <div className="mb-4">
               <label className="block text-sm text-gray-400 mb-2">Receive Currency</label>
               <div className="grid grid-cols-3 gap-2">
-                {(["SOL", "USDT", "ETH"] as WithdrawalCurrency[]).map((cur) => (
+                {WITHDRAWAL_CURRENCIES.map((cur) => (
                   <button
                     key={cur}
                     onClick={() => handleCurrencySelect(cur)}
@@ -233,33 +269,25 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
               </div>
             </div>
 
-            {/* Network Selection (for USDT) */}
-            {currency === "USDT" && (
+            {/* Network Selection (for currencies on more than one network) */}
+            {withdrawalNetworksFor(currency).length > 1 && (
               <div className="mb-4">
                 <label className="block text-sm text-gray-400 mb-2">Network</label>
                 <div className="grid grid-cols-2 gap-2">
-                  <button
-                    onClick={() => setNetwork("solana")}
-                    className={`p-3 rounded-xl border transition-all ${
-                      network === "solana"
-                        ? "bg-trench-accent/20 border-trench-accent"
-                        : "bg-trench-card border-trench-border hover:border-trench-accent/50"
-                    }`}
-                  >
-                    <div className="font-semibold">Solana</div>
-                    <div className="text-xs text-gray-400">Low fees</div>
-                  </button>
-                  <button
-                    onClick={() => setNetwork("ethereum")}
-                    className={`p-3 rounded-xl border transition-all ${
-                      network === "ethereum"
-                        ? "bg-trench-accent/20 border-trench-accent"
-                        : "bg-trench-card border-trench-border hover:border-trench-accent/50"
-                    }`}
-                  >
-                    <div className="font-semibold">Ethereum</div>
-                    <div className="text-xs text-gray-400">ERC-20</div>
-                  </button>
+                  {withdrawalNetworksFor(currency).map((net) => (
+                    <button
+                      key={net}
+                      onClick={() => setNetwork(net)}
+                      className={`p-3 rounded-xl border transition-all ${
+                        network === net
+                          ? "bg-trench-accent/20 border-trench-accent"
+                          : "bg-trench-card border-trench-border hover:border-trench-accent/50"
+                      }`}
+                    >
+                      <div className="font-semibold">{NETWORKS[net].name}</div>
+                      <div className="text-xs text-gray-400">{isEvmNetwork(net) ? "ERC-20" : "Low fees"}</div>
+                    </button>
+                  ))}
                 </div>
               </div>
             )}
@@ -267,7 +295,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
             {/* Destination Address */}
             <div className="mb-4">
               <label className="block text-sm text-gray-400 mb-2">
-                Destination Address ({network === "solana" ? "Solana" : "Ethereum"})
+                Destination Address ({NETWORKS[network].name})
               </label>
               <input
                 type="text"
@@ -278,10 +306,10 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                     ? "border-red-500 focus:border-red-500"
                     : "border-trench-border focus:border-trench-accent"
                 }`}
-                placeholder={network === "solana" ? "Your Solana wallet address" : "0x..."}
+                placeholder={isEvmNetwork(network) ? "0x..." : `Your ${NETWORKS[network].name} wallet address`}
               />
               {destinationAddress && !addressValid && (
-                <p className="text-xs text-red-400 mt-1">Invalid {network === "solana" ? "Solana" : "Ethereum"} address</p>
+                <p className="text-xs text-red-400 mt-1">Invalid {NETWORKS[network].name} address</p>
               )}
             </div>
 
@@ -293,7 +321,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                   <span className="text-white">${amountNum.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-sm mb-2">
-                  <span className="text-gray-400">Fee ({(WITHDRAWAL_FEES[currency] * 100).toFixed(0)}%)</span>
+                  <span className="text-gray-400">Fee ({+(withdrawal.feePercent * 100).toFixed(2)}%)</span>
                   <span className="text-red-400">-${withdrawal.feeUsd.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-sm mb-2">
@@ -304,7 +332,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                 <div className="flex justify-between font-semibold">
                   <span className="text-gray-300">You receive</span>
                   <span className="text-trench-cyan">
-                    {withdrawal.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}
+                    {formatCryptoAmount(withdrawal.cryptoAmount, currency)} {currency}
                   </span>
                 </div>
                 <div className="text-right text-xs text-gray-500">
@@ -323,7 +351,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
               </button>
               <button
                 onClick={handleSubmitWithdrawal}
-                disabled={!isValidAmount || !addressValid}
+                disabled={isLoading || !isValidAmount || !addressValid}
                 className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-red-500 to-orange-500 text-white font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
               >
                 Withdraw
@@ -345,13 +373,24 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
               <div className="flex justify-between text-sm mb-3">
                 <span className="text-gray-400">Sending</span>
                 <span className="text-white font-semibold">
-                  {withdrawal.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}
+                  {formatCryptoAmount(withdrawal.cryptoAmount, currency)} {currency}
                 </span>
               </div>
               <div className="flex justify-between text-sm mb-3">
                 <span className="text-gray-400">Network</span>
-                <span className="text-white">{network === "solana" ? "Solana" : "Ethereum"}</span>
+                <span className="text-white">{NETWORKS[network].name}</span>
               </div>
+              {priceQuote && (
+                <div className="flex justify-between text-sm mb-3">
+                  <span className="text-gray-400">Price</span>
+                  <span className="text-white">
+                    ${priceQuote.price.toFixed(2)} / {currency}
+                    <span className="text-xs text-gray-500 ml-1">
+                      (locked until {new Date(priceQuote.expiresAt).toLocaleTimeString()})
+                    </span>
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-400">To</span>
                 <span className="text-white font-mono text-xs">
@@ -370,7 +409,10 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
             {/* Action Buttons */}
             <div className="flex gap-3">
               <button
-                onClick={() => setStep("select")}
+                onClick={() => {
+                  setPriceQuote(null);
+                  setStep("select");
+                }}
                 className="flex-1 py-3 px-4 rounded-xl bg-trench-card border border-trench-border text-gray-300 font-semibold hover:border-trench-accent/50 transition-colors"
               >
                 Back
@@ -391,7 +433,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
             <div className="w-16 h-16 mx-auto mb-4 rounded-full border-4 border-trench-accent border-t-transparent animate-spin" />
             <h3 className="text-xl font-bold mb-2">Processing Withdrawal</h3>
             <p className="text-gray-400 text-sm">
-              Sending {withdrawal.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency}...
+              Sending {formatCryptoAmount(withdrawal.cryptoAmount, currency)} {currency}...
             </p>
             <p className="text-gray-500 text-xs mt-4">
               This may take a moment. Do not close this window.
@@ -408,10 +450,25 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
               </div>
-              <h3 className="text-2xl font-bold mb-2">Withdrawal Sent!</h3>
+              <h3 className="text-2xl font-bold mb-2">
+                {withdrawalResult?.txSignature ? "Withdrawal Sent!" : "Withdrawal Queued"}
+              </h3>
               <p className="text-gray-400 mb-4">
-                {withdrawal.cryptoAmount.toFixed(currency === "USDT" ? 2 : 6)} {currency} is on its way.
+                {formatCryptoAmount(withdrawal.cryptoAmount, currency)} {currency}{" "}
+                {withdrawalResult?.txSignature
+                  ? "is on its way."
+                  : withdrawalResult?.reasons?.length
+                    ? "will be sent once it's cleared."
+                    : "will be sent shortly."}
               </p>
+
+              {withdrawalResult?.reasons && withdrawalResult.reasons.length > 0 && (
+                <div className="text-left text-xs text-yellow-400 bg-yellow-500/10 rounded-lg p-3 mb-4 space-y-1">
+                  {withdrawalResult.reasons.map((reason) => (
+                    <p key={reason}>{reason}</p>
+                  ))}
+                </div>
+              )}
               
               {withdrawalResult?.explorer && (
                 <a
@@ -420,7 +477,7 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                   rel="noopener noreferrer"
                   className="text-sm text-trench-cyan hover:underline"
                 >
-                  View on {network === "solana" ? "Solscan" : "Etherscan"} →
+                  View on {NETWORKS[network].explorerName} →
                 </a>
               )}
             </div>
@@ -457,7 +514,10 @@ export function WithdrawalModal({ walletAddress, userBalance, onClose, onSuccess
                 Close
               </button>
               <button
-                onClick={() => setStep("select")}
+                onClick={() => {
+                  setPriceQuote(null);
+                  setStep("select");
+                }}
                 className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-trench-accent to-trench-cyan text-trench-black font-semibold hover:opacity-90 transition-opacity"
               >
                 Try Again
@@ -8,6 +8,7 @@ import {
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
 import { PhantomWalletAdapter } from "@solana/wallet-adapter-wallets";
 import { clusterApiUrl } from "@solana/web3.js";
+import { WalletSessionProvider } from "@/contexts/WalletSessionProvider";
 
 import "@solana/wallet-adapter-react-ui/styles.css";
 
@@ -26,7 +27,9 @@ export const WalletContextProvider: FC<Props> = ({ children }) => {
   return (
     <ConnectionProvider endpoint={endpoint}>
       <WalletProvider wallets={wallets} autoConnect>
-        <WalletModalProvider>{children}</WalletModalProvider>
+        <WalletModalProvider>
+          <WalletSessionProvider>{children}</WalletSessionProvider>
+        </WalletModalProvider>
       </WalletProvider>
     </ConnectionProvider>
   );
@@ -0,0 +1,92 @@
+"use client";
+
+import {
+  FC,
+  ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import {
+  SESSION_EXPIRED_EVENT,
+  clearStoredSession,
+  getStoredSession,
+  signInWithWallet,
+} from "@/lib/session";
+
+interface WalletSessionContextState {
+  isAuthenticated: boolean;
+  isSigningIn: boolean;
+  signIn: () => Promise<boolean>;
+  signOut: () => void;
+}
+
+const WalletSessionContext = createContext<WalletSessionContextState>({
+  isAuthenticated: false,
+  isSigningIn: false,
+  signIn: async () => false,
+  signOut: () => {},
+});
+
+export const useWalletSession = () => useContext(WalletSessionContext);
+
+interface Props {
+  children: ReactNode;
+}
+
+// Signs a nonce with the connected wallet to get an API session token
+export const WalletSessionProvider: FC<Props> = ({ children }) => {
+  const { publicKey, signMessage } = useWallet();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const signIn = useCallback(async () => {
+    if (!publicKey || !signMessage) return false;
+
+    setIsSigningIn(true);
+    try {
+      await signInWithWallet(publicKey.toString(), signMessage);
+      setIsAuthenticated(true);
+      return true;
+    } catch (error) {
+      console.error("Wallet sign-in failed:", error);
+      setIsAuthenticated(false);
+      return false;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [publicKey, signMessage]);
+
+  const signOut = useCallback(() => {
+    clearStoredSession();
+    setIsAuthenticated(false);
+  }, []);
+
+  // Reuse a stored session for this wallet, or drop it when the wallet changes
+  useEffect(() => {
+    if (!publicKey) {
+      setIsAuthenticated(false);
+      return;
+    }
+    const session = getStoredSession(publicKey.toString());
+    if (!session) {
+      clearStoredSession();
+    }
+    setIsAuthenticated(!!session);
+  }, [publicKey]);
+
+  useEffect(() => {
+    const handleExpired = () => setIsAuthenticated(false);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  return (
+    <WalletSessionContext.Provider value={{ isAuthenticated, isSigningIn, signIn, signOut }}>
+      {children}
+    </WalletSessionContext.Provider>
+  );
+};
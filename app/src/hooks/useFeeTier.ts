@@ -0,0 +1,30 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { authFetch } from "@/lib/session";
+import { useWalletSession } from "@/contexts/WalletSessionProvider";
+import { CURRENT_FEE_SCHEDULE, type FeeTier } from "@/lib/fees";
+
+// The signed-in wallet's fee tier, so UI quotes match what the server charges
+export function useFeeTier() {
+  const { isAuthenticated } = useWalletSession();
+  const [tier, setTier] = useState<FeeTier>("standard");
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setTier("standard");
+      return;
+    }
+
+    authFetch("/api/fees")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setTier(data.data.tier);
+        }
+      })
+      .catch(console.error);
+  }, [isAuthenticated]);
+
+  return { tier, scheduleVersion: CURRENT_FEE_SCHEDULE.version };
+}
@@ -0,0 +1,274 @@
+/**
+ * Asset Registry
+ *
+ * Every network and asset we take deposits in and pay withdrawals in,
+ * shared by the UI and the server. Verification, the deposit watcher,
+ * payouts, pricing and the deposit/withdrawal modals all read from here,
+ * so adding a token is an entry in ASSETS (plus its fees in fees.ts):
+ *
+ * - NETWORKS: chains, by family. `solana` networks take SPL tokens (either
+ *   token program), `evm` networks ERC-20s. EVM RPC endpoints, chain IDs
+ *   and confirmation depths can be overridden per network with
+ *   <ENV_PREFIX>_RPC_URL, <ENV_PREFIX>_CHAIN_ID and
+ *   <ENV_PREFIX>_DEPOSIT_CONFIRMATIONS.
+ * - CURRENCIES: what a symbol is, independent of the chain it's on
+ *   (pricing, display precision)
+ * - ASSETS: a currency on a network - its mint or contract, decimals,
+ *   token program, minimum deposit and whether it's enabled for deposits
+ *   and withdrawals. A contract can be overridden with `addressEnv`
+ *   (e.g. a test token on a local node).
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+export interface NetworkDefinition {
+  name: string;
+  family: "solana" | "evm";
+  explorer: string; // Transaction URL prefix
+  explorerName: string;
+  envPrefix: string;
+  chainId?: number; // EVM
+  defaultRpcUrl: string;
+  confirmations?: number; // EVM: blocks deep before a deposit is credited
+  finalizedConfirmations?: number; // EVM: ...for large deposits (see deposit-finality.ts)
+  enabled: boolean;
+}
+
+export const NETWORKS = {
+  solana: {
+    name: "Solana",
+    family: "solana",
+    explorer: "https://solscan.io/tx/",
+    explorerName: "Solscan",
+    envPrefix: "SOLANA",
+    defaultRpcUrl: "https://api.mainnet-beta.solana.com",
+    enabled: true,
+  },
+  ethereum: {
+    name: "Ethereum",
+    family: "evm",
+    explorer: "https://etherscan.io/tx/",
+    explorerName: "Etherscan",
+    envPrefix: "ETHEREUM",
+    chainId: 1,
+    defaultRpcUrl: "https://eth.llamarpc.com",
+    confirmations: 12,
+    finalizedConfirmations: 64, // About two epochs
+    enabled: true,
+  },
+  base: {
+    name: "Base",
+    family: "evm",
+    explorer: "https://basescan.org/tx/",
+    explorerName: "Basescan",
+    envPrefix: "BASE",
+    chainId: 8453,
+    defaultRpcUrl: "https://mainnet.base.org",
+    confirmations: 30, // ~1 minute of 2s blocks
+    finalizedConfirmations: 600,
+    enabled: true,
+  },
+  arbitrum: {
+    name: "Arbitrum One",
+    family: "evm",
+    explorer: "https://arbiscan.io/tx/",
+    explorerName: "Arbiscan",
+    envPrefix: "ARBITRUM",
+    chainId: 42161,
+    defaultRpcUrl: "https://arb1.arbitrum.io/rpc",
+    confirmations: 240, // ~1 minute of 0.25s blocks
+    finalizedConfirmations: 4800,
+    enabled: true,
+  },
+} satisfies Record<string, NetworkDefinition>;
+
+export type CryptoNetwork = keyof typeof NETWORKS;
+
+export interface CurrencyDefinition {
+  name: string;
+  coingeckoId: string;
+  stablecoin: boolean; // Shown with 2 decimals
+}
+
+export const CURRENCIES = {
+  SOL: { name: "Solana", coingeckoId: "solana", stablecoin: false },
+  ETH: { name: "Ethereum", coingeckoId: "ethereum", stablecoin: false },
+  USDT: { name: "Tether", coingeckoId: "tether", stablecoin: true },
+  USDC: { name: "USD Coin", coingeckoId: "usd-coin", stablecoin: true },
+  PYUSD: { name: "PayPal USD", coingeckoId: "paypal-usd", stablecoin: true },
+} satisfies Record<string, CurrencyDefinition>;
+
+export type CryptoCurrency = keyof typeof CURRENCIES;
+
+export interface AssetDefinition {
+  symbol: CryptoCurrency;
+  network: CryptoNetwork;
+  address?: string; // Mint / contract; none for the native coin
+  addressEnv?: string; // Server-side override of `address`
+  decimals: number;
+  tokenProgram?: "spl-token" | "token-2022"; // Solana tokens
+  minDeposit: number; // USD, on top of the rail's minimum in the fee schedule
+  deposits: boolean;
+  withdrawals: boolean;
+}
+
+export const ASSETS: AssetDefinition[] = [
+  {
+    symbol: "SOL",
+    network: "solana",
+    decimals: 9,
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "USDT",
+    network: "solana",
+    address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    decimals: 6,
+    tokenProgram: "spl-token",
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "USDC",
+    network: "solana",
+    address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    decimals: 6,
+    tokenProgram: "spl-token",
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "PYUSD",
+    network: "solana",
+    address: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
+    decimals: 6,
+    tokenProgram: "token-2022",
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "ETH",
+    network: "ethereum",
+    decimals: 18,
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "USDT",
+    network: "ethereum",
+    address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+    addressEnv: "ETHEREUM_USDT_CONTRACT",
+    decimals: 6,
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "USDC",
+    network: "base",
+    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    addressEnv: "BASE_USDC_CONTRACT",
+    decimals: 6,
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+  {
+    symbol: "USDC",
+    network: "arbitrum",
+    address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+    addressEnv: "ARBITRUM_USDC_CONTRACT",
+    decimals: 6,
+    minDeposit: 20,
+    deposits: true,
+    withdrawals: true,
+  },
+];
+
+// ============ LOOKUPS ============
+
+export function isCryptoNetwork(value: unknown): value is CryptoNetwork {
+  return typeof value === "string" && value in NETWORKS;
+}
+
+export function isCryptoCurrency(value: unknown): value is CryptoCurrency {
+  return typeof value === "string" && value in CURRENCIES;
+}
+
+export function getNetwork(network: CryptoNetwork): NetworkDefinition {
+  return NETWORKS[network];
+}
+
+export function isEvmNetwork(network: CryptoNetwork): boolean {
+  return NETWORKS[network].family === "evm";
+}
+
+export function getEnabledNetworks(): CryptoNetwork[] {
+  return (Object.keys(NETWORKS) as CryptoNetwork[]).filter(
+    (n) => NETWORKS[n].enabled
+  );
+}
+
+// An enabled asset, or undefined if `currency` isn't offered on `network`
+export function getAsset(
+  network: CryptoNetwork,
+  currency: CryptoCurrency
+): AssetDefinition | undefined {
+  if (!NETWORKS[network]?.enabled) return undefined;
+  return ASSETS.find((a) => a.network === network && a.symbol === currency);
+}
+
+export function getDepositAssets(): AssetDefinition[] {
+  return ASSETS.filter((a) => a.deposits && NETWORKS[a.network].enabled);
+}
+
+export function getWithdrawalAssets(): AssetDefinition[] {
+  return ASSETS.filter((a) => a.withdrawals && NETWORKS[a.network].enabled);
+}
+
+// Enabled tokens (not native coins) on a network
+export function getNetworkTokens(network: CryptoNetwork): AssetDefinition[] {
+  return ASSETS.filter(
+    (a) => a.network === network && a.address && (a.deposits || a.withdrawals)
+  );
+}
+
+// A network's native coin, if it's offered
+export function getNativeAsset(
+  network: CryptoNetwork
+): AssetDefinition | undefined {
+  return ASSETS.find(
+    (a) => a.network === network && !a.address && (a.deposits || a.withdrawals)
+  );
+}
+
+// The asset's mint / contract, with any server-side override applied
+export function getAssetAddress(asset: AssetDefinition): string | undefined {
+  return (asset.addressEnv && process.env[asset.addressEnv]) || asset.address;
+}
+
+// Solana token program that owns the asset's mint
+export function getTokenProgramId(asset: AssetDefinition): PublicKey {
+  return asset.tokenProgram === "token-2022"
+    ? TOKEN_2022_PROGRAM_ID
+    : TOKEN_PROGRAM_ID;
+}
+
+// Decimal places to show an amount of `currency` with
+export function getDisplayDecimals(currency: CryptoCurrency): number {
+  return CURRENCIES[currency].stablecoin ? 2 : 6;
+}
+
+export function formatCryptoAmount(
+  amount: number,
+  currency: CryptoCurrency
+): string {
+  return amount.toFixed(getDisplayDecimals(currency));
+}
@@ -0,0 +1,273 @@
+/**
+ * Wallet Session Authentication
+ *
+ * Sign-in flow for API routes that read or change per-wallet data:
+ * 1. Client requests a nonce for its wallet address
+ * 2. Client signs the sign-in message with the connected wallet
+ * 3. Server verifies the ed25519 signature and issues a short-lived
+ *    session token, sent back as `Authorization: Bearer <token>`
+ *
+ * Nonces are single-use. Uses Vercel KV for persistent storage.
+ *
+ * Sensitive actions (e.g. revealing a card number) also need a fresh
+ * signature on top of the session: the client signs a single-use action
+ * challenge that names the action and what it applies to.
+ */
+
+import crypto from "crypto";
+import bs58 from "bs58";
+import { PublicKey } from "@solana/web3.js";
+import { kv } from "@vercel/kv";
+
+const NONCE_PREFIX = "auth:nonce:";
+const SESSION_PREFIX = "auth:session:";
+const CHALLENGE_PREFIX = "auth:challenge:";
+
+const NONCE_TTL_SECONDS = 5 * 60; // 5 minutes to sign
+const SESSION_TTL_SECONDS = 60 * 60; // 1 hour sessions
+const CHALLENGE_TTL_SECONDS = 2 * 60; // Action signatures must be fresh
+
+// DER prefix that turns a raw 32-byte ed25519 public key into SPKI
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export interface WalletSession {
+  walletAddress: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+interface StoredNonce {
+  message: string;
+  expiresAt: string;
+}
+
+// Message the wallet signs - includes the nonce so it can't be replayed
+export function buildSignInMessage(
+  walletAddress: string,
+  nonce: string,
+  issuedAt: string
+): string {
+  return [
+    "Sign in to TrenchBank",
+    "",
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join("\n");
+}
+
+// Message the wallet signs to approve one action, e.g. "Reveal card details"
+export function buildActionMessage(
+  action: string,
+  walletAddress: string,
+  subject: string,
+  nonce: string,
+  issuedAt: string
+): string {
+  return [
+    `${action} on TrenchBank`,
+    "",
+    `Wallet: ${walletAddress}`,
+    subject,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join("\n");
+}
+
+// Verify an ed25519 signature made by a Solana wallet
+export function verifyWalletSignature(
+  walletAddress: string,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    const publicKey = new PublicKey(walletAddress).toBytes();
+    const keyObject = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey)]),
+      format: "der",
+      type: "spki",
+    });
+    return crypto.verify(
+      null,
+      Buffer.from(message, "utf8"),
+      keyObject,
+      Buffer.from(bs58.decode(signature))
+    );
+  } catch (error) {
+    console.error("Signature verification error:", error);
+    return false;
+  }
+}
+
+// Issue a nonce for a wallet to sign
+export async function createNonce(
+  walletAddress: string
+): Promise<{ nonce: string; message: string; expiresAt: string }> {
+  // Throws for anything that isn't a valid Solana public key
+  new PublicKey(walletAddress);
+
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const issuedAt = new Date().toISOString();
+  const expiresAt = new Date(
+    Date.now() + NONCE_TTL_SECONDS * 1000
+  ).toISOString();
+  const message = buildSignInMessage(walletAddress, nonce, issuedAt);
+
+  await kv.set<StoredNonce>(
+    `${NONCE_PREFIX}${walletAddress}:${nonce}`,
+    { message, expiresAt },
+    { ex: NONCE_TTL_SECONDS }
+  );
+
+  return { nonce, message, expiresAt };
+}
+
+// Exchange a signed nonce for a session token
+export async function createSession(
+  walletAddress: string,
+  nonce: string,
+  signature: string
+): Promise<{ token: string; session: WalletSession } | null> {
+  // getdel makes the nonce single-use even under concurrent requests
+  const stored = await kv.getdel<StoredNonce>(
+    `${NONCE_PREFIX}${walletAddress}:${nonce}`
+  );
+  if (!stored) {
+    return null;
+  }
+
+  if (!verifyWalletSignature(walletAddress, stored.message, signature)) {
+    return null;
+  }
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const session: WalletSession = {
+    walletAddress,
+    issuedAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString(),
+  };
+
+  await kv.set(`${SESSION_PREFIX}${token}`, session, {
+    ex: SESSION_TTL_SECONDS,
+  });
+
+  return { token, session };
+}
+
+interface StoredChallenge extends StoredNonce {
+  action: string;
+  subjectId: string;
+}
+
+// Issue a single-use challenge for `action` on `subjectId` (e.g. a card ID).
+// `subject` is the line the user sees in their wallet, e.g. "Card: •••• 4242".
+export async function createActionChallenge(
+  walletAddress: string,
+  action: string,
+  subjectId: string,
+  subject: string
+): Promise<{ nonce: string; message: string; expiresAt: string }> {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const issuedAt = new Date().toISOString();
+  const expiresAt = new Date(
+    Date.now() + CHALLENGE_TTL_SECONDS * 1000
+  ).toISOString();
+  const message = buildActionMessage(
+    action,
+    walletAddress,
+    subject,
+    nonce,
+    issuedAt
+  );
+
+  await kv.set<StoredChallenge>(
+    `${CHALLENGE_PREFIX}${walletAddress}:${nonce}`,
+    { message, expiresAt, action, subjectId },
+    { ex: CHALLENGE_TTL_SECONDS }
+  );
+
+  return { nonce, message, expiresAt };
+}
+
+// Check a signed action challenge. Consumes the nonce whatever the outcome.
+export async function verifyActionChallenge(
+  walletAddress: string,
+  action: string,
+  subjectId: string,
+  nonce: string,
+  signature: string
+): Promise<boolean> {
+  const stored = await kv.getdel<StoredChallenge>(
+    `${CHALLENGE_PREFIX}${walletAddress}:${nonce}`
+  );
+  if (!stored || stored.action !== action || stored.subjectId !== subjectId) {
+    return false;
+  }
+  return verifyWalletSignature(walletAddress, stored.message, signature);
+}
+
+// Resolve the session from the request's bearer token
+export async function getSession(
+  request: Request
+): Promise<WalletSession | null> {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+([a-f0-9]{64})$/i);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const session = await kv.get<WalletSession>(`${SESSION_PREFIX}${match[1]}`);
+    if (!session || new Date(session.expiresAt).getTime() < Date.now()) {
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error("Failed to load session:", error);
+    return null;
+  }
+}
+
+// Revoke a session token
+export async function deleteSession(request: Request): Promise<void> {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+([a-f0-9]{64})$/i);
+  if (match) {
+    await kv.del(`${SESSION_PREFIX}${match[1]}`);
+  }
+}
+
+function secretMatches(
+  secret: string | undefined,
+  provided: string | null
+): boolean {
+  if (!secret || !provided) {
+    return false;
+  }
+  // Compare fixed-length digests: timingSafeEqual throws on buffers of different byte lengths
+  const digest = (value: string) =>
+    crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(secret), digest(provided));
+}
+
+// Server-to-server calls (cron jobs, webhooks, ops tooling) authenticate with a shared secret
+export function isInternalRequest(request: Request): boolean {
+  return secretMatches(
+    process.env.INTERNAL_API_SECRET,
+    request.headers.get("x-internal-secret")
+  );
+}
+
+// Vercel Cron calls its jobs with GET and `Authorization: Bearer $CRON_SECRET` (see vercel.json)
+export function isCronRequest(request: Request): boolean {
+  const match = request.headers.get("authorization")?.match(/^Bearer (.+)$/);
+  return secretMatches(process.env.CRON_SECRET, match ? match[1] : null);
+}
+
+// Headers for calling our own internal-only routes
+export function internalHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-internal-secret": process.env.INTERNAL_API_SECRET || "",
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Card Auto Top-Up (server only)
+ *
+ * Per-card reload rules: "when the card balance drops below $X, top it up
+ * with $Y from my TrenchBank balance, at most N times a day".
+ *
+ * - runAutoReloads refreshes the balance of every card with an enabled
+ *   rule from its issuer and reloads the ones under their threshold. Vercel
+ *   Cron runs it through /api/cards/auto-reload/run (see vercel.json),
+ *   which signed-in wallets can also POST to for their own cards
+ * - A reload is priced like a manual funding (quoteCardFunding, with the
+ *   wallet's fee tier), debited from the balance first and refunded if the
+ *   issuer refuses to fund the card. When the issuer's answer is lost the
+ *   reload stays `pending` until its funding is settled against the
+ *   card's transactions (see card-funding.ts, settleAutoReloads), and the
+ *   card isn't reloaded again meanwhile
+ * - Every attempt is logged in the card's reload history, and counts
+ *   towards the daily maximum whether it worked or not, so a wallet that
+ *   ran out of balance isn't retried every run. Failures notify the owner
+ * - Frozen and closed cards are never reloaded
+ */
+
+import { kv } from "@vercel/kv";
+import { createRecordStore } from "@/lib/kv-store";
+import {
+  findCard,
+  getCards,
+  listCardWallets,
+  upsertCard,
+  withCardLease,
+} from "@/lib/card-store";
+import { issuerForCard } from "@/lib/card-issuers";
+import { CardIssuerError } from "@/lib/card-issuer";
+import { recordCardFunding, type CardFunding } from "@/lib/card-funding";
+import { debitCardSpend, creditRefund } from "@/lib/ledger";
+import { quoteCardFunding, CURRENT_FEE_SCHEDULE } from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import { notify } from "@/lib/notification-store";
+import type { StoredCard } from "@/lib/cards";
+
+const RULE_PREFIX = "card_auto_reload:";
+const RUN_LEASE_KEY = "card_auto_reload_run:running";
+const RUN_LEASE_SECONDS = 300;
+
+const MAX_RELOADS_PER_DAY = 10;
+
+export interface AutoReloadRule {
+  enabled: boolean;
+  threshold: number; // Reload when the card balance is below this, USD
+  amount: number; // Loaded onto the card, USD (fees come on top)
+  maxPerDay: number; // Attempts per UTC day
+  updatedAt?: string;
+}
+
+export interface CardReloadRecord {
+  id: string;
+  walletAddress: string;
+  cardId: string;
+  status: "funded" | "pending" | "failed";
+  balanceBefore: number;
+  amount: number;
+  serviceFee: number;
+  totalCost: number; // Debited from the TrenchBank balance (refunded if the reload failed)
+  fundingId?: string; // The card funding it is settled by, while pending (see card-funding.ts)
+  feeScheduleVersion: string;
+  reference?: string; // The issuer's funding reference
+  error?: string;
+  createdAt: string;
+}
+
+export interface AutoReloadRunResult {
+  checked: number;
+  funded: number;
+  pending: number;
+  failed: number;
+  errors: string[];
+  skipped?: boolean; // Another run was in progress
+}
+
+const reloads = createRecordStore<CardReloadRecord>({
+  prefix: "card_reload",
+  indexes: {
+    wallet: (r) => r.walletAddress,
+    card: (r) => r.cardId,
+  },
+});
+
+function ruleKey(walletAddress: string, cardId: string): string {
+  return `${RULE_PREFIX}${walletAddress}:${cardId}`;
+}
+
+export async function getAutoReloadRule(
+  walletAddress: string,
+  cardId: string
+): Promise<AutoReloadRule | null> {
+  return kv.get<AutoReloadRule>(ruleKey(walletAddress, cardId));
+}
+
+export async function saveAutoReloadRule(
+  walletAddress: string,
+  cardId: string,
+  rule: AutoReloadRule
+): Promise<AutoReloadRule> {
+  const saved: AutoReloadRule = {
+    ...rule,
+    updatedAt: new Date().toISOString(),
+  };
+  await kv.set(ruleKey(walletAddress, cardId), saved);
+  return saved;
+}
+
+// Validate a rule sent by the settings panel; returns an error message if it's invalid
+export function parseAutoReloadRule(input: unknown): AutoReloadRule | string {
+  if (!input || typeof input !== "object")
+    return "Auto top-up rule is required";
+  const body = input as Record<string, unknown>;
+
+  const threshold = Number(body.threshold);
+  const amount = Number(body.amount);
+  const maxPerDay = Number(body.maxPerDay);
+  const minimumLoad = CURRENT_FEE_SCHEDULE.cardIssuance.minimumLoad;
+
+  if (!isFinite(threshold) || threshold <= 0)
+    return "Threshold must be a positive amount";
+  if (!isFinite(amount) || amount < minimumLoad)
+    return `Top-up amount must be at least $${minimumLoad}`;
+  if (
+    !Number.isInteger(maxPerDay) ||
+    maxPerDay < 1 ||
+    maxPerDay > MAX_RELOADS_PER_DAY
+  ) {
+    return `Top-ups per day must be between 1 and ${MAX_RELOADS_PER_DAY}`;
+  }
+
+  return {
+    enabled: Boolean(body.enabled),
+    threshold: Math.round(threshold * 100) / 100,
+    amount: Math.round(amount * 100) / 100,
+    maxPerDay,
+  };
+}
+
+// A card's reload history, newest first
+export async function getReloadHistory(
+  walletAddress: string,
+  cardId: string
+): Promise<CardReloadRecord[]> {
+  const history = await reloads.listByIndex("card", cardId);
+  return history
+    .filter((r) => r.walletAddress === walletAddress)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function attemptsToday(history: CardReloadRecord[]): number {
+  const today = new Date().toISOString().slice(0, 10);
+  return history.filter((r) => r.createdAt.startsWith(today)).length;
+}
+
+/**
+ * Reload a card if its rule says so. `balance` is the card's freshly
+ * refreshed balance. Returns the logged attempt, or null if no reload was due.
+ */
+export async function checkAutoReload(
+  walletAddress: string,
+  card: StoredCard,
+  balance: number
+): Promise<CardReloadRecord | null> {
+  const rule = await getAutoReloadRule(walletAddress, card.cardId);
+  if (!rule?.enabled || balance >= rule.threshold) return null;
+
+  // Nothing else moves money on the card meanwhile (funding, closing it)
+  return withCardLease(card.cardId, async () => {
+    const current = await findCard(walletAddress, card.cardId);
+    if (!current || current.status === "closed") return null;
+
+    const history = await getReloadHistory(walletAddress, card.cardId);
+    // The last reload may have loaded the card already; wait until it's settled
+    if (history.some((r) => r.status === "pending")) return null;
+    if (attemptsToday(history) >= rule.maxPerDay) return null;
+
+    const fees = quoteCardFunding(
+      rule.amount,
+      await resolveFeeTier(walletAddress)
+    );
+    const record: CardReloadRecord = {
+      id: crypto.randomUUID(),
+      walletAddress,
+      cardId: card.cardId,
+      status: "funded",
+      balanceBefore: balance,
+      amount: rule.amount,
+      serviceFee: fees.serviceFee,
+      totalCost: fees.totalCost,
+      feeScheduleVersion: fees.scheduleVersion,
+      createdAt: new Date().toISOString(),
+    };
+
+    const debited = await debitCardSpend(walletAddress, {
+      type: "card_funding_debit",
+      amount: fees.totalCost,
+      serviceFee: fees.serviceFee,
+      reference: card.cardId,
+      feeScheduleVersion: fees.scheduleVersion,
+    });
+
+    if (!debited) {
+      record.status = "failed";
+      record.error = `Insufficient balance. Need $${fees.totalCost.toFixed(
+        2
+      )} (including fees)`;
+    } else {
+      const funding = {
+        walletAddress,
+        cardId: card.cardId,
+        source: "auto_reload" as const,
+        reloadId: record.id,
+        amount: rule.amount,
+        totalCost: fees.totalCost,
+      };
+      try {
+        const { reference } = await issuerForCard(card).fundCard(
+          card.cardId,
+          rule.amount
+        );
+        record.reference = reference;
+        await recordCardFunding({ ...funding, status: "funded", reference });
+      } catch (error) {
+        record.error =
+          error instanceof Error ? error.message : "Card funding error";
+        if (error instanceof CardIssuerError && error.refused) {
+          record.status = "failed";
+          await creditRefund(
+            walletAddress,
+            fees.totalCost,
+            card.cardId,
+            `Auto top-up failed: ${record.error}`
+          );
+        } else {
+          // The card may have been loaded anyway: settled once the issuer reports its transactions
+          record.status = "pending";
+          record.fundingId = (
+            await recordCardFunding({
+              ...funding,
+              status: "pending",
+              error: record.error,
+            })
+          ).id;
+        }
+      }
+    }
+
+    await reloads.insert(record);
+
+    if (record.status === "funded") {
+      await upsertCard(walletAddress, card.cardId, {
+        balance: Math.round((balance + rule.amount) * 100) / 100,
+      });
+    }
+
+    const label = `•••• ${card.lastFour || card.cardId.slice(-4)}`;
+    if (record.status === "failed") {
+      await notify(walletAddress, {
+        kind: "card_auto_reload",
+        cardId: card.cardId,
+        title: `Auto top-up of card ${label} failed`,
+        message: `${record.error?.replace(
+          /\.$/,
+          ""
+        )}. The card balance is $${balance.toFixed(2)}.`,
+      });
+    }
+    console.log(
+      `Auto top-up of card ${card.cardId}: ${record.status} $${rule.amount}`,
+      record.error || ""
+    );
+
+    return record;
+  });
+}
+
+/**
+ * Settle pending reloads whose card funding was just settled (see
+ * card-funding.ts). A refunded funding fails its reload and notifies the owner.
+ */
+export async function settleAutoReloads(
+  fundings: CardFunding[]
+): Promise<void> {
+  for (const funding of fundings) {
+    if (!funding.reloadId || funding.status === "pending") continue;
+
+    const record =
+      funding.status === "funded"
+        ? await reloads.transition(
+            funding.reloadId,
+            "status",
+            ["pending"],
+            "funded",
+            { error: undefined }
+          )
+        : await reloads.transition(
+            funding.reloadId,
+            "status",
+            ["pending"],
+            "failed",
+            { error: funding.error }
+          );
+    if (!record) continue;
+
+    console.log(
+      `Pending auto top-up ${record.id} of card ${record.cardId}: ${record.status}`
+    );
+    if (record.status === "failed") {
+      await notify(record.walletAddress, {
+        kind: "card_auto_reload",
+        cardId: record.cardId,
+        title: `Auto top-up of card •••• ${record.cardId.slice(-4)} failed`,
+        message: `${
+          record.error?.replace(/\.$/, "") ||
+          "The card provider never confirmed it"
+        }. $${record.totalCost.toFixed(2)} was refunded to your balance.`,
+      });
+    }
+  }
+}
+
+async function reloadWallet(
+  walletAddress: string,
+  result: AutoReloadRunResult
+): Promise<void> {
+  for (const card of await getCards(walletAddress)) {
+    if (card.status === "closed") continue;
+
+    try {
+      const rule = await getAutoReloadRule(walletAddress, card.cardId);
+      if (!rule?.enabled) continue;
+
+      result.checked++;
+      const details = await issuerForCard(card).getCardDetails(card.cardId);
+      if (details.status !== "active") continue;
+
+      const record = await checkAutoReload(
+        walletAddress,
+        card,
+        details.balance
+      );
+      if (record?.status === "funded") result.funded++;
+      if (record?.status === "pending") result.pending++;
+      if (record?.status === "failed") result.failed++;
+    } catch (error) {
+      result.errors.push(
+        `${card.cardId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+// Check one wallet's cards now
+export async function runWalletAutoReloads(
+  walletAddress: string
+): Promise<AutoReloadRunResult> {
+  const result: AutoReloadRunResult = {
+    checked: 0,
+    funded: 0,
+    pending: 0,
+    failed: 0,
+    errors: [],
+  };
+  await reloadWallet(walletAddress, result);
+  return result;
+}
+
+// Check every card with an auto top-up rule
+export async function runAutoReloads(): Promise<AutoReloadRunResult> {
+  const result: AutoReloadRunResult = {
+    checked: 0,
+    funded: 0,
+    pending: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  // One run at a time; the lease expires if a run dies
+  const lease = crypto.randomUUID();
+  if (
+    !(await kv.set(RUN_LEASE_KEY, lease, { nx: true, ex: RUN_LEASE_SECONDS }))
+  ) {
+    return { ...result, skipped: true };
+  }
+
+  try {
+    for (const walletAddress of await listCardWallets()) {
+      await reloadWallet(walletAddress, result);
+    }
+  } finally {
+    if ((await kv.get<string>(RUN_LEASE_KEY)) === lease) {
+      await kv.del(RUN_LEASE_KEY);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,163 @@
+/**
+ * Card Funding Log (server only)
+ *
+ * Every card funding that was debited from a TrenchBank balance, so one
+ * whose outcome we don't know can be settled later instead of refunded
+ * on the spot:
+ *
+ * - An issuer that refused the funding (CardIssuerError.refused) did
+ *   nothing, and the caller refunds right away
+ * - Any other failure (no answer, a 5xx, garbage) may still have funded
+ *   the card. The funding is logged as `pending` and reconciled against
+ *   the card's transactions as the issuer reports them (see
+ *   card-transactions.ts): a matching funding transaction marks it
+ *   `funded`; none after FUNDING_SETTLE_MS, or a failed one, refunds it
+ * - Refunds are posted with a ledger idempotency key, so a funding is
+ *   refunded at most once
+ */
+
+import { createRecordStore, withLock } from "@/lib/kv-store";
+import { creditRefund } from "@/lib/ledger";
+import type { CardTransaction, StoredCard } from "@/lib/cards";
+
+// How long an issuer may take to show a funding in the card's transactions
+const FUNDING_SETTLE_MS = 60 * 60 * 1000;
+// Allowed difference between our clock and the issuer's
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface CardFunding {
+  id: string;
+  walletAddress: string;
+  cardId: string;
+  source: "manual" | "auto_reload";
+  reloadId?: string; // The auto top-up attempt it belongs to
+  status: "pending" | "funded" | "refunded";
+  amount: number; // Loaded onto the card, USD
+  totalCost: number; // Debited from the TrenchBank balance
+  reference?: string; // The issuer's funding reference
+  transactionId?: string; // The card transaction it was matched to
+  error?: string; // Why the outcome was unknown
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+const fundings = createRecordStore<CardFunding>({
+  prefix: "card_funding",
+  indexes: {
+    card: (f) => f.cardId,
+    status: (f) => f.status,
+  },
+});
+
+export async function recordCardFunding(
+  funding: Omit<CardFunding, "id" | "createdAt">
+): Promise<CardFunding> {
+  const record: CardFunding = {
+    ...funding,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  await fundings.insert(record);
+  return record;
+}
+
+// The issuer transaction that carried `funding`, if it's been reported
+function findFundingTransaction(
+  funding: CardFunding,
+  reported: CardTransaction[],
+  taken: Set<string>
+): CardTransaction | undefined {
+  const after = new Date(funding.createdAt).getTime() - CLOCK_SKEW_MS;
+  return reported.find(
+    (tx) =>
+      tx.type === "funding" &&
+      !taken.has(String(tx.id)) &&
+      Math.abs(Math.abs(Number(tx.amount) || 0) - funding.amount) < 0.005 &&
+      new Date(tx.created_at).getTime() >= after
+  );
+}
+
+async function refundFunding(
+  funding: CardFunding,
+  reason: string
+): Promise<CardFunding | null> {
+  await creditRefund(
+    funding.walletAddress,
+    funding.totalCost,
+    funding.cardId,
+    `Card funding failed: ${reason}`,
+    `card_funding:${funding.id}:refund`
+  );
+  return fundings.transition(funding.id, "status", ["pending"], "refunded", {
+    error: reason,
+    resolvedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Settle a card's pending fundings against the transactions its issuer
+ * just reported. Returns the fundings that were settled.
+ */
+export async function reconcileCardFundings(
+  card: StoredCard,
+  reported: CardTransaction[]
+): Promise<CardFunding[]> {
+  const forCard = await fundings.listByIndex("card", card.cardId);
+  if (!forCard.some((f) => f.status === "pending")) return [];
+
+  return withLock(`card_funding:${card.cardId}`, async () => {
+    const current = await fundings.listByIndex("card", card.cardId);
+    // Transactions already accounted for by another funding
+    const taken = new Set(
+      current
+        .flatMap((f) => [f.transactionId, f.reference])
+        .filter((id): id is string => Boolean(id))
+    );
+    const settled: CardFunding[] = [];
+
+    const pending = current
+      .filter((f) => f.status === "pending")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const funding of pending) {
+      const tx = findFundingTransaction(funding, reported, taken);
+      let result: CardFunding | null = null;
+
+      if (tx?.status === "completed") {
+        taken.add(String(tx.id));
+        result = await fundings.transition(
+          funding.id,
+          "status",
+          ["pending"],
+          "funded",
+          {
+            transactionId: String(tx.id),
+            resolvedAt: new Date().toISOString(),
+          }
+        );
+      } else if (tx?.status === "failed") {
+        taken.add(String(tx.id));
+        result = await refundFunding(
+          funding,
+          "The card issuer reported the funding as failed"
+        );
+      } else if (
+        !tx &&
+        Date.now() - new Date(funding.createdAt).getTime() > FUNDING_SETTLE_MS
+      ) {
+        result = await refundFunding(
+          funding,
+          "The card issuer never reported the funding"
+        );
+      }
+
+      if (result) {
+        console.log(
+          `Card funding ${funding.id} of card ${card.cardId}: ${result.status}`
+        );
+        settled.push(result);
+      }
+    }
+    return settled;
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Card Issuers
+ *
+ * The contract every virtual card provider implements, so routes and the
+ * UI never talk to a particular provider. KripiCard (kripicard-provider.ts)
+ * is the first; which issuer a new card goes to is decided by the routing
+ * rules in card-issuers.ts, and each card records the issuer that holds it.
+ *
+ * Issuers report failures as CardIssuerError, with a code that routes turn
+ * into a response (describeCardIssuerError).
+ */
+
+import type { CardDetails, CardTransaction } from "@/lib/cards";
+
+export type CardIssuerId = "kripicard";
+
+export interface IssueCardRequest {
+  amount: number; // USD loaded onto the card
+  bankBin?: string; // The issuer's default when not given
+  nameOnCard?: string;
+  currency?: string; // Card currency; USD unless the issuer says otherwise
+}
+
+export interface FundCardResult {
+  reference?: string;
+  fee?: number; // Charged to our issuer account, on top of the amount
+}
+
+export interface TerminateCardResult {
+  residualBalance: number; // Left on the card when it was closed
+}
+
+export interface CardIssuer {
+  id: CardIssuerId;
+  name: string;
+  currencies: string[];
+  isAvailable(): boolean; // Configured and usable right now
+  createCard(request: IssueCardRequest): Promise<{ cardId: string }>;
+  fundCard(cardId: string, amount: number): Promise<FundCardResult>;
+  getCardDetails(cardId: string): Promise<CardDetails>;
+  getTransactions(cardId: string): Promise<CardTransaction[]>;
+  setFrozen(cardId: string, frozen: boolean): Promise<void>;
+  terminateCard(cardId: string): Promise<TerminateCardResult>;
+  getBalance(): Promise<number>; // Our account balance with the issuer, USD
+}
+
+export type CardIssuerErrorCode =
+  | "not_configured"
+  | "unavailable" // No issuer can take the card
+  | "insufficient_balance" // Our issuer account can't cover it
+  | "invalid_bin"
+  | "rate_limited"
+  | "card_not_found"
+  | "rejected" // Any other refusal
+  | "server_error"
+  | "invalid_response" // Not JSON - usually an error page while the issuer is down
+  | "network"; // No response; for create / fund the outcome is unknown
+
+const RETRYABLE: CardIssuerErrorCode[] = [
+  "rate_limited",
+  "server_error",
+  "invalid_response",
+  "network",
+];
+
+// The issuer answered and turned the call down, so nothing was done. For the
+// rest (5xx, garbage, no answer) a card may have been created or funded anyway
+const REFUSED: CardIssuerErrorCode[] = [
+  "not_configured",
+  "unavailable",
+  "insufficient_balance",
+  "invalid_bin",
+  "rate_limited",
+  "card_not_found",
+  "rejected",
+];
+
+export class CardIssuerError extends Error {
+  readonly code: CardIssuerErrorCode;
+  readonly status?: number; // The issuer's HTTP status
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: CardIssuerErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "CardIssuerError";
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.code);
+  }
+
+  get refused(): boolean {
+    return REFUSED.includes(this.code);
+  }
+}
+
+// What our routes answer with when an issuer call fails
+export function describeCardIssuerError(error: CardIssuerError): {
+  status: number;
+  message: string;
+} {
+  switch (error.code) {
+    case "not_configured":
+      return { status: 500, message: "Card issuing is not configured" };
+    case "unavailable":
+      return {
+        status: 503,
+        message:
+          "Card issuing is temporarily unavailable. Please try again later.",
+      };
+    case "insufficient_balance":
+      return {
+        status: 402,
+        message:
+          "Card provider account has insufficient funds. Please try again later.",
+      };
+    case "invalid_bin":
+      return { status: 400, message: "Invalid bank BIN" };
+    case "rate_limited":
+      return {
+        status: 429,
+        message: "Card provider is busy. Please try again shortly.",
+      };
+    case "card_not_found":
+      return { status: 404, message: "Card not found" };
+    case "rejected":
+      return { status: 400, message: error.message };
+    default:
+      return {
+        status: 502,
+        message:
+          "Card provider returned an invalid response. The service may be temporarily unavailable.",
+      };
+  }
+}
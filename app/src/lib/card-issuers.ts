@@ -0,0 +1,134 @@
+/**
+ * Card Issuer Registry (server only)
+ *
+ * The card issuers we can use, and which one a new card goes to.
+ *
+ * New cards are routed by ordered rules: the first rule whose BIN prefixes
+ * and currencies match the request, and whose issuer is available, wins.
+ * CARD_ISSUER_RULES overrides the default (every issuer, in registry
+ * order) with a JSON array, e.g.
+ *
+ *   [{ "issuer": "kripicard", "bins": ["4147"], "currencies": ["USD"] },
+ *    { "issuer": "kripicard" }]
+ *
+ * Existing cards stay with the issuer recorded on them (issuerForCard).
+ */
+
+import {
+  CardIssuerError,
+  type CardIssuer,
+  type CardIssuerId,
+} from "@/lib/card-issuer";
+import { kripiCardIssuer } from "@/lib/kripicard-provider";
+import type { StoredCard } from "@/lib/cards";
+
+const ISSUERS: Record<CardIssuerId, CardIssuer> = {
+  kripicard: kripiCardIssuer,
+};
+
+// Issuer of cards that predate issuers being recorded
+const LEGACY_ISSUER: CardIssuerId = "kripicard";
+
+export interface CardIssuerRule {
+  issuer: CardIssuerId;
+  bins?: string[]; // BIN prefixes; any BIN if not set
+  currencies?: string[]; // Any the issuer supports if not set
+}
+
+export interface CardIssuerCriteria {
+  bankBin?: string;
+  currency?: string; // USD if not set
+}
+
+const issuersOverride: Partial<Record<CardIssuerId, CardIssuer>> = {};
+
+// Replace an issuer (e.g. a fake in tests); pass null to restore the default
+export function setCardIssuer(
+  id: CardIssuerId,
+  issuer: CardIssuer | null
+): void {
+  if (issuer) {
+    issuersOverride[id] = issuer;
+  } else {
+    delete issuersOverride[id];
+  }
+}
+
+export function isCardIssuerId(value: unknown): value is CardIssuerId {
+  return typeof value === "string" && value in ISSUERS;
+}
+
+export function getCardIssuer(id: CardIssuerId): CardIssuer {
+  const issuer = issuersOverride[id] || ISSUERS[id];
+  if (!issuer) {
+    throw new CardIssuerError("not_configured", `Unknown card issuer: ${id}`);
+  }
+  return issuer;
+}
+
+export function issuerForCard(card: Pick<StoredCard, "issuer">): CardIssuer {
+  return getCardIssuer(card.issuer || LEGACY_ISSUER);
+}
+
+// Whether any issuer could take a new card right now
+export function isCardIssuingAvailable(): boolean {
+  return (Object.keys(ISSUERS) as CardIssuerId[]).some((id) =>
+    getCardIssuer(id).isAvailable()
+  );
+}
+
+function readRules(): CardIssuerRule[] {
+  const raw = process.env.CARD_ISSUER_RULES;
+  if (raw) {
+    try {
+      const rules = JSON.parse(raw);
+      if (
+        Array.isArray(rules) &&
+        rules.every((rule) => isCardIssuerId(rule?.issuer))
+      ) {
+        return rules;
+      }
+    } catch {
+      // Falls through to the default
+    }
+    console.error("Ignoring invalid CARD_ISSUER_RULES");
+  }
+  return (Object.keys(ISSUERS) as CardIssuerId[]).map((issuer) => ({ issuer }));
+}
+
+function ruleMatches(
+  rule: CardIssuerRule,
+  issuer: CardIssuer,
+  bankBin: string | undefined,
+  currency: string
+): boolean {
+  if (
+    rule.bins &&
+    !(bankBin && rule.bins.some((prefix) => bankBin.startsWith(prefix)))
+  )
+    return false;
+  if (rule.currencies && !rule.currencies.includes(currency)) return false;
+  return issuer.currencies.includes(currency);
+}
+
+// The issuer a new card goes to
+export function selectCardIssuer(
+  criteria: CardIssuerCriteria = {}
+): CardIssuer {
+  const bankBin = criteria.bankBin ? String(criteria.bankBin) : undefined;
+  const currency = (criteria.currency || "USD").toUpperCase();
+
+  for (const rule of readRules()) {
+    const issuer = getCardIssuer(rule.issuer);
+    if (ruleMatches(rule, issuer, bankBin, currency) && issuer.isAvailable()) {
+      return issuer;
+    }
+  }
+
+  throw new CardIssuerError(
+    "unavailable",
+    `No card issuer available for ${currency}${
+      bankBin ? ` BIN ${bankBin}` : ""
+    }`
+  );
+}
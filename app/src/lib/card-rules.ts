@@ -0,0 +1,320 @@
+/**
+ * Card Spending Rules (server only)
+ *
+ * Per-card controls the owner sets from the card settings panel, checked
+ * against each newly synced card transaction (see card-transactions.ts):
+ *
+ * - Daily and monthly spend caps (USD, calendar days and months in UTC).
+ *   Charges that aren't failed count, completed refunds are taken off
+ * - Blocked merchant keywords, matched against the normalised and the raw
+ *   merchant name, and blocked spending categories
+ * - Single-use: the first charge freezes the card
+ *
+ * Issuers don't ask us before approving a charge, so a broken rule can't
+ * stop the charge that broke it. Instead the card is frozen through
+ * /api/cards/freeze and the owner is notified (see notification-store.ts).
+ * Rules only look at transactions made after they were last saved, so
+ * adding a rule never freezes a card for its past spending.
+ */
+
+import { kv } from "@vercel/kv";
+import { internalHeaders } from "@/lib/auth";
+import { notify } from "@/lib/notification-store";
+import {
+  SPENDING_CATEGORIES,
+  isSpendingCategory,
+  type SpendingCategory,
+} from "@/lib/merchants";
+import type { SyncedCardTransaction } from "@/lib/card-transactions";
+import type { StoredCard } from "@/lib/cards";
+
+const RULES_PREFIX = "card_rules:";
+
+const MAX_BLOCKED_MERCHANTS = 50;
+
+export interface CardRules {
+  dailyLimit?: number; // USD
+  monthlyLimit?: number; // USD
+  blockedMerchants: string[]; // Keywords, case-insensitive
+  blockedCategories: SpendingCategory[];
+  singleUse: boolean;
+  updatedAt?: string; // Rules apply to transactions made from here on
+}
+
+export type CardRuleKind =
+  | "daily_limit"
+  | "monthly_limit"
+  | "blocked_merchant"
+  | "blocked_category"
+  | "single_use";
+
+export interface CardRuleViolation {
+  rule: CardRuleKind;
+  transactionId: string;
+  message: string;
+}
+
+export const DEFAULT_CARD_RULES: CardRules = {
+  blockedMerchants: [],
+  blockedCategories: [],
+  singleUse: false,
+};
+
+function rulesKey(walletAddress: string, cardId: string): string {
+  return `${RULES_PREFIX}${walletAddress}:${cardId}`;
+}
+
+export async function getCardRules(
+  walletAddress: string,
+  cardId: string
+): Promise<CardRules> {
+  const rules = await kv.get<CardRules>(rulesKey(walletAddress, cardId));
+  return rules || DEFAULT_CARD_RULES;
+}
+
+export async function saveCardRules(
+  walletAddress: string,
+  cardId: string,
+  rules: CardRules
+): Promise<CardRules> {
+  const saved: CardRules = { ...rules, updatedAt: new Date().toISOString() };
+  await kv.set(rulesKey(walletAddress, cardId), saved);
+  return saved;
+}
+
+function hasAnyRule(rules: CardRules): boolean {
+  return Boolean(
+    rules.dailyLimit ||
+      rules.monthlyLimit ||
+      rules.blockedMerchants.length ||
+      rules.blockedCategories.length ||
+      rules.singleUse
+  );
+}
+
+function parseLimit(value: unknown, name: string): number | undefined | string {
+  if (value === undefined || value === null || value === "") return undefined;
+  const limit = Number(value);
+  if (!isFinite(limit) || limit <= 0)
+    return `${name} must be a positive amount`;
+  return Math.round(limit * 100) / 100;
+}
+
+// Validate rules sent by the settings panel; returns an error message if they're invalid
+export function parseCardRules(input: unknown): CardRules | string {
+  if (!input || typeof input !== "object") return "Rules are required";
+  const body = input as Record<string, unknown>;
+
+  const dailyLimit = parseLimit(body.dailyLimit, "Daily limit");
+  if (typeof dailyLimit === "string") return dailyLimit;
+  const monthlyLimit = parseLimit(body.monthlyLimit, "Monthly limit");
+  if (typeof monthlyLimit === "string") return monthlyLimit;
+  if (dailyLimit && monthlyLimit && dailyLimit > monthlyLimit) {
+    return "Daily limit cannot be higher than the monthly limit";
+  }
+
+  const merchants = body.blockedMerchants ?? [];
+  if (!Array.isArray(merchants)) return "Blocked merchants must be a list";
+  const blockedMerchants = Array.from(
+    new Set(
+      merchants.map((m) => String(m).trim().toLowerCase()).filter(Boolean)
+    )
+  );
+  if (blockedMerchants.length > MAX_BLOCKED_MERCHANTS) {
+    return `At most ${MAX_BLOCKED_MERCHANTS} blocked merchants`;
+  }
+
+  const categories = body.blockedCategories ?? [];
+  if (!Array.isArray(categories) || !categories.every(isSpendingCategory)) {
+    return "Unknown spending category";
+  }
+
+  return {
+    dailyLimit,
+    monthlyLimit,
+    blockedMerchants,
+    blockedCategories: Array.from(new Set(categories)),
+    singleUse: Boolean(body.singleUse),
+  };
+}
+
+// What a transaction adds to the card's spend
+function spendOf(tx: SyncedCardTransaction): number {
+  if (tx.type === "charge" && tx.status !== "failed") return tx.amount;
+  if (tx.type === "refund" && tx.status === "completed") return -tx.amount;
+  return 0;
+}
+
+// UTC calendar day (length 10) or month (length 7) of a timestamp
+function periodOf(createdAt: string, length: 10 | 7): string | null {
+  const at = Date.parse(createdAt);
+  return isNaN(at) ? null : new Date(at).toISOString().slice(0, length);
+}
+
+function spentInPeriod(
+  history: SyncedCardTransaction[],
+  period: string,
+  length: 10 | 7
+): number {
+  const spent = history
+    .filter((tx) => periodOf(tx.createdAt, length) === period)
+    .reduce((total, tx) => total + spendOf(tx), 0);
+  return Math.round(spent * 100) / 100;
+}
+
+/**
+ * The rules broken by `added` - transactions seen for the first time.
+ * `history` is every synced transaction of the card (including `added`),
+ * for the spend caps. At most one violation per rule.
+ */
+export function evaluateCardRules(
+  rules: CardRules,
+  added: SyncedCardTransaction[],
+  history: SyncedCardTransaction[]
+): CardRuleViolation[] {
+  const violations = new Map<CardRuleKind, CardRuleViolation>();
+  const flag = (
+    rule: CardRuleKind,
+    tx: SyncedCardTransaction,
+    message: string
+  ) => {
+    if (!violations.has(rule))
+      violations.set(rule, { rule, transactionId: tx.transactionId, message });
+  };
+
+  const charges = added
+    .filter((tx) => tx.type === "charge" && tx.status !== "failed")
+    .filter(
+      (tx) =>
+        !rules.updatedAt ||
+        !(Date.parse(tx.createdAt) < Date.parse(rules.updatedAt))
+    )
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+  for (const tx of charges) {
+    const merchant = tx.merchant || tx.rawMerchant || "an unknown merchant";
+
+    if (rules.singleUse) {
+      flag(
+        "single_use",
+        tx,
+        `Single-use card was charged $${tx.amount.toFixed(2)} at ${merchant}.`
+      );
+    }
+
+    if (rules.blockedCategories.includes(tx.category)) {
+      flag(
+        "blocked_category",
+        tx,
+        `${
+          SPENDING_CATEGORIES[tx.category]
+        } is blocked, but ${merchant} charged $${tx.amount.toFixed(2)}.`
+      );
+    }
+
+    const names = [tx.merchant, tx.rawMerchant]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    const keyword = rules.blockedMerchants.find((k) => names.includes(k));
+    if (keyword) {
+      flag(
+        "blocked_merchant",
+        tx,
+        `${merchant} matches blocked merchant "${keyword}" and charged $${tx.amount.toFixed(
+          2
+        )}.`
+      );
+    }
+
+    const day = periodOf(tx.createdAt, 10);
+    if (rules.dailyLimit && day) {
+      const spent = spentInPeriod(history, day, 10);
+      if (spent >= rules.dailyLimit) {
+        flag(
+          "daily_limit",
+          tx,
+          `Daily limit of $${rules.dailyLimit.toFixed(
+            2
+          )} reached ($${spent.toFixed(2)} spent).`
+        );
+      }
+    }
+
+    const month = periodOf(tx.createdAt, 7);
+    if (rules.monthlyLimit && month) {
+      const spent = spentInPeriod(history, month, 7);
+      if (spent >= rules.monthlyLimit) {
+        flag(
+          "monthly_limit",
+          tx,
+          `Monthly limit of $${rules.monthlyLimit.toFixed(
+            2
+          )} reached ($${spent.toFixed(2)} spent).`
+        );
+      }
+    }
+  }
+
+  return Array.from(violations.values());
+}
+
+// Freeze a card through the freeze endpoint, on the owner's behalf
+async function freezeCard(
+  walletAddress: string,
+  cardId: string,
+  reason: string
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const response = await fetch(`${appUrl}/api/cards/freeze`, {
+      method: "POST",
+      headers: internalHeaders(),
+      body: JSON.stringify({ cardId, action: "freeze", walletAddress, reason }),
+    });
+    const result = await response.json();
+    if (!result.success) {
+      console.error(`Auto-freeze of card ${cardId} failed:`, result.message);
+    }
+    return Boolean(result.success);
+  } catch (error) {
+    console.error(`Auto-freeze of card ${cardId} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Check newly synced transactions against the card's rules; on a violation
+ * freeze the card and notify the owner.
+ */
+export async function enforceCardRules(
+  walletAddress: string,
+  card: StoredCard,
+  added: SyncedCardTransaction[],
+  loadHistory: () => Promise<SyncedCardTransaction[]>
+): Promise<CardRuleViolation[]> {
+  if (added.length === 0 || card.status === "closed") return [];
+
+  const rules = await getCardRules(walletAddress, card.cardId);
+  if (!hasAnyRule(rules)) return [];
+
+  const violations = evaluateCardRules(rules, added, await loadHistory());
+  if (violations.length === 0) return violations;
+
+  const reason = violations.map((v) => v.message).join(" ");
+  const frozen = await freezeCard(walletAddress, card.cardId, reason);
+  const label = `•••• ${card.lastFour || card.cardId.slice(-4)}`;
+
+  await notify(walletAddress, {
+    kind: "card_rule_violation",
+    cardId: card.cardId,
+    title: frozen
+      ? `Card ${label} frozen`
+      : `Spending rule broken on card ${label}`,
+    message: frozen
+      ? `${reason} Unfreeze the card from the cards page if this was you.`
+      : `${reason} We couldn't freeze the card - freeze it now if you don't recognise this.`,
+  });
+
+  return violations;
+}
@@ -0,0 +1,184 @@
+/**
+ * Card Statements (server only)
+ *
+ * Exports synced card transactions (see card-transactions.ts) for
+ * spreadsheets and accounting software.
+ *
+ * - CSV: one row per transaction, charges as negative amounts
+ * - OFX 1.0.2 (SGML), the format Quicken, GnuCash and most banks'
+ *   importers read: one credit card statement per card. Failed and pending
+ *   transactions are left out, since importers treat every row as posted
+ */
+
+import { SPENDING_CATEGORIES } from "@/lib/merchants";
+import type { SyncedCardTransaction } from "@/lib/card-transactions";
+import type { StoredCard } from "@/lib/cards";
+
+export type StatementFormat = "csv" | "ofx";
+
+export function isStatementFormat(value: unknown): value is StatementFormat {
+  return value === "csv" || value === "ofx";
+}
+
+// Money leaving the card is negative
+function signedAmount(tx: SyncedCardTransaction): number {
+  return tx.type === "charge" ? -tx.amount : tx.amount;
+}
+
+function lastFourOf(cards: StoredCard[], cardId: string): string {
+  return (
+    cards.find((card) => card.cardId === cardId)?.lastFour || cardId.slice(-4)
+  );
+}
+
+// ============ CSV ============
+
+const CSV_COLUMNS = [
+  "Date",
+  "Card",
+  "Transaction ID",
+  "Type",
+  "Status",
+  "Merchant",
+  "Original description",
+  "Category",
+  "Amount",
+  "Currency",
+];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(
+  transactions: SyncedCardTransaction[],
+  cards: StoredCard[]
+): string {
+  const rows = transactions.map((tx) => [
+    tx.createdAt,
+    `•••• ${lastFourOf(cards, tx.cardId)}`,
+    tx.transactionId,
+    tx.type,
+    tx.status,
+    tx.merchant,
+    tx.rawMerchant,
+    SPENDING_CATEGORIES[tx.category],
+    signedAmount(tx).toFixed(2),
+    "USD",
+  ]);
+
+  return (
+    [CSV_COLUMNS, ...rows]
+      .map((row) => row.map(csvField).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+// ============ OFX ============
+
+function ofxText(value: string, maxLength?: number): string {
+  const text = maxLength ? value.slice(0, maxLength) : value;
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// YYYYMMDDHHMMSS, in UTC
+function ofxDate(value: string | number | Date): string {
+  return new Date(value).toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function ofxTransaction(tx: SyncedCardTransaction): string {
+  const name =
+    tx.merchant ||
+    tx.rawMerchant ||
+    (tx.type === "funding" ? "Card funding" : "Card transaction");
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${tx.type === "charge" ? "DEBIT" : "CREDIT"}`,
+    `<DTPOSTED>${ofxDate(tx.createdAt)}`,
+    `<TRNAMT>${signedAmount(tx).toFixed(2)}`,
+    `<FITID>${ofxText(tx.transactionId, 255)}`,
+    `<NAME>${ofxText(name, 32)}`,
+    `<MEMO>${ofxText(SPENDING_CATEGORIES[tx.category])}`,
+    "</STMTTRN>",
+  ].join("\n");
+}
+
+function ofxStatement(
+  card: StoredCard,
+  transactions: SyncedCardTransaction[],
+  now: Date
+): string {
+  const times = transactions.map((tx) => Date.parse(tx.createdAt));
+  const start = times.length ? Math.min(...times) : now.getTime();
+  const end = times.length ? Math.max(...times) : now.getTime();
+
+  return [
+    "<CCSTMTTRNRS>",
+    `<TRNUID>${ofxText(card.cardId)}`,
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    "<CCSTMTRS>",
+    "<CURDEF>USD",
+    `<CCACCTFROM><ACCTID>${ofxText(card.cardId, 22)}</CCACCTFROM>`,
+    "<BANKTRANLIST>",
+    `<DTSTART>${ofxDate(start)}`,
+    `<DTEND>${ofxDate(end)}`,
+    ...transactions.map(ofxTransaction),
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>${(card.balance ?? 0).toFixed(2)}<DTASOF>${ofxDate(
+      now
+    )}</LEDGERBAL>`,
+    "</CCSTMTRS>",
+    "</CCSTMTTRNRS>",
+  ].join("\n");
+}
+
+export function toOfx(
+  transactions: SyncedCardTransaction[],
+  cards: StoredCard[],
+  now = new Date()
+): string {
+  const posted = transactions
+    .filter((tx) => tx.status === "completed")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const statements = cards
+    .map((card) => ({
+      card,
+      transactions: posted.filter((tx) => tx.cardId === card.cardId),
+    }))
+    .filter((statement) => statement.transactions.length > 0)
+    .map((statement) =>
+      ofxStatement(statement.card, statement.transactions, now)
+    );
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${ofxDate(now)}`,
+    "<LANGUAGE>ENG",
+    "<FI><ORG>KryptCash</FI>",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<CREDITCARDMSGSRSV1>",
+    ...statements,
+    "</CREDITCARDMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
+}
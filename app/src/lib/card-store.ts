@@ -0,0 +1,138 @@
+/**
+ * Card Store
+ *
+ * Server-side record of which cards belong to which wallet.
+ * Stored per wallet under `cards:<wallet>` in Vercel KV; the wallets that
+ * have cards are kept in a set so jobs can walk every card. Changes to a
+ * wallet's cards are read-modify-write, so they run under the wallet's
+ * card lock (withCardsLock). Moving money onto or off one card runs under
+ * that card's lease (withCardLease).
+ */
+
+import { kv } from "@vercel/kv";
+import { withLock } from "@/lib/kv-store";
+import type { StoredCard } from "@/lib/cards";
+
+// Key prefix for cards storage
+const CARDS_PREFIX = "cards:";
+const CARD_WALLETS_KEY = "card_wallets";
+const CARD_WALLETS_BACKFILLED_KEY = "card_wallets:backfilled";
+const CARD_LEASE_PREFIX = "card_lease:";
+const CARD_LEASE_SECONDS = 300;
+
+// Get cards for a wallet from Vercel KV
+export async function getCards(walletAddress: string): Promise<StoredCard[]> {
+  try {
+    const cards = await kv.get<StoredCard[]>(`${CARDS_PREFIX}${walletAddress}`);
+    return cards || [];
+  } catch (error) {
+    console.error("Failed to get cards from KV:", error);
+    return [];
+  }
+}
+
+// Save cards for a wallet to Vercel KV
+export async function saveCards(
+  walletAddress: string,
+  cards: StoredCard[]
+): Promise<void> {
+  try {
+    await kv.set(`${CARDS_PREFIX}${walletAddress}`, cards);
+    await kv.sadd(CARD_WALLETS_KEY, walletAddress);
+  } catch (error) {
+    console.error("Failed to save cards to KV:", error);
+    throw error;
+  }
+}
+
+// Run `fn` holding the lock on a wallet's cards (not reentrant)
+export function withCardsLock<T>(
+  walletAddress: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  return withLock(`${CARDS_PREFIX}${walletAddress}`, fn);
+}
+
+/**
+ * Run `fn` holding the lease on one card, or return null without running
+ * it if something else holds the lease. Funding, auto top-ups and closing
+ * a card all take it, so they never overlap. A lease rather than withLock
+ * because issuer calls can outlast the lock; it expires if a run dies.
+ */
+export async function withCardLease<T>(
+  cardId: string,
+  fn: () => Promise<T>
+): Promise<T | null> {
+  const leaseKey = `${CARD_LEASE_PREFIX}${cardId}`;
+  const lease = crypto.randomUUID();
+  if (!(await kv.set(leaseKey, lease, { nx: true, ex: CARD_LEASE_SECONDS })))
+    return null;
+
+  try {
+    return await fn();
+  } finally {
+    if ((await kv.get<string>(leaseKey)) === lease) {
+      await kv.del(leaseKey);
+    }
+  }
+}
+
+// Every wallet that has cards. Wallets whose cards were saved before the
+// set existed are picked up once by scanning the card keys.
+export async function listCardWallets(): Promise<string[]> {
+  if (!(await kv.get(CARD_WALLETS_BACKFILLED_KEY))) {
+    let cursor: string | number = 0;
+    do {
+      const [next, keys]: [string | number, string[]] = await kv.scan(cursor, {
+        match: `${CARDS_PREFIX}*`,
+        count: 500,
+      });
+      const wallets = keys.map((key) => key.slice(CARDS_PREFIX.length));
+      if (wallets.length > 0)
+        await kv.sadd(CARD_WALLETS_KEY, wallets[0], ...wallets.slice(1));
+      cursor = next;
+    } while (String(cursor) !== "0");
+    await kv.set(CARD_WALLETS_BACKFILLED_KEY, new Date().toISOString());
+  }
+  return kv.smembers(CARD_WALLETS_KEY);
+}
+
+// Find a card owned by a wallet
+export async function findCard(
+  walletAddress: string,
+  cardId: string
+): Promise<StoredCard | null> {
+  const cards = await getCards(walletAddress);
+  return cards.find((c) => c.cardId === cardId) || null;
+}
+
+// Add a card, or merge updates into it if it already exists
+export async function upsertCard(
+  walletAddress: string,
+  cardId: string,
+  updates: Partial<StoredCard>
+): Promise<StoredCard> {
+  return withCardsLock(walletAddress, async () => {
+    const cards = await getCards(walletAddress);
+    const index = cards.findIndex((c) => c.cardId === cardId);
+
+    let card: StoredCard;
+    if (index !== -1) {
+      card = { ...cards[index], ...updates, cardId, walletAddress };
+      cards[index] = card;
+    } else {
+      card = {
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        status: "active",
+        ...updates,
+        cardId,
+        walletAddress,
+      };
+      cards.push(card);
+    }
+
+    await saveCards(walletAddress, cards);
+    return card;
+  });
+}
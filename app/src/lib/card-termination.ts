@@ -0,0 +1,87 @@
+/**
+ * Card Termination (server only)
+ *
+ * Closes a card for good and gives its owner back what was left on it:
+ *
+ * 1. The issuer freezes the card for good and reports its residual
+ *    balance (terminateCard, see card-issuer.ts). KripiCard can't close or
+ *    unload a card, so there the residual stays on the frozen card, on our
+ *    account
+ * 2. The residual is credited to the owner's TrenchBank balance as a
+ *    `card_balance_credit` ledger entry
+ * 3. The card is marked closed in the card store. Closed cards are kept,
+ *    so their transactions stay in the owner's history
+ *
+ * The whole close runs under the card's lease (withCardLease), so no
+ * funding or auto top-up can land between reading the residual and
+ * closing the card. The residual is saved on the card under a new id
+ * before it is credited, and the credit is keyed by that id in the
+ * ledger: a retry after a crash credits the saved residual instead of
+ * reading it again, so each residual is paid exactly once.
+ */
+
+import { findCard, upsertCard, withCardLease } from "@/lib/card-store";
+import { issuerForCard } from "@/lib/card-issuers";
+import { creditCardBalance } from "@/lib/ledger";
+import type { StoredCard } from "@/lib/cards";
+
+export interface CardTerminationResult {
+  card: StoredCard;
+  residualBalance: number; // Credited to the TrenchBank balance
+}
+
+// Close a card. Null if something else is using the card right now.
+export async function terminateCard(
+  walletAddress: string,
+  card: StoredCard
+): Promise<CardTerminationResult | null> {
+  return withCardLease(card.cardId, async () => {
+    const current = (await findCard(walletAddress, card.cardId)) ?? card;
+    if (current.status === "closed") {
+      return { card: current, residualBalance: current.residualBalance ?? 0 };
+    }
+
+    // A close that failed after reading the residual left it on the card
+    let residual = current.pendingResidual;
+    if (!residual) {
+      const { residualBalance } = await issuerForCard(current).terminateCard(
+        current.cardId
+      );
+      residual = {
+        id: crypto.randomUUID(),
+        amount: Math.max(0, Math.round(residualBalance * 100) / 100),
+      };
+      if (residual.amount > 0) {
+        await upsertCard(walletAddress, current.cardId, {
+          pendingResidual: residual,
+        });
+      }
+    }
+
+    if (residual.amount > 0) {
+      await creditCardBalance(
+        walletAddress,
+        residual.amount,
+        current.cardId,
+        residual.id,
+        `Balance of closed card •••• ${
+          current.lastFour || current.cardId.slice(-4)
+        }`
+      );
+    }
+
+    const closed = await upsertCard(walletAddress, current.cardId, {
+      status: "closed",
+      balance: 0,
+      closedAt: new Date().toISOString(),
+      residualBalance: residual.amount,
+      pendingResidual: undefined,
+    });
+
+    const credited = residual.amount.toFixed(2);
+    console.log(
+      `Card ${current.cardId} of ${walletAddress} closed, $${credited} credited`
+    );
+    return { card: closed, residualBalance: residual.amount };
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * Card Transactions (server only)
+ *
+ * Card transaction history, synced from the issuers into Vercel KV (see
+ * kv-store) so it can be searched and exported without asking the issuer
+ * each time.
+ *
+ * - One record per issuer transaction, keyed by card and issuer ID, so a
+ *   transaction reported again is never stored twice. A re-reported
+ *   transaction whose status or amount changed (pending -> completed) is
+ *   updated in place
+ * - Each transaction gets a normalised merchant name and a spending
+ *   category (see merchants.ts)
+ * - New transactions are checked against the card's spending rules (see
+ *   card-rules.ts), and card fundings and auto top-ups whose outcome was
+ *   unknown are settled against them (see card-funding.ts)
+ * - runCardTransactionSync walks every card of every wallet; Vercel Cron
+ *   runs it through /api/cards/transactions/sync (see vercel.json), which
+ *   signed-in wallets can also POST to for their own cards. Card details
+ *   fetched for the UI are recorded too
+ */
+
+import { kv } from "@vercel/kv";
+import { createRecordStore } from "@/lib/kv-store";
+import { getCards, listCardWallets } from "@/lib/card-store";
+import { issuerForCard } from "@/lib/card-issuers";
+import { enforceCardRules } from "@/lib/card-rules";
+import { reconcileCardFundings } from "@/lib/card-funding";
+import { settleAutoReloads } from "@/lib/card-auto-reload";
+import {
+  categorizeMerchant,
+  normalizeMerchant,
+  type SpendingCategory,
+} from "@/lib/merchants";
+import type { CardIssuerId } from "@/lib/card-issuer";
+import type { CardTransaction, StoredCard } from "@/lib/cards";
+
+const RUN_LEASE_KEY = "card_tx_sync:running";
+const RUN_LEASE_SECONDS = 300;
+
+export interface SyncedCardTransaction {
+  id: string; // <cardId>:<transactionId>
+  transactionId: string; // The issuer's ID
+  cardId: string;
+  walletAddress: string;
+  issuer: CardIssuerId;
+  type: CardTransaction["type"];
+  amount: number; // USD, always positive; `type` says which way it went
+  status: CardTransaction["status"];
+  rawMerchant?: string; // As the issuer reported it
+  merchant?: string; // Normalised
+  category: SpendingCategory;
+  createdAt: string; // When the issuer says it happened
+  syncedAt: string; // First seen
+  updatedAt?: string;
+}
+
+export interface CardTransactionFilter {
+  cardId?: string;
+  query?: string; // Matches merchant, raw merchant or transaction ID
+  merchant?: string; // Normalised name, exact (case-insensitive)
+  category?: SpendingCategory;
+  type?: CardTransaction["type"];
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date (inclusive of the whole day) or timestamp
+}
+
+export interface CardTransactionSyncResult {
+  cards: number;
+  inserted: number;
+  updated: number;
+  errors: string[];
+  skipped?: boolean; // Another run was in progress
+}
+
+const transactions = createRecordStore<SyncedCardTransaction>({
+  prefix: "card_tx",
+  indexes: {
+    wallet: (r) => r.walletAddress,
+    card: (r) => r.cardId,
+  },
+});
+
+function recordId(cardId: string, transactionId: string): string {
+  return `${cardId}:${transactionId}`;
+}
+
+// Store what an issuer reported for a card; returns how many were new or changed
+export async function recordCardTransactions(
+  walletAddress: string,
+  card: StoredCard,
+  reported: CardTransaction[]
+): Promise<{ inserted: number; updated: number }> {
+  const issuer = issuerForCard(card).id;
+  const valid = reported.filter((tx) => tx?.id);
+  const known = new Map(
+    (
+      await transactions.getMany(
+        valid.map((tx) => recordId(card.cardId, String(tx.id)))
+      )
+    ).map((r) => [r.id, r])
+  );
+  const added: SyncedCardTransaction[] = [];
+  let updated = 0;
+
+  for (const tx of valid) {
+    const id = recordId(card.cardId, String(tx.id));
+    const amount = Math.abs(Number(tx.amount) || 0);
+    const now = new Date().toISOString();
+
+    const current = known.get(id);
+    if (current) {
+      if (current.status === tx.status && current.amount === amount) continue;
+      if (
+        await transactions.update(id, (r) => ({
+          ...r,
+          status: tx.status,
+          amount,
+          updatedAt: now,
+        }))
+      )
+        updated++;
+      continue;
+    }
+
+    const merchant = normalizeMerchant(tx.merchant);
+    const record: SyncedCardTransaction = {
+      id,
+      transactionId: String(tx.id),
+      cardId: card.cardId,
+      walletAddress,
+      issuer,
+      type: tx.type,
+      amount,
+      status: tx.status,
+      rawMerchant: tx.merchant,
+      merchant,
+      category: categorizeMerchant(merchant, tx.type),
+      createdAt: tx.created_at || now,
+      syncedAt: now,
+    };
+    if (await transactions.insert(record)) added.push(record);
+  }
+
+  try {
+    await enforceCardRules(walletAddress, card, added, () =>
+      transactions.listByIndex("card", card.cardId)
+    );
+  } catch (error) {
+    console.error(
+      `Failed to check spending rules of card ${card.cardId}:`,
+      error
+    );
+  }
+
+  try {
+    await settleAutoReloads(await reconcileCardFundings(card, valid));
+  } catch (error) {
+    console.error(
+      `Failed to reconcile fundings of card ${card.cardId}:`,
+      error
+    );
+  }
+
+  return { inserted: added.length, updated };
+}
+
+export async function syncCardTransactions(
+  walletAddress: string,
+  card: StoredCard
+): Promise<{ inserted: number; updated: number }> {
+  const reported = await issuerForCard(card).getTransactions(card.cardId);
+  return recordCardTransactions(walletAddress, card, reported);
+}
+
+async function syncWallet(
+  walletAddress: string,
+  result: CardTransactionSyncResult
+): Promise<void> {
+  for (const card of await getCards(walletAddress)) {
+    result.cards++;
+    try {
+      const { inserted, updated } = await syncCardTransactions(
+        walletAddress,
+        card
+      );
+      result.inserted += inserted;
+      result.updated += updated;
+    } catch (error) {
+      result.errors.push(
+        `${card.cardId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+// Sync one wallet's cards now (the user pressed refresh)
+export async function syncWalletCardTransactions(
+  walletAddress: string
+): Promise<CardTransactionSyncResult> {
+  const result: CardTransactionSyncResult = {
+    cards: 0,
+    inserted: 0,
+    updated: 0,
+    errors: [],
+  };
+  await syncWallet(walletAddress, result);
+  return result;
+}
+
+// Sync every card of every wallet
+export async function runCardTransactionSync(): Promise<CardTransactionSyncResult> {
+  const result: CardTransactionSyncResult = {
+    cards: 0,
+    inserted: 0,
+    updated: 0,
+    errors: [],
+  };
+
+  // One run at a time; the lease expires if a run dies
+  const lease = crypto.randomUUID();
+  if (
+    !(await kv.set(RUN_LEASE_KEY, lease, { nx: true, ex: RUN_LEASE_SECONDS }))
+  ) {
+    return { ...result, skipped: true };
+  }
+
+  try {
+    for (const walletAddress of await listCardWallets()) {
+      await syncWallet(walletAddress, result);
+    }
+  } finally {
+    if ((await kv.get<string>(RUN_LEASE_KEY)) === lease) {
+      await kv.del(RUN_LEASE_KEY);
+    }
+  }
+
+  return result;
+}
+
+// A date-only `to` covers the whole day
+function endOf(value: string): number {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? Date.parse(`${value}T23:59:59.999Z`)
+    : Date.parse(value);
+}
+
+// A wallet's transactions matching `filter`, newest first
+export async function searchCardTransactions(
+  walletAddress: string,
+  filter: CardTransactionFilter = {}
+): Promise<SyncedCardTransaction[]> {
+  const all = filter.cardId
+    ? (await transactions.listByIndex("card", filter.cardId)).filter(
+        (tx) => tx.walletAddress === walletAddress
+      )
+    : await transactions.listByIndex("wallet", walletAddress);
+
+  const query = filter.query?.trim().toLowerCase();
+  const merchant = filter.merchant?.trim().toLowerCase();
+  const from = filter.from ? Date.parse(filter.from) : NaN;
+  const to = filter.to ? endOf(filter.to) : NaN;
+
+  return all
+    .filter((tx) => {
+      if (filter.category && tx.category !== filter.category) return false;
+      if (filter.type && tx.type !== filter.type) return false;
+      if (merchant && tx.merchant?.toLowerCase() !== merchant) return false;
+      if (query) {
+        const haystack = [tx.merchant, tx.rawMerchant, tx.transactionId]
+          .filter(Boolean)
+          .join(" ")
+          .toLowerCase();
+        if (!haystack.includes(query)) return false;
+      }
+      const at = Date.parse(tx.createdAt);
+      if (!isNaN(from) && at < from) return false;
+      if (!isNaN(to) && at > to) return false;
+      return true;
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,388 @@
+/**
+ * Card Vault (server only)
+ *
+ * Envelope-encrypted storage for card secrets - the full card number, CVV,
+ * expiry and cardholder name. The card store (card-store.ts) keeps only
+ * lastFour and non-sensitive metadata.
+ *
+ * - Every record is sealed with its own AES-256-GCM data key, bound to the
+ *   wallet and card it belongs to. The data key is stored only wrapped by
+ *   the master key, which never touches KV
+ * - The master key comes from CARD_VAULT_MASTER_KEY (base64, 32 bytes).
+ *   Outside production, CARD_VAULT_LOCAL_KMS=true uses a local KMS stand-in
+ *   instead, which generates a key and keeps it in KV - convenient, and
+ *   no protection at all
+ * - Secrets leave the vault only through the reveal route, which needs a
+ *   fresh wallet signature; every reveal attempt is written to an audit log
+ *
+ * Uses Vercel KV for persistent storage.
+ */
+
+import crypto from "crypto";
+import { kv } from "@vercel/kv";
+import { createRecordStore } from "@/lib/kv-store";
+import { getCards, saveCards, withCardsLock } from "@/lib/card-store";
+import type {
+  CardDetails,
+  CardSecrets,
+  CardSummary,
+  StoredCard,
+} from "@/lib/cards";
+
+const VAULT_PREFIX = "card_vault";
+const AUDIT_PREFIX = "card_reveal_audit";
+const LOCAL_KMS_KEY = "card_vault:local_kms:key";
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// The action the wallet signs for (see createActionChallenge)
+export const REVEAL_CARD_ACTION = "Reveal card details";
+
+const SECRET_FIELDS: (keyof CardSecrets)[] = [
+  "cardNumber",
+  "cvv",
+  "expiry",
+  "cardHolder",
+];
+
+// Wraps and unwraps data keys with the master key
+export interface CardVaultKms {
+  keyId: string;
+  wrapKey(dataKey: Buffer): Promise<string>;
+  unwrapKey(wrappedKey: string): Promise<Buffer>;
+}
+
+interface VaultRecord {
+  id: string; // <wallet>:<cardId>
+  walletAddress: string;
+  cardId: string;
+  keyId: string; // Master key the data key is wrapped with
+  wrappedKey: string;
+  ciphertext: string; // base64 of iv | tag | encrypted JSON
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RevealOutcome = "revealed" | "denied" | "unavailable";
+
+export interface RevealAuditEntry {
+  id: string;
+  walletAddress: string;
+  cardId: string;
+  outcome: RevealOutcome;
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+const vault = createRecordStore<VaultRecord>({
+  prefix: VAULT_PREFIX,
+  indexes: {
+    wallet: (r) => r.walletAddress,
+  },
+});
+
+const auditLog = createRecordStore<RevealAuditEntry>({
+  prefix: AUDIT_PREFIX,
+  indexes: {
+    wallet: (r) => r.walletAddress,
+    card: (r) => r.cardId,
+  },
+});
+
+function recordId(walletAddress: string, cardId: string): string {
+  return `${walletAddress}:${cardId}`;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function decrypt(key: Buffer, sealed: string, aad: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  const decipher = crypto.createDecipheriv(
+    CIPHER,
+    key,
+    raw.subarray(0, IV_BYTES)
+  );
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+function readMasterKey(value: string): Buffer {
+  const key = Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error("CARD_VAULT_MASTER_KEY must be 32 bytes, base64-encoded");
+  }
+  return key;
+}
+
+// A master key held in memory; wrapped keys are bound to the key ID
+function createKeyKms(
+  keyId: string,
+  loadKey: () => Promise<Buffer>
+): CardVaultKms {
+  return {
+    keyId,
+    async wrapKey(dataKey) {
+      return encrypt(await loadKey(), dataKey, keyId);
+    },
+    async unwrapKey(wrappedKey) {
+      return decrypt(await loadKey(), wrappedKey, keyId);
+    },
+  };
+}
+
+// CARD_VAULT_LOCAL_KMS=true stands in for a real KMS during development
+export function isLocalKmsEnabled(): boolean {
+  if (process.env.CARD_VAULT_LOCAL_KMS !== "true") return false;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The local card vault KMS cannot be used in production");
+  }
+  return true;
+}
+
+async function loadLocalKmsKey(): Promise<Buffer> {
+  const existing = await kv.get<string>(LOCAL_KMS_KEY);
+  if (existing) return Buffer.from(existing, "base64");
+
+  // nx so concurrent first uses agree on one key
+  await kv.set(LOCAL_KMS_KEY, crypto.randomBytes(32).toString("base64"), {
+    nx: true,
+  });
+  return Buffer.from((await kv.get<string>(LOCAL_KMS_KEY)) as string, "base64");
+}
+
+let kmsOverride: CardVaultKms | null = null;
+
+// Replace the KMS (e.g. a real one, or a fixed key in tests); pass null to restore the default
+export function setCardVaultKms(kms: CardVaultKms | null): void {
+  kmsOverride = kms;
+}
+
+function getKms(): CardVaultKms | null {
+  if (kmsOverride) return kmsOverride;
+
+  const masterKey = process.env.CARD_VAULT_MASTER_KEY;
+  if (masterKey) {
+    const key = readMasterKey(masterKey);
+    return createKeyKms(
+      `env:${process.env.CARD_VAULT_MASTER_KEY_ID || "v1"}`,
+      async () => key
+    );
+  }
+  if (isLocalKmsEnabled()) {
+    return createKeyKms("local", loadLocalKmsKey);
+  }
+  return null;
+}
+
+export function isCardVaultConfigured(): boolean {
+  return getKms() !== null;
+}
+
+function requireKms(): CardVaultKms {
+  const kms = getKms();
+  if (!kms) {
+    throw new Error("Card vault not configured (CARD_VAULT_MASTER_KEY)");
+  }
+  return kms;
+}
+
+// Only the secret fields that are actually set
+function pickSecrets(source: Partial<CardSecrets>): CardSecrets {
+  const secrets: CardSecrets = {};
+  for (const field of SECRET_FIELDS) {
+    const value = source[field];
+    if (typeof value === "string" && value !== "") secrets[field] = value;
+  }
+  return secrets;
+}
+
+export function hasCardSecrets(source: Partial<CardSecrets>): boolean {
+  return Object.keys(pickSecrets(source)).length > 0;
+}
+
+// Split an issuer's card details into what may be shown and what belongs in the vault
+export function splitCardDetails(details: CardDetails): {
+  summary: CardSummary;
+  secrets: CardSecrets;
+} {
+  const { card_number, cvv, expiry_month, expiry_year, ...rest } = details;
+
+  let expiry: string | undefined;
+  if (expiry_month && expiry_year) {
+    const year = String(expiry_year);
+    expiry = `${String(expiry_month).padStart(2, "0")}/${
+      year.length === 4 ? year.slice(-2) : year.padStart(2, "0")
+    }`;
+  }
+
+  return {
+    summary: {
+      ...rest,
+      lastFour:
+        card_number && card_number.length >= 4
+          ? card_number.slice(-4)
+          : undefined,
+    },
+    secrets: pickSecrets({ cardNumber: card_number, cvv, expiry }),
+  };
+}
+
+export async function hasSealedSecrets(
+  walletAddress: string,
+  cardId: string
+): Promise<boolean> {
+  return (await vault.get(recordId(walletAddress, cardId))) !== null;
+}
+
+// Decrypt a card's secrets (null if none are stored)
+export async function openCardSecrets(
+  walletAddress: string,
+  cardId: string
+): Promise<CardSecrets | null> {
+  const record = await vault.get(recordId(walletAddress, cardId));
+  if (!record) return null;
+
+  const kms = requireKms();
+  if (record.keyId !== kms.keyId) {
+    throw new Error(
+      `Card secrets are sealed with master key ${record.keyId}, not ${kms.keyId}`
+    );
+  }
+
+  const dataKey = await kms.unwrapKey(record.wrappedKey);
+  return JSON.parse(
+    decrypt(dataKey, record.ciphertext, record.id).toString("utf8")
+  );
+}
+
+// Seal secrets for a card, merged over any already stored. Each write gets a new data key.
+export async function sealCardSecrets(
+  walletAddress: string,
+  cardId: string,
+  secrets: Partial<CardSecrets>
+): Promise<void> {
+  const kms = requireKms();
+  const id = recordId(walletAddress, cardId);
+
+  const existing = await openCardSecrets(walletAddress, cardId);
+  const merged = { ...existing, ...pickSecrets(secrets) };
+
+  const dataKey = crypto.randomBytes(32);
+  const sealed = {
+    keyId: kms.keyId,
+    wrappedKey: await kms.wrapKey(dataKey),
+    ciphertext: encrypt(
+      dataKey,
+      Buffer.from(JSON.stringify(merged), "utf8"),
+      id
+    ),
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (existing) {
+    await vault.update(id, (current) => ({ ...current, ...sealed }));
+    return;
+  }
+
+  const inserted = await vault.insert({
+    id,
+    walletAddress,
+    cardId,
+    createdAt: sealed.updatedAt,
+    ...sealed,
+  });
+  if (!inserted) {
+    // Sealed concurrently - merge into theirs
+    await sealCardSecrets(walletAddress, cardId, secrets);
+  }
+}
+
+// Move secrets that older versions kept in the card store into the vault.
+// Returns the wallet's cards without them either way.
+export async function migratePlaintextSecrets(
+  walletAddress: string
+): Promise<StoredCard[]> {
+  const cards = await getCards(walletAddress);
+  const legacy = cards.filter((card) =>
+    hasCardSecrets(card as Partial<CardSecrets>)
+  );
+  const scrub = (card: StoredCard) => {
+    const clean: Record<string, unknown> = { ...card };
+    for (const field of SECRET_FIELDS) delete clean[field];
+    return clean as unknown as StoredCard;
+  };
+
+  if (legacy.length === 0) return cards;
+  if (!isCardVaultConfigured()) {
+    console.warn(
+      `Card vault not configured - ${legacy.length} card(s) of ${walletAddress} still hold plaintext secrets`
+    );
+    return cards.map(scrub);
+  }
+
+  // Re-read under the cards lock, so a card saved meanwhile isn't dropped
+  return withCardsLock(walletAddress, async () => {
+    const current = await getCards(walletAddress);
+    const toSeal = current.filter((card) =>
+      hasCardSecrets(card as Partial<CardSecrets>)
+    );
+
+    for (const card of toSeal) {
+      const secrets = card as Partial<CardSecrets>;
+      await sealCardSecrets(walletAddress, card.cardId, secrets);
+      if (!card.lastFour && secrets.cardNumber)
+        card.lastFour = secrets.cardNumber.slice(-4);
+    }
+
+    const scrubbed = current.map(scrub);
+    if (toSeal.length > 0) {
+      await saveCards(walletAddress, scrubbed);
+      console.log(
+        `Moved secrets of ${toSeal.length} card(s) of ${walletAddress} into the card vault`
+      );
+    }
+    return scrubbed;
+  });
+}
+
+// Record a reveal attempt, whether or not it succeeded
+export async function recordRevealAttempt(
+  entry: Omit<RevealAuditEntry, "id" | "createdAt">
+): Promise<void> {
+  try {
+    await auditLog.insert({
+      ...entry,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to write card reveal audit entry:", error);
+  }
+  console.log(
+    `Card reveal ${entry.outcome}: ${entry.cardId} (${entry.walletAddress})${
+      entry.reason ? ` - ${entry.reason}` : ""
+    }`
+  );
+}
+
+// Reveal attempts for a card, newest first
+export async function getRevealAudit(
+  cardId: string
+): Promise<RevealAuditEntry[]> {
+  const entries = await auditLog.listByIndex("card", cardId);
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
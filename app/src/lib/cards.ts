@@ -0,0 +1,501 @@
+/**
+ * Cards API Client
+ *
+ * Types and frontend calls for virtual debit cards. The card routes
+ * (/api/cards) pick the issuer behind each card, so nothing here depends
+ * on which provider issued it.
+ *
+ * Card numbers, CVVs and expiry dates are never stored client-side or
+ * returned with card details - they are fetched on demand with revealCard,
+ * which asks the wallet to sign for each reveal.
+ */
+
+import bs58 from "bs58";
+import { authFetch } from "@/lib/session";
+import type { CardIssuerId } from "@/lib/card-issuer";
+import type {
+  CardTransactionFilter,
+  SyncedCardTransaction,
+} from "@/lib/card-transactions";
+import type { CardRules } from "@/lib/card-rules";
+import type { AutoReloadRule, CardReloadRecord } from "@/lib/card-auto-reload";
+
+// ============ Types ============
+
+export interface CreateCardParams {
+  amount: number; // Minimum 10 USD
+  bankBin?: number; // Optional - the issuer's default BIN if not provided
+  firstName?: string;
+  lastName?: string;
+  feeScheduleVersion?: string; // Fee schedule the user was quoted (see fees.ts)
+}
+
+export interface FundCardParams {
+  cardId: string;
+  amount: number; // Minimum 10 USD
+  feeScheduleVersion?: string;
+}
+
+export interface FreezeUnfreezeParams {
+  cardId: string;
+  action: "freeze" | "unfreeze";
+}
+
+export interface CardDetails {
+  card_number: string;
+  cvv: string;
+  expiry_month: string;
+  expiry_year: string;
+  balance: number;
+  status: "active" | "frozen" | "inactive";
+  billing_address?: {
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+  };
+}
+
+export interface CardTransaction {
+  id: string;
+  type: "charge" | "refund" | "funding";
+  amount: number;
+  merchant?: string;
+  status: "completed" | "pending" | "failed";
+  created_at: string;
+}
+
+// Card details without the secret fields, as the card routes return them
+export type CardSummary = Omit<
+  CardDetails,
+  "card_number" | "cvv" | "expiry_month" | "expiry_year"
+> & {
+  lastFour?: string;
+};
+
+// Kept in the card vault (card-vault.ts); only returned by revealCard
+export interface CardSecrets {
+  cardNumber?: string;
+  cvv?: string;
+  expiry?: string; // Format: "MM/YY"
+  cardHolder?: string;
+}
+
+export interface CardApiResponse<T = undefined> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export type CreateCardResponse = CardApiResponse<{
+  cardId: string;
+  amount: number;
+  issuer: CardIssuerId;
+}> & {
+  card_id?: string;
+};
+
+export type FundCardResponse = CardApiResponse<{
+  cardId: string;
+  amount: number;
+  reference?: string;
+}>;
+
+export type CardDetailsResponse = CardApiResponse<{
+  details: CardSummary;
+  Transactions: CardTransaction[];
+}>;
+
+export type CardTransactionsResponse = CardApiResponse<SyncedCardTransaction[]>;
+
+export type CardRulesResponse = CardApiResponse<CardRules>;
+
+export type AutoReloadResponse = CardApiResponse<{
+  rule: AutoReloadRule | null;
+  history: CardReloadRecord[];
+}>;
+
+export type FreezeUnfreezeResponse = CardApiResponse<{
+  cardId: string;
+  status: "active" | "frozen";
+}>;
+
+export type TerminateCardResponse = CardApiResponse<{
+  cardId: string;
+  residualBalance: number;
+  closedAt: string;
+}>;
+
+// Stored card reference (what we store locally)
+export interface StoredCard {
+  id: string;
+  cardId: string; // The issuer's ID for the card
+  issuer?: CardIssuerId; // Not set on cards issued before issuers were recorded - those are KripiCard's
+  walletAddress: string;
+  createdAt: string;
+  lastFour?: string;
+  status: "active" | "frozen" | "inactive" | "closed";
+  balance?: number;
+  closedAt?: string;
+  residualBalance?: number; // Credited back to the TrenchBank balance when the card was closed
+  pendingResidual?: { id: string; amount: number }; // Read while closing, not credited yet (see card-termination.ts)
+}
+
+// ============ API Client (Frontend calls to our API routes) ============
+
+const API_BASE = "/api/cards";
+
+class CardClient {
+  /**
+   * Create a new virtual debit card
+   */
+  async createCard(params: CreateCardParams): Promise<CreateCardResponse> {
+    const response = await authFetch(`${API_BASE}/create`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to create card");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fund an existing card
+   */
+  async fundCard(params: FundCardParams): Promise<FundCardResponse> {
+    const response = await authFetch(`${API_BASE}/fund`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to fund card");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get card details and transactions
+   */
+  async getCardDetails(cardId: string): Promise<CardDetailsResponse> {
+    const response = await authFetch(
+      `${API_BASE}/details?cardId=${encodeURIComponent(cardId)}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to get card details");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Freeze or unfreeze a card
+   */
+  async freezeUnfreeze(
+    params: FreezeUnfreezeParams
+  ): Promise<FreezeUnfreezeResponse> {
+    const response = await authFetch(`${API_BASE}/freeze`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to update card status");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Close a card for good; what's left on it goes back to the TrenchBank balance
+   */
+  async terminateCard(cardId: string): Promise<TerminateCardResponse> {
+    const response = await authFetch(`${API_BASE}/terminate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cardId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to close card");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Reveal a card's number, CVV and expiry. The wallet signs a one-time
+   * challenge for every reveal.
+   */
+  async revealCard(
+    cardId: string,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>
+  ): Promise<CardSecrets> {
+    const challengeResponse = await authFetch(`${API_BASE}/reveal/challenge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cardId }),
+    });
+    const challenge = await challengeResponse.json();
+    if (!challenge.success) {
+      throw new Error(challenge.message || "Failed to start card reveal");
+    }
+
+    const signature = await signMessage(
+      new TextEncoder().encode(challenge.data.message)
+    );
+
+    const response = await authFetch(`${API_BASE}/reveal`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        cardId,
+        nonce: challenge.data.nonce,
+        signature: bs58.encode(signature),
+      }),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.message || "Failed to reveal card details");
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Synced transactions across the wallet's cards, newest first
+   */
+  async getTransactions(
+    filter: CardTransactionFilter = {}
+  ): Promise<CardTransactionsResponse> {
+    const response = await authFetch(
+      `${API_BASE}/transactions?${transactionQuery(filter)}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to get card transactions");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Pull the latest transactions of the wallet's cards from the issuers
+   */
+  async syncTransactions(): Promise<
+    CardApiResponse & { inserted?: number; updated?: number }
+  > {
+    const response = await authFetch(`${API_BASE}/transactions/sync`, {
+      method: "POST",
+    });
+    return response.json();
+  }
+
+  /**
+   * Download the filtered transactions as a CSV or OFX file
+   */
+  async exportTransactions(
+    filter: CardTransactionFilter,
+    format: "csv" | "ofx"
+  ): Promise<void> {
+    const response = await authFetch(
+      `${API_BASE}/transactions?${transactionQuery(filter)}&format=${format}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to export card transactions");
+    }
+
+    const filename =
+      response.headers
+        .get("Content-Disposition")
+        ?.match(/filename="([^"]+)"/)?.[1] || `card-transactions.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Get a card's spending rules
+   */
+  async getRules(cardId: string): Promise<CardRulesResponse> {
+    const response = await authFetch(
+      `${API_BASE}/rules?cardId=${encodeURIComponent(cardId)}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to get card rules");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Replace a card's spending rules
+   */
+  async saveRules(
+    cardId: string,
+    rules: CardRules
+  ): Promise<CardRulesResponse> {
+    const response = await authFetch(`${API_BASE}/rules`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cardId, rules }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to save card rules");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get a card's auto top-up rule and reload history
+   */
+  async getAutoReload(cardId: string): Promise<AutoReloadResponse> {
+    const response = await authFetch(
+      `${API_BASE}/auto-reload?cardId=${encodeURIComponent(cardId)}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to get auto top-up");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Set a card's auto top-up rule
+   */
+  async saveAutoReload(
+    cardId: string,
+    rule: Omit<AutoReloadRule, "updatedAt">
+  ): Promise<CardApiResponse<AutoReloadRule>> {
+    const response = await authFetch(`${API_BASE}/auto-reload`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cardId, rule }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Failed to save auto top-up");
+    }
+
+    return response.json();
+  }
+}
+
+function transactionQuery(filter: CardTransactionFilter): string {
+  const params = new URLSearchParams();
+  if (filter.cardId) params.set("cardId", filter.cardId);
+  if (filter.query) params.set("q", filter.query);
+  if (filter.merchant) params.set("merchant", filter.merchant);
+  if (filter.category) params.set("category", filter.category);
+  if (filter.type) params.set("type", filter.type);
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  return params.toString();
+}
+
+export const cardClient = new CardClient();
+
+// ============ Local Storage Helpers ============
+
+const CARDS_STORAGE_KEY = "kripicard_cards";
+
+// Older versions kept these in localStorage
+const LEGACY_SECRET_FIELDS = ["cardNumber", "cvv", "expiry", "cardHolder"];
+
+export function getStoredCards(walletAddress: string): StoredCard[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(CARDS_STORAGE_KEY);
+    if (!stored) return [];
+
+    const allCards: StoredCard[] = JSON.parse(stored);
+
+    // Wipe any card secrets an older version left behind
+    let scrubbed = false;
+    for (const card of allCards as unknown as Record<string, unknown>[]) {
+      for (const field of LEGACY_SECRET_FIELDS) {
+        if (field in card) {
+          delete card[field];
+          scrubbed = true;
+        }
+      }
+    }
+    if (scrubbed)
+      localStorage.setItem(CARDS_STORAGE_KEY, JSON.stringify(allCards));
+
+    return allCards.filter((card) => card.walletAddress === walletAddress);
+  } catch {
+    return [];
+  }
+}
+
+export function storeCard(card: StoredCard): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(CARDS_STORAGE_KEY);
+    const allCards: StoredCard[] = stored ? JSON.parse(stored) : [];
+    allCards.push(card);
+    localStorage.setItem(CARDS_STORAGE_KEY, JSON.stringify(allCards));
+  } catch (e) {
+    console.error("Failed to store card:", e);
+  }
+}
+
+export function updateStoredCard(
+  cardId: string,
+  updates: Partial<StoredCard>
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(CARDS_STORAGE_KEY);
+    if (!stored) return;
+
+    const allCards: StoredCard[] = JSON.parse(stored);
+    const index = allCards.findIndex((c) => c.cardId === cardId);
+    if (index !== -1) {
+      allCards[index] = { ...allCards[index], ...updates };
+      localStorage.setItem(CARDS_STORAGE_KEY, JSON.stringify(allCards));
+    }
+  } catch (e) {
+    console.error("Failed to update card:", e);
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Crypto Deposit Store (server only)
+ *
+ * Server-side records of direct crypto deposit requests (see
+ * crypto-deposit.ts), one per request in Vercel KV (see kv-store):
+ *
+ *   pending -> confirming -> completed
+ *      |   <-------'
+ *      +-> expired
+ *
+ * - `confirming`: a matching transfer was seen on-chain and waits for
+ *   finality (see deposit-finality.ts). The amount to credit is fixed at
+ *   this point.
+ * - `completed`: final; the credit is posted once, under a ledger
+ *   idempotency key (`creditedAt` is set after it)
+ * - A confirming transfer that fails or is reorged out is reverted: the
+ *   request goes back to `pending` (or `expired`), keeps the transfer in
+ *   `revertedTransfers` and is flagged for support.
+ *
+ * Also keeps transfers to the deposit addresses that matched no request,
+ * for support to sort out. Which transaction paid which deposit is kept
+ * in the used transaction registry (see transaction-registry.ts).
+ */
+
+import { createRecordStore } from "@/lib/kv-store";
+import { creditDeposit } from "@/lib/ledger";
+import { quoteDeposit } from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import { getFinalityRequirement } from "@/lib/deposit-finality";
+import { releaseTransaction } from "@/lib/transaction-registry";
+import type {
+  CryptoCurrency,
+  CryptoDepositRequest,
+  CryptoNetwork,
+} from "@/lib/crypto-deposit";
+
+const deposits = createRecordStore<CryptoDepositRequest>({
+  prefix: "crypto_deposit",
+  indexes: {
+    wallet: (d) => d.walletAddress,
+    status: (d) => d.status,
+    flagged: (d) => (d.flaggedAt ? "open" : null),
+    uncredited: (d) =>
+      d.status === "completed" && !d.creditedAt ? "open" : null,
+  },
+});
+
+export async function saveCryptoDeposit(
+  deposit: CryptoDepositRequest
+): Promise<boolean> {
+  return deposits.insert(deposit);
+}
+
+export async function getCryptoDeposit(
+  id: string
+): Promise<CryptoDepositRequest | null> {
+  return deposits.get(id);
+}
+
+// A wallet's deposit requests, newest first
+export async function getWalletCryptoDeposits(
+  walletAddress: string
+): Promise<CryptoDepositRequest[]> {
+  const records = await deposits.listByIndex("wallet", walletAddress);
+  return records.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+export async function getCryptoDepositsByStatus(
+  status: CryptoDepositRequest["status"]
+): Promise<CryptoDepositRequest[]> {
+  return deposits.listByIndex("status", status);
+}
+
+// Expire pending requests past their expiry; returns how many were expired
+export async function expireStaleCryptoDeposits(): Promise<number> {
+  const pending = await getCryptoDepositsByStatus("pending");
+  let expired = 0;
+  for (const deposit of pending) {
+    if (new Date(deposit.expiresAt).getTime() > Date.now()) continue;
+    if (await deposits.transition(deposit.id, "status", ["pending"], "expired"))
+      expired++;
+  }
+  return expired;
+}
+
+/**
+ * A matching transfer was seen: fix the amount to credit and wait for
+ * finality. Priced at the deposit's locked quote if it was paid in time,
+ * otherwise at `livePrice`.
+ */
+export async function markCryptoDepositConfirming(
+  id: string,
+  transfer: {
+    txSignature: string;
+    amount: number;
+    fromAddress?: string;
+    paidAt: Date;
+  },
+  livePrice: () => Promise<number>
+): Promise<CryptoDepositRequest | null> {
+  const deposit = await deposits.get(id);
+  if (!deposit) return null;
+
+  const locked =
+    deposit.cryptoPrice &&
+    deposit.priceLockedUntil &&
+    transfer.paidAt.getTime() <= new Date(deposit.priceLockedUntil).getTime();
+  const creditPrice = locked ? deposit.cryptoPrice! : await livePrice();
+
+  const usdValue = Math.round(transfer.amount * creditPrice * 100) / 100;
+  const quote = quoteDeposit(
+    deposit.network,
+    usdValue,
+    await resolveFeeTier(deposit.walletAddress)
+  );
+
+  return deposits.transition(id, "status", ["pending"], "confirming", {
+    txSignature: transfer.txSignature,
+    fromAddress: transfer.fromAddress,
+    receivedAmount: transfer.amount,
+    creditPrice,
+    creditAmount: quote.netAmount,
+    feeAmount: Math.min(usdValue, quote.fee),
+    feeScheduleVersion: quote.scheduleVersion,
+    detectedAt: new Date().toISOString(),
+    finality: getFinalityRequirement(deposit.network, usdValue),
+    confirmations: undefined,
+    missingSince: undefined,
+  });
+}
+
+// Note how far a confirming deposit's transaction has got
+export async function recordFinalityProgress(
+  id: string,
+  progress: Pick<CryptoDepositRequest, "confirmations" | "missingSince">
+): Promise<CryptoDepositRequest | null> {
+  return deposits.update(id, (current) => {
+    if (current.status !== "confirming") return null;
+    if (
+      current.confirmations === progress.confirmations &&
+      current.missingSince === progress.missingSince
+    )
+      return null;
+    return { ...current, ...progress };
+  });
+}
+
+/**
+ * A confirming deposit's transaction failed or left the chain: put the
+ * request back to `pending` (`expired` if past its expiry) so a valid
+ * payment can still complete it, and flag it. The transaction is released
+ * so it can be matched again if it's re-included.
+ */
+export async function revertCryptoDeposit(
+  id: string,
+  reason: string
+): Promise<CryptoDepositRequest | null> {
+  const deposit = await deposits.get(id);
+  if (!deposit?.txSignature) return null;
+  const now = new Date().toISOString();
+
+  const reverted = await deposits.transition(
+    id,
+    "status",
+    ["confirming"],
+    new Date(deposit.expiresAt).getTime() > Date.now() ? "pending" : "expired",
+    {
+      txSignature: undefined,
+      fromAddress: undefined,
+      receivedAmount: undefined,
+      creditPrice: undefined,
+      creditAmount: undefined,
+      feeAmount: undefined,
+      feeScheduleVersion: undefined,
+      detectedAt: undefined,
+      finality: undefined,
+      confirmations: undefined,
+      missingSince: undefined,
+      revertedTransfers: [
+        ...(deposit.revertedTransfers || []),
+        {
+          txSignature: deposit.txSignature,
+          receivedAmount: deposit.receivedAmount,
+          detectedAt: deposit.detectedAt,
+          revertedAt: now,
+          reason,
+        },
+      ],
+      flaggedAt: now,
+      flagReason: `Payment ${deposit.txSignature} reverted: ${reason}`,
+    }
+  );
+  if (!reverted) return null;
+
+  await releaseTransaction(deposit.txSignature, id);
+  console.warn(
+    `Crypto deposit ${id} reverted: ${deposit.txSignature} ${reason}`
+  );
+  return reverted;
+}
+
+// Requests flagged for support, oldest first
+export async function getFlaggedCryptoDeposits(): Promise<
+  CryptoDepositRequest[]
+> {
+  const records = await deposits.listByIndex("flagged", "open");
+  return records.sort(
+    (a, b) =>
+      new Date(a.flaggedAt!).getTime() - new Date(b.flaggedAt!).getTime()
+  );
+}
+
+export async function clearCryptoDepositFlag(
+  id: string
+): Promise<CryptoDepositRequest | null> {
+  return deposits.update(id, (current) =>
+    current.flaggedAt
+      ? { ...current, flaggedAt: undefined, flagReason: undefined }
+      : null
+  );
+}
+
+// Completed deposits whose credit hasn't been recorded yet
+export async function getUncreditedCryptoDeposits(): Promise<
+  CryptoDepositRequest[]
+> {
+  return deposits.listByIndex("uncredited", "open");
+}
+
+// Post the credit for a completed deposit (at most once, however often it's called)
+export async function creditCryptoDeposit(
+  deposit: CryptoDepositRequest
+): Promise<CryptoDepositRequest> {
+  if (deposit.status !== "completed" || deposit.creditedAt) return deposit;
+
+  if ((deposit.creditAmount || 0) > 0) {
+    await creditDeposit(
+      deposit.walletAddress,
+      deposit.creditAmount!,
+      deposit.id,
+      `Direct ${deposit.currency} deposit ${deposit.txSignature}`,
+      deposit.feeScheduleVersion,
+      `crypto_deposit:${deposit.id}`
+    );
+  }
+
+  const credited = await deposits.update(deposit.id, (current) => ({
+    ...current,
+    creditedAt: new Date().toISOString(),
+  }));
+  console.log(
+    `Crypto deposit ${deposit.id} credited: $${deposit.creditAmount} for ${deposit.receivedAmount} ${deposit.currency}`
+  );
+  return credited ?? deposit;
+}
+
+// A confirming deposit reached finality: complete and credit it
+export async function completeCryptoDepositRecord(
+  id: string
+): Promise<CryptoDepositRequest | null> {
+  const completed = await deposits.transition(
+    id,
+    "status",
+    ["confirming"],
+    "completed",
+    {
+      completedAt: new Date().toISOString(),
+    }
+  );
+  if (!completed) return null;
+  return creditCryptoDeposit(completed);
+}
+
+/**
+ * Close a request paid through manual verification: `completed` if its
+ * transaction is already final (credit it with creditCryptoDeposit),
+ * otherwise `confirming` for the deposit watcher to complete.
+ */
+export async function closeVerifiedCryptoDeposit(
+  id: string,
+  walletAddress: string,
+  status: "confirming" | "completed",
+  details: Pick<
+    CryptoDepositRequest,
+    | "txSignature"
+    | "receivedAmount"
+    | "creditPrice"
+    | "creditAmount"
+    | "feeAmount"
+    | "feeScheduleVersion"
+    | "finality"
+    | "confirmations"
+  >
+): Promise<CryptoDepositRequest | null> {
+  const deposit = await deposits.get(id);
+  if (!deposit || deposit.walletAddress !== walletAddress) return null;
+
+  const now = new Date().toISOString();
+  return deposits.transition(id, "status", ["pending", "expired"], status, {
+    ...details,
+    detectedAt: now,
+    missingSince: undefined,
+    ...(status === "completed" ? { completedAt: now } : {}),
+  });
+}
+
+// ============ UNMATCHED TRANSFERS ============
+
+export interface UnmatchedTransfer {
+  id: string; // <network>:<txSignature>:<currency>
+  network: CryptoNetwork;
+  currency: CryptoCurrency;
+  txSignature: string;
+  amount: number;
+  fromAddress?: string;
+  toAddress: string;
+  reason: string;
+  candidateDepositIds?: string[]; // Requests it could belong to, if ambiguous
+  status: "open" | "resolved";
+  detectedAt: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+}
+
+const unmatched = createRecordStore<UnmatchedTransfer>({
+  prefix: "unmatched_transfer",
+  indexes: {
+    status: (t) => t.status,
+  },
+});
+
+export async function recordUnmatchedTransfer(
+  transfer: Omit<UnmatchedTransfer, "id" | "status" | "detectedAt">
+): Promise<UnmatchedTransfer> {
+  const record: UnmatchedTransfer = {
+    ...transfer,
+    id: `${transfer.network}:${transfer.txSignature}:${transfer.currency}`,
+    status: "open",
+    detectedAt: new Date().toISOString(),
+  };
+  if (await unmatched.insert(record)) {
+    console.warn(
+      `Unmatched ${record.currency} transfer ${record.txSignature}: ${record.reason}`
+    );
+    return record;
+  }
+  return (await unmatched.get(record.id)) ?? record;
+}
+
+export async function getUnmatchedTransfers(
+  status: UnmatchedTransfer["status"] = "open"
+): Promise<UnmatchedTransfer[]> {
+  const records = await unmatched.listByIndex("status", status);
+  return records.sort(
+    (a, b) =>
+      new Date(a.detectedAt).getTime() - new Date(b.detectedAt).getTime()
+  );
+}
+
+export async function resolveUnmatchedTransfer(
+  id: string,
+  note?: string
+): Promise<UnmatchedTransfer | null> {
+  return unmatched.transition(id, "status", ["open"], "resolved", {
+    resolvedAt: new Date().toISOString(),
+    resolutionNote: note,
+  });
+}
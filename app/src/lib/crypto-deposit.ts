@@ -1,8 +1,15 @@
 // Direct Crypto Deposit System
-// Accepts SOL, USDT (Solana SPL), and ETH payments
+// Accepts the assets enabled in the asset registry (see assets.ts)
 
-export type CryptoNetwork = 'solana' | 'ethereum';
-export type CryptoCurrency = 'SOL' | 'USDT' | 'ETH';
+import {
+  NETWORKS,
+  getDepositAssets,
+  getDisplayDecimals,
+  type CryptoCurrency,
+  type CryptoNetwork,
+} from '@/lib/assets';
+
+export type { CryptoCurrency, CryptoNetwork } from '@/lib/assets';
 
 export interface DepositAddress {
   network: CryptoNetwork;
@@ -11,53 +18,72 @@ export interface DepositAddress {
   memo?: string; // For Solana, we use memo for reference
 }
 
+// How settled a deposit's transaction must be before it's credited (see deposit-finality.ts)
+export interface DepositFinality {
+  commitment?: 'confirmed' | 'finalized'; // Solana
+  confirmations?: number; // Ethereum: blocks on top of the transaction's
+}
+
+// A payment that was detected and then reverted or dropped off the chain
+export interface RevertedTransfer {
+  txSignature: string;
+  receivedAmount?: number;
+  detectedAt?: string;
+  revertedAt: string;
+  reason: string;
+}
+
 export interface CryptoDepositRequest {
   id: string;
   walletAddress: string; // User's TrenchBank wallet
   amount: number; // Gross amount in USD (what user sends)
   netAmount?: number; // Net amount in USD (what user receives after fees)
   cryptoAmount: number; // Amount in crypto (gross)
+  cryptoPrice?: number; // USD price the crypto amount was quoted at
+  priceQuoteId?: string; // Locked server-side price quote (see price-oracle.ts)
+  priceLockedUntil?: string;
   currency: CryptoCurrency;
   network: CryptoNetwork;
   depositAddress: string;
   reference: string; // Unique reference for this deposit
+  referenceKey?: string; // Solana: reference public key the payment must include (see deposit-binding.ts)
+  paymentUri?: string; // Solana Pay / EIP-681 URI that pre-fills the payment (see payment-uri.ts)
   status: 'pending' | 'confirming' | 'completed' | 'expired' | 'failed';
   txSignature?: string; // Transaction signature once paid
+  fromAddress?: string; // Sender, when detected by the deposit watcher
+  receivedAmount?: number; // Crypto actually received
+  creditPrice?: number; // USD price the received amount is credited at
+  creditAmount?: number; // USD credited after fees
+  feeAmount?: number;
+  feeScheduleVersion?: string;
   createdAt: string;
   expiresAt: string;
+  detectedAt?: string; // Seen on-chain, waiting for finality
+  finality?: DepositFinality; // Required before crediting
+  confirmations?: number; // Progress towards `finality`, where the network reports it
+  missingSince?: string; // Transaction not found while confirming (possible reorg)
+  revertedTransfers?: RevertedTransfer[];
+  flaggedAt?: string; // Needs a look from support (e.g. a reverted payment)
+  flagReason?: string;
   completedAt?: string;
-}
-
-// Crypto price estimates (in production, fetch from an API like CoinGecko)
-export const CRYPTO_PRICES: Record<CryptoCurrency, number> = {
-  SOL: 185, // ~$185 per SOL
-  USDT: 1,  // $1 per USDT (stablecoin)
-  ETH: 3200, // ~$3200 per ETH
-};
-
-// Network details
-export const NETWORK_CONFIG: Record<CryptoNetwork, {
+  creditedAt?: string;
+}
+
+// Network details, with the currencies each takes deposits in
+export const NETWORK_CONFIG = Object.fromEntries(
+  (Object.keys(NETWORKS) as CryptoNetwork[]).map(network => [
+    network,
+    {
+      name: NETWORKS[network].name,
+      explorer: NETWORKS[network].explorer,
+      currencies: getDepositAssets().filter(a => a.network === network).map(a => a.symbol),
+    },
+  ])
+) as Record<CryptoNetwork, {
   name: string;
   explorer: string;
   currencies: CryptoCurrency[];
-}> = {
-  solana: {
-    name: 'Solana',
-    explorer: 'https://solscan.io/tx/',
-    currencies: ['SOL', 'USDT'],
-  },
-  ethereum: {
-    name: 'Ethereum',
-    explorer: 'https://etherscan.io/tx/',
-    currencies: ['ETH', 'USDT'],
-  },
-};
-
-// Token addresses
-export const TOKEN_ADDRESSES = {
-  USDT_SOLANA: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT SPL token
-  USDT_ETHEREUM: '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT ERC-20
-};
+}>;
 
 // Generate a unique reference code for deposits
 export function generateDepositReference(): string {
@@ -69,21 +95,18 @@ export function generateDepositReference(): string {
   return result;
 }
 
-// Calculate crypto amount from USD
-export function usdToCrypto(usdAmount: number, currency: CryptoCurrency): number {
-  const price = CRYPTO_PRICES[currency];
-  return Number((usdAmount / price).toFixed(currency === 'USDT' ? 2 : 6));
+// Calculate crypto amount from USD at `price` (USD per unit)
+export function usdToCrypto(usdAmount: number, currency: CryptoCurrency, price: number): number {
+  return Number((usdAmount / price).toFixed(getDisplayDecimals(currency)));
 }
 
-// Calculate USD amount from crypto
-export function cryptoToUsd(cryptoAmount: number, currency: CryptoCurrency): number {
-  const price = CRYPTO_PRICES[currency];
+// Calculate USD amount from crypto at `price` (USD per unit)
+export function cryptoToUsd(cryptoAmount: number, price: number): number {
   return Number((cryptoAmount * price).toFixed(2));
 }
 
 // Local storage keys
 const DEPOSITS_KEY = 'trenchbank_crypto_deposits';
-const USED_TX_KEY = 'trenchbank_used_transactions';
 
 // Get all deposits from storage
 export function getCryptoDeposits(): CryptoDepositRequest[] {
@@ -112,8 +135,11 @@ export function getPendingCryptoDeposits(walletAddress: string): CryptoDepositRe
 
 // Create a new deposit request
 export function createCryptoDeposit(params: {
+  id?: string; // Server-side request ID, if created there
+  reference?: string;
   walletAddress: string;
   amount: number;
+  cryptoAmount: number; // As quoted by the server
   currency: CryptoCurrency;
   network: CryptoNetwork;
   depositAddress: string;
@@ -121,14 +147,14 @@ export function createCryptoDeposit(params: {
   const deposits = getCryptoDeposits();
   
   const deposit: CryptoDepositRequest = {
-    id: crypto.randomUUID(),
+    id: params.id || crypto.randomUUID(),
     walletAddress: params.walletAddress,
     amount: params.amount,
-    cryptoAmount: usdToCrypto(params.amount, params.currency),
+    cryptoAmount: params.cryptoAmount,
     currency: params.currency,
     network: params.network,
     depositAddress: params.depositAddress,
-    reference: generateDepositReference(),
+    reference: params.reference || generateDepositReference(),
     status: 'pending',
     createdAt: new Date().toISOString(),
     expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour expiry
@@ -181,29 +207,3 @@ export function cancelCryptoDeposit(depositId: string): boolean {
   
   return true;
 }
-
-// Get used transaction signatures
-export function getUsedTransactions(): string[] {
-  if (typeof window === 'undefined') return [];
-  const stored = localStorage.getItem(USED_TX_KEY);
-  return stored ? JSON.parse(stored) : [];
-}
-
-// Check if a transaction has been used
-export function isTransactionUsed(txSignature: string): boolean {
-  const normalized = txSignature.trim();
-  const used = getUsedTransactions();
-  return used.includes(normalized);
-}
-
-// Mark a transaction as used
-export function markTransactionUsed(txSignature: string): void {
-  if (typeof window === 'undefined') return;
-  const normalized = txSignature.trim();
-  const used = getUsedTransactions();
-  if (!used.includes(normalized)) {
-    used.push(normalized);
-    localStorage.setItem(USED_TX_KEY, JSON.stringify(used));
-  }
-}
-
@@ -0,0 +1,161 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CryptomusSimulator,
+  type SimulatedOutcome,
+} from "@/lib/cryptomus-simulator";
+import {
+  createPayment,
+  getPaymentInfo,
+  isPaymentSuccessful,
+  setCryptomusTransport,
+  verifyWebhookPayload,
+  type CryptomusWebhookPayload,
+} from "@/lib/cryptomus";
+import { reconcilePayment } from "@/lib/deposit-reconciliation";
+
+const MERCHANT_ID = "test-merchant";
+const PAYMENT_KEY = "test-payment-key";
+const CALLBACK_URL = "https://trench.test/api/deposit/webhook";
+
+describe("Cryptomus simulator", () => {
+  const delivered: CryptomusWebhookPayload[] = [];
+  const simulator = new CryptomusSimulator({
+    merchantId: MERCHANT_ID,
+    paymentKey: PAYMENT_KEY,
+    deliverWebhook: async (_url, payload) => {
+      delivered.push(payload);
+      return 200;
+    },
+  });
+
+  before(() => {
+    process.env.CRYPTOMUS_MERCHANT_ID = MERCHANT_ID;
+    process.env.CRYPTOMUS_PAYMENT_KEY = PAYMENT_KEY;
+    setCryptomusTransport(simulator);
+  });
+
+  after(() => {
+    setCryptomusTransport(null);
+    delete process.env.CRYPTOMUS_MERCHANT_ID;
+    delete process.env.CRYPTOMUS_PAYMENT_KEY;
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+    delivered.length = 0;
+  });
+
+  async function openInvoice(amount = 100) {
+    const response = await createPayment({
+      amount,
+      orderId: `order-${crypto.randomUUID()}`,
+      walletAddress: "So11111111111111111111111111111111111111112",
+      currency: "USDT",
+      urlCallback: CALLBACK_URL,
+    });
+    assert.ok(response.success, response.message);
+    return response.result!;
+  }
+
+  it("creates invoices and reports them through getPaymentInfo", async () => {
+    const invoice = await openInvoice(25);
+    assert.equal(invoice.status, "process");
+    assert.equal(invoice.amount, "25.00");
+
+    const info = await getPaymentInfo(invoice.uuid);
+    assert.ok(info.success);
+    assert.equal(info.result?.order_id, invoice.order_id);
+  });
+
+  it("rejects requests signed with the wrong key", async () => {
+    process.env.CRYPTOMUS_PAYMENT_KEY = "wrong-key";
+    try {
+      const response = await getPaymentInfo(crypto.randomUUID());
+      assert.equal(response.success, false);
+      assert.equal(response.message, "Invalid sign");
+    } finally {
+      process.env.CRYPTOMUS_PAYMENT_KEY = PAYMENT_KEY;
+    }
+  });
+
+  const outcomes: {
+    outcome: SimulatedOutcome;
+    paid: string;
+    reconciled: string;
+    successful: boolean;
+  }[] = [
+    { outcome: "paid", paid: "100.00", reconciled: "exact", successful: true },
+    {
+      outcome: "paid_over",
+      paid: "110.00",
+      reconciled: "overpaid",
+      successful: true,
+    },
+    {
+      outcome: "wrong_amount",
+      paid: "50.00",
+      reconciled: "underpaid",
+      successful: false,
+    },
+    {
+      outcome: "cancel",
+      paid: "0.00",
+      reconciled: "failed",
+      successful: false,
+    },
+  ];
+
+  for (const { outcome, paid, reconciled, successful } of outcomes) {
+    it(`fires signed webhooks for a ${outcome} invoice`, async () => {
+      const invoice = await openInvoice(100);
+      await simulator.settle(invoice.uuid, outcome);
+
+      const expected = outcome === "cancel" ? ["cancel"] : ["check", outcome];
+      assert.deepEqual(
+        delivered.map((webhook) => webhook.status),
+        expected
+      );
+      for (const webhook of delivered) {
+        assert.ok(
+          verifyWebhookPayload(webhook),
+          `${webhook.status} webhook signature`
+        );
+        assert.equal(webhook.order_id, invoice.order_id);
+      }
+
+      const final = delivered[delivered.length - 1];
+      assert.equal(final.is_final, true);
+      assert.equal(final.payment_amount_usd, paid);
+      assert.equal(isPaymentSuccessful(final.status), successful);
+
+      const reconciliation = reconcilePayment({
+        status: final.status,
+        invoicedAmount: parseFloat(final.amount),
+        paidAmount: parseFloat(final.payment_amount_usd),
+      });
+      assert.equal(reconciliation.outcome, reconciled);
+      assert.equal(reconciliation.creditAmount > 0, outcome !== "cancel");
+    });
+  }
+
+  it("refuses a tampered webhook", async () => {
+    const invoice = await openInvoice(100);
+    await simulator.settle(invoice.uuid, "wrong_amount");
+
+    const tampered = {
+      ...delivered[delivered.length - 1],
+      payment_amount_usd: "100.00",
+    };
+    assert.equal(verifyWebhookPayload(tampered), false);
+  });
+
+  it("only allows valid status transitions", async () => {
+    const invoice = await openInvoice(100);
+    await simulator.settle(invoice.uuid, "paid");
+    await assert.rejects(
+      simulator.advance(invoice.uuid, "cancel"),
+      /Invalid transition: paid -> cancel/
+    );
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Cryptomus Simulator
+ *
+ * In-process stand-in for api.cryptomus.com, used when
+ * CRYPTOMUS_TRANSPORT=simulator (never in production).
+ *
+ * - Handles `/payment` and `/payment/info` like the real API,
+ *   including checking the merchant header and request signature
+ * - Invoices move process -> check -> paid / paid_over / wrong_amount / cancel
+ * - Every status change fires a correctly signed webhook at the
+ *   invoice's url_callback, so the webhook routes and ledger crediting
+ *   can be exercised end to end
+ */
+
+import {
+  generateSignature,
+  generateWebhookSignature,
+  type CryptomusTransport,
+  type CryptomusTransportResponse,
+  type CryptomusRequestHeaders,
+} from "@/lib/cryptomus-transport";
+import type {
+  CryptomusPaymentResponse,
+  CryptomusWebhookPayload,
+} from "@/lib/cryptomus";
+
+export type SimulatedStatus =
+  | "process"
+  | "check"
+  | "paid"
+  | "paid_over"
+  | "wrong_amount"
+  | "cancel";
+export type SimulatedOutcome = Exclude<SimulatedStatus, "process" | "check">;
+
+type PaymentResult = NonNullable<CryptomusPaymentResponse["result"]>;
+
+export interface SimulatedInvoice {
+  uuid: string;
+  orderId: string;
+  amount: string; // Invoice amount in USD
+  toCurrency: string; // Crypto the payer sends
+  network: string;
+  address: string;
+  additionalData: string | null;
+  urlCallback?: string;
+  status: SimulatedStatus;
+  paymentAmountUsd: string | null;
+  txid: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiredAt: number; // Unix seconds
+  history: SimulatedStatus[];
+}
+
+export interface SimulatedWebhook {
+  url: string;
+  payload: CryptomusWebhookPayload;
+  status?: number; // HTTP status our route answered with
+  error?: string;
+  sentAt: string;
+}
+
+export interface CryptomusSimulatorOptions {
+  merchantId: string;
+  paymentKey: string;
+  // Override how webhooks are delivered (defaults to an HTTP POST to url_callback)
+  deliverWebhook?: (
+    url: string,
+    payload: CryptomusWebhookPayload
+  ) => Promise<number>;
+}
+
+// Statuses each status may move to
+const TRANSITIONS: Record<SimulatedStatus, SimulatedStatus[]> = {
+  process: ["check", "cancel"],
+  check: ["paid", "paid_over", "wrong_amount", "cancel"],
+  paid: [],
+  paid_over: [],
+  wrong_amount: [],
+  cancel: [],
+};
+
+const FINAL_STATUSES: SimulatedStatus[] = [
+  "paid",
+  "paid_over",
+  "wrong_amount",
+  "cancel",
+];
+
+// Default amount actually paid, relative to the invoice amount
+const OUTCOME_PAYMENT_RATIO: Record<SimulatedOutcome, number> = {
+  paid: 1,
+  paid_over: 1.1,
+  wrong_amount: 0.5,
+  cancel: 0,
+};
+
+async function postWebhook(
+  url: string,
+  payload: CryptomusWebhookPayload
+): Promise<number> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  return response.status;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export class CryptomusSimulator implements CryptomusTransport {
+  private invoices = new Map<string, SimulatedInvoice>();
+  private options: CryptomusSimulatorOptions;
+
+  // Every webhook fired, oldest first
+  readonly webhooks: SimulatedWebhook[] = [];
+
+  constructor(options: CryptomusSimulatorOptions) {
+    this.options = options;
+  }
+
+  async request(
+    path: string,
+    data: Record<string, unknown>,
+    headers: CryptomusRequestHeaders
+  ): Promise<CryptomusTransportResponse> {
+    if (headers.merchant !== this.options.merchantId) {
+      return {
+        ok: false,
+        status: 401,
+        body: { state: 1, message: "Merchant not found" },
+      };
+    }
+    if (headers.sign !== generateSignature(data, this.options.paymentKey)) {
+      return {
+        ok: false,
+        status: 401,
+        body: { state: 1, message: "Invalid sign" },
+      };
+    }
+
+    switch (path) {
+      case "/payment":
+        return this.createInvoice(data);
+      case "/payment/info":
+        return this.invoiceInfo(data);
+      default:
+        return {
+          ok: false,
+          status: 404,
+          body: { state: 1, message: `Unknown method ${path}` },
+        };
+    }
+  }
+
+  getInvoice(uuidOrOrderId: string): SimulatedInvoice | null {
+    return (
+      this.invoices.get(uuidOrOrderId) ||
+      Array.from(this.invoices.values()).find(
+        (i) => i.orderId === uuidOrOrderId
+      ) ||
+      null
+    );
+  }
+
+  listInvoices(): SimulatedInvoice[] {
+    return Array.from(this.invoices.values());
+  }
+
+  /**
+   * Move an invoice to `status` and fire its webhook.
+   * `paidAmountUsd` overrides how much the payer sent (defaults per outcome).
+   */
+  async advance(
+    uuid: string,
+    status: SimulatedStatus,
+    paidAmountUsd?: number
+  ): Promise<SimulatedInvoice> {
+    const invoice = this.getInvoice(uuid);
+    if (!invoice) {
+      throw new Error(`Unknown invoice: ${uuid}`);
+    }
+    if (!TRANSITIONS[invoice.status].includes(status)) {
+      throw new Error(`Invalid transition: ${invoice.status} -> ${status}`);
+    }
+
+    invoice.status = status;
+    invoice.updatedAt = new Date().toISOString();
+    invoice.history.push(status);
+
+    if (status === "check") {
+      invoice.txid = randomHex(32);
+    } else if (status !== "process") {
+      const ratio = OUTCOME_PAYMENT_RATIO[status];
+      const paid = paidAmountUsd ?? parseFloat(invoice.amount) * ratio;
+      invoice.paymentAmountUsd = paid.toFixed(2);
+    }
+
+    await this.sendWebhook(invoice);
+    return invoice;
+  }
+
+  // Run an invoice through the remaining steps to a final outcome
+  async settle(
+    uuid: string,
+    outcome: SimulatedOutcome,
+    paidAmountUsd?: number
+  ): Promise<SimulatedInvoice> {
+    const invoice = this.getInvoice(uuid);
+    if (!invoice) {
+      throw new Error(`Unknown invoice: ${uuid}`);
+    }
+    if (invoice.status === "process" && outcome !== "cancel") {
+      await this.advance(invoice.uuid, "check");
+    }
+    return this.advance(invoice.uuid, outcome, paidAmountUsd);
+  }
+
+  // Fire the invoice's current webhook again (Cryptomus retries deliveries)
+  async resendWebhook(uuid: string): Promise<SimulatedWebhook | null> {
+    const invoice = this.getInvoice(uuid);
+    if (!invoice) return null;
+    return this.sendWebhook(invoice);
+  }
+
+  reset(): void {
+    this.invoices.clear();
+    this.webhooks.length = 0;
+  }
+
+  buildWebhookPayload(invoice: SimulatedInvoice): CryptomusWebhookPayload {
+    const paymentAmountUsd = invoice.paymentAmountUsd ?? "0.00";
+    const body: Omit<CryptomusWebhookPayload, "sign"> = {
+      type: "payment",
+      uuid: invoice.uuid,
+      order_id: invoice.orderId,
+      amount: invoice.amount,
+      payment_amount: paymentAmountUsd,
+      payment_amount_usd: paymentAmountUsd,
+      merchant_amount: (parseFloat(paymentAmountUsd) * 0.98).toFixed(2),
+      commission: (parseFloat(paymentAmountUsd) * 0.02).toFixed(2),
+      is_final: FINAL_STATUSES.includes(invoice.status),
+      status: invoice.status,
+      from: invoice.txid ? `sim${invoice.uuid.slice(0, 8)}` : "",
+      wallet_address_uuid: null,
+      network: invoice.network,
+      currency: invoice.toCurrency,
+      payer_currency: invoice.toCurrency,
+      additional_data: invoice.additionalData,
+      txid: invoice.txid || "",
+    };
+
+    return {
+      ...body,
+      sign: generateWebhookSignature(
+        body as Record<string, unknown>,
+        this.options.paymentKey
+      ),
+    };
+  }
+
+  private async sendWebhook(
+    invoice: SimulatedInvoice
+  ): Promise<SimulatedWebhook | null> {
+    if (!invoice.urlCallback) return null;
+
+    const payload = this.buildWebhookPayload(invoice);
+    const webhook: SimulatedWebhook = {
+      url: invoice.urlCallback,
+      payload,
+      sentAt: new Date().toISOString(),
+    };
+
+    try {
+      const deliver = this.options.deliverWebhook || postWebhook;
+      webhook.status = await deliver(invoice.urlCallback, payload);
+    } catch (error) {
+      webhook.error = error instanceof Error ? error.message : String(error);
+      console.error("Simulated webhook delivery failed:", webhook.error);
+    }
+
+    this.webhooks.push(webhook);
+    return webhook;
+  }
+
+  private createInvoice(
+    data: Record<string, unknown>
+  ): CryptomusTransportResponse {
+    const amount = parseFloat(String(data.amount));
+    const orderId = data.order_id ? String(data.order_id) : "";
+
+    if (!orderId || isNaN(amount) || amount <= 0) {
+      return {
+        ok: false,
+        status: 422,
+        body: {
+          state: 1,
+          message: "Validation error: amount and order_id are required",
+        },
+      };
+    }
+
+    // Like Cryptomus, an order_id that already has a live invoice returns it
+    const existing = this.getInvoice(orderId);
+    if (existing && existing.status === "process") {
+      return {
+        ok: true,
+        status: 200,
+        body: { state: 0, result: this.toPaymentResult(existing) },
+      };
+    }
+
+    const now = new Date();
+    const lifetime = Number(data.lifetime) || 3600;
+    const invoice: SimulatedInvoice = {
+      uuid: crypto.randomUUID(),
+      orderId,
+      amount: amount.toFixed(2),
+      toCurrency: data.to_currency ? String(data.to_currency) : "USDT",
+      network: "tron",
+      address: `Tsim${randomHex(16)}`,
+      additionalData: data.additional_data
+        ? String(data.additional_data)
+        : null,
+      urlCallback: data.url_callback ? String(data.url_callback) : undefined,
+      status: "process",
+      paymentAmountUsd: null,
+      txid: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiredAt: Math.floor(now.getTime() / 1000) + lifetime,
+      history: ["process"],
+    };
+    this.invoices.set(invoice.uuid, invoice);
+
+    return {
+      ok: true,
+      status: 200,
+      body: { state: 0, result: this.toPaymentResult(invoice) },
+    };
+  }
+
+  private invoiceInfo(
+    data: Record<string, unknown>
+  ): CryptomusTransportResponse {
+    const key = String(data.uuid || data.order_id || "");
+    const invoice = this.getInvoice(key);
+    if (!invoice) {
+      return {
+        ok: false,
+        status: 404,
+        body: { state: 1, message: "Payment not found" },
+      };
+    }
+    return {
+      ok: true,
+      status: 200,
+      body: { state: 0, result: this.toPaymentResult(invoice) },
+    };
+  }
+
+  private toPaymentResult(invoice: SimulatedInvoice): PaymentResult {
+    return {
+      uuid: invoice.uuid,
+      order_id: invoice.orderId,
+      amount: invoice.amount,
+      payment_amount: invoice.paymentAmountUsd,
+      payment_amount_usd: invoice.paymentAmountUsd,
+      payer_amount: invoice.amount,
+      payer_amount_exchange_rate: "1",
+      discount_percent: null,
+      discount: "0.00",
+      payer_currency: invoice.toCurrency,
+      currency: "USD",
+      comments: null,
+      merchant_amount: invoice.paymentAmountUsd,
+      network: invoice.network,
+      address: invoice.address,
+      from: null,
+      txid: invoice.txid,
+      payment_status: invoice.status,
+      url: `https://pay.cryptomus.com/pay/${invoice.uuid}`,
+      expired_at: invoice.expiredAt,
+      status: invoice.status,
+      is_final: FINAL_STATUSES.includes(invoice.status),
+      additional_data: invoice.additionalData,
+      created_at: invoice.createdAt,
+      updated_at: invoice.updatedAt,
+    };
+  }
+}
+
+// One simulator per server process (kept on globalThis so dev reloads don't reset it)
+const globalForSimulator = globalThis as unknown as {
+  cryptomusSimulator?: CryptomusSimulator;
+};
+
+export function getCryptomusSimulator(
+  options: CryptomusSimulatorOptions
+): CryptomusSimulator {
+  if (!globalForSimulator.cryptomusSimulator) {
+    globalForSimulator.cryptomusSimulator = new CryptomusSimulator(options);
+  }
+  return globalForSimulator.cryptomusSimulator;
+}
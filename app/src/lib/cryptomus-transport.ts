@@ -0,0 +1,75 @@
+// Cryptomus transport layer
+// Signs requests and sends them to Cryptomus. The HTTP transport talks to
+// api.cryptomus.com; the simulator (see cryptomus-simulator) handles the same
+// calls in-process for offline and end-to-end testing.
+
+import crypto from "crypto";
+
+const CRYPTOMUS_API_URL = "https://api.cryptomus.com/v1";
+
+export interface CryptomusRequestHeaders {
+  merchant: string;
+  sign: string;
+}
+
+export interface CryptomusTransportResponse {
+  ok: boolean;
+  status: number;
+  body: unknown; // Parsed JSON, untrusted until narrowed
+}
+
+export interface CryptomusTransport {
+  request(
+    path: string,
+    data: Record<string, unknown>,
+    headers: CryptomusRequestHeaders
+  ): Promise<CryptomusTransportResponse>;
+}
+
+// Generate signature for Cryptomus API requests
+export function generateSignature(
+  data: Record<string, unknown>,
+  apiKey: string
+): string {
+  const jsonString = JSON.stringify(data);
+  const base64 = Buffer.from(jsonString).toString("base64");
+  return crypto
+    .createHash("md5")
+    .update(base64 + apiKey)
+    .digest("hex");
+}
+
+// Generate the signature Cryptomus puts on webhooks
+// Cryptomus signs the PHP json_encode() of the body, which escapes forward slashes
+export function generateWebhookSignature(
+  body: Record<string, unknown>,
+  apiKey: string
+): string {
+  const jsonString = JSON.stringify(body).replace(/\//g, "\\/");
+  const base64 = Buffer.from(jsonString).toString("base64");
+  return crypto
+    .createHash("md5")
+    .update(base64 + apiKey)
+    .digest("hex");
+}
+
+// Talks to the real Cryptomus API
+export const httpTransport: CryptomusTransport = {
+  async request(path, data, headers) {
+    const response = await fetch(`${CRYPTOMUS_API_URL}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        merchant: headers.merchant,
+        sign: headers.sign,
+      },
+      body: JSON.stringify(data),
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: await response.json(),
+    };
+  },
+};
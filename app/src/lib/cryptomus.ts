@@ -2,37 +2,110 @@
 // Documentation: https://doc.cryptomus.com/
 
 import crypto from 'crypto';
+import {
+  httpTransport,
+  generateSignature,
+  generateWebhookSignature,
+  type CryptomusTransport,
+  type CryptomusTransportResponse,
+} from '@/lib/cryptomus-transport';
+import { getCryptomusSimulator } from '@/lib/cryptomus-simulator';
 
-const CRYPTOMUS_API_URL = 'https://api.cryptomus.com/v1';
+// Credentials the simulator uses when none are configured
+const SIMULATOR_MERCHANT_ID = 'simulator-merchant';
+const SIMULATOR_PAYMENT_KEY = 'simulator-payment-key';
 
 interface CryptomusConfig {
   merchantId: string;
   paymentKey: string;
 }
 
+// CRYPTOMUS_TRANSPORT=simulator swaps api.cryptomus.com for the in-process simulator
+export function isSimulatorEnabled(): boolean {
+  if (process.env.CRYPTOMUS_TRANSPORT !== 'simulator') return false;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('The Cryptomus simulator cannot be used in production');
+  }
+  return true;
+}
+
 function getConfig(): CryptomusConfig {
   const merchantId = process.env.CRYPTOMUS_MERCHANT_ID;
   const paymentKey = process.env.CRYPTOMUS_PAYMENT_KEY;
   
   if (!merchantId || !paymentKey) {
+    if (isSimulatorEnabled()) {
+      return { merchantId: SIMULATOR_MERCHANT_ID, paymentKey: SIMULATOR_PAYMENT_KEY };
+    }
     throw new Error('Cryptomus credentials not configured. Set CRYPTOMUS_MERCHANT_ID and CRYPTOMUS_PAYMENT_KEY');
   }
   
   return { merchantId, paymentKey };
 }
 
-// Generate signature for Cryptomus API requests
-function generateSignature(data: Record<string, unknown>, apiKey: string): string {
-  const jsonString = JSON.stringify(data);
-  const base64 = Buffer.from(jsonString).toString('base64');
-  return crypto.createHash('md5').update(base64 + apiKey).digest('hex');
+let transportOverride: CryptomusTransport | null = null;
+
+// Replace the transport (e.g. with a CryptomusSimulator in tests); pass null to restore the default
+export function setCryptomusTransport(transport: CryptomusTransport | null): void {
+  transportOverride = transport;
+}
+
+export function getCryptomusTransport(): CryptomusTransport {
+  if (transportOverride) return transportOverride;
+  if (isSimulatorEnabled()) {
+    return getCryptomusSimulator(getConfig());
+  }
+  return httpTransport;
+}
+
+// Sign and send an API call through the current transport
+async function callApi(path: string, data: Record<string, unknown>): Promise<CryptomusTransportResponse> {
+  const { merchantId, paymentKey } = getConfig();
+  const signature = generateSignature(data, paymentKey);
+  return getCryptomusTransport().request(path, data, { merchant: merchantId, sign: signature });
 }
 
 // Verify webhook signature from Cryptomus
 export function verifyWebhookSignature(body: Record<string, unknown>, signature: string): boolean {
   const { paymentKey } = getConfig();
-  const expectedSignature = generateSignature(body, paymentKey);
-  return signature === expectedSignature;
+  if (typeof signature !== 'string') return false;
+
+  const expectedSignature = generateWebhookSignature(body, paymentKey);
+
+  // Compare fixed-length digests: timingSafeEqual throws on buffers of different byte lengths
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(signature), digest(expectedSignature));
+}
+
+// Verify a full webhook payload (the signature is carried in its `sign` field)
+export function verifyWebhookPayload(payload: CryptomusWebhookPayload): boolean {
+  const { sign, ...bodyWithoutSign } = payload;
+  return verifyWebhookSignature(bodyWithoutSign, sign);
+}
+
+// The client IP as seen by the platform. The left-most X-Forwarded-For entry is whatever the
+// client sent, so only the platform's own values are trusted: `request.ip` / x-real-ip on
+// Vercel, else the right-most X-Forwarded-For hop (added by the proxy in front of us).
+function getSourceIp(request: Request & { ip?: string }): string {
+  if (request.ip) return request.ip;
+
+  const realIp = request.headers.get('x-real-ip');
+  if (realIp) return realIp.trim();
+
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(ip => ip.trim()).filter(Boolean);
+  return hops[hops.length - 1] || '';
+}
+
+// Optional source-IP allow-list for webhook routes.
+// CRYPTOMUS_WEBHOOK_IPS is a comma-separated list; when unset every source is accepted.
+export function isAllowedWebhookSource(request: Request & { ip?: string }): boolean {
+  const allowList = (process.env.CRYPTOMUS_WEBHOOK_IPS || '')
+    .split(',')
+    .map(ip => ip.trim())
+    .filter(Boolean);
+  if (allowList.length === 0) return true;
+
+  return allowList.includes(getSourceIp(request));
 }
 
 export interface CreatePaymentParams {
@@ -99,10 +172,31 @@ export interface CryptomusWebhookPayload {
   sign: string;
 }
 
+// Narrow an API response body (untrusted JSON) to a payment response
+function toPaymentResponse(response: CryptomusTransportResponse, failureMessage: string): CryptomusPaymentResponse {
+  const body: Record<string, unknown> =
+    response.body && typeof response.body === 'object' ? (response.body as Record<string, unknown>) : {};
+  const message = typeof body.message === 'string' && body.message ? body.message : undefined;
+
+  if (!response.ok) {
+    return { success: false, message: message || failureMessage };
+  }
+
+  const result = body.result;
+  if (!result || typeof result !== 'object' || typeof (result as Record<string, unknown>).uuid !== 'string') {
+    return { success: false, message: message || 'Malformed Cryptomus response' };
+  }
+
+  return {
+    success: true,
+    state: typeof body.state === 'number' ? body.state : undefined,
+    result: result as NonNullable<CryptomusPaymentResponse['result']>,
+    message,
+  };
+}
+
 // Create a new payment invoice
 export async function createPayment(params: CreatePaymentParams): Promise<CryptomusPaymentResponse> {
-  const { merchantId, paymentKey } = getConfig();
-  
   const data: Record<string, unknown> = {
     amount: params.amount.toString(),
     currency: 'USD', // We request in USD, user pays in crypto
@@ -131,64 +225,17 @@ export async function createPayment(params: CreatePaymentParams): Promise<Crypto
   // Set lifetime (1 hour)
   data.lifetime = 3600;
   
-  const signature = generateSignature(data, paymentKey);
-  
-  const response = await fetch(`${CRYPTOMUS_API_URL}/payment`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'merchant': merchantId,
-      'sign': signature,
-    },
-    body: JSON.stringify(data),
-  });
-  
-  const result = await response.json();
-  
+  const response = await callApi('/payment', data);
   if (!response.ok) {
-    console.error('Cryptomus API error:', result);
-    return {
-      success: false,
-      message: result.message || 'Failed to create payment',
-    };
+    console.error('Cryptomus API error:', response.body);
   }
-  
-  return {
-    success: true,
-    ...result,
-  };
+  return toPaymentResponse(response, 'Failed to create payment');
 }
 
 // Get payment info by UUID
 export async function getPaymentInfo(uuid: string): Promise<CryptomusPaymentResponse> {
-  const { merchantId, paymentKey } = getConfig();
-  
-  const data = { uuid };
-  const signature = generateSignature(data, paymentKey);
-  
-  const response = await fetch(`${CRYPTOMUS_API_URL}/payment/info`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'merchant': merchantId,
-      'sign': signature,
-    },
-    body: JSON.stringify(data),
-  });
-  
-  const result = await response.json();
-  
-  if (!response.ok) {
-    return {
-      success: false,
-      message: result.message || 'Failed to get payment info',
-    };
-  }
-  
-  return {
-    success: true,
-    ...result,
-  };
+  const response = await callApi('/payment/info', { uuid });
+  return toPaymentResponse(response, 'Failed to get payment info');
 }
 
 // Payment status mappings
@@ -199,6 +246,7 @@ export const PAYMENT_STATUSES = {
   paid_over: 'Overpaid',
   fail: 'Payment failed',
   wrong_amount: 'Wrong amount sent',
+  wrong_amount_waiting: 'Underpaid, waiting for the rest',
   cancel: 'Cancelled',
   system_fail: 'System error',
   refund_process: 'Refund processing',
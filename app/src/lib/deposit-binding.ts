@@ -0,0 +1,129 @@
+/**
+ * Deposit Binding (server only)
+ *
+ * Ties an on-chain transfer to the deposit request (and so the user) it
+ * pays, instead of trusting that a transfer of the right size is theirs:
+ *
+ * - Solana: each request gets a reference key, a random public key the
+ *   payment transaction includes as a read-only account (as in Solana
+ *   Pay). Wallets that can't add one can attach an SPL Memo with the
+ *   request's `TB-XXXXXXXX` reference instead. A transfer carrying neither
+ *   belongs to no request.
+ * - Ethereum: each user gets their own deposit address, derived from
+ *   DEPOSIT_XPUB_ETHEREUM (an extended public key, e.g. for
+ *   m/44'/60'/0'/0) at an index assigned on first use. Only the holder of
+ *   the matching seed can move funds from these addresses; sweeping them
+ *   to the treasury happens outside the app.
+ */
+
+import { kv } from "@vercel/kv";
+import { Keypair, type ParsedTransactionWithMeta } from "@solana/web3.js";
+import { withLock } from "@/lib/kv-store";
+import type { CryptoDepositRequest } from "@/lib/crypto-deposit";
+
+export const MEMO_PROGRAM_ID = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+
+const ETH_ADDRESS_PREFIX = "eth_deposit_address:";
+const ETH_OWNER_PREFIX = "eth_deposit_owner:";
+const ETH_NEXT_INDEX_KEY = "eth_deposit_address:next";
+const ETH_ADDRESSES_KEY = "eth_deposit_addresses";
+
+// ============ SOLANA ============
+
+// A fresh reference key for a Solana deposit request
+export function generateReferenceKey(): string {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+// Account keys and memo texts of a transaction - whatever can carry a binding
+export function getSolanaBindings(tx: ParsedTransactionWithMeta): string[] {
+  const bindings = tx.transaction.message.accountKeys.map((k) =>
+    k.pubkey.toBase58()
+  );
+
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap(
+      (inner) => inner.instructions
+    ),
+  ];
+  for (const ix of instructions) {
+    if (
+      ix.programId.toBase58() === MEMO_PROGRAM_ID &&
+      "parsed" in ix &&
+      typeof ix.parsed === "string"
+    ) {
+      bindings.push(ix.parsed.trim());
+    }
+  }
+
+  return bindings;
+}
+
+// Whether a Solana transaction's bindings (see getSolanaBindings) point at `deposit`
+export function isBoundToSolanaDeposit(
+  bindings: string[],
+  deposit: CryptoDepositRequest
+): boolean {
+  if (deposit.referenceKey && bindings.includes(deposit.referenceKey))
+    return true;
+  return bindings.some(
+    (b) => b === deposit.reference || b.split(/\s+/).includes(deposit.reference)
+  );
+}
+
+// ============ ETHEREUM ============
+
+export function isEthereumDerivationConfigured(): boolean {
+  return Boolean(process.env.DEPOSIT_XPUB_ETHEREUM);
+}
+
+async function deriveEthereumAddress(index: number): Promise<string> {
+  const xpub = process.env.DEPOSIT_XPUB_ETHEREUM;
+  if (!xpub) {
+    throw new Error("Ethereum deposit addresses not configured");
+  }
+
+  const { ethers } = await import("ethers");
+  return ethers.HDNodeWallet.fromExtendedKey(xpub).deriveChild(index).address;
+}
+
+// The user's own Ethereum deposit address, assigned on first use
+export async function getEthereumDepositAddress(
+  walletAddress: string
+): Promise<string> {
+  const existing = await kv.get<string>(
+    `${ETH_ADDRESS_PREFIX}${walletAddress}`
+  );
+  if (existing) return existing;
+
+  return withLock(`${ETH_ADDRESS_PREFIX}${walletAddress}`, async () => {
+    const assigned = await kv.get<string>(
+      `${ETH_ADDRESS_PREFIX}${walletAddress}`
+    );
+    if (assigned) return assigned;
+
+    const index = (await kv.incr(ETH_NEXT_INDEX_KEY)) - 1;
+    const address = await deriveEthereumAddress(index);
+
+    await kv.set(`${ETH_OWNER_PREFIX}${address.toLowerCase()}`, walletAddress);
+    await kv.set(`${ETH_ADDRESS_PREFIX}${walletAddress}`, address);
+    await kv.sadd(ETH_ADDRESSES_KEY, address);
+    console.log(
+      `Ethereum deposit address #${index} assigned to ${walletAddress}: ${address}`
+    );
+    return address;
+  });
+}
+
+// Every Ethereum deposit address handed out so far
+export async function getEthereumDepositAddresses(): Promise<string[]> {
+  return kv.smembers(ETH_ADDRESSES_KEY);
+}
+
+// The user an Ethereum deposit address belongs to, if it's one of ours
+export async function getEthereumDepositOwner(
+  address: string
+): Promise<string | null> {
+  return kv.get<string>(`${ETH_OWNER_PREFIX}${address.toLowerCase()}`);
+}
@@ -0,0 +1,140 @@
+/**
+ * Deposit Finality (server only)
+ *
+ * How settled a deposit's transaction must be before it is credited,
+ * by network and by the deposit's USD value:
+ *
+ * - Solana: `confirmed` (a supermajority voted on the block) below
+ *   SOLANA_FINALIZED_DEPOSIT_USD, `finalized` (rooted, ~13s later) at or
+ *   above it
+ * - EVM networks: <ENV_PREFIX>_DEPOSIT_CONFIRMATIONS blocks on top of the
+ *   transaction's block, or <ENV_PREFIX>_LARGE_DEPOSIT_CONFIRMATIONS
+ *   (finalized - about two epochs on Ethereum) at or above
+ *   ETHEREUM_LARGE_DEPOSIT_USD. Defaults per network are in assets.ts.
+ *
+ * Until then the deposit sits in `confirming`. A transaction that fails
+ * or drops off the chain in a reorg while confirming is reverted (see
+ * crypto-deposit-store.ts). One that is missing only briefly - e.g. an RPC
+ * node behind the others, or a reorg that re-includes it - gets
+ * DEPOSIT_REORG_GRACE_SECONDS to reappear first.
+ */
+
+import { Connection } from "@solana/web3.js";
+import { getEthereumProvider } from "@/lib/ethereum-payouts";
+import { getNetwork } from "@/lib/assets";
+import type { CryptoNetwork, DepositFinality } from "@/lib/crypto-deposit";
+
+const DEFAULT_SOLANA_FINALIZED_USD = 1000;
+const DEFAULT_EVM_CONFIRMATIONS = 12;
+const DEFAULT_ETHEREUM_LARGE_USD = 10000;
+const DEFAULT_REORG_GRACE_SECONDS = 300;
+
+export interface FinalityCheck {
+  // final: credit it; waiting: not deep enough yet; missing: not found
+  // (maybe for now); reverted: failed, never to be credited
+  state: "final" | "waiting" | "missing" | "reverted";
+  confirmations?: number;
+  reason?: string;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? fallback : value;
+}
+
+export function getFinalityRequirement(
+  network: CryptoNetwork,
+  usdValue: number
+): DepositFinality {
+  if (network === "solana") {
+    const finalizedFrom = readNumberEnv(
+      "SOLANA_FINALIZED_DEPOSIT_USD",
+      DEFAULT_SOLANA_FINALIZED_USD
+    );
+    return {
+      commitment: usdValue >= finalizedFrom ? "finalized" : "confirmed",
+    };
+  }
+
+  const { envPrefix, confirmations, finalizedConfirmations } =
+    getNetwork(network);
+  const small = readNumberEnv(
+    `${envPrefix}_DEPOSIT_CONFIRMATIONS`,
+    confirmations ?? DEFAULT_EVM_CONFIRMATIONS
+  );
+  const large =
+    usdValue >=
+    readNumberEnv("ETHEREUM_LARGE_DEPOSIT_USD", DEFAULT_ETHEREUM_LARGE_USD);
+  return {
+    confirmations: large
+      ? readNumberEnv(
+          `${envPrefix}_LARGE_DEPOSIT_CONFIRMATIONS`,
+          finalizedConfirmations ?? small
+        )
+      : small,
+  };
+}
+
+// How long a confirming transaction may go missing before it's treated as reorged out
+export function getReorgGraceMs(): number {
+  return (
+    readNumberEnv("DEPOSIT_REORG_GRACE_SECONDS", DEFAULT_REORG_GRACE_SECONDS) *
+    1000
+  );
+}
+
+// e.g. "finalization", "12 confirmations"
+export function describeFinality(finality: DepositFinality): string {
+  if (finality.commitment)
+    return finality.commitment === "finalized"
+      ? "finalization"
+      : "confirmation";
+  return `${finality.confirmations} confirmations`;
+}
+
+export async function checkFinality(
+  network: CryptoNetwork,
+  txSignature: string,
+  finality: DepositFinality
+): Promise<FinalityCheck> {
+  if (network === "solana") {
+    const rpcUrl =
+      process.env.NEXT_PUBLIC_RPC_URL || "https://api.mainnet-beta.solana.com";
+    const { value } = await new Connection(
+      rpcUrl,
+      "confirmed"
+    ).getSignatureStatuses([txSignature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+
+    if (!status) return { state: "missing" };
+    if (status.err) return { state: "reverted", reason: "Transaction failed" };
+
+    const final =
+      finality.commitment === "finalized"
+        ? status.confirmationStatus === "finalized"
+        : status.confirmationStatus === "confirmed" ||
+          status.confirmationStatus === "finalized";
+    return {
+      state: final ? "final" : "waiting",
+      confirmations: status.confirmations ?? undefined,
+    };
+  }
+
+  // The node only returns a receipt for a transaction on its canonical chain
+  const { provider } = await getEthereumProvider(network);
+  const receipt = await provider.getTransactionReceipt(txSignature);
+  if (!receipt) return { state: "missing" };
+  if (receipt.status !== 1)
+    return { state: "reverted", reason: "Transaction reverted" };
+
+  const confirmations = await receipt.confirmations();
+  return {
+    state:
+      confirmations >= (finality.confirmations ?? DEFAULT_EVM_CONFIRMATIONS)
+        ? "final"
+        : "waiting",
+    confirmations,
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Deposit Reconciliation
+ *
+ * Decides what to credit for a final Cryptomus payment, based on what
+ * the user actually paid rather than the status alone:
+ *
+ * - `paid`, `paid_over` and `wrong_amount` credit the actual
+ *   payment_amount_usd minus the deposit fee (see fees.ts); the difference from the
+ *   invoice is recorded on the deposit record
+ * - Payments below DEPOSIT_REVIEW_FLOOR_USD (or that wouldn't cover the fee)
+ *   are held for manual review instead of being credited
+ * - `cancel`, `fail` and `system_fail` are recorded with nothing credited
+ *
+ * One record per Cryptomus payment, stored in Vercel KV (see kv-store).
+ */
+
+import { createRecordStore } from "@/lib/kv-store";
+import { creditDeposit } from "@/lib/ledger";
+import { quoteDeposit, type FeeTier } from "@/lib/fees";
+import { resolveFeeTier } from "@/lib/fee-tier";
+import type { CryptomusWebhookPayload } from "@/lib/cryptomus";
+
+// Default floor for manual review (matches the minimum deposit)
+const DEFAULT_REVIEW_FLOOR_USD = 20;
+
+// Differences smaller than this are treated as an exact payment
+const AMOUNT_TOLERANCE_USD = 0.01;
+
+const CREDITABLE_STATUSES = ["paid", "paid_over", "wrong_amount"];
+const FAILED_STATUSES = ["cancel", "fail", "system_fail"];
+
+export type ReconciliationOutcome =
+  | "exact"
+  | "overpaid"
+  | "underpaid"
+  | "failed";
+
+export interface DepositRecord {
+  id: string; // Cryptomus payment UUID
+  orderId: string;
+  walletAddress: string;
+  cryptomusStatus: string;
+  outcome: ReconciliationOutcome;
+  status: "pending" | "credited" | "held" | "rejected" | "failed";
+  invoicedAmount: number; // Invoice amount in USD (deposit + fee)
+  paidAmount: number; // What the user actually paid in USD
+  difference: number; // paidAmount - invoicedAmount
+  feeAmount: number;
+  creditAmount: number; // Credited (or to be credited, if held)
+  feeScheduleVersion: string;
+  holdReason?: string;
+  error?: string; // Last crediting error, if any
+  createdAt: string;
+  creditedAt?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export interface Reconciliation {
+  outcome: ReconciliationOutcome;
+  paidAmount: number;
+  difference: number;
+  feeAmount: number;
+  creditAmount: number;
+  feeScheduleVersion: string;
+  holdReason?: string;
+}
+
+const store = createRecordStore<DepositRecord>({
+  prefix: "deposit_record",
+  indexes: {
+    wallet: (r) => r.walletAddress,
+    status: (r) => r.status,
+  },
+});
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function getReviewFloor(): number {
+  const floor = parseFloat(process.env.DEPOSIT_REVIEW_FLOOR_USD || "");
+  return isNaN(floor) ? DEFAULT_REVIEW_FLOOR_USD : floor;
+}
+
+export function isCreditableStatus(status: string): boolean {
+  return CREDITABLE_STATUSES.includes(status);
+}
+
+export function isFinalFailureStatus(status: string): boolean {
+  return FAILED_STATUSES.includes(status);
+}
+
+// Work out what a final payment should credit
+export function reconcilePayment(params: {
+  status: string;
+  invoicedAmount: number;
+  paidAmount: number;
+  tier?: FeeTier;
+}): Reconciliation {
+  const invoicedAmount = roundUsd(params.invoicedAmount || 0);
+  const paidAmount = roundUsd(params.paidAmount || 0);
+  const difference = roundUsd(paidAmount - invoicedAmount);
+
+  const quote = quoteDeposit("cryptomus", paidAmount, params.tier);
+
+  if (!isCreditableStatus(params.status)) {
+    return {
+      outcome: "failed",
+      paidAmount,
+      difference,
+      feeAmount: 0,
+      creditAmount: 0,
+      feeScheduleVersion: quote.scheduleVersion,
+    };
+  }
+
+  let outcome: ReconciliationOutcome = "exact";
+  if (difference >= AMOUNT_TOLERANCE_USD) outcome = "overpaid";
+  else if (difference <= -AMOUNT_TOLERANCE_USD) outcome = "underpaid";
+
+  const feeAmount = quote.fee;
+  const creditAmount = quote.netAmount;
+
+  let holdReason: string | undefined;
+  if (paidAmount < getReviewFloor()) {
+    holdReason = `Paid $${paidAmount.toFixed(
+      2
+    )}, below the $${getReviewFloor().toFixed(2)} review floor`;
+  } else if (creditAmount <= 0) {
+    holdReason = `Paid $${paidAmount.toFixed(
+      2
+    )} does not cover the $${feeAmount.toFixed(2)} fee`;
+  }
+
+  return {
+    outcome,
+    paidAmount,
+    difference,
+    feeAmount,
+    creditAmount,
+    feeScheduleVersion: quote.scheduleVersion,
+    holdReason,
+  };
+}
+
+function parseWallet(additionalData: string | null): string {
+  if (!additionalData) return "";
+  try {
+    return JSON.parse(additionalData).wallet || "";
+  } catch {
+    console.warn("Could not parse additional_data");
+    return "";
+  }
+}
+
+// Post a pending record's credit to the ledger and mark it credited. The journal is keyed by
+// the payment, so a retry after a crash between the two steps never credits it twice.
+async function creditRecord(record: DepositRecord): Promise<DepositRecord> {
+  const differenceNote =
+    record.outcome === "exact"
+      ? ""
+      : `, ${record.outcome} by $${Math.abs(record.difference).toFixed(2)}`;
+
+  try {
+    await creditDeposit(
+      record.walletAddress,
+      record.creditAmount,
+      record.orderId,
+      `Cryptomus payment ${record.id} ($${record.paidAmount.toFixed(
+        2
+      )} paid, $${record.feeAmount.toFixed(2)} fee${differenceNote})`,
+      record.feeScheduleVersion,
+      `cryptomus_deposit:${record.id}`
+    );
+  } catch (error) {
+    await store.update(record.id, (current) => ({
+      ...current,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    throw error;
+  }
+
+  const credited = await store.transition(
+    record.id,
+    "status",
+    ["pending"],
+    "credited",
+    {
+      creditedAt: new Date().toISOString(),
+      error: undefined,
+    }
+  );
+  return credited ?? record;
+}
+
+/**
+ * Record a final Cryptomus payment and credit it according to the policy.
+ * Safe to call again for the same payment: an existing record is returned
+ * as-is, except one that is still pending, whose credit is retried.
+ */
+export async function recordDepositPayment(
+  payload: CryptomusWebhookPayload
+): Promise<DepositRecord> {
+  const walletAddress = parseWallet(payload.additional_data);
+  const reconciliation = reconcilePayment({
+    status: payload.status,
+    invoicedAmount: parseFloat(payload.amount),
+    paidAmount: parseFloat(payload.payment_amount_usd),
+    tier: walletAddress ? await resolveFeeTier(walletAddress) : "standard",
+  });
+
+  let status: DepositRecord["status"] = "pending";
+  let holdReason = reconciliation.holdReason;
+  if (reconciliation.outcome === "failed") {
+    status = "failed";
+  } else if (!walletAddress) {
+    status = "held";
+    holdReason = "Payment has no wallet attached";
+  } else if (holdReason) {
+    status = "held";
+  }
+
+  const record: DepositRecord = {
+    id: payload.uuid,
+    orderId: payload.order_id,
+    walletAddress,
+    cryptomusStatus: payload.status,
+    outcome: reconciliation.outcome,
+    status,
+    invoicedAmount: roundUsd(parseFloat(payload.amount) || 0),
+    paidAmount: reconciliation.paidAmount,
+    difference: reconciliation.difference,
+    feeAmount: reconciliation.feeAmount,
+    creditAmount: reconciliation.creditAmount,
+    feeScheduleVersion: reconciliation.feeScheduleVersion,
+    holdReason,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!(await store.insert(record))) {
+    // A record still pending wasn't credited - its credit failed, or the process died before
+    // crediting it - so redeliveries retry it
+    const existing = await store.get(record.id);
+    if (existing?.status === "pending") {
+      return creditRecord(existing);
+    }
+    return existing ?? record;
+  }
+
+  console.log(`Deposit ${record.id}: ${record.outcome}, ${record.status}`, {
+    paid: record.paidAmount,
+    difference: record.difference,
+    credit: record.creditAmount,
+    holdReason,
+  });
+
+  if (record.status === "pending") {
+    return creditRecord(record);
+  }
+  return record;
+}
+
+export async function getDepositRecord(
+  paymentId: string
+): Promise<DepositRecord | null> {
+  return store.get(paymentId);
+}
+
+// A wallet's deposits, newest first
+export async function getDepositHistory(
+  walletAddress: string
+): Promise<DepositRecord[]> {
+  const records = await store.listByIndex("wallet", walletAddress);
+  return records.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+export async function getHeldDeposits(): Promise<DepositRecord[]> {
+  return store.listByIndex("status", "held");
+}
+
+// Approve a held deposit and credit it. `creditAmount` overrides the computed amount.
+export async function approveHeldDeposit(
+  paymentId: string,
+  note?: string,
+  creditAmount?: number
+): Promise<DepositRecord | null> {
+  const record = await store.get(paymentId);
+  if (!record?.walletAddress) return null;
+  if (!((creditAmount ?? record.creditAmount) > 0)) return null;
+
+  const approved = await store.transition(
+    paymentId,
+    "status",
+    ["held"],
+    "pending",
+    {
+      reviewedAt: new Date().toISOString(),
+      reviewNote: note,
+      ...(creditAmount !== undefined
+        ? { creditAmount: roundUsd(creditAmount) }
+        : {}),
+    }
+  );
+  if (!approved) return null;
+
+  return creditRecord(approved);
+}
+
+export async function rejectHeldDeposit(
+  paymentId: string,
+  note?: string
+): Promise<DepositRecord | null> {
+  return store.transition(paymentId, "status", ["held"], "rejected", {
+    reviewedAt: new Date().toISOString(),
+    reviewNote: note,
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Deposit Transfers
+ *
+ * Builds the payment for a Solana deposit request, for the user's
+ * connected wallet to sign and send from the deposit modal:
+ *
+ * - SOL: a system transfer to the deposit wallet
+ * - Tokens (see assets.ts): a checked transfer between the associated token
+ *   accounts under the mint's token program, creating the deposit wallet's
+ *   account first if it doesn't exist yet (paid for by the sender)
+ *
+ * The request's reference key rides along as a read-only account on the
+ * transfer and its TB-XXXXXXXX reference as a memo, so the payment is
+ * bound to the request (see deposit-binding.ts) either way.
+ */
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+import { getAsset, getAssetAddress, getTokenProgramId } from "@/lib/assets";
+import type { CryptoDepositRequest } from "@/lib/crypto-deposit";
+
+const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"
+);
+
+export interface DepositTransfer {
+  transaction: Transaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+export async function buildDepositTransfer(
+  connection: Connection,
+  payer: PublicKey,
+  deposit: CryptoDepositRequest
+): Promise<DepositTransfer> {
+  if (deposit.network !== "solana") {
+    throw new Error(
+      "Only Solana deposits can be paid from the connected wallet"
+    );
+  }
+
+  const asset = getAsset("solana", deposit.currency);
+  if (!asset) {
+    throw new Error(`Unsupported Solana currency: ${deposit.currency}`);
+  }
+
+  const recipient = new PublicKey(deposit.depositAddress);
+  const transaction = new Transaction();
+  let transfer: TransactionInstruction;
+
+  const mintAddress = getAssetAddress(asset);
+  if (!mintAddress) {
+    transfer = SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: recipient,
+      lamports: Math.round(deposit.cryptoAmount * LAMPORTS_PER_SOL),
+    });
+  } else {
+    const mint = new PublicKey(mintAddress);
+    const programId = getTokenProgramId(asset);
+    const source = await getAssociatedTokenAddress(
+      mint,
+      payer,
+      false,
+      programId
+    );
+    const destination = await getAssociatedTokenAddress(
+      mint,
+      recipient,
+      false,
+      programId
+    );
+
+    // No-op if the deposit wallet's token account already exists
+    transaction.add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        destination,
+        recipient,
+        mint,
+        programId
+      )
+    );
+
+    const balance = await connection
+      .getTokenAccountBalance(source)
+      .catch(() => null);
+    if (!balance || (balance.value.uiAmount ?? 0) < deposit.cryptoAmount) {
+      throw new Error(`Not enough ${deposit.currency} in the connected wallet`);
+    }
+
+    transfer = createTransferCheckedInstruction(
+      source,
+      mint,
+      destination,
+      payer,
+      Math.round(deposit.cryptoAmount * 10 ** asset.decimals),
+      asset.decimals,
+      [],
+      programId
+    );
+  }
+
+  if (deposit.referenceKey) {
+    transfer.keys.push({
+      pubkey: new PublicKey(deposit.referenceKey),
+      isSigner: false,
+      isWritable: false,
+    });
+  }
+  transaction.add(transfer);
+  transaction.add(
+    new TransactionInstruction({
+      keys: [],
+      programId: MEMO_PROGRAM_ID,
+      data: Buffer.from(deposit.reference, "utf-8"),
+    })
+  );
+
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash("confirmed");
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = payer;
+
+  return { transaction, blockhash, lastValidBlockHeight };
+}
@@ -0,0 +1,709 @@
+/**
+ * Deposit Watcher (server only)
+ *
+ * Detects direct crypto deposits without the user pasting a transaction:
+ *
+ * - Solana: looks up each open request's reference key (like Solana Pay's
+ *   findReference), then polls getSignaturesForAddress on the deposit
+ *   wallet and its token accounts for memo-bound payments. SOL and tokens
+ *   received are read from each transaction's balance changes
+ * - EVM networks (Ethereum, Base, Arbitrum): scans new blocks for the
+ *   native coin sent to the users' deposit addresses, and token Transfer
+ *   logs to them
+ *
+ * Which tokens are watched on each network comes from the asset registry
+ * (assets.ts). Each incoming transfer is matched to the open request (see
+ * crypto-deposit-store.ts) it is bound to - by reference key or memo on
+ * Solana, by the user's own deposit address on EVM networks (see
+ * deposit-binding.ts) - and credited for what was actually received. The
+ * request then moves `pending` -> `confirming`, and to `completed`
+ * (credited) once the transaction meets the finality policy for its
+ * network and size (see deposit-finality.ts) - or back to `pending`,
+ * flagged, if it is reorged out. Transfers bound to no open request are
+ * recorded as unmatched for support.
+ *
+ * Scan positions are kept in Vercel KV, so each run picks up where the
+ * last one stopped. Runs are triggered by /api/crypto-deposit/watch, every
+ * minute by Vercel Cron (see vercel.json).
+ */
+
+import { kv } from "@vercel/kv";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddress } from "@solana/spl-token";
+import type {
+  CryptoCurrency,
+  CryptoDepositRequest,
+  CryptoNetwork,
+} from "@/lib/crypto-deposit";
+import {
+  getAssetAddress,
+  getEnabledNetworks,
+  getNativeAsset,
+  getNetworkTokens,
+  getTokenProgramId,
+  isEvmNetwork,
+} from "@/lib/assets";
+import {
+  completeCryptoDepositRecord,
+  creditCryptoDeposit,
+  getUncreditedCryptoDeposits,
+  getCryptoDeposit,
+  expireStaleCryptoDeposits,
+  getCryptoDepositsByStatus,
+  markCryptoDepositConfirming,
+  recordFinalityProgress,
+  recordUnmatchedTransfer,
+  revertCryptoDeposit,
+} from "@/lib/crypto-deposit-store";
+import {
+  checkFinality,
+  getFinalityRequirement,
+  getReorgGraceMs,
+} from "@/lib/deposit-finality";
+import {
+  claimTransaction,
+  getTransactionClaim,
+  releaseTransaction,
+} from "@/lib/transaction-registry";
+import { getEthereumProvider } from "@/lib/ethereum-payouts";
+import { getPrice } from "@/lib/price-oracle";
+import {
+  getEthereumDepositAddresses,
+  getEthereumDepositOwner,
+  getSolanaBindings,
+  isBoundToSolanaDeposit,
+} from "@/lib/deposit-binding";
+
+const DEFAULT_MAX_BLOCKS_PER_RUN = 100;
+
+// With no scan position yet, look back this far
+const INITIAL_LOOKBACK_MS = 60 * 60 * 1000;
+const INITIAL_LOOKBACK_BLOCKS = 300;
+
+const SIGNATURE_PAGE_SIZE = 100;
+
+const CURSOR_PREFIX = "deposit_watcher:cursor:";
+const RUN_LEASE_KEY = "deposit_watcher:running";
+const RUN_LEASE_SECONDS = 120;
+
+export interface DetectedTransfer {
+  network: CryptoNetwork;
+  currency: CryptoCurrency;
+  txSignature: string;
+  amount: number;
+  fromAddress?: string;
+  toAddress: string;
+  paidAt: Date;
+  bindings?: string[]; // Solana: account keys and memos (see deposit-binding.ts)
+}
+
+export interface WatcherRunResult {
+  skipped?: boolean; // Another run was in progress
+  detected: number;
+  unmatched: number;
+  completed: number;
+  reverted: number;
+  expired: number;
+  errors: string[];
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? fallback : value;
+}
+
+function getSolanaConnection(): Connection {
+  const rpcUrl =
+    process.env.NEXT_PUBLIC_RPC_URL || "https://api.mainnet-beta.solana.com";
+  return new Connection(rpcUrl, "confirmed");
+}
+
+// ============ MATCHING ============
+
+// Whether a transfer carries `deposit`'s binding
+export function isTransferBoundTo(
+  transfer: DetectedTransfer,
+  deposit: CryptoDepositRequest
+): boolean {
+  if (
+    deposit.network !== transfer.network ||
+    deposit.currency !== transfer.currency
+  )
+    return false;
+  return isEvmNetwork(transfer.network)
+    ? deposit.depositAddress.toLowerCase() === transfer.toAddress.toLowerCase()
+    : isBoundToSolanaDeposit(transfer.bindings || [], deposit);
+}
+
+async function unmatchedReason(transfer: DetectedTransfer): Promise<string> {
+  if (!isEvmNetwork(transfer.network)) {
+    return "Transfer carries no open deposit request's reference key or memo";
+  }
+  const owner = await getEthereumDepositOwner(transfer.toAddress);
+  return owner
+    ? `No open ${transfer.currency} deposit request for ${owner}'s deposit address`
+    : "Sent to a shared deposit address, not bound to any user";
+}
+
+/**
+ * Match a transfer to the open request it is bound to, or record it as
+ * unmatched. `open` is updated in place so one run never matches a
+ * request twice.
+ */
+async function handleTransfer(
+  transfer: DetectedTransfer,
+  open: CryptoDepositRequest[]
+): Promise<"detected" | "unmatched" | "skipped"> {
+  // Already claimed, e.g. by a manual verification
+  if (await getTransactionClaim(transfer.txSignature)) return "skipped";
+
+  // Several open requests can share a user's EVM address: take the
+  // one closest in amount, then the oldest
+  const candidates = open
+    .filter((d) => isTransferBoundTo(transfer, d))
+    .sort(
+      (a, b) =>
+        Math.abs(transfer.amount - a.cryptoAmount) -
+          Math.abs(transfer.amount - b.cryptoAmount) ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+  if (candidates.length === 0) {
+    await recordUnmatchedTransfer({
+      network: transfer.network,
+      currency: transfer.currency,
+      txSignature: transfer.txSignature,
+      amount: transfer.amount,
+      fromAddress: transfer.fromAddress,
+      toAddress: transfer.toAddress,
+      reason: await unmatchedReason(transfer),
+    });
+    return "unmatched";
+  }
+
+  const deposit = candidates[0];
+  const claimed = await claimTransaction(transfer.txSignature, {
+    network: transfer.network,
+    depositId: deposit.id,
+    walletAddress: deposit.walletAddress,
+    source: "watcher",
+  });
+  if (!claimed) return "skipped";
+
+  // The request moved on meanwhile (or pricing failed): give the transaction back
+  let confirming: CryptoDepositRequest | null = null;
+  try {
+    confirming = await markCryptoDepositConfirming(deposit.id, transfer, () =>
+      getPrice(transfer.currency)
+    );
+  } finally {
+    if (!confirming) await releaseTransaction(transfer.txSignature, deposit.id);
+  }
+  if (!confirming) return "skipped";
+
+  open.splice(open.indexOf(deposit), 1);
+  console.log(
+    `Crypto deposit ${deposit.id} detected: ${transfer.amount} ${transfer.currency} in ${transfer.txSignature}`
+  );
+  return "detected";
+}
+
+// ============ SOLANA ============
+
+/**
+ * Signatures for `address` newer than the saved position, oldest first.
+ * Pages all the way back to the saved position, so a burst of more than
+ * a page since the last run isn't skipped.
+ */
+async function fetchNewSignatures(connection: Connection, address: PublicKey) {
+  const cursorKey = `${CURSOR_PREFIX}solana:${address.toBase58()}`;
+  const until = (await kv.get<string>(cursorKey)) || undefined;
+
+  // Nothing seen before: only look back a little
+  const since = Date.now() - INITIAL_LOOKBACK_MS;
+  const isRecent = (s: { blockTime?: number | null }) =>
+    Boolean(s.blockTime && s.blockTime * 1000 >= since);
+
+  const signatures = [];
+  let before: string | undefined;
+  for (;;) {
+    const batch = await connection.getSignaturesForAddress(
+      address,
+      { until, before, limit: SIGNATURE_PAGE_SIZE },
+      "confirmed"
+    );
+    signatures.push(...batch);
+    if (batch.length < SIGNATURE_PAGE_SIZE) break;
+
+    const oldest = batch[batch.length - 1];
+    if (!until && !isRecent(oldest)) break;
+    before = oldest.signature;
+  }
+
+  const fresh = until ? signatures : signatures.filter(isRecent);
+
+  return {
+    signatures: fresh.reverse(),
+    saveCursor: (signature: string) => kv.set(cursorKey, signature),
+  };
+}
+
+/**
+ * SOL and tokens received by `owner` in a transaction, or null if the
+ * transaction isn't found (yet). A failed transaction received nothing.
+ */
+export async function readSolanaTransfers(
+  connection: Connection,
+  txSignature: string,
+  owner: PublicKey
+): Promise<DetectedTransfer[] | null> {
+  const tx = await connection.getParsedTransaction(txSignature, {
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) return null;
+  if (tx.meta?.err || !tx.meta) return [];
+
+  const ownerAddress = owner.toBase58();
+  const bindings = getSolanaBindings(tx);
+  const keys = tx.transaction.message.accountKeys;
+  const fromAddress = keys.find((k) => k.signer)?.pubkey.toBase58();
+  const paidAt = new Date((tx.blockTime ?? Date.now() / 1000) * 1000);
+  const transfers: DetectedTransfer[] = [];
+
+  const ownerIndex = keys.findIndex(
+    (k) => k.pubkey.toBase58() === ownerAddress
+  );
+  if (ownerIndex !== -1 && fromAddress !== ownerAddress) {
+    const lamports =
+      tx.meta.postBalances[ownerIndex] - tx.meta.preBalances[ownerIndex];
+    if (lamports > 0) {
+      transfers.push({
+        network: "solana",
+        currency: "SOL",
+        txSignature,
+        amount: lamports / 1e9,
+        fromAddress,
+        toAddress: ownerAddress,
+        paidAt,
+        bindings,
+      });
+    }
+  }
+
+  const { postTokenBalances, preTokenBalances } = tx.meta;
+  for (const asset of getNetworkTokens("solana")) {
+    const mint = getAssetAddress(asset);
+    const tokenBalance = (balances: typeof postTokenBalances) =>
+      (balances || [])
+        .filter((b) => b.owner === ownerAddress && b.mint === mint)
+        .reduce((sum, b) => sum + Number(b.uiTokenAmount.amount), 0);
+    const received =
+      tokenBalance(postTokenBalances) - tokenBalance(preTokenBalances);
+    if (received > 0) {
+      transfers.push({
+        network: "solana",
+        currency: asset.symbol,
+        txSignature,
+        amount: received / 10 ** asset.decimals,
+        fromAddress,
+        toAddress: ownerAddress,
+        paidAt,
+        bindings,
+      });
+    }
+  }
+
+  return transfers;
+}
+
+// The oldest confirmed transaction that includes `reference`, like Solana Pay's findReference
+export async function findReference(
+  connection: Connection,
+  reference: PublicKey
+): Promise<string | null> {
+  const signatures = await connection.getSignaturesForAddress(
+    reference,
+    { limit: 1000 },
+    "confirmed"
+  );
+  const landed = signatures.filter((s) => !s.err);
+  return landed.length > 0 ? landed[landed.length - 1].signature : null;
+}
+
+// Look for the payment carrying an open Solana request's reference key
+async function checkReference(
+  connection: Connection,
+  deposit: CryptoDepositRequest,
+  open: CryptoDepositRequest[]
+): Promise<boolean> {
+  if (deposit.network !== "solana" || !deposit.referenceKey) return false;
+
+  const signature = await findReference(
+    connection,
+    new PublicKey(deposit.referenceKey)
+  );
+  if (!signature) return false;
+
+  const transfers = await readSolanaTransfers(
+    connection,
+    signature,
+    new PublicKey(deposit.depositAddress)
+  );
+  const transfer = transfers?.find((t) => isTransferBoundTo(t, deposit));
+  if (!transfer) return false;
+
+  return (await handleTransfer(transfer, open)) === "detected";
+}
+
+/**
+ * Check one pending Solana request by its reference key right away, for
+ * a client waiting on it. Returns the request as it stands afterwards.
+ */
+export async function confirmByReference(
+  depositId: string
+): Promise<CryptoDepositRequest | null> {
+  const deposit = await getCryptoDeposit(depositId);
+  if (!deposit || deposit.status !== "pending") return deposit;
+
+  if (await checkReference(getSolanaConnection(), deposit, [deposit])) {
+    return getCryptoDeposit(depositId);
+  }
+  return deposit;
+}
+
+async function scanSolana(
+  open: CryptoDepositRequest[],
+  result: WatcherRunResult
+): Promise<void> {
+  const depositWallet = process.env.DEPOSIT_WALLET_SOLANA;
+  if (!depositWallet) return;
+
+  const connection = getSolanaConnection();
+
+  // Payments carrying a reference key
+  for (const deposit of open.filter(
+    (d) => d.network === "solana" && d.referenceKey
+  )) {
+    if (await checkReference(connection, deposit, open)) result.detected++;
+  }
+
+  // Everything else sent to the deposit wallet (memo-bound or unbound)
+  const owner = new PublicKey(depositWallet);
+  // Token transfers only touch the token accounts, not the wallet itself
+  const tokenAccounts = await Promise.all(
+    getNetworkTokens("solana")
+      .filter((asset) => asset.deposits)
+      .map((asset) =>
+        getAssociatedTokenAddress(
+          new PublicKey(getAssetAddress(asset)!),
+          owner,
+          false,
+          getTokenProgramId(asset)
+        )
+      )
+  );
+
+  const seen = new Set<string>();
+  for (const address of [owner, ...tokenAccounts]) {
+    const { signatures, saveCursor } = await fetchNewSignatures(
+      connection,
+      address
+    );
+
+    for (const { signature, err } of signatures) {
+      if (!err && !seen.has(signature)) {
+        seen.add(signature);
+        for (const transfer of (await readSolanaTransfers(
+          connection,
+          signature,
+          owner
+        )) || []) {
+          const outcome = await handleTransfer(transfer, open);
+          if (outcome !== "skipped") result[outcome]++;
+        }
+      }
+      await saveCursor(signature);
+    }
+  }
+}
+
+// ============ EVM ============
+
+const TRANSFER_TOPIC = "Transfer(address,address,uint256)";
+
+/**
+ * The native coin and tokens sent to any of `addresses` in a transaction
+ * on an EVM network, or null if the transaction isn't mined (yet). A
+ * reverted transaction sent nothing.
+ */
+export async function readEthereumTransfers(
+  txHash: string,
+  addresses: string[],
+  network: CryptoNetwork = "ethereum"
+): Promise<DetectedTransfer[] | null> {
+  const { ethers, provider } = await getEthereumProvider(network);
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(txHash),
+    provider.getTransactionReceipt(txHash),
+  ]);
+  if (!tx || !receipt) return null;
+  if (receipt.status !== 1) return [];
+
+  const watched = new Set(addresses.map((a) => a.toLowerCase()));
+  const block = await provider.getBlock(receipt.blockNumber);
+  const paidAt = new Date((block?.timestamp ?? Date.now() / 1000) * 1000);
+  const transfers: DetectedTransfer[] = [];
+
+  const native = getNativeAsset(network);
+  if (
+    native &&
+    tx.to &&
+    watched.has(tx.to.toLowerCase()) &&
+    tx.value > BigInt(0)
+  ) {
+    transfers.push({
+      network,
+      currency: native.symbol,
+      txSignature: txHash,
+      amount: Number(ethers.formatEther(tx.value)),
+      fromAddress: tx.from,
+      toAddress: tx.to,
+      paidAt,
+    });
+  }
+
+  const tokens = new Map(
+    getNetworkTokens(network).map((asset) => [
+      getAssetAddress(asset)!.toLowerCase(),
+      asset,
+    ])
+  );
+  const topic = ethers.id(TRANSFER_TOPIC);
+  for (const log of receipt.logs) {
+    const token = tokens.get(log.address.toLowerCase());
+    if (!token || log.topics[0] !== topic) continue;
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+    if (!watched.has(to.toLowerCase())) continue;
+
+    transfers.push({
+      network,
+      currency: token.symbol,
+      txSignature: txHash,
+      amount: Number(ethers.formatUnits(BigInt(log.data), token.decimals)),
+      fromAddress: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+      toAddress: to,
+      paidAt,
+    });
+  }
+
+  return transfers;
+}
+
+async function scanEvm(
+  network: CryptoNetwork,
+  open: CryptoDepositRequest[],
+  result: WatcherRunResult
+): Promise<void> {
+  // Every user's deposit address, plus the shared one so stray payments to it are recorded
+  const addresses = await getEthereumDepositAddresses();
+  if (process.env.DEPOSIT_WALLET_ETHEREUM)
+    addresses.push(process.env.DEPOSIT_WALLET_ETHEREUM);
+  if (addresses.length === 0) return;
+  const watched = new Set(addresses.map((a) => a.toLowerCase()));
+
+  const { ethers, provider } = await getEthereumProvider(network);
+  const cursorKey = `${CURSOR_PREFIX}${network}`;
+  const latest = await provider.getBlockNumber();
+  const lastScanned =
+    (await kv.get<number>(cursorKey)) ?? latest - INITIAL_LOOKBACK_BLOCKS;
+
+  const fromBlock = lastScanned + 1;
+  const toBlock = Math.min(
+    latest,
+    lastScanned +
+      readNumberEnv("DEPOSIT_WATCHER_MAX_BLOCKS", DEFAULT_MAX_BLOCKS_PER_RUN)
+  );
+  if (fromBlock > toBlock) return;
+
+  const txHashes = new Set<string>();
+
+  // The native coin sent straight to a deposit address (skipped where we don't take it)
+  if (getNativeAsset(network)?.deposits) {
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const block = await provider.getBlock(number, true);
+      for (const tx of block?.prefetchedTransactions || []) {
+        if (tx.to && watched.has(tx.to.toLowerCase()) && tx.value > BigInt(0))
+          txHashes.add(tx.hash);
+      }
+    }
+  }
+
+  // Token Transfer(from, to = a deposit address, amount) logs
+  const tokens = getNetworkTokens(network).filter((asset) => asset.deposits);
+  if (tokens.length > 0) {
+    const logs = await provider.getLogs({
+      address: tokens.map((asset) => getAssetAddress(asset)!),
+      topics: [
+        ethers.id(TRANSFER_TOPIC),
+        null,
+        addresses.map((a) => ethers.zeroPadValue(a, 32)),
+      ],
+      fromBlock,
+      toBlock,
+    });
+    for (const log of logs) txHashes.add(log.transactionHash);
+  }
+
+  for (const txHash of Array.from(txHashes)) {
+    for (const transfer of (await readEthereumTransfers(
+      txHash,
+      addresses,
+      network
+    )) || []) {
+      const outcome = await handleTransfer(transfer, open);
+      if (outcome !== "skipped") result[outcome]++;
+    }
+  }
+  await kv.set(cursorKey, toBlock);
+}
+
+// ============ FINALITY ============
+
+/**
+ * Move a confirming deposit on: complete (and credit) it once its
+ * transaction meets the finality policy, revert it if the transaction
+ * failed or has been gone longer than the reorg grace period.
+ */
+export async function advanceConfirmingDeposit(
+  deposit: CryptoDepositRequest
+): Promise<"completed" | "reverted" | "waiting"> {
+  if (deposit.status !== "confirming" || !deposit.txSignature) return "waiting";
+
+  const finality =
+    deposit.finality ??
+    getFinalityRequirement(
+      deposit.network,
+      (deposit.receivedAmount || 0) * (deposit.creditPrice || 0)
+    );
+  const check = await checkFinality(
+    deposit.network,
+    deposit.txSignature,
+    finality
+  );
+
+  if (check.state === "final") {
+    return (await completeCryptoDepositRecord(deposit.id))
+      ? "completed"
+      : "waiting";
+  }
+
+  if (check.state === "reverted") {
+    return (await revertCryptoDeposit(
+      deposit.id,
+      check.reason || "Transaction failed"
+    ))
+      ? "reverted"
+      : "waiting";
+  }
+
+  if (check.state === "missing") {
+    const missingSince = deposit.missingSince ?? new Date().toISOString();
+    if (Date.now() - new Date(missingSince).getTime() >= getReorgGraceMs()) {
+      const reverted = await revertCryptoDeposit(
+        deposit.id,
+        "Transaction no longer on chain (reorg)"
+      );
+      return reverted ? "reverted" : "waiting";
+    }
+    await recordFinalityProgress(deposit.id, {
+      confirmations: deposit.confirmations,
+      missingSince,
+    });
+    return "waiting";
+  }
+
+  await recordFinalityProgress(deposit.id, {
+    confirmations: check.confirmations,
+    missingSince: undefined,
+  });
+  return "waiting";
+}
+
+async function completeFinalDeposits(result: WatcherRunResult): Promise<void> {
+  for (const deposit of await getCryptoDepositsByStatus("confirming")) {
+    try {
+      const outcome = await advanceConfirmingDeposit(deposit);
+      if (outcome !== "waiting") result[outcome]++;
+    } catch (error) {
+      result.errors.push(
+        `${deposit.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  // Completed earlier but the credit didn't go through
+  for (const deposit of await getUncreditedCryptoDeposits()) {
+    try {
+      await creditCryptoDeposit(deposit);
+    } catch (error) {
+      result.errors.push(
+        `${deposit.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+// ============ RUN ============
+
+export async function runDepositWatcher(): Promise<WatcherRunResult> {
+  const result: WatcherRunResult = {
+    detected: 0,
+    unmatched: 0,
+    completed: 0,
+    reverted: 0,
+    expired: 0,
+    errors: [],
+  };
+
+  // One run at a time; the lease expires if a run dies
+  const lease = crypto.randomUUID();
+  if (
+    !(await kv.set(RUN_LEASE_KEY, lease, { nx: true, ex: RUN_LEASE_SECONDS }))
+  ) {
+    return { ...result, skipped: true };
+  }
+
+  try {
+    result.expired = await expireStaleCryptoDeposits();
+    const open = await getCryptoDepositsByStatus("pending");
+
+    for (const network of getEnabledNetworks()) {
+      try {
+        if (isEvmNetwork(network)) {
+          await scanEvm(network, open, result);
+        } else {
+          await scanSolana(open, result);
+        }
+      } catch (error) {
+        console.error(`Deposit watcher ${network} scan failed:`, error);
+        result.errors.push(
+          `${network}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    await completeFinalDeposits(result);
+  } finally {
+    if ((await kv.get<string>(RUN_LEASE_KEY)) === lease) {
+      await kv.del(RUN_LEASE_KEY);
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,8 @@
 // Client-side deposit management
 
+import { authFetch } from '@/lib/session';
+import type { DepositRecord } from '@/lib/deposit-reconciliation';
+
 export interface DepositResponse {
   success: boolean;
   message?: string;
@@ -24,6 +27,7 @@ export interface BalanceResponse {
     balance: number;
     totalDeposited: number;
     totalSpent: number;
+    reserved: number; // Held for withdrawals in progress
     lastUpdated: string;
   };
 }
@@ -40,6 +44,9 @@ export interface DepositStatusResponse {
     amount: string;
     paidAmount: string | null;
     creditAmount: number;
+    outcome: DepositRecord['outcome'] | null;
+    depositStatus: DepositRecord['status'] | null;
+    holdReason: string | null;
     currency: string;
     payerCurrency: string | null;
     network: string | null;
@@ -51,14 +58,19 @@ export interface DepositStatusResponse {
   };
 }
 
+export interface DepositHistoryResponse {
+  success: boolean;
+  message?: string;
+  data?: DepositRecord[];
+}
+
 class DepositClient {
   // Create a new deposit and get payment URL
   async createDeposit(params: {
     amount: number;
-    walletAddress: string;
     currency?: string;
   }): Promise<DepositResponse> {
-    const response = await fetch('/api/deposit/create', {
+    const response = await authFetch('/api/deposit/create', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(params),
@@ -66,29 +78,21 @@ class DepositClient {
     return response.json();
   }
 
-  // Get user balance
+  // Get the signed-in user's balance
   async getBalance(walletAddress: string): Promise<BalanceResponse> {
-    const response = await fetch(`/api/deposit/balance?wallet=${encodeURIComponent(walletAddress)}`);
+    const response = await authFetch(`/api/deposit/balance?wallet=${encodeURIComponent(walletAddress)}`);
     return response.json();
   }
 
-  // Update balance (internal)
-  async updateBalance(params: {
-    walletAddress: string;
-    action: 'credit' | 'debit';
-    amount: number;
-  }): Promise<BalanceResponse> {
-    const response = await fetch('/api/deposit/balance', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(params),
-    });
+  // Get the signed-in user's reconciled deposits (newest first)
+  async getDepositHistory(): Promise<DepositHistoryResponse> {
+    const response = await authFetch('/api/deposit/history');
     return response.json();
   }
 
   // Check deposit status
   async getDepositStatus(paymentId: string): Promise<DepositStatusResponse> {
-    const response = await fetch(`/api/deposit/status?paymentId=${encodeURIComponent(paymentId)}`);
+    const response = await authFetch(`/api/deposit/status?paymentId=${encodeURIComponent(paymentId)}`);
     return response.json();
   }
 }
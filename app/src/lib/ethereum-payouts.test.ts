@@ -0,0 +1,300 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { Transaction, Wallet, parseEther, parseUnits, toBeHex } from "ethers";
+import { createEvmPayoutSender } from "@/lib/ethereum-payouts";
+
+// Anvil's first dev account
+const TREASURY_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const TREASURY = new Wallet(TREASURY_KEY).address;
+const DESTINATION = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const ZERO_HASH = `0x${"00".repeat(32)}`;
+
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+async function readJson(req: http.IncomingMessage): Promise<JsonValue> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+async function listen(handler: (body: JsonValue, path: string) => JsonValue) {
+  const server = http.createServer(async (req, res) => {
+    const body = handler(await readJson(req), req.url || "/");
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+// In-memory stand-in for the Vercel KV (Upstash) REST API: the commands the nonce counter uses
+class FakeKv {
+  private values = new Map<string, { value: string; expiresAt?: number }>();
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  handle(body: JsonValue, path: string): JsonValue {
+    if (path.startsWith("/pipeline") || path.startsWith("/multi-exec")) {
+      return (body as string[][]).map((command) => this.result(command));
+    }
+    return this.result(body as string[]);
+  }
+
+  // Upstash sends string results base64-encoded
+  private result(command: string[]): JsonValue {
+    const result = this.run(command.map(String));
+    return {
+      result:
+        typeof result === "string" && result !== "OK"
+          ? Buffer.from(result).toString("base64")
+          : result,
+    };
+  }
+
+  private run([name, key, ...args]: string[]): string | number | null {
+    const current = this.values.get(key);
+    if (current?.expiresAt && current.expiresAt <= Date.now())
+      this.values.delete(key);
+
+    switch (name.toLowerCase()) {
+      case "get":
+        return this.values.get(key)?.value ?? null;
+      case "set": {
+        const flags = args.slice(1).map((a) => a.toLowerCase());
+        if (flags.includes("nx") && this.values.has(key)) return null;
+        const px = flags.indexOf("px");
+        const ex = flags.indexOf("ex");
+        const ttl =
+          px !== -1
+            ? Number(args[px + 2])
+            : ex !== -1
+            ? Number(args[ex + 2]) * 1000
+            : undefined;
+        this.values.set(key, {
+          value: args[0],
+          expiresAt: ttl ? Date.now() + ttl : undefined,
+        });
+        return "OK";
+      }
+      case "del":
+        return this.values.delete(key) ? 1 : 0;
+      default:
+        throw new Error(`FakeKv: unsupported command ${name}`);
+    }
+  }
+}
+
+// A one-account EVM node: transactions are kept until the test mines them
+class FakeChain {
+  minedCount = 0; // The treasury's mined nonce count
+  blockNumber = 1;
+  baseFee = parseUnits("10", "gwei");
+  readonly sent = new Map<
+    string,
+    { tx: Transaction; status?: number; blockNumber?: number }
+  >();
+
+  reset(): void {
+    this.minedCount = 0;
+    this.blockNumber = 1;
+    this.baseFee = parseUnits("10", "gwei");
+    this.sent.clear();
+  }
+
+  mine(hash: string, success: boolean): void {
+    const entry = this.sent.get(hash);
+    if (!entry) throw new Error(`Unknown transaction ${hash}`);
+    this.blockNumber++;
+    entry.status = success ? 1 : 0;
+    entry.blockNumber = this.blockNumber;
+    this.minedCount = Math.max(this.minedCount, entry.tx.nonce + 1);
+  }
+
+  handle(body: JsonValue): JsonValue {
+    if (Array.isArray(body)) return body.map((request) => this.handle(request));
+    const { id, method, params } = body as {
+      id: number;
+      method: string;
+      params: JsonValue[];
+    };
+    return { jsonrpc: "2.0", id, result: this.call(method, params) };
+  }
+
+  private call(method: string, params: JsonValue[]): JsonValue {
+    switch (method) {
+      case "eth_chainId":
+        return toBeHex(31337);
+      case "eth_blockNumber":
+        return toBeHex(this.blockNumber);
+      case "eth_getTransactionCount":
+        return toBeHex(this.minedCount);
+      case "eth_gasPrice":
+        return toBeHex(this.baseFee + parseUnits("1", "gwei"));
+      case "eth_maxPriorityFeePerGas":
+        return toBeHex(parseUnits("1", "gwei"));
+      case "eth_estimateGas":
+        return toBeHex(21000);
+      case "eth_getBlockByNumber":
+        return {
+          hash: ZERO_HASH.replace(/0$/, "1"),
+          parentHash: ZERO_HASH,
+          number: toBeHex(this.blockNumber),
+          timestamp: toBeHex(Math.floor(Date.now() / 1000)),
+          nonce: "0x0000000000000000",
+          difficulty: "0x0",
+          gasLimit: toBeHex(30_000_000),
+          gasUsed: "0x0",
+          miner: TREASURY,
+          extraData: "0x",
+          baseFeePerGas: toBeHex(this.baseFee),
+          transactions: [],
+        };
+      case "eth_sendRawTransaction": {
+        const tx = Transaction.from(params[0] as string);
+        this.sent.set(tx.hash!, { tx });
+        return tx.hash;
+      }
+      case "eth_getTransactionReceipt": {
+        const entry = this.sent.get(params[0] as string);
+        if (!entry?.blockNumber) return null;
+        return {
+          transactionHash: entry.tx.hash,
+          blockHash: ZERO_HASH.replace(/0$/, "2"),
+          blockNumber: toBeHex(entry.blockNumber),
+          transactionIndex: "0x0",
+          from: TREASURY,
+          to: entry.tx.to,
+          contractAddress: null,
+          logs: [],
+          logsBloom: `0x${"00".repeat(256)}`,
+          gasUsed: toBeHex(21000),
+          cumulativeGasUsed: toBeHex(21000),
+          effectiveGasPrice: toBeHex(this.baseFee + parseUnits("1", "gwei")),
+          type: "0x2",
+          status: toBeHex(entry.status!),
+        };
+      }
+      default:
+        throw new Error(`FakeChain: unsupported method ${method}`);
+    }
+  }
+}
+
+describe("EVM payout sender", () => {
+  const kv = new FakeKv();
+  const chain = new FakeChain();
+  const servers: { close(): Promise<void> }[] = [];
+  const sender = createEvmPayoutSender("ethereum");
+  const payout = {
+    destinationAddress: DESTINATION,
+    cryptoAmount: 0.5,
+    currency: "ETH" as const,
+  };
+
+  before(async () => {
+    const kvServer = await listen((body, path) => kv.handle(body, path));
+    const node = await listen((body) => chain.handle(body));
+    servers.push(kvServer, node);
+
+    process.env.KV_REST_API_URL = kvServer.url;
+    process.env.KV_REST_API_TOKEN = "test-token";
+    process.env.ETHEREUM_RPC_URL = node.url;
+    process.env.TREASURY_PRIVATE_KEY_ETHEREUM = TREASURY_KEY;
+  });
+
+  after(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+  });
+
+  beforeEach(() => {
+    kv.reset();
+    chain.reset();
+    delete process.env.ETHEREUM_MAX_FEE_GWEI;
+  });
+
+  it("sends an EIP-1559 payout and reports it confirmed once mined", async () => {
+    const signed = await sender.sign(payout);
+    assert.equal(signed.validUntil, 0);
+
+    await signed.send();
+    const sent = chain.sent.get(signed.txSignature)?.tx;
+    assert.ok(sent, "broadcast to the node");
+    assert.equal(sent.type, 2);
+    assert.equal(sent.to, DESTINATION);
+    assert.equal(sent.value, parseEther("0.5"));
+    assert.equal(sent.maxFeePerGas, parseUnits("21", "gwei")); // 2 x base fee + tip
+
+    assert.deepEqual(
+      await sender.check(signed.txSignature, signed.validUntil),
+      { state: "pending" }
+    );
+    chain.mine(signed.txSignature, true);
+    assert.deepEqual(
+      await sender.check(signed.txSignature, signed.validUntil),
+      { state: "confirmed" }
+    );
+  });
+
+  it("reports a reverted payout as failed", async () => {
+    const signed = await sender.sign(payout);
+    await signed.send();
+    chain.mine(signed.txSignature, false);
+
+    assert.deepEqual(
+      await sender.check(signed.txSignature, signed.validUntil),
+      {
+        state: "failed",
+        error: "Transaction reverted",
+      }
+    );
+  });
+
+  it("reports a payout whose nonce was used by another transaction as dropped", async () => {
+    const signed = await sender.sign(payout);
+    await signed.send();
+    chain.minedCount = 1;
+
+    assert.deepEqual(
+      await sender.check(signed.txSignature, signed.validUntil),
+      { state: "dropped" }
+    );
+  });
+
+  it("gives concurrent payouts their own nonces and reuses one never sent", async () => {
+    const [first, second] = await Promise.all([
+      sender.sign(payout),
+      sender.sign(payout),
+    ]);
+    assert.deepEqual([first.validUntil, second.validUntil].sort(), [0, 1]);
+
+    await first.release?.();
+    const third = await sender.sign(payout);
+    assert.equal(third.validUntil, first.validUntil);
+  });
+
+  it("refuses to sign while the base fee is over the cap", async () => {
+    process.env.ETHEREUM_MAX_FEE_GWEI = "5";
+    await assert.rejects(sender.sign(payout), /above the 5 gwei cap/);
+
+    // The nonce went back, so the next payout doesn't leave a gap
+    delete process.env.ETHEREUM_MAX_FEE_GWEI;
+    assert.equal((await sender.sign(payout)).validUntil, 0);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Ethereum Payouts (server only)
+ *
+ * Payout senders for withdrawals on Ethereum and the other EVM networks in
+ * the asset registry (see assets.ts) - the native coin or any ERC-20 listed
+ * there - one per network (see payout-senders.ts). All networks pay from
+ * the same treasury key.
+ *
+ * - EIP-1559 transactions. The tip comes from ETHEREUM_PRIORITY_FEE_GWEI
+ *   (or the node's suggestion) and the max fee is twice the base fee plus
+ *   the tip, never above ETHEREUM_MAX_FEE_GWEI. If the base fee alone is
+ *   over the cap, signing fails and the queue retries later.
+ * - Nonces are handed out from a KV counter under a lock, so concurrent
+ *   payouts never share a nonce. A nonce whose transaction is never sent
+ *   goes back to a free list and is used by the next payout, so no gap
+ *   is left that would block later transactions.
+ * - A transaction still unmined after ETHEREUM_REPLACE_AFTER_SECONDS is
+ *   replaced: the same transaction with the same nonce and fees bumped by
+ *   ETHEREUM_FEE_BUMP_PERCENT (nodes need at least 10%). Only one of them
+ *   can be mined; the queue watches all of them.
+ *
+ * Testing locally: point ETHEREUM_RPC_URL at an anvil or hardhat node
+ * (http://127.0.0.1:8545), use one of its funded keys as
+ * TREASURY_PRIVATE_KEY_ETHEREUM, and set ETHEREUM_USDT_CONTRACT to an
+ * ERC-20 with 6 decimals deployed there. Anvil's `--block-time` and
+ * `anvil_setNextBlockBaseFeePerGas` can be used to exercise stuck
+ * transactions and the fee cap.
+ */
+
+import { kv } from "@vercel/kv";
+import { withLock } from "@/lib/kv-store";
+import {
+  getAsset,
+  getAssetAddress,
+  getNetwork,
+  type CryptoNetwork,
+} from "@/lib/assets";
+import type {
+  PayoutInstruction,
+  PayoutSender,
+  SignedPayout,
+} from "@/lib/payout-senders";
+
+const DEFAULT_MAX_FEE_GWEI = 100;
+const DEFAULT_FEE_BUMP_PERCENT = 20;
+const DEFAULT_REPLACE_AFTER_SECONDS = 180;
+
+// Replacements must raise both fees by at least this much to be accepted
+const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+const ERC20_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+];
+
+const NONCE_PREFIX = "eth_nonce:";
+
+interface NonceState {
+  next: number; // Next never-used nonce
+  free: number[]; // Handed out but never sent; reused first
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? fallback : value;
+}
+
+export function getEthereumFeeSettings() {
+  return {
+    maxFeeGwei: readNumberEnv("ETHEREUM_MAX_FEE_GWEI", DEFAULT_MAX_FEE_GWEI),
+    priorityFeeGwei: process.env.ETHEREUM_PRIORITY_FEE_GWEI
+      ? readNumberEnv("ETHEREUM_PRIORITY_FEE_GWEI", 0)
+      : undefined, // Use the node's suggestion
+    bumpPercent: Math.max(
+      MIN_REPLACEMENT_BUMP_PERCENT,
+      readNumberEnv("ETHEREUM_FEE_BUMP_PERCENT", DEFAULT_FEE_BUMP_PERCENT)
+    ),
+    replaceAfterMs:
+      readNumberEnv(
+        "ETHEREUM_REPLACE_AFTER_SECONDS",
+        DEFAULT_REPLACE_AFTER_SECONDS
+      ) * 1000,
+  };
+}
+
+// Chain the payouts and deposit URIs are for (e.g. ETHEREUM_CHAIN_ID=31337 for a local anvil/hardhat node)
+export function getEvmChainId(network: CryptoNetwork = "ethereum"): number {
+  const { envPrefix, chainId } = getNetwork(network);
+  return readNumberEnv(`${envPrefix}_CHAIN_ID`, chainId ?? 1);
+}
+
+export async function getEthereumProvider(network: CryptoNetwork = "ethereum") {
+  const { envPrefix, defaultRpcUrl } = getNetwork(network);
+  const { ethers } = await import("ethers");
+  return {
+    ethers,
+    provider: new ethers.JsonRpcProvider(
+      process.env[`${envPrefix}_RPC_URL`] || defaultRpcUrl
+    ),
+  };
+}
+
+async function getEthereumWallet(network: CryptoNetwork) {
+  const privateKey = process.env.TREASURY_PRIVATE_KEY_ETHEREUM;
+  if (!privateKey) {
+    throw new Error("Ethereum treasury wallet not configured");
+  }
+
+  const { ethers, provider } = await getEthereumProvider(network);
+  return {
+    ethers,
+    provider,
+    network,
+    wallet: new ethers.Wallet(privateKey, provider),
+  };
+}
+
+type EthereumWallet = Awaited<ReturnType<typeof getEthereumWallet>>;
+
+// ============ NONCES ============
+
+// Each chain counts nonces separately (Ethereum keeps its original key)
+function nonceKey(network: CryptoNetwork, address: string): string {
+  return network === "ethereum"
+    ? `${NONCE_PREFIX}${address.toLowerCase()}`
+    : `${NONCE_PREFIX}${network}:${address.toLowerCase()}`;
+}
+
+/**
+ * Hand out a nonce for a new transaction from `address`. Nonces already
+ * mined on-chain are skipped, so the counter heals itself if something
+ * else sent from the treasury.
+ */
+async function allocateNonce(
+  network: CryptoNetwork,
+  address: string,
+  minedCount: number
+): Promise<number> {
+  const key = nonceKey(network, address);
+  return withLock(key, async () => {
+    const state = (await kv.get<NonceState>(key)) || { next: 0, free: [] };
+    const free = state.free
+      .filter((n) => n >= minedCount)
+      .sort((a, b) => a - b);
+
+    let nonce: number;
+    let next = Math.max(state.next, minedCount);
+    if (free.length > 0) {
+      nonce = free.shift()!;
+    } else {
+      nonce = next;
+      next += 1;
+    }
+
+    await kv.set(key, { next, free } satisfies NonceState);
+    return nonce;
+  });
+}
+
+// Give back a nonce whose transaction was never sent
+async function releaseNonce(
+  network: CryptoNetwork,
+  address: string,
+  nonce: number
+): Promise<void> {
+  const key = nonceKey(network, address);
+  await withLock(key, async () => {
+    const state = await kv.get<NonceState>(key);
+    if (!state || nonce >= state.next || state.free.includes(nonce)) return;
+    await kv.set(key, {
+      ...state,
+      free: [...state.free, nonce],
+    } satisfies NonceState);
+  });
+}
+
+// ============ FEES ============
+
+interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Fees for a new transaction, capped at ETHEREUM_MAX_FEE_GWEI
+async function estimateFees({
+  ethers,
+  provider,
+}: EthereumWallet): Promise<Eip1559Fees> {
+  const settings = getEthereumFeeSettings();
+  const cap = ethers.parseUnits(String(settings.maxFeeGwei), "gwei");
+
+  const [block, feeData] = await Promise.all([
+    provider.getBlock("latest"),
+    provider.getFeeData(),
+  ]);
+  const baseFee = block?.baseFeePerGas;
+  if (baseFee === null || baseFee === undefined) {
+    throw new Error("Ethereum node does not support EIP-1559 fees");
+  }
+
+  let priority =
+    settings.priorityFeeGwei !== undefined
+      ? ethers.parseUnits(String(settings.priorityFeeGwei), "gwei")
+      : feeData.maxPriorityFeePerGas ?? ethers.parseUnits("1", "gwei");
+
+  if (baseFee + priority > cap) {
+    if (baseFee >= cap) {
+      throw new Error(
+        `Ethereum base fee ${ethers.formatUnits(
+          baseFee,
+          "gwei"
+        )} gwei is above the ${settings.maxFeeGwei} gwei cap`
+      );
+    }
+    priority = cap - baseFee;
+  }
+
+  const maxFee = baseFee * BigInt(2) + priority;
+  return {
+    maxFeePerGas: maxFee > cap ? cap : maxFee,
+    maxPriorityFeePerGas: priority,
+  };
+}
+
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(100 + Math.ceil(percent))) / BigInt(100);
+}
+
+// ============ SENDER ============
+
+// The unsigned transaction for a payout
+async function buildPayoutRequest(
+  eth: EthereumWallet,
+  payout: PayoutInstruction
+) {
+  const { ethers, wallet, network } = eth;
+
+  const asset = getAsset(network, payout.currency);
+  if (!asset?.withdrawals) {
+    throw new Error(
+      `Unsupported ${getNetwork(network).name} currency: ${payout.currency}`
+    );
+  }
+  const amount = ethers.parseUnits(
+    payout.cryptoAmount.toFixed(asset.decimals),
+    asset.decimals
+  );
+
+  const contract = getAssetAddress(asset);
+  if (!contract) {
+    return { to: payout.destinationAddress, value: amount };
+  }
+
+  const token = new ethers.Contract(contract, ERC20_ABI, wallet);
+
+  // A transfer the treasury can't cover would only revert on-chain and burn gas
+  const balance: bigint = await token.balanceOf(wallet.address);
+  if (balance < amount) {
+    throw new Error(
+      `Treasury ${asset.symbol} balance too low: ${ethers.formatUnits(
+        balance,
+        asset.decimals
+      )} < ${payout.cryptoAmount}`
+    );
+  }
+
+  return token.transfer.populateTransaction(payout.destinationAddress, amount);
+}
+
+async function signPayout(
+  eth: EthereumWallet,
+  payout: PayoutInstruction,
+  nonce: number,
+  fees: Eip1559Fees
+): Promise<Omit<SignedPayout, "release">> {
+  const { ethers, provider, wallet } = eth;
+
+  const request = await wallet.populateTransaction({
+    ...(await buildPayoutRequest(eth, payout)),
+    type: 2,
+    nonce,
+    ...fees,
+  });
+  const signed = await wallet.signTransaction(request);
+
+  return {
+    txSignature: ethers.Transaction.from(signed).hash!,
+    validUntil: nonce,
+    async send() {
+      await provider.broadcastTransaction(signed);
+    },
+  };
+}
+
+// The payout sender for an EVM network
+export function createEvmPayoutSender(network: CryptoNetwork): PayoutSender {
+  return {
+    async sign(payout) {
+      const eth = await getEthereumWallet(network);
+      const minedCount = await eth.provider.getTransactionCount(
+        eth.wallet.address,
+        "latest"
+      );
+      const nonce = await allocateNonce(
+        network,
+        eth.wallet.address,
+        minedCount
+      );
+
+      try {
+        const signed = await signPayout(
+          eth,
+          payout,
+          nonce,
+          await estimateFees(eth)
+        );
+        return {
+          ...signed,
+          release: () => releaseNonce(network, eth.wallet.address, nonce),
+        };
+      } catch (error) {
+        await releaseNonce(network, eth.wallet.address, nonce);
+        throw error;
+      }
+    },
+
+    async check(txSignature, validUntil) {
+      const { provider, wallet } = await getEthereumWallet(network);
+      const receipt = await provider.getTransactionReceipt(txSignature);
+
+      if (receipt) {
+        return receipt.status === 1
+          ? { state: "confirmed" }
+          : { state: "failed", error: "Transaction reverted" };
+      }
+
+      // Not mined: if its nonce has been used by another transaction it never will be
+      const minedNonce = await provider.getTransactionCount(
+        wallet.address,
+        "latest"
+      );
+      return { state: minedNonce > validUntil ? "dropped" : "pending" };
+    },
+
+    // Re-sign a stuck payout with the same nonce and higher fees
+    async replace(payout, txSignature, validUntil, sentAt) {
+      const settings = getEthereumFeeSettings();
+      if (Date.now() - sentAt.getTime() < settings.replaceAfterMs) return null;
+
+      const eth = await getEthereumWallet(network);
+      const { ethers, provider } = eth;
+      const cap = ethers.parseUnits(String(settings.maxFeeGwei), "gwei");
+
+      const [previous, current] = await Promise.all([
+        provider.getTransaction(txSignature),
+        estimateFees(eth).catch(() => null),
+      ]);
+      // The node no longer knows the transaction: send it again at current fees
+      if (!previous?.maxFeePerGas || !previous.maxPriorityFeePerGas) {
+        if (!current) return null;
+        return signPayout(eth, payout, validUntil, current);
+      }
+
+      const maxPriorityFeePerGas = bump(
+        previous.maxPriorityFeePerGas,
+        settings.bumpPercent
+      );
+      let maxFeePerGas = bump(previous.maxFeePerGas, settings.bumpPercent);
+      if (current && current.maxFeePerGas > maxFeePerGas)
+        maxFeePerGas = current.maxFeePerGas;
+      if (maxFeePerGas > cap) maxFeePerGas = cap;
+
+      // Capped below what the node would accept as a replacement - keep waiting
+      if (
+        maxFeePerGas <
+          bump(previous.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT) ||
+        maxPriorityFeePerGas > maxFeePerGas
+      ) {
+        console.warn(
+          `${
+            getNetwork(network).name
+          } payout ${txSignature} is stuck but its fees are at the cap`
+        );
+        return null;
+      }
+
+      return signPayout(eth, payout, validUntil, {
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      });
+    },
+  };
+}
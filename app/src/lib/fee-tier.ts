@@ -0,0 +1,107 @@
+/**
+ * Fee Tier Resolution (server only)
+ *
+ * Works out which fee tier (see fees.ts) a wallet qualifies for.
+ * Wallets with at least MIN_STAKE_AMOUNT $KryptCash staked get the staker
+ * tier - the same threshold the staking page requires. The staked amount
+ * is read from the wallet's UserStake account in the staking program
+ * (programs/memecoin-staking), so tokens merely held in the wallet don't
+ * count.
+ *
+ * Results are cached in Vercel KV for a few minutes so quotes and the
+ * charge that follows them agree.
+ */
+
+import { kv } from "@vercel/kv";
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { FeeTier } from "@/lib/fees";
+
+const TIER_CACHE_PREFIX = "fee_tier:";
+const TIER_CACHE_TTL_SECONDS = 10 * 60;
+
+const MIN_STAKE_AMOUNT = 1_000_000;
+const TOKEN_DECIMALS = 6;
+
+// The memecoin_staking program (see Anchor.toml)
+const DEFAULT_STAKING_PROGRAM_ID =
+  "2RoYimfnkSHZTFrjzLNYt5DSJKPm6VHRbg2k3sfmyCDB";
+
+// UserStake layout: 8-byte Anchor discriminator, owner, pool, staked_amount (u64 LE), ...
+const USER_STAKE_OWNER_OFFSET = 8;
+const USER_STAKE_AMOUNT_OFFSET = 8 + 32 + 32;
+
+// Tokens the wallet has staked in the pool for `mint` (0 without a stake account)
+async function getStakedAmount(
+  connection: Connection,
+  mint: PublicKey,
+  owner: PublicKey
+): Promise<number> {
+  const programId = new PublicKey(
+    process.env.NEXT_PUBLIC_STAKING_PROGRAM_ID || DEFAULT_STAKING_PROGRAM_ID
+  );
+  const [pool] = PublicKey.findProgramAddressSync(
+    [Buffer.from("pool"), mint.toBuffer()],
+    programId
+  );
+  const [userStake] = PublicKey.findProgramAddressSync(
+    [Buffer.from("user_stake"), pool.toBuffer(), owner.toBuffer()],
+    programId
+  );
+
+  const account = await connection.getAccountInfo(userStake);
+  if (
+    !account ||
+    !account.owner.equals(programId) ||
+    account.data.length < USER_STAKE_AMOUNT_OFFSET + 8
+  ) {
+    return 0;
+  }
+
+  const data = Buffer.from(account.data);
+  const stakeOwner = new PublicKey(
+    data.subarray(USER_STAKE_OWNER_OFFSET, USER_STAKE_OWNER_OFFSET + 32)
+  );
+  if (!stakeOwner.equals(owner)) return 0;
+
+  return (
+    Number(data.readBigUInt64LE(USER_STAKE_AMOUNT_OFFSET)) /
+    Math.pow(10, TOKEN_DECIMALS)
+  );
+}
+
+export async function resolveFeeTier(walletAddress: string): Promise<FeeTier> {
+  const stakingMint = process.env.NEXT_PUBLIC_STAKING_MINT;
+  if (!stakingMint) return "standard";
+
+  const cacheKey = `${TIER_CACHE_PREFIX}${walletAddress}`;
+  try {
+    const cached = await kv.get<FeeTier>(cacheKey);
+    if (cached) return cached;
+  } catch (error) {
+    console.error("Failed to read fee tier cache:", error);
+  }
+
+  let tier: FeeTier = "standard";
+  try {
+    const rpcUrl =
+      process.env.NEXT_PUBLIC_RPC_URL || "https://api.mainnet-beta.solana.com";
+    const connection = new Connection(rpcUrl, "confirmed");
+    const staked = await getStakedAmount(
+      connection,
+      new PublicKey(stakingMint),
+      new PublicKey(walletAddress)
+    );
+    tier = staked >= MIN_STAKE_AMOUNT ? "staker" : "standard";
+  } catch (error) {
+    // Can't check - charge standard fees rather than fail the request
+    console.error("Failed to resolve fee tier:", error);
+    return "standard";
+  }
+
+  try {
+    await kv.set(cacheKey, tier, { ex: TIER_CACHE_TTL_SECONDS });
+  } catch (error) {
+    console.error("Failed to cache fee tier:", error);
+  }
+  return tier;
+}
@@ -0,0 +1,254 @@
+/**
+ * Fee Schedule
+ *
+ * Single source of truth for every fee we charge: card issuance, card
+ * funding, deposits (per rail) and withdrawals (per currency). Shared by
+ * the UI and the server so the price a user is shown is the price the
+ * server charges.
+ *
+ * Schedules are versioned. Every quote carries the version it was
+ * computed with, ledger postings record it, and the server rejects a
+ * charge quoted against an older version. To change fees, append a new
+ * schedule to FEE_SCHEDULES rather than editing an existing one.
+ *
+ * Tiers apply a discount to our own fees (service, deposit and withdrawal
+ * percentage fees). Pass-through costs - the card issuer's card fee and
+ * network gas - are never discounted.
+ */
+
+import type { CryptoNetwork } from "@/lib/assets";
+import type { WithdrawalCurrency } from "@/lib/withdrawal";
+
+export type FeeTier = "standard" | "staker";
+
+// How a deposit reaches us: Cryptomus, or directly on one of the asset registry's networks
+export type DepositRail = "cryptomus" | CryptoNetwork;
+
+export interface RateFee {
+  rate: number; // Fraction of the amount (0.02 = 2%)
+  flat: number; // USD
+}
+
+export interface FeeSchedule {
+  version: string;
+  effectiveFrom: string;
+  cardIssuance: {
+    cardFee: number; // Flat issuer fee per new card (USD)
+    minimumLoad: number;
+  };
+  service: RateFee; // Charged on card issuance and funding loads
+  deposits: Record<DepositRail, RateFee & { minimum: number }>;
+  withdrawals: Record<
+    WithdrawalCurrency,
+    { rate: number; networkFee: number; minimum: number }
+  >;
+  tiers: Record<FeeTier, { label: string; discount: number }>; // discount: fraction off our fees
+}
+
+export const FEE_SCHEDULES: FeeSchedule[] = [
+  {
+    version: "2025-01",
+    effectiveFrom: "2025-01-01T00:00:00Z",
+    cardIssuance: { cardFee: 4, minimumLoad: 10 },
+    service: { rate: 0.02, flat: 1 },
+    deposits: {
+      cryptomus: { rate: 0.02, flat: 5, minimum: 20 },
+      solana: { rate: 0.02, flat: 5, minimum: 20 },
+      ethereum: { rate: 0.02, flat: 5, minimum: 20 },
+      base: { rate: 0.02, flat: 5, minimum: 20 },
+      arbitrum: { rate: 0.02, flat: 5, minimum: 20 },
+    },
+    withdrawals: {
+      SOL: { rate: 0.01, networkFee: 0.01, minimum: 10 },
+      USDT: { rate: 0.01, networkFee: 0.02, minimum: 10 },
+      ETH: { rate: 0.02, networkFee: 5, minimum: 25 }, // Higher due to gas costs
+      USDC: { rate: 0.01, networkFee: 0.05, minimum: 10 },
+      PYUSD: { rate: 0.01, networkFee: 0.02, minimum: 10 },
+    },
+    tiers: {
+      standard: { label: "Standard", discount: 0 },
+      staker: { label: "$KryptCash Staker", discount: 0.25 },
+    },
+  },
+];
+
+export const CURRENT_FEE_SCHEDULE = FEE_SCHEDULES[FEE_SCHEDULES.length - 1];
+
+export function getFeeSchedule(version?: string): FeeSchedule | null {
+  if (!version) return CURRENT_FEE_SCHEDULE;
+  return FEE_SCHEDULES.find((s) => s.version === version) || null;
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Our fee on `amount` at `fee`, after the tier discount
+function discountedFee(
+  amount: number,
+  fee: RateFee,
+  tier: FeeTier,
+  schedule: FeeSchedule
+): number {
+  const discount = schedule.tiers[tier]?.discount ?? 0;
+  return roundUsd((amount * fee.rate + fee.flat) * (1 - discount));
+}
+
+export function describeRateFee(
+  fee: RateFee,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): string {
+  const discount = schedule.tiers[tier]?.discount ?? 0;
+  const base = `${+(fee.rate * 100).toFixed(2)}% + $${fee.flat}`;
+  return discount > 0 ? `${base}, ${discount * 100}% off` : base;
+}
+
+interface QuoteBase {
+  scheduleVersion: string;
+  tier: FeeTier;
+}
+
+export interface CardIssuanceQuote extends QuoteBase {
+  cardAmount: number;
+  cardFee: number;
+  serviceFee: number;
+  totalFees: number;
+  totalCost: number; // Debited from the user's balance
+}
+
+export interface CardFundingQuote extends QuoteBase {
+  fundAmount: number;
+  serviceFee: number;
+  totalCost: number;
+}
+
+export interface DepositQuote extends QuoteBase {
+  rail: DepositRail;
+  grossAmount: number; // What the user sends
+  fee: number;
+  netAmount: number; // What is credited
+  minimum: number;
+}
+
+export interface WithdrawalQuote extends QuoteBase {
+  currency: WithdrawalCurrency;
+  grossAmount: number; // USD debited
+  feePercent: number;
+  feeUsd: number;
+  networkFeeUsd: number;
+  netAmountUsd: number; // USD value sent
+  minimum: number;
+}
+
+export function quoteCardIssuance(
+  amount: number,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): CardIssuanceQuote {
+  const cardFee = schedule.cardIssuance.cardFee;
+  const serviceFee = discountedFee(amount, schedule.service, tier, schedule);
+  const totalFees = roundUsd(cardFee + serviceFee);
+  return {
+    scheduleVersion: schedule.version,
+    tier,
+    cardAmount: amount,
+    cardFee,
+    serviceFee,
+    totalFees,
+    totalCost: roundUsd(amount + totalFees),
+  };
+}
+
+// Funding an existing card: service fee only, no card fee
+export function quoteCardFunding(
+  amount: number,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): CardFundingQuote {
+  const serviceFee = discountedFee(amount, schedule.service, tier, schedule);
+  return {
+    scheduleVersion: schedule.version,
+    tier,
+    fundAmount: amount,
+    serviceFee,
+    totalCost: roundUsd(amount + serviceFee),
+  };
+}
+
+// Fee taken from a deposit of `grossAmount`
+export function quoteDeposit(
+  rail: DepositRail,
+  grossAmount: number,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): DepositQuote {
+  const railFee = schedule.deposits[rail];
+  const fee = discountedFee(grossAmount, railFee, tier, schedule);
+  return {
+    scheduleVersion: schedule.version,
+    tier,
+    rail,
+    grossAmount: roundUsd(grossAmount),
+    fee,
+    netAmount: Math.max(0, roundUsd(grossAmount - fee)),
+    minimum: railFee.minimum,
+  };
+}
+
+// How much to send so that `netAmount` is credited
+// net = gross - (gross * rate + flat) * (1 - discount)  =>  solve for gross
+export function quoteDepositForNet(
+  rail: DepositRail,
+  netAmount: number,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): DepositQuote {
+  const railFee = schedule.deposits[rail];
+  const keep = 1 - (schedule.tiers[tier]?.discount ?? 0);
+  const grossAmount =
+    (netAmount + railFee.flat * keep) / (1 - railFee.rate * keep);
+  return {
+    scheduleVersion: schedule.version,
+    tier,
+    rail,
+    grossAmount: roundUsd(grossAmount),
+    fee: roundUsd(grossAmount - netAmount),
+    netAmount,
+    minimum: railFee.minimum,
+  };
+}
+
+export function quoteWithdrawal(
+  currency: WithdrawalCurrency,
+  amountUsd: number,
+  tier: FeeTier = "standard",
+  schedule = CURRENT_FEE_SCHEDULE
+): WithdrawalQuote {
+  const fees = schedule.withdrawals[currency];
+  const feeUsd = discountedFee(
+    amountUsd,
+    { rate: fees.rate, flat: 0 },
+    tier,
+    schedule
+  );
+  const netAmountUsd = roundUsd(amountUsd - feeUsd - fees.networkFee);
+  return {
+    scheduleVersion: schedule.version,
+    tier,
+    currency,
+    grossAmount: amountUsd,
+    feePercent: fees.rate * (1 - (schedule.tiers[tier]?.discount ?? 0)),
+    feeUsd,
+    networkFeeUsd: fees.networkFee,
+    netAmountUsd: Math.max(0, netAmountUsd),
+    minimum: fees.minimum,
+  };
+}
+
+// A client quoted against a schedule that's no longer current
+export function isStaleFeeQuote(scheduleVersion?: string | null): boolean {
+  return (
+    Boolean(scheduleVersion) && scheduleVersion !== CURRENT_FEE_SCHEDULE.version
+  );
+}
@@ -12,6 +12,8 @@
 
 import { Connection, Keypair, PublicKey, Transaction, SystemProgram, sendAndConfirmTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { getPrice } from './price-oracle';
+import { getKripiCardProvider } from './kripicard-provider';
 
 const KRIPICARD_BASE_URL = 'https://kripicard.com';
 
@@ -417,18 +419,6 @@ async function sendSolPayment(
   return signature;
 }
 
-// ============ GET SOL PRICE ============
-
-async function getSolPrice(): Promise<number> {
-  try {
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
-    const data = await response.json();
-    return data.solana?.usd || 185;
-  } catch {
-    return 185; // Fallback
-  }
-}
-
 // ============ WAIT FOR CRYPTOMUS CONFIRMATION ============
 
 async function waitForCryptomusConfirmation(
@@ -497,7 +487,7 @@ export async function autoFundKripicard(
 
     if (chain === 'SOL') {
       // For SOL, we need to get the address and calculate amount
-      const solPrice = await getSolPrice();
+      const solPrice = await getPrice('SOL');
       cryptoAmount = (amountUsd / solPrice) * 1.02; // 2% buffer for price fluctuation
       
       try {
@@ -597,25 +587,15 @@ export async function fundAndCreateCard(
   await new Promise(resolve => setTimeout(resolve, 30000));
 
   // Step 2: Create card
-  const apiKey = process.env.KRIPICARD_API_KEY;
   const bankBin = process.env.KRIPICARD_BANK_BIN;
 
-  const createResponse = await fetch('https://kripicard.com/api/premium/Create_card', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      api_key: apiKey,
-      amount: cardAmountUsd,
-      bankBin: Number(bankBin),
-    }),
-  });
-
-  const createData = await createResponse.json();
-
-  if (!createData.success) {
+  let createData;
+  try {
+    createData = await getKripiCardProvider().createCard({ amount: cardAmountUsd, bankBin: String(bankBin) });
+  } catch (error) {
     return {
       success: false,
-      message: createData.message || 'Card creation failed after funding',
+      message: error instanceof Error ? error.message : 'Card creation failed after funding',
       fundingTx: fundResult.txSignature,
     };
   }
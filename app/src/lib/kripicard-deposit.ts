@@ -6,6 +6,8 @@
 import { Connection, Keypair, PublicKey, Transaction, SystemProgram, sendAndConfirmTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { initiateDeposit, checkDepositStatus, getKripicardBalance } from './kripicard-dashboard';
+import { getPrice } from './price-oracle';
+import { getKripiCardProvider } from './kripicard-provider';
 
 interface DepositResult {
   success: boolean;
@@ -17,20 +19,6 @@ interface DepositResult {
   amountUsd?: number;
 }
 
-/**
- * Get SOL price in USD (uses CoinGecko)
- */
-async function getSolPrice(): Promise<number> {
-  try {
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
-    const data = await response.json();
-    return data.solana?.usd || 180; // Fallback to $180 if API fails
-  } catch {
-    console.warn('Failed to get SOL price, using fallback');
-    return 180;
-  }
-}
-
 /**
  * Get treasury wallet keypair
  */
@@ -110,7 +98,7 @@ export async function autoDepositToKripicard(amountUsd: number): Promise<Deposit
 
   try {
     // Step 1: Get SOL price and calculate amount
-    const solPrice = await getSolPrice();
+    const solPrice = await getPrice('SOL');
     const amountSol = (amountUsd / solPrice) * 1.02; // Add 2% buffer for price fluctuation
     console.log('SOL Price:', solPrice, 'Amount SOL:', amountSol);
 
@@ -243,25 +231,15 @@ export async function depositAndCreateCard(
   }
 
   // Step 3: Create card via API
-  const apiKey = process.env.KRIPICARD_API_KEY;
   const bin = bankBin || Number(process.env.KRIPICARD_BANK_BIN);
 
-  const createCardResponse = await fetch('https://kripicard.com/api/premium/Create_card', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      api_key: apiKey,
-      amount: cardAmount,
-      bankBin: bin,
-    }),
-  });
-
-  const cardData = await createCardResponse.json();
-
-  if (!cardData.success) {
+  let cardData;
+  try {
+    cardData = await getKripiCardProvider().createCard({ amount: cardAmount, bankBin: bin });
+  } catch (error) {
     return {
       success: false,
-      message: cardData.message || 'Failed to create card after deposit',
+      message: error instanceof Error ? error.message : 'Failed to create card after deposit',
       txSignature: depositResult.txSignature,
     };
   }
@@ -0,0 +1,448 @@
+/**
+ * KripiCard Mock
+ *
+ * Stand-in for the KripiCard premium API, so the card flows (create,
+ * fund, details, freeze) can run without a KripiCard account. Never used
+ * in production.
+ *
+ * - KripiCardMock answers the same endpoints with the same JSON shapes,
+ *   checking the API key, BIN and our KripiCard account balance like the
+ *   real API, and keeps cards, balances and transactions in memory
+ * - Failures can be queued per endpoint (`failNext`) to exercise the
+ *   provider's error classification and retries
+ * - startKripiCardMockServer serves a mock over HTTP on a local port, for
+ *   tests. With KRIPICARD_MOCK=true the app serves one itself at
+ *   /api/kripicard/mock and the provider uses it
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import type { CardTransaction } from "@/lib/cards";
+
+export const MOCK_API_KEY = "mock-api-key";
+
+const DEFAULT_ACCOUNT_BALANCE = 1000;
+const FUNDING_FEE_RATE = 0.02;
+const MIN_AMOUNT = 10;
+
+export type MockFailure =
+  | "rate_limited"
+  | "server_error"
+  | "invalid_response"
+  | "insufficient_balance"
+  | "invalid_bin";
+
+export interface MockCard {
+  cardId: string;
+  cardNumber: string;
+  cvv: string;
+  expiryMonth: string;
+  expiryYear: string;
+  nameOnCard: string;
+  balance: number;
+  status: "active" | "frozen";
+  transactions: CardTransaction[];
+  createdAt: string;
+}
+
+export interface KripiCardMockOptions {
+  apiKey?: string;
+  accountBalance?: number; // Our KripiCard account's USD balance
+  bins?: string[]; // BINs cards can be issued on (defaults to any 6-8 digit BIN)
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown; // A string is sent as-is (not JSON)
+  headers?: Record<string, string>;
+}
+
+function randomDigits(count: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(count)))
+    .map((b) => String(b % 10))
+    .join("");
+}
+
+export class KripiCardMock {
+  private cards = new Map<string, MockCard>();
+  private failures = new Map<string, MockFailure[]>();
+  private options: Required<Omit<KripiCardMockOptions, "bins">> & {
+    bins?: string[];
+  };
+
+  accountBalance: number;
+
+  // Every call received, oldest first
+  readonly calls: { endpoint: string; params: Record<string, string> }[] = [];
+
+  constructor(options: KripiCardMockOptions = {}) {
+    this.options = {
+      apiKey: MOCK_API_KEY,
+      accountBalance: DEFAULT_ACCOUNT_BALANCE,
+      ...options,
+    };
+    this.accountBalance = this.options.accountBalance;
+  }
+
+  // Fail the next `times` calls to `endpoint` (e.g. "Fund_Card")
+  failNext(endpoint: string, failure: MockFailure, times = 1): void {
+    const queue = this.failures.get(endpoint) || [];
+    for (let i = 0; i < times; i++) queue.push(failure);
+    this.failures.set(endpoint, queue);
+  }
+
+  getCard(cardId: string): MockCard | null {
+    return this.cards.get(cardId) || null;
+  }
+
+  listCards(): MockCard[] {
+    return Array.from(this.cards.values());
+  }
+
+  // A purchase on a card, as KripiCard would report it
+  charge(cardId: string, amount: number, merchant: string): CardTransaction {
+    const card = this.cards.get(cardId);
+    if (!card) throw new Error(`Unknown card: ${cardId}`);
+
+    const declined = card.status !== "active" || card.balance < amount;
+    if (!declined) card.balance -= amount;
+
+    const transaction: CardTransaction = {
+      id: crypto.randomUUID(),
+      type: "charge",
+      amount,
+      merchant,
+      status: declined ? "failed" : "completed",
+      created_at: new Date().toISOString(),
+    };
+    card.transactions.push(transaction);
+    return transaction;
+  }
+
+  reset(): void {
+    this.cards.clear();
+    this.failures.clear();
+    this.calls.length = 0;
+    this.accountBalance = this.options.accountBalance;
+  }
+
+  handle(endpoint: string, params: Record<string, string>): MockResponse {
+    this.calls.push({ endpoint, params });
+
+    if (params.api_key !== this.options.apiKey) {
+      return {
+        status: 401,
+        body: { success: false, message: "Invalid API key" },
+      };
+    }
+
+    const failure = this.failures.get(endpoint)?.shift();
+    if (failure) return this.failureResponse(failure);
+
+    switch (endpoint) {
+      case "Create_card":
+        return this.createCard(params);
+      case "Fund_Card":
+        return this.fundCard(params);
+      case "Get_CardDetails":
+        return this.cardDetails(params);
+      case "Freeze_Unfreeze":
+        return this.freezeUnfreeze(params);
+      default:
+        return {
+          status: 404,
+          body: { success: false, message: `Unknown endpoint ${endpoint}` },
+        };
+    }
+  }
+
+  private failureResponse(failure: MockFailure): MockResponse {
+    switch (failure) {
+      case "rate_limited":
+        return {
+          status: 429,
+          body: { success: false, message: "Too many requests" },
+          headers: { "Retry-After": "1" },
+        };
+      case "server_error":
+        return {
+          status: 500,
+          body: { success: false, message: "Internal server error" },
+        };
+      case "invalid_response":
+        return { status: 502, body: "<html><body>Bad gateway</body></html>" };
+      case "insufficient_balance":
+        return {
+          status: 200,
+          body: { success: false, message: "INSUFFICIENT_BALANCE" },
+        };
+      case "invalid_bin":
+        return {
+          status: 200,
+          body: { success: false, message: "Invalid bankBin" },
+        };
+    }
+  }
+
+  private isValidBin(bin: string): boolean {
+    return this.options.bins
+      ? this.options.bins.includes(bin)
+      : /^\d{6,8}$/.test(bin);
+  }
+
+  private createCard(params: Record<string, string>): MockResponse {
+    const amount = parseFloat(params.amount);
+    if (isNaN(amount) || amount < MIN_AMOUNT) {
+      return {
+        status: 200,
+        body: {
+          success: false,
+          message: `Minimum amount is ${MIN_AMOUNT} USD`,
+        },
+      };
+    }
+    if (!params.bankBin || !this.isValidBin(params.bankBin)) {
+      return {
+        status: 200,
+        body: { success: false, message: "Invalid bankBin" },
+      };
+    }
+    if (this.accountBalance < amount) {
+      return {
+        status: 200,
+        body: { success: false, message: "INSUFFICIENT_BALANCE" },
+      };
+    }
+
+    this.accountBalance -= amount;
+    const expiry = new Date();
+    expiry.setFullYear(expiry.getFullYear() + 3);
+
+    const card: MockCard = {
+      cardId: `mock_${randomDigits(10)}`,
+      cardNumber: `${params.bankBin}${randomDigits(
+        16 - params.bankBin.length
+      )}`,
+      cvv: randomDigits(3),
+      expiryMonth: String(expiry.getMonth() + 1).padStart(2, "0"),
+      expiryYear: String(expiry.getFullYear()),
+      nameOnCard: params.name_on_card || "",
+      balance: amount,
+      status: "active",
+      transactions: [],
+      createdAt: new Date().toISOString(),
+    };
+    card.transactions.push({
+      id: crypto.randomUUID(),
+      type: "funding",
+      amount,
+      status: "completed",
+      created_at: card.createdAt,
+    });
+    this.cards.set(card.cardId, card);
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        message: "Card created successfully",
+        card_id: card.cardId,
+      },
+    };
+  }
+
+  private fundCard(params: Record<string, string>): MockResponse {
+    const card = this.cards.get(params.card_id);
+    if (!card)
+      return {
+        status: 404,
+        body: { success: false, message: "Card not found" },
+      };
+
+    const amount = parseFloat(params.amount);
+    if (isNaN(amount) || amount < MIN_AMOUNT) {
+      return {
+        status: 200,
+        body: {
+          success: false,
+          message: `Minimum amount is ${MIN_AMOUNT} USD`,
+        },
+      };
+    }
+
+    const fee = Math.round(amount * FUNDING_FEE_RATE * 100) / 100;
+    if (this.accountBalance < amount + fee) {
+      return {
+        status: 200,
+        body: { success: false, message: "INSUFFICIENT_BALANCE" },
+      };
+    }
+
+    this.accountBalance -= amount + fee;
+    card.balance += amount;
+    const now = new Date().toISOString();
+    const reference = `MOCK-${randomDigits(8)}`;
+    card.transactions.push({
+      id: reference,
+      type: "funding",
+      amount,
+      status: "completed",
+      created_at: now,
+    });
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        message: "Card funded successfully",
+        data: {
+          card_id: card.cardId,
+          amount,
+          fee,
+          total_debited: amount + fee,
+          reference,
+          created_at: now,
+          updated_at: now,
+        },
+      },
+    };
+  }
+
+  private cardDetails(params: Record<string, string>): MockResponse {
+    const card = this.cards.get(params.card_id);
+    if (!card)
+      return {
+        status: 404,
+        body: { success: false, message: "Card not found" },
+      };
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        message: "Card details retrieved successfully",
+        data: {
+          details: {
+            card_number: card.cardNumber,
+            cvv: card.cvv,
+            expiry_month: card.expiryMonth,
+            expiry_year: card.expiryYear,
+            balance: card.balance,
+            status: card.status,
+          },
+          Transactions: card.transactions,
+        },
+      },
+    };
+  }
+
+  private freezeUnfreeze(params: Record<string, string>): MockResponse {
+    const card = this.cards.get(params.card_id);
+    if (!card)
+      return {
+        status: 404,
+        body: { success: false, message: "Card not found" },
+      };
+    if (params.action !== "freeze" && params.action !== "unfreeze") {
+      return {
+        status: 200,
+        body: { success: false, message: "Action must be freeze or unfreeze" },
+      };
+    }
+
+    card.status = params.action === "freeze" ? "frozen" : "active";
+    return {
+      status: 200,
+      body: {
+        success: true,
+        message: `Card ${
+          params.action === "freeze" ? "frozen" : "unfrozen"
+        } successfully`,
+        data: {
+          action: params.action,
+          card_id: card.cardId,
+          status: card.status,
+          updated_at: new Date().toISOString(),
+        },
+      },
+    };
+  }
+}
+
+// Request parameters: the query string for GET, the JSON body for POST
+async function readParams(
+  req: http.IncomingMessage,
+  url: URL
+): Promise<Record<string, string>> {
+  const params: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    params[key] = value;
+  });
+  if (req.method !== "POST") return params;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}");
+    for (const [key, value] of Object.entries(body))
+      params[key] = String(value);
+  } catch {
+    // Treated as no body
+  }
+  return params;
+}
+
+export interface KripiCardMockServer {
+  url: string; // Base URL to give the provider (KRIPICARD_API_URL)
+  mock: KripiCardMock;
+  close(): Promise<void>;
+}
+
+// Serve a mock over HTTP at http://127.0.0.1:<port>/api/premium (port 0 picks a free one)
+export async function startKripiCardMockServer(
+  options: KripiCardMockOptions & { port?: number } = {}
+): Promise<KripiCardMockServer> {
+  const mock = new KripiCardMock(options);
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://127.0.0.1");
+    const endpoint = url.pathname.replace(/^\/api\/premium\//, "");
+    const { status, body, headers } = mock.handle(
+      endpoint,
+      await readParams(req, url)
+    );
+
+    const isJson = typeof body !== "string";
+    res.writeHead(status, {
+      "Content-Type": isJson ? "application/json" : "text/html",
+      ...headers,
+    });
+    res.end(isJson ? JSON.stringify(body) : body);
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/premium`,
+    mock,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+// One mock per server process for /api/kripicard/mock (kept on globalThis so dev reloads don't reset it)
+const globalForMock = globalThis as unknown as {
+  kripiCardMock?: KripiCardMock;
+};
+
+export function getKripiCardMock(): KripiCardMock {
+  if (!globalForMock.kripiCardMock) {
+    globalForMock.kripiCardMock = new KripiCardMock();
+  }
+  return globalForMock.kripiCardMock;
+}
@@ -0,0 +1,170 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  KripiCardApiError,
+  KripiCardProvider,
+  kripiCardIssuer,
+  setKripiCardProvider,
+} from "@/lib/kripicard-provider";
+import {
+  MOCK_API_KEY,
+  startKripiCardMockServer,
+  type KripiCardMockServer,
+} from "@/lib/kripicard-mock";
+
+const BIN = "411111";
+
+describe("KripiCard provider against the mock server", () => {
+  let server: KripiCardMockServer;
+
+  before(async () => {
+    server = await startKripiCardMockServer({ accountBalance: 500 });
+    setKripiCardProvider(
+      new KripiCardProvider({
+        apiKey: MOCK_API_KEY,
+        baseUrl: server.url,
+        retryDelayMs: 1,
+      })
+    );
+  });
+
+  after(async () => {
+    setKripiCardProvider(null);
+    await server.close();
+  });
+
+  beforeEach(() => server.mock.reset());
+
+  it("creates a card and loads it from our account", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 50,
+      bankBin: BIN,
+    });
+
+    const details = await kripiCardIssuer.getCardDetails(cardId);
+    assert.equal(details.balance, 50);
+    assert.equal(details.status, "active");
+    assert.match(details.card_number, /^411111\d{10}$/);
+    assert.equal(server.mock.accountBalance, 450);
+  });
+
+  it("funds a card and reports the funding", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 20,
+      bankBin: BIN,
+    });
+
+    const { reference, fee } = await kripiCardIssuer.fundCard(cardId, 100);
+    assert.ok(reference);
+    assert.equal(fee, 2);
+
+    const transactions = await kripiCardIssuer.getTransactions(cardId);
+    assert.deepEqual(
+      transactions.filter((tx) => tx.type === "funding").map((tx) => tx.amount),
+      [20, 100]
+    );
+    assert.equal((await kripiCardIssuer.getCardDetails(cardId)).balance, 120);
+    assert.equal(server.mock.accountBalance, 500 - 20 - 102);
+  });
+
+  it("freezes and unfreezes a card", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 20,
+      bankBin: BIN,
+    });
+
+    await kripiCardIssuer.setFrozen(cardId, true);
+    assert.equal(
+      (await kripiCardIssuer.getCardDetails(cardId)).status,
+      "frozen"
+    );
+    assert.equal(server.mock.charge(cardId, 5, "Coffee").status, "failed");
+
+    await kripiCardIssuer.setFrozen(cardId, false);
+    assert.equal(
+      (await kripiCardIssuer.getCardDetails(cardId)).status,
+      "active"
+    );
+    assert.equal(server.mock.charge(cardId, 5, "Coffee").status, "completed");
+  });
+
+  it("freezes a terminated card and reports what is left on it", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 30,
+      bankBin: BIN,
+    });
+    server.mock.charge(cardId, 12.5, "Groceries");
+
+    const { residualBalance } = await kripiCardIssuer.terminateCard(cardId);
+    assert.equal(residualBalance, 17.5);
+    assert.equal(server.mock.getCard(cardId)?.status, "frozen");
+    assert.equal(server.mock.getCard(cardId)?.balance, 17.5);
+  });
+
+  it("classifies refusals", async () => {
+    await assert.rejects(
+      kripiCardIssuer.createCard({ amount: 50, bankBin: "abc" }),
+      (error: unknown) => {
+        assert.ok(error instanceof KripiCardApiError);
+        assert.equal(error.code, "invalid_bin");
+        assert.ok(error.refused);
+        return true;
+      }
+    );
+    await assert.rejects(
+      kripiCardIssuer.createCard({ amount: 5000, bankBin: BIN }),
+      { code: "insufficient_balance" }
+    );
+    await assert.rejects(kripiCardIssuer.getCardDetails("mock_missing"), {
+      code: "card_not_found",
+    });
+  });
+
+  it("retries idempotent calls on transient errors", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 20,
+      bankBin: BIN,
+    });
+    server.mock.failNext("Get_CardDetails", "server_error", 2);
+
+    assert.equal((await kripiCardIssuer.getCardDetails(cardId)).balance, 20);
+    assert.equal(
+      server.mock.calls.filter((call) => call.endpoint === "Get_CardDetails")
+        .length,
+      3
+    );
+  });
+
+  it("does not retry a funding whose outcome is unknown", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 20,
+      bankBin: BIN,
+    });
+    server.mock.failNext("Fund_Card", "invalid_response");
+
+    await assert.rejects(
+      kripiCardIssuer.fundCard(cardId, 50),
+      (error: unknown) => {
+        assert.ok(error instanceof KripiCardApiError);
+        assert.equal(error.code, "invalid_response");
+        assert.equal(error.refused, false);
+        return true;
+      }
+    );
+    assert.equal(
+      server.mock.calls.filter((call) => call.endpoint === "Fund_Card").length,
+      1
+    );
+  });
+
+  it("retries a rate-limited funding", async () => {
+    const { cardId } = await kripiCardIssuer.createCard({
+      amount: 20,
+      bankBin: BIN,
+    });
+    server.mock.failNext("Fund_Card", "rate_limited");
+
+    await kripiCardIssuer.fundCard(cardId, 50);
+    assert.equal((await kripiCardIssuer.getCardDetails(cardId)).balance, 70);
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * KripiCard Provider (server only)
+ *
+ * The one place that talks to the KripiCard premium API
+ * (https://kripicard.com/api/premium). Routes and jobs call this instead
+ * of building requests themselves.
+ *
+ * - Responses come back as the models in kripicard.ts, with card details
+ *   normalized (KripiCard's field names vary between accounts)
+ * - Failures throw a KripiCardApiError (a CardIssuerError) whose `code`
+ *   says what went wrong:
+ *   insufficient KripiCard balance, an invalid BIN, rate limiting, an
+ *   unknown card, KripiCard being unreachable or answering garbage
+ * - Idempotent calls (card details, freeze/unfreeze) are retried with
+ *   exponential backoff on transient errors. Creating and funding a card
+ *   move money, so they are only retried when KripiCard rate-limited the
+ *   call - i.e. refused it before doing anything
+ *
+ * kripiCardIssuer adapts the provider to the CardIssuer contract
+ * (card-issuer.ts); card routes go through that rather than this class.
+ *
+ * KRIPICARD_API_URL points the provider somewhere else, e.g. a mock
+ * server from kripicard-mock.ts. KRIPICARD_MOCK=true uses the app's own
+ * mock at /api/kripicard/mock.
+ */
+
+import type { CardDetails, CardTransaction } from "@/lib/cards";
+import type {
+  CreateCardResponse,
+  FreezeUnfreezeResponse,
+  FundCardResponse,
+  GetCardDetailsResponse,
+} from "@/lib/kripicard";
+import {
+  CardIssuerError,
+  type CardIssuer,
+  type CardIssuerErrorCode,
+} from "@/lib/card-issuer";
+import { getKripicardBalance } from "@/lib/kripicard-dashboard";
+import { MOCK_API_KEY, getKripiCardMock } from "@/lib/kripicard-mock";
+
+const DEFAULT_API_URL = "https://kripicard.com/api/premium";
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_TIMEOUT_MS = 20_000;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// KripiCard's failures, under the codes every card issuer uses
+export class KripiCardApiError extends CardIssuerError {
+  constructor(
+    code: CardIssuerErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(code, message, options);
+    this.name = "KripiCardApiError";
+  }
+}
+
+export interface KripiCardProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  maxRetries?: number;
+  retryDelayMs?: number; // First backoff step; doubles each retry
+  timeoutMs?: number;
+}
+
+export interface CreateCardRequest {
+  amount: number;
+  bankBin: string | number;
+  nameOnCard?: string;
+}
+
+export interface CardDetailsResult {
+  details: CardDetails;
+  transactions: CardTransaction[];
+}
+
+type RetryPolicy = "idempotent" | "once";
+
+// Sort a failed response into an error code by its status and message
+function classifyError(status: number, message: string): CardIssuerErrorCode {
+  if (status === 429 || /too many|rate limit/i.test(message))
+    return "rate_limited";
+  if (status === 402 || /insufficient/i.test(message))
+    return "insufficient_balance";
+  if (/bank ?bin|\bbin\b/i.test(message)) return "invalid_bin";
+  if (status === 404 || /card not found|invalid card/i.test(message))
+    return "card_not_found";
+  if (status >= 500) return "server_error";
+  return "rejected";
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = parseFloat(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Month and year from a combined expiry like "MM/YY", "YYYY-MM" or "MMYY"
+function splitExpiry(expiry: string): { month: string; year: string } | null {
+  if (expiry.includes("/")) {
+    const parts = expiry.split("/");
+    return parts.length === 2
+      ? { month: parts[0].trim(), year: parts[1].trim() }
+      : null;
+  }
+  if (expiry.includes("-")) {
+    const parts = expiry.split("-");
+    if (parts.length < 2) return null;
+    return parts[0].length === 4
+      ? { month: parts[1].trim(), year: parts[0].trim() }
+      : { month: parts[0].trim(), year: parts[1].trim() };
+  }
+  if (expiry.length === 4)
+    return { month: expiry.substring(0, 2), year: expiry.substring(2, 4) };
+  if (expiry.length === 6)
+    return { month: expiry.substring(0, 2), year: expiry.substring(2, 6) };
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+// The first of `keys` that holds a non-empty string or number, as a string
+function pickString(raw: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = raw[key];
+    if ((typeof value === "string" && value) || typeof value === "number")
+      return String(value);
+  }
+  return "";
+}
+
+// KripiCard's card details under the field names we use
+function normalizeCardDetails(raw: Record<string, unknown>): CardDetails {
+  let expiryMonth = pickString(raw, [
+    "expiry_month",
+    "expiryMonth",
+    "exp_month",
+    "expMonth",
+    "month",
+    "mm",
+  ]);
+  let expiryYear = pickString(raw, [
+    "expiry_year",
+    "expiryYear",
+    "exp_year",
+    "expYear",
+    "year",
+    "yy",
+    "yyyy",
+  ]);
+
+  const combinedExpiry = pickString(raw, [
+    "expiry",
+    "expiration",
+    "exp",
+    "card_expiry",
+    "valid_thru",
+    "validThru",
+    "expirationDate",
+    "expiration_date",
+    "card_exp",
+    "cardExpiry",
+    "expire",
+    "expires",
+    "expire_date",
+    "expireDate",
+  ]);
+  if (combinedExpiry && (!expiryMonth || !expiryYear)) {
+    const split = splitExpiry(combinedExpiry);
+    if (split) {
+      expiryMonth = split.month;
+      expiryYear = split.year;
+    }
+  }
+
+  const status = pickString(raw, ["status", "card_status"]).toLowerCase();
+  const address = asRecord(raw.billing_address) || asRecord(raw.billingAddress);
+
+  return {
+    card_number: pickString(raw, [
+      "card_number",
+      "cardNumber",
+      "card_num",
+      "number",
+      "pan",
+    ]),
+    cvv: pickString(raw, ["cvv", "cvc", "cvv2", "security_code"]),
+    expiry_month: expiryMonth,
+    expiry_year: expiryYear,
+    balance:
+      parseFloat(
+        pickString(raw, ["balance", "available_balance", "card_balance"])
+      ) || 0,
+    status: status === "frozen" || status === "inactive" ? status : "active",
+    billing_address: address
+      ? {
+          street: pickString(address, ["street", "address", "line1"]),
+          city: pickString(address, ["city"]),
+          state: pickString(address, ["state"]),
+          zip: pickString(address, ["zip", "postal_code", "zipcode"]),
+          country: pickString(address, ["country"]),
+        }
+      : undefined,
+  };
+}
+
+export class KripiCardProvider {
+  private options: Required<KripiCardProviderOptions>;
+
+  constructor(options: KripiCardProviderOptions) {
+    this.options = {
+      baseUrl: DEFAULT_API_URL,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      retryDelayMs: DEFAULT_RETRY_DELAY_MS,
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  async createCard(
+    request: CreateCardRequest
+  ): Promise<CreateCardResponse & { card_id: string }> {
+    // KripiCard expects strings, not numbers
+    const body: Record<string, string> = {
+      amount: String(request.amount),
+      bankBin: String(request.bankBin),
+    };
+    if (request.nameOnCard)
+      body.name_on_card = request.nameOnCard.substring(0, 50);
+
+    const data = await this.call<CreateCardResponse>(
+      "POST",
+      "Create_card",
+      body,
+      "once"
+    );
+    if (!data.card_id) {
+      throw new KripiCardApiError(
+        "invalid_response",
+        "Card created without a card ID"
+      );
+    }
+    return { ...data, card_id: String(data.card_id) };
+  }
+
+  async fundCard(cardId: string, amount: number): Promise<FundCardResponse> {
+    return this.call<FundCardResponse>(
+      "POST",
+      "Fund_Card",
+      { card_id: cardId, amount: String(amount) },
+      "once"
+    );
+  }
+
+  async getCardDetails(cardId: string): Promise<CardDetailsResult> {
+    const data = await this.call<GetCardDetailsResponse>(
+      "GET",
+      "Get_CardDetails",
+      { card_id: cardId },
+      "idempotent"
+    );
+    const raw = asRecord(data) || {};
+    const nested = asRecord(raw.data);
+    const details = asRecord(nested?.details) || asRecord(raw.details) || raw;
+    const transactions = nested?.Transactions ?? raw.Transactions;
+    return {
+      details: normalizeCardDetails(details),
+      transactions: Array.isArray(transactions)
+        ? transactions.filter(
+            (tx): tx is CardTransaction => asRecord(tx) !== null
+          )
+        : [],
+    };
+  }
+
+  // Setting a card to the state it's already in is harmless, so this is safe to retry
+  async setFrozen(
+    cardId: string,
+    frozen: boolean
+  ): Promise<FreezeUnfreezeResponse> {
+    return this.call<FreezeUnfreezeResponse>(
+      "POST",
+      "Freeze_Unfreeze",
+      { card_id: cardId, action: frozen ? "freeze" : "unfreeze" },
+      "idempotent"
+    );
+  }
+
+  private async call<T extends { success: boolean; message: string }>(
+    method: "GET" | "POST",
+    endpoint: string,
+    params: Record<string, string>,
+    policy: RetryPolicy
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, endpoint, params);
+      } catch (error) {
+        if (
+          !(error instanceof KripiCardApiError) ||
+          attempt >= this.options.maxRetries
+        )
+          throw error;
+
+        const retry =
+          policy === "idempotent"
+            ? error.retryable
+            : error.code === "rate_limited";
+        if (!retry) throw error;
+
+        const backoff = this.options.retryDelayMs * 2 ** attempt;
+        const delay = Math.min(
+          MAX_RETRY_DELAY_MS,
+          Math.max(backoff, error.retryAfterMs ?? 0)
+        );
+        console.warn(
+          `KripiCard ${endpoint} failed (${error.code}), retrying in ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async send<T extends { success: boolean; message: string }>(
+    method: "GET" | "POST",
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<T> {
+    if (!this.options.apiKey) {
+      throw new KripiCardApiError(
+        "not_configured",
+        "Kripicard API key not configured"
+      );
+    }
+
+    const payload = { api_key: this.options.apiKey, ...params };
+    let url = `${this.options.baseUrl}/${endpoint}`;
+    if (method === "GET") url += `?${new URLSearchParams(payload).toString()}`;
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: method === "POST" ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        cache: "no-store",
+      });
+      text = await response.text();
+    } catch (error) {
+      throw new KripiCardApiError(
+        "network",
+        `Kripicard unreachable: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      console.error(
+        `Kripicard ${endpoint} returned non-JSON response:`,
+        text.substring(0, 200)
+      );
+      const code =
+        response.status === 429 ? "rate_limited" : "invalid_response";
+      throw new KripiCardApiError(code, "Invalid response from Kripicard API", {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      });
+    }
+
+    const body = asRecord(parsed);
+    if (!body) {
+      throw new KripiCardApiError(
+        "invalid_response",
+        "Invalid response from Kripicard API",
+        { status: response.status }
+      );
+    }
+
+    if (!response.ok || body.success !== true) {
+      const message =
+        typeof body.message === "string" && body.message
+          ? body.message
+          : `Kripicard ${endpoint} failed`;
+      throw new KripiCardApiError(
+        classifyError(response.status, message),
+        message,
+        {
+          status: response.status,
+          retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+        }
+      );
+    }
+
+    return body as T;
+  }
+}
+
+// KRIPICARD_MOCK=true swaps kripicard.com for the app's mock (see kripicard-mock.ts)
+export function isKripiCardMockEnabled(): boolean {
+  if (process.env.KRIPICARD_MOCK !== "true") return false;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The KripiCard mock cannot be used in production");
+  }
+  return true;
+}
+
+export function isKripiCardConfigured(): boolean {
+  return Boolean(
+    providerOverride ||
+      process.env.KRIPICARD_API_KEY ||
+      isKripiCardMockEnabled()
+  );
+}
+
+let providerOverride: KripiCardProvider | null = null;
+
+// Replace the provider (e.g. one pointed at a mock server in tests); pass null to restore the default
+export function setKripiCardProvider(provider: KripiCardProvider | null): void {
+  providerOverride = provider;
+}
+
+export function getKripiCardProvider(): KripiCardProvider {
+  if (providerOverride) return providerOverride;
+  if (isKripiCardMockEnabled()) {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return new KripiCardProvider({
+      apiKey: MOCK_API_KEY,
+      baseUrl: process.env.KRIPICARD_API_URL || `${appUrl}/api/kripicard/mock`,
+    });
+  }
+  return new KripiCardProvider({
+    apiKey: process.env.KRIPICARD_API_KEY || "",
+    baseUrl: process.env.KRIPICARD_API_URL || DEFAULT_API_URL,
+  });
+}
+
+// KripiCard as a card issuer (see card-issuers.ts)
+export const kripiCardIssuer: CardIssuer = {
+  id: "kripicard",
+  name: "KripiCard",
+  currencies: ["USD"],
+
+  isAvailable: isKripiCardConfigured,
+
+  async createCard({ amount, bankBin, nameOnCard, currency }) {
+    if (currency && currency !== "USD") {
+      throw new KripiCardApiError(
+        "rejected",
+        `KripiCard does not issue ${currency} cards`
+      );
+    }
+    const bin = bankBin || process.env.KRIPICARD_BANK_BIN;
+    if (!bin)
+      throw new KripiCardApiError(
+        "invalid_bin",
+        "No bank BIN given and KRIPICARD_BANK_BIN is not set"
+      );
+
+    const data = await getKripiCardProvider().createCard({
+      amount,
+      bankBin: bin,
+      nameOnCard,
+    });
+    return { cardId: data.card_id };
+  },
+
+  async fundCard(cardId, amount) {
+    const { data } = await getKripiCardProvider().fundCard(cardId, amount);
+    return { reference: data?.reference, fee: data?.fee };
+  },
+
+  async getCardDetails(cardId) {
+    return (await getKripiCardProvider().getCardDetails(cardId)).details;
+  },
+
+  async getTransactions(cardId) {
+    return (await getKripiCardProvider().getCardDetails(cardId)).transactions;
+  },
+
+  async setFrozen(cardId, frozen) {
+    await getKripiCardProvider().setFrozen(cardId, frozen);
+  },
+
+  // KripiCard has no endpoint to close or unload a card, so a terminated card
+  // is frozen for good and its balance stays on it, on our account
+  async terminateCard(cardId) {
+    const provider = getKripiCardProvider();
+    await provider.setFrozen(cardId, true);
+    const { details } = await provider.getCardDetails(cardId);
+    return { residualBalance: details.balance };
+  },
+
+  // Not in the premium API - read from the dashboard (or the mock)
+  async getBalance() {
+    if (isKripiCardMockEnabled()) return getKripiCardMock().accountBalance;
+    return (await getKripicardBalance()).available;
+  },
+};
@@ -0,0 +1,206 @@
+/**
+ * KV Record Store
+ *
+ * Keeps one KV key per record instead of a single array blob, so
+ * concurrent writers never overwrite each other's changes.
+ *
+ * - Records live under `<prefix>:record:<id>`
+ * - Secondary indexes (status, wallet, ...) are KV sets of record IDs
+ *   under `<prefix>:idx:<index>:<value>`
+ * - Updates run under a per-record lock; `transition` is a
+ *   compare-and-set on a field (e.g. only move `pending` -> `credited`)
+ * - `migrateLegacyArray` moves an old array blob over once
+ *
+ * Uses Vercel KV for persistent storage.
+ */
+
+import { kv } from "@vercel/kv";
+
+const LOCK_PREFIX = "lock:";
+const LOCK_TTL_MS = 10_000;
+const LOCK_RETRY_DELAY_MS = 100;
+const LOCK_MAX_ATTEMPTS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn` while holding a KV lock on `name`.
+ * Locks expire after LOCK_TTL_MS so a crashed holder can't block forever.
+ */
+export async function withLock<T>(
+  name: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const lockKey = `${LOCK_PREFIX}${name}`;
+  const token = crypto.randomUUID();
+
+  for (let attempt = 0; attempt < LOCK_MAX_ATTEMPTS; attempt++) {
+    const acquired = await kv.set(lockKey, token, {
+      nx: true,
+      px: LOCK_TTL_MS,
+    });
+    if (acquired) {
+      try {
+        return await fn();
+      } finally {
+        const holder = await kv.get<string>(lockKey);
+        if (holder === token) {
+          await kv.del(lockKey);
+        }
+      }
+    }
+    await sleep(LOCK_RETRY_DELAY_MS);
+  }
+
+  throw new Error(`Timed out waiting for lock: ${name}`);
+}
+
+type IndexValue = string | undefined | null;
+
+export interface RecordStoreOptions<T> {
+  prefix: string;
+  indexes: Record<string, (record: T) => IndexValue>;
+}
+
+export interface RecordStore<T extends { id: string }> {
+  get(id: string): Promise<T | null>;
+  getMany(ids: string[]): Promise<T[]>;
+  list(): Promise<T[]>;
+  listByIndex(index: string, value: string): Promise<T[]>;
+  insert(record: T): Promise<boolean>;
+  update(id: string, updater: (current: T) => T | null): Promise<T | null>;
+  transition<K extends keyof T>(
+    id: string,
+    field: K,
+    from: T[K][],
+    to: T[K],
+    additionalData?: Partial<T>
+  ): Promise<T | null>;
+  migrateLegacyArray(legacyKey: string): Promise<number>;
+}
+
+export function createRecordStore<T extends { id: string }>(
+  options: RecordStoreOptions<T>
+): RecordStore<T> {
+  const { prefix, indexes } = options;
+
+  const recordKey = (id: string) => `${prefix}:record:${id}`;
+  const indexKey = (index: string, value: string) =>
+    `${prefix}:idx:${index}:${value}`;
+  const allKey = `${prefix}:all`;
+
+  async function get(id: string): Promise<T | null> {
+    return kv.get<T>(recordKey(id));
+  }
+
+  async function getMany(ids: string[]): Promise<T[]> {
+    if (ids.length === 0) return [];
+    const records = await kv.mget<(T | null)[]>(...ids.map(recordKey));
+    return records.filter((r): r is T => r !== null);
+  }
+
+  async function list(): Promise<T[]> {
+    const ids = await kv.smembers(allKey);
+    return getMany(ids);
+  }
+
+  async function listByIndex(index: string, value: string): Promise<T[]> {
+    const ids = await kv.smembers(indexKey(index, value));
+    return getMany(ids);
+  }
+
+  // Write a record and move its index memberships in one MULTI/EXEC
+  async function write(record: T, previous: T | null): Promise<void> {
+    const tx = kv.multi();
+    tx.set(recordKey(record.id), record);
+    tx.sadd(allKey, record.id);
+
+    for (const [name, extract] of Object.entries(indexes)) {
+      const oldValue = previous ? extract(previous) : null;
+      const newValue = extract(record);
+      if (oldValue === newValue) continue;
+      if (oldValue) tx.srem(indexKey(name, oldValue), record.id);
+      if (newValue) tx.sadd(indexKey(name, newValue), record.id);
+    }
+
+    await tx.exec();
+  }
+
+  // Insert a new record; returns false if the ID already exists
+  async function insert(record: T): Promise<boolean> {
+    return withLock(recordKey(record.id), async () => {
+      if (await get(record.id)) {
+        return false;
+      }
+      await write(record, null);
+      return true;
+    });
+  }
+
+  // Read-modify-write under the record's lock. Return null from the updater to skip the write.
+  async function update(
+    id: string,
+    updater: (current: T) => T | null
+  ): Promise<T | null> {
+    return withLock(recordKey(id), async () => {
+      const current = await get(id);
+      if (!current) return null;
+
+      const next = updater(current);
+      if (!next) return null;
+
+      await write({ ...next, id }, current);
+      return { ...next, id };
+    });
+  }
+
+  // Compare-and-set: only move `field` to `to` if it currently holds one of `from`
+  async function transition<K extends keyof T>(
+    id: string,
+    field: K,
+    from: T[K][],
+    to: T[K],
+    additionalData?: Partial<T>
+  ): Promise<T | null> {
+    return update(id, (current) => {
+      if (!from.includes(current[field])) return null;
+      return { ...current, ...additionalData, [field]: to };
+    });
+  }
+
+  // Copy records from an old array blob, skipping IDs that already exist.
+  // The blob is kept under `<legacyKey>:migrated` as a backup.
+  async function migrateLegacyArray(legacyKey: string): Promise<number> {
+    return withLock(`${prefix}:migration`, async () => {
+      const legacy = await kv.get<T[]>(legacyKey);
+      if (!legacy || legacy.length === 0) return 0;
+
+      let migrated = 0;
+      for (const record of legacy) {
+        const id = record.id || crypto.randomUUID();
+        if (await insert({ ...record, id })) {
+          migrated++;
+        }
+      }
+
+      await kv.rename(legacyKey, `${legacyKey}:migrated`);
+      console.log(
+        `Migrated ${migrated}/${legacy.length} records from ${legacyKey} to ${prefix}`
+      );
+      return migrated;
+    });
+  }
+
+  return {
+    get,
+    getMany,
+    list,
+    listByIndex,
+    insert,
+    update,
+    transition,
+    migrateLegacyArray,
+  };
+}
@@ -0,0 +1,475 @@
+/**
+ * TrenchBank Balance Ledger
+ *
+ * Server-side double-entry journal for user balances. Every credit or
+ * debit is posted as an immutable entry that moves money between a
+ * user account and a counter account (deposits, card issuing, fees,
+ * withdrawals, refunds). Balances are never stored - they are computed
+ * from the entries, so every number in UserBalance can be traced back
+ * to the entries behind it.
+ *
+ * Uses Vercel KV for persistent storage.
+ */
+
+import { kv } from "@vercel/kv";
+import { withLock } from "@/lib/kv-store";
+
+const ENTRIES_PREFIX = "ledger:entries:";
+const MIGRATED_PREFIX = "ledger:migrated:";
+const LEGACY_BALANCE_PREFIX = "balance:";
+
+export type LedgerEntryType =
+  | "deposit_credit"
+  | "card_creation_debit"
+  | "card_funding_debit"
+  | "service_fee"
+  | "withdrawal_debit"
+  | "withdrawal_reserve"
+  | "withdrawal_release"
+  | "refund_credit"
+  | "card_balance_credit";
+
+// Counter accounts on the other side of each user posting
+export const LEDGER_ACCOUNTS = {
+  deposits: "system:deposits",
+  cardIssuing: "system:card_issuing",
+  fees: "system:fees",
+  withdrawals: "system:withdrawals",
+  withdrawalReserves: "system:withdrawal_reserves",
+  refunds: "system:refunds",
+} as const;
+
+const CREDIT_TYPES: LedgerEntryType[] = [
+  "deposit_credit",
+  "refund_credit",
+  "withdrawal_release",
+  "card_balance_credit",
+];
+
+const COUNTER_ACCOUNTS: Record<LedgerEntryType, string> = {
+  deposit_credit: LEDGER_ACCOUNTS.deposits,
+  card_creation_debit: LEDGER_ACCOUNTS.cardIssuing,
+  card_funding_debit: LEDGER_ACCOUNTS.cardIssuing,
+  service_fee: LEDGER_ACCOUNTS.fees,
+  withdrawal_debit: LEDGER_ACCOUNTS.withdrawals,
+  withdrawal_reserve: LEDGER_ACCOUNTS.withdrawalReserves,
+  withdrawal_release: LEDGER_ACCOUNTS.withdrawalReserves,
+  refund_credit: LEDGER_ACCOUNTS.refunds,
+  card_balance_credit: LEDGER_ACCOUNTS.cardIssuing,
+};
+
+export interface LedgerEntry {
+  id: string;
+  journalId: string; // Entries posted together share a journal ID
+  walletAddress: string;
+  type: LedgerEntryType;
+  amount: number; // USD, always positive
+  debitAccount: string; // Account the money leaves
+  creditAccount: string; // Account the money arrives in
+  reference?: string; // Deposit, card, withdrawal or refund ID
+  memo?: string;
+  feeScheduleVersion?: string; // Fee schedule the charge was priced with (see fees.ts)
+  idempotencyKey?: string; // Shared by a journal's entries; a journal is posted once per key
+  createdAt: string;
+}
+
+export interface LedgerEntryDraft {
+  type: LedgerEntryType;
+  amount: number;
+  reference?: string;
+  memo?: string;
+  feeScheduleVersion?: string;
+}
+
+export interface UserBalance {
+  walletAddress: string;
+  balance: number; // USD
+  totalDeposited: number;
+  totalSpent: number;
+  reserved: number; // Held for withdrawals that haven't settled yet (already out of `balance`)
+  lastUpdated: string;
+}
+
+// Which entries each UserBalance figure was computed from
+export interface BalanceBreakdown extends UserBalance {
+  entries: LedgerEntry[];
+  sources: {
+    balance: string[];
+    totalDeposited: string[];
+    totalSpent: string[];
+    reserved: string[];
+  };
+}
+
+export function userAccount(walletAddress: string): string {
+  return `user:${walletAddress}`;
+}
+
+export function isCreditEntry(type: LedgerEntryType): boolean {
+  return CREDIT_TYPES.includes(type);
+}
+
+// Round to cents so repeated float math never drifts
+function roundUsd(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Carry a balance from the old `balance:<wallet>` KV blob over as an opening entry (runs once per wallet).
+// The marker is only set once the opening entry is posted, and the entry's idempotency key keeps
+// a retry after a failure in between from posting it twice.
+async function importLegacyBalance(walletAddress: string): Promise<void> {
+  const markerKey = `${MIGRATED_PREFIX}${walletAddress}`;
+  if (await kv.exists(markerKey)) return;
+
+  await withLock(`ledger_import:${walletAddress}`, async () => {
+    if (await kv.exists(markerKey)) return;
+
+    const legacy = await kv.get<{ balance: number }>(
+      `${LEGACY_BALANCE_PREFIX}${walletAddress}`
+    );
+    if (legacy && legacy.balance > 0) {
+      const idempotencyKey = `legacy_balance:${walletAddress}`;
+      const entries =
+        (await kv.lrange<LedgerEntry>(
+          `${ENTRIES_PREFIX}${walletAddress}`,
+          0,
+          -1
+        )) || [];
+
+      if (!entries.some((e) => e.idempotencyKey === idempotencyKey)) {
+        const entry: LedgerEntry = {
+          id: crypto.randomUUID(),
+          journalId: crypto.randomUUID(),
+          walletAddress,
+          type: "deposit_credit",
+          amount: roundUsd(legacy.balance),
+          debitAccount: LEDGER_ACCOUNTS.deposits,
+          creditAccount: userAccount(walletAddress),
+          memo: "Opening balance migrated from legacy balance record",
+          idempotencyKey,
+          createdAt: new Date().toISOString(),
+        };
+        await kv.lpush(`${ENTRIES_PREFIX}${walletAddress}`, entry);
+        console.log(
+          "Migrated legacy balance to ledger:",
+          walletAddress,
+          entry.amount
+        );
+      }
+    }
+
+    await kv.set(markerKey, new Date().toISOString());
+  });
+}
+
+// Get all journal entries for a wallet (oldest first)
+export async function getLedgerEntries(
+  walletAddress: string
+): Promise<LedgerEntry[]> {
+  await importLegacyBalance(walletAddress);
+  const entries = await kv.lrange<LedgerEntry>(
+    `${ENTRIES_PREFIX}${walletAddress}`,
+    0,
+    -1
+  );
+  return entries || [];
+}
+
+// Compute balance figures from a set of entries
+export function computeBalance(
+  walletAddress: string,
+  entries: LedgerEntry[]
+): BalanceBreakdown {
+  const account = userAccount(walletAddress);
+  let balance = 0;
+  let totalDeposited = 0;
+  let totalSpent = 0;
+  let reserved = 0;
+  const sources: BalanceBreakdown["sources"] = {
+    balance: [],
+    totalDeposited: [],
+    totalSpent: [],
+    reserved: [],
+  };
+
+  for (const entry of entries) {
+    if (entry.creditAccount === account) {
+      balance += entry.amount;
+    } else if (entry.debitAccount === account) {
+      balance -= entry.amount;
+    } else {
+      continue;
+    }
+    sources.balance.push(entry.id);
+
+    if (entry.type === "deposit_credit") {
+      totalDeposited += entry.amount;
+      sources.totalDeposited.push(entry.id);
+    } else if (
+      entry.type === "refund_credit" ||
+      entry.type === "withdrawal_release" ||
+      entry.type === "card_balance_credit"
+    ) {
+      // Refunds, released reservations and balances returned from closed cards reverse earlier spending
+      totalSpent -= entry.amount;
+      sources.totalSpent.push(entry.id);
+    } else {
+      totalSpent += entry.amount;
+      sources.totalSpent.push(entry.id);
+    }
+
+    if (
+      entry.type === "withdrawal_reserve" ||
+      entry.type === "withdrawal_release"
+    ) {
+      reserved +=
+        entry.type === "withdrawal_reserve" ? entry.amount : -entry.amount;
+      sources.reserved.push(entry.id);
+    }
+  }
+
+  const last = entries[entries.length - 1];
+
+  return {
+    walletAddress,
+    balance: roundUsd(balance),
+    totalDeposited: roundUsd(totalDeposited),
+    totalSpent: roundUsd(Math.max(0, totalSpent)),
+    reserved: roundUsd(Math.max(0, reserved)),
+    lastUpdated: last?.createdAt || new Date().toISOString(),
+    entries,
+    sources,
+  };
+}
+
+// Get user balance with the entries behind each figure
+export async function getBalanceBreakdown(
+  walletAddress: string
+): Promise<BalanceBreakdown> {
+  const entries = await getLedgerEntries(walletAddress);
+  return computeBalance(walletAddress, entries);
+}
+
+function toUserBalance(breakdown: BalanceBreakdown): UserBalance {
+  const {
+    walletAddress,
+    balance,
+    totalDeposited,
+    totalSpent,
+    reserved,
+    lastUpdated,
+  } = breakdown;
+  return {
+    walletAddress,
+    balance,
+    totalDeposited,
+    totalSpent,
+    reserved,
+    lastUpdated,
+  };
+}
+
+// Get user balance
+export async function getUserBalance(
+  walletAddress: string
+): Promise<UserBalance> {
+  return toUserBalance(await getBalanceBreakdown(walletAddress));
+}
+
+/**
+ * Post one or more entries for a wallet as a single journal.
+ * Returns null (and posts nothing) if the journal would take the
+ * balance below zero. With an `idempotencyKey`, a journal already posted
+ * under that key is not posted again and the current balance is returned.
+ */
+export async function postJournal(
+  walletAddress: string,
+  drafts: LedgerEntryDraft[],
+  idempotencyKey?: string
+): Promise<UserBalance | null> {
+  const lines = drafts.filter((d) => d.amount > 0);
+  for (const line of drafts) {
+    if (!Number.isFinite(line.amount) || line.amount < 0) {
+      throw new Error(`Invalid ledger amount for ${line.type}: ${line.amount}`);
+    }
+  }
+  if (lines.length === 0) {
+    throw new Error("Journal must contain at least one non-zero entry");
+  }
+
+  return withLock(`ledger:${walletAddress}`, async () => {
+    const existing = await getLedgerEntries(walletAddress);
+    const current = computeBalance(walletAddress, existing);
+
+    if (
+      idempotencyKey &&
+      existing.some((e) => e.idempotencyKey === idempotencyKey)
+    ) {
+      console.log("Ledger journal already posted:", idempotencyKey);
+      return toUserBalance(current);
+    }
+
+    const delta = lines.reduce(
+      (sum, line) =>
+        sum + (isCreditEntry(line.type) ? line.amount : -line.amount),
+      0
+    );
+    if (roundUsd(current.balance + delta) < 0) {
+      return null; // Insufficient funds
+    }
+
+    const journalId = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+    const account = userAccount(walletAddress);
+
+    const entries: LedgerEntry[] = lines.map((line) => {
+      const counter = COUNTER_ACCOUNTS[line.type];
+      const credit = isCreditEntry(line.type);
+      return {
+        id: crypto.randomUUID(),
+        journalId,
+        walletAddress,
+        type: line.type,
+        amount: roundUsd(line.amount),
+        debitAccount: credit ? counter : account,
+        creditAccount: credit ? account : counter,
+        reference: line.reference,
+        memo: line.memo,
+        feeScheduleVersion: line.feeScheduleVersion,
+        idempotencyKey,
+        createdAt,
+      };
+    });
+
+    await kv.rpush(`${ENTRIES_PREFIX}${walletAddress}`, ...entries);
+
+    console.log(
+      "Ledger journal posted:",
+      journalId,
+      entries.map((e) => `${e.type}=${e.amount}`).join(", ")
+    );
+
+    return toUserBalance(
+      computeBalance(walletAddress, [...existing, ...entries])
+    );
+  });
+}
+
+// Credit a completed deposit (net of deposit fees). With an `idempotencyKey` it is credited at most once.
+export async function creditDeposit(
+  walletAddress: string,
+  amount: number,
+  reference?: string,
+  memo?: string,
+  feeScheduleVersion?: string,
+  idempotencyKey?: string
+): Promise<UserBalance> {
+  const result = await postJournal(
+    walletAddress,
+    [{ type: "deposit_credit", amount, reference, memo, feeScheduleVersion }],
+    idempotencyKey
+  );
+  return result as UserBalance; // Credits can't overdraw
+}
+
+// Credit a refund (failed card creation, failed withdrawal, etc.)
+export async function creditRefund(
+  walletAddress: string,
+  amount: number,
+  reference?: string,
+  memo?: string,
+  idempotencyKey?: string
+): Promise<UserBalance> {
+  const result = await postJournal(
+    walletAddress,
+    [{ type: "refund_credit", amount, reference, memo }],
+    idempotencyKey
+  );
+  return result as UserBalance;
+}
+
+// Credit what was left on a closed card; at most once per residual (`residualId`)
+export async function creditCardBalance(
+  walletAddress: string,
+  amount: number,
+  cardId: string,
+  residualId: string,
+  memo?: string
+): Promise<UserBalance> {
+  const result = await postJournal(
+    walletAddress,
+    [{ type: "card_balance_credit", amount, reference: cardId, memo }],
+    `card_residual:${cardId}:${residualId}`
+  );
+  return result as UserBalance;
+}
+
+// Debit a card creation or funding, splitting out the service fee
+export async function debitCardSpend(
+  walletAddress: string,
+  params: {
+    type: "card_creation_debit" | "card_funding_debit";
+    amount: number; // Total debited, including the service fee
+    serviceFee?: number;
+    reference?: string;
+    feeScheduleVersion?: string;
+  }
+): Promise<UserBalance | null> {
+  const serviceFee = Math.min(params.serviceFee || 0, params.amount);
+  const { reference, feeScheduleVersion } = params;
+  return postJournal(walletAddress, [
+    {
+      type: params.type,
+      amount: params.amount - serviceFee,
+      reference,
+      feeScheduleVersion,
+    },
+    { type: "service_fee", amount: serviceFee, reference, feeScheduleVersion },
+  ]);
+}
+
+// Reserve a withdrawal's amount: it leaves the balance now, and is either
+// settled once the payout confirms or released if it fails
+export async function reserveWithdrawal(
+  walletAddress: string,
+  amount: number,
+  reference: string,
+  feeScheduleVersion?: string
+): Promise<UserBalance | null> {
+  return postJournal(walletAddress, [
+    { type: "withdrawal_reserve", amount, reference, feeScheduleVersion },
+  ]);
+}
+
+// Settle a confirmed withdrawal: the reservation becomes a withdrawal debit (once per withdrawal)
+export async function settleWithdrawal(
+  walletAddress: string,
+  amount: number,
+  reference: string,
+  feeScheduleVersion?: string
+): Promise<UserBalance> {
+  const result = await postJournal(
+    walletAddress,
+    [
+      { type: "withdrawal_release", amount, reference, feeScheduleVersion },
+      { type: "withdrawal_debit", amount, reference, feeScheduleVersion },
+    ],
+    `withdrawal:${reference}:settle`
+  );
+  return result as UserBalance; // Balance-neutral, can't overdraw
+}
+
+// Return a failed withdrawal's reservation to the balance (once per withdrawal)
+export async function releaseWithdrawal(
+  walletAddress: string,
+  amount: number,
+  reference: string,
+  memo?: string
+): Promise<UserBalance> {
+  const result = await postJournal(
+    walletAddress,
+    [{ type: "withdrawal_release", amount, reference, memo }],
+    `withdrawal:${reference}:release`
+  );
+  return result as UserBalance;
+}
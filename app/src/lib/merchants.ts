@@ -0,0 +1,187 @@
+/**
+ * Merchants
+ *
+ * Turns the raw merchant strings card issuers report ("SQ *BLUE BOTTLE
+ * COFFEE #0142 OAKLAND CA", "AMZN Mktp US*2K4LP0") into a readable
+ * merchant name and a spending category, for card transaction history,
+ * search and exports.
+ *
+ * - Payment-processor prefixes, store numbers, reference codes, phone
+ *   numbers and trailing locations are stripped
+ * - Well-known merchants are mapped to one name (MERCHANT_ALIASES)
+ * - Categories come from keyword rules on the cleaned name, first match
+ *   wins (CATEGORY_RULES)
+ */
+
+export type SpendingCategory =
+  | "shopping"
+  | "groceries"
+  | "dining"
+  | "travel"
+  | "transport"
+  | "subscriptions"
+  | "software"
+  | "advertising"
+  | "entertainment"
+  | "gaming"
+  | "utilities"
+  | "card_funding"
+  | "other";
+
+export const SPENDING_CATEGORIES: Record<SpendingCategory, string> = {
+  shopping: "Shopping",
+  groceries: "Groceries",
+  dining: "Food & Drink",
+  travel: "Travel",
+  transport: "Transport",
+  subscriptions: "Subscriptions",
+  software: "Software & Cloud",
+  advertising: "Advertising",
+  entertainment: "Entertainment",
+  gaming: "Gaming",
+  utilities: "Utilities & Phone",
+  card_funding: "Card funding",
+  other: "Other",
+};
+
+export function isSpendingCategory(value: unknown): value is SpendingCategory {
+  return typeof value === "string" && value in SPENDING_CATEGORIES;
+}
+
+// Prefixes payment processors put in front of the merchant's name
+const PROCESSOR_PREFIXES =
+  /^(sq|tst|sp|pp|paypal|pypl|ic|dd|doordash|py|fs|bt|ckc|wpy|lsp|gglpay|in|clp|zettle)\s*\*\s*/i;
+
+// A trailing one-word city and US state, e.g. " OAKLAND CA 94607"
+const US_LOCATION =
+  /\s+[A-Z]+\s+(A[KLRZ]|C[AOT]|D[CE]|FL|GA|HI|I[ADLN]|K[SY]|LA|M[ADEINOST]|N[CDEHJMVY]|O[HKR]|PA|RI|S[CD]|T[NX]|UT|V[AT]|W[AIVY])(\s+\d{5})?$/;
+
+// Matched against the raw string; first match wins
+const MERCHANT_ALIASES: [RegExp, string][] = [
+  [/\bamzn\b|amazon/i, "Amazon"],
+  [/\baws\b|amazon web services/i, "Amazon Web Services"],
+  [/apple\.com|\bitunes\b|\bapple\b/i, "Apple"],
+  [/google\s*\*?\s*(cloud|gsuite|workspace)/i, "Google Cloud"],
+  [/google\s*\*?\s*ads|adwords/i, "Google Ads"],
+  [/\bgoogle\b|\bgoog\b/i, "Google"],
+  [/facebk|facebook|\bmeta\s*(ads|platforms)/i, "Meta Ads"],
+  [/netflix/i, "Netflix"],
+  [/spotify/i, "Spotify"],
+  [/uber\s*\*?\s*eats/i, "Uber Eats"],
+  [/\buber\b/i, "Uber"],
+  [/\blyft\b/i, "Lyft"],
+  [/airbnb/i, "Airbnb"],
+  [/openai|chatgpt/i, "OpenAI"],
+  [/anthropic/i, "Anthropic"],
+  [/github/i, "GitHub"],
+  [/digitalocean/i, "DigitalOcean"],
+  [/vercel/i, "Vercel"],
+  [/microsoft|msft/i, "Microsoft"],
+  [/steam(games|powered)|\bvalve\b/i, "Steam"],
+  [/walmart|wal-mart|wm supercenter/i, "Walmart"],
+  [/\btarget\b/i, "Target"],
+  [/starbucks/i, "Starbucks"],
+  [/mcdonald/i, "McDonald's"],
+  [/aliexpress|alibaba/i, "AliExpress"],
+  [/\bebay\b/i, "eBay"],
+  [/\btemu\b/i, "Temu"],
+  [/shopify/i, "Shopify"],
+];
+
+const CATEGORY_RULES: [RegExp, SpendingCategory][] = [
+  [
+    /google ads|meta ads|\bads\b|advertis|linkedin|twitter|tiktok|\bx corp/i,
+    "advertising",
+  ],
+  [
+    /amazon web services|google cloud|digitalocean|vercel|github|openai|anthropic|microsoft|heroku|cloudflare|netlify|hosting|domain|namecheap|godaddy|notion|slack|figma|zoom|adobe|atlassian|software/i,
+    "software",
+  ],
+  [
+    /netflix|spotify|youtube|hulu|disney|patreon|onlyfans|substack|subscription|membership/i,
+    "subscriptions",
+  ],
+  [
+    /steam|playstation|xbox|nintendo|epic games|riot|blizzard|roblox|twitch|gaming/i,
+    "gaming",
+  ],
+  [
+    /cinema|theater|theatre|ticketmaster|eventbrite|concert|museum/i,
+    "entertainment",
+  ],
+  [
+    /airline|airways|air lines|\bair\b|hotel|airbnb|booking\.com|expedia|hostel|marriott|hilton|ryanair|easyjet|delta|united|emirates/i,
+    "travel",
+  ],
+  [
+    /uber eats|doordash|grubhub|deliveroo|just eat|starbucks|mcdonald|coffee|cafe|restaurant|pizza|burger|bar\b|grill|kitchen|bakery|sushi/i,
+    "dining",
+  ],
+  [
+    /\buber\b|lyft|bolt|taxi|metro|transit|railway|\brail\b|parking|\bfuel\b|shell|chevron|exxon|\bbp\b/i,
+    "transport",
+  ],
+  [
+    /grocery|supermarket|whole foods|trader joe|safeway|kroger|aldi|lidl|tesco|costco|market/i,
+    "groceries",
+  ],
+  [
+    /at&t|verizon|t-mobile|vodafone|comcast|electric|utility|water|internet|mobile|telecom/i,
+    "utilities",
+  ],
+  [
+    /amazon|walmart|target|ebay|aliexpress|temu|shopify|etsy|best buy|ikea|apple|store|shop|mart/i,
+    "shopping",
+  ],
+];
+
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(
+      /(^|[\s-])([a-z])/g,
+      (_, before, letter) => before + letter.toUpperCase()
+    )
+    .replace(/\b(Llc|Inc|Ltd|Co)\b\.?/g, (match) => match.toUpperCase());
+}
+
+// A readable merchant name for a raw issuer string
+export function normalizeMerchant(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+
+  for (const [pattern, name] of MERCHANT_ALIASES) {
+    if (pattern.test(trimmed)) return name;
+  }
+
+  let name = trimmed
+    .replace(PROCESSOR_PREFIXES, "")
+    .replace(US_LOCATION, "") // "OAKLAND CA 94607"
+    .replace(/\s+(US|USA|GB|GBR|CAN|AU|AUS|DE|FR|NL|IE)$/i, "")
+    .replace(/\*[a-z0-9]{4,}\b/gi, "") // Reference codes, e.g. "*2K4LP0"
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, "") // Phone numbers
+    .replace(/#\s*\d+/g, "") // Store numbers
+    .replace(/\b\d{3,}\b/g, "")
+    .replace(/\.(com|net|io|co)\b.*$/i, "")
+    .replace(/[*_]+/g, " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+  if (!name) name = trimmed;
+  return name === name.toUpperCase() ? titleCase(name) : name;
+}
+
+// Spending category for a transaction's merchant
+export function categorizeMerchant(
+  merchant: string | undefined,
+  type: "charge" | "refund" | "funding"
+): SpendingCategory {
+  if (type === "funding") return "card_funding";
+  if (!merchant) return "other";
+
+  for (const [pattern, category] of CATEGORY_RULES) {
+    if (pattern.test(merchant)) return category;
+  }
+  return "other";
+}
@@ -0,0 +1,63 @@
+/**
+ * Notification Store (server only)
+ *
+ * In-app notifications for a wallet, e.g. a card frozen by one of its
+ * spending rules. Stored in Vercel KV (see kv-store) and shown to the
+ * owner through /api/notifications until they dismiss them.
+ */
+
+import { createRecordStore } from "@/lib/kv-store";
+import type { AppNotification, NotificationKind } from "@/lib/notifications";
+
+const notifications = createRecordStore<AppNotification>({
+  prefix: "notification",
+  indexes: {
+    wallet: (n) => n.walletAddress,
+  },
+});
+
+export async function notify(
+  walletAddress: string,
+  notification: {
+    kind: NotificationKind;
+    title: string;
+    message: string;
+    cardId?: string;
+  }
+): Promise<AppNotification> {
+  const record: AppNotification = {
+    id: crypto.randomUUID(),
+    walletAddress,
+    ...notification,
+    createdAt: new Date().toISOString(),
+  };
+  await notifications.insert(record);
+  return record;
+}
+
+// A wallet's notifications, newest first
+export async function listNotifications(
+  walletAddress: string,
+  unreadOnly = false
+): Promise<AppNotification[]> {
+  const all = await notifications.listByIndex("wallet", walletAddress);
+  return all
+    .filter((n) => !unreadOnly || !n.readAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Mark notifications read; ids that aren't the wallet's are ignored
+export async function markNotificationsRead(
+  walletAddress: string,
+  ids: string[]
+): Promise<number> {
+  const readAt = new Date().toISOString();
+  let marked = 0;
+  for (const id of ids) {
+    const updated = await notifications.update(id, (n) =>
+      n.walletAddress === walletAddress && !n.readAt ? { ...n, readAt } : null
+    );
+    if (updated) marked++;
+  }
+  return marked;
+}
@@ -0,0 +1,44 @@
+// Client-side in-app notifications
+
+import { authFetch } from "@/lib/session";
+
+export type NotificationKind = "card_rule_violation" | "card_auto_reload";
+
+export interface AppNotification {
+  id: string;
+  walletAddress: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  cardId?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+export interface NotificationsResponse {
+  success: boolean;
+  message?: string;
+  data?: AppNotification[];
+}
+
+class NotificationClient {
+  // Get the signed-in user's unread notifications (newest first)
+  async getUnread(): Promise<NotificationsResponse> {
+    const response = await authFetch("/api/notifications?unread=true");
+    return response.json();
+  }
+
+  // Dismiss notifications
+  async markRead(
+    ids: string[]
+  ): Promise<{ success: boolean; message?: string }> {
+    const response = await authFetch("/api/notifications", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    });
+    return response.json();
+  }
+}
+
+export const notificationClient = new NotificationClient();
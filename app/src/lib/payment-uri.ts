@@ -0,0 +1,112 @@
+/**
+ * Payment URIs
+ *
+ * Links that make a wallet pre-fill the exact deposit payment, for QR
+ * codes and "open in wallet" links:
+ *
+ * - Solana Pay transfer requests:
+ *   solana:<recipient>?amount=&spl-token=&reference=&label=&message=&memo=
+ *   The reference key is what confirmation looks up (see deposit-watcher).
+ * - EIP-681 for EVM networks: ethereum:<to>@<chain>?value=<wei> for the
+ *   native coin, and
+ *   ethereum:<token>@<chain>/transfer?address=<to>&uint256=<units> for tokens
+ *
+ * Mints, contracts and decimals come from the asset registry (assets.ts).
+ */
+
+import { getAsset, getAssetAddress, getNetwork } from "@/lib/assets";
+import type { CryptoDepositRequest } from "@/lib/crypto-deposit";
+
+const PAYMENT_LABEL = "KryptCash";
+
+const SOL_DECIMALS = 9;
+const NATIVE_EVM_DECIMALS = 18;
+
+// A plain decimal string (never exponent notation), without trailing zeros
+function toDecimalString(amount: number, decimals: number): string {
+  const fixed = amount.toFixed(Math.min(decimals, 9));
+  return fixed.includes(".") ? fixed.replace(/\.?0+$/, "") : fixed;
+}
+
+// `amount` in the token's smallest unit (lamports, wei, ...)
+function toBaseUnits(amount: number, decimals: number): string {
+  const [whole, fraction = ""] = toDecimalString(amount, decimals).split(".");
+  return BigInt(whole + fraction.padEnd(decimals, "0")).toString();
+}
+
+export function buildSolanaPayUrl(params: {
+  recipient: string;
+  amount: number;
+  splToken?: string; // Mint, for token transfers
+  tokenDecimals?: number;
+  reference?: string;
+  memo?: string;
+  message?: string;
+}): string {
+  const query = [
+    `amount=${toDecimalString(
+      params.amount,
+      params.splToken ? params.tokenDecimals ?? 6 : SOL_DECIMALS
+    )}`,
+  ];
+  if (params.splToken) query.push(`spl-token=${params.splToken}`);
+  if (params.reference) query.push(`reference=${params.reference}`);
+  query.push(`label=${encodeURIComponent(PAYMENT_LABEL)}`);
+  if (params.message)
+    query.push(`message=${encodeURIComponent(params.message)}`);
+  if (params.memo) query.push(`memo=${encodeURIComponent(params.memo)}`);
+
+  return `solana:${params.recipient}?${query.join("&")}`;
+}
+
+export function buildEip681Uri(params: {
+  recipient: string;
+  amount: number;
+  chainId: number;
+  tokenContract?: string; // ERC-20 contract, for token transfers
+  tokenDecimals?: number;
+}): string {
+  if (params.tokenContract) {
+    const units = toBaseUnits(params.amount, params.tokenDecimals ?? 6);
+    return `ethereum:${params.tokenContract}@${params.chainId}/transfer?address=${params.recipient}&uint256=${units}`;
+  }
+  return `ethereum:${params.recipient}@${params.chainId}?value=${toBaseUnits(
+    params.amount,
+    NATIVE_EVM_DECIMALS
+  )}`;
+}
+
+// The payment URI for a deposit request. `chainId` overrides the registry's
+// (e.g. a testnet) for EVM networks.
+export function buildDepositPaymentUri(
+  deposit: CryptoDepositRequest,
+  chainId?: number
+): string {
+  const asset = getAsset(deposit.network, deposit.currency);
+  if (!asset) {
+    throw new Error(
+      `Unsupported asset: ${deposit.currency} on ${deposit.network}`
+    );
+  }
+  const token = getAssetAddress(asset);
+
+  if (getNetwork(deposit.network).family === "solana") {
+    return buildSolanaPayUrl({
+      recipient: deposit.depositAddress,
+      amount: deposit.cryptoAmount,
+      splToken: token,
+      tokenDecimals: asset.decimals,
+      reference: deposit.referenceKey,
+      memo: deposit.reference,
+      message: `Deposit ${deposit.reference}`,
+    });
+  }
+
+  return buildEip681Uri({
+    recipient: deposit.depositAddress,
+    amount: deposit.cryptoAmount,
+    chainId: chainId ?? getNetwork(deposit.network).chainId ?? 1,
+    tokenContract: token,
+    tokenDecimals: asset.decimals,
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * Payout Senders (server only)
+ *
+ * Sign, send and track treasury payouts for the withdrawal queue (see
+ * withdrawal-queue.ts). Signing and sending are separate steps so the
+ * queue can record a transaction's signature before it is broadcast -
+ * a payout whose broadcast outcome is unknown can then be looked up
+ * rather than sent again.
+ *
+ * `check` reports `dropped` only when the transaction can no longer land
+ * (its Solana blockhash expired, or its Ethereum nonce was used by
+ * another transaction), so retrying a dropped payout never pays twice.
+ *
+ * EVM payouts (Ethereum, Base, Arbitrum) live in ethereum-payouts.ts; what
+ * each network pays out in comes from the asset registry (assets.ts).
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+} from "@solana/web3.js";
+import {
+  getAssociatedTokenAddress,
+  createTransferCheckedInstruction,
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { createEvmPayoutSender } from "@/lib/ethereum-payouts";
+import {
+  NETWORKS,
+  getAsset,
+  getAssetAddress,
+  getTokenProgramId,
+  isEvmNetwork,
+} from "@/lib/assets";
+import type { WithdrawalCurrency, WithdrawalNetwork } from "@/lib/withdrawal";
+
+export interface PayoutInstruction {
+  destinationAddress: string;
+  cryptoAmount: number;
+  currency: WithdrawalCurrency;
+}
+
+export interface SignedPayout {
+  txSignature: string;
+  validUntil: number; // Solana: last valid block height. Ethereum: the nonce used.
+  send(): Promise<void>;
+  release?(): Promise<void>; // Give back what was reserved for it (e.g. a nonce) if it won't be sent
+}
+
+export type PayoutState = "pending" | "confirmed" | "failed" | "dropped";
+
+export interface PayoutSender {
+  sign(payout: PayoutInstruction): Promise<SignedPayout>;
+  check(
+    txSignature: string,
+    validUntil: number
+  ): Promise<{ state: PayoutState; error?: string }>;
+  // A replacement for a stuck payout that only one of the two can land
+  // (same nonce, higher fees), or null to keep waiting
+  replace?(
+    payout: PayoutInstruction,
+    txSignature: string,
+    validUntil: number,
+    sentAt: Date
+  ): Promise<SignedPayout | null>;
+}
+
+// ============ SOLANA ============
+
+function getSolanaConnection(): Connection {
+  const rpcUrl =
+    process.env.NEXT_PUBLIC_RPC_URL || "https://api.mainnet-beta.solana.com";
+  return new Connection(rpcUrl, "confirmed");
+}
+
+function getSolanaTreasury(): Keypair {
+  const privateKey = process.env.TREASURY_PRIVATE_KEY_SOLANA;
+  if (!privateKey) {
+    throw new Error("Treasury wallet not configured");
+  }
+
+  // Base58 encoded, or a JSON byte array
+  let secretKey: Uint8Array;
+  try {
+    secretKey = bs58.decode(privateKey);
+  } catch {
+    secretKey = new Uint8Array(JSON.parse(privateKey));
+  }
+  return Keypair.fromSecretKey(secretKey);
+}
+
+export const solanaPayoutSender: PayoutSender = {
+  async sign(payout) {
+    const connection = getSolanaConnection();
+    const treasury = getSolanaTreasury();
+    const destination = new PublicKey(payout.destinationAddress);
+
+    const asset = getAsset("solana", payout.currency);
+    if (!asset) {
+      throw new Error(`Unsupported Solana currency: ${payout.currency}`);
+    }
+
+    const transaction = new Transaction();
+    const mintAddress = getAssetAddress(asset);
+    if (!mintAddress) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: treasury.publicKey,
+          toPubkey: destination,
+          lamports: Math.floor(payout.cryptoAmount * LAMPORTS_PER_SOL),
+        })
+      );
+    } else {
+      // Checked transfers work under both token programs (PYUSD is Token-2022)
+      const mint = new PublicKey(mintAddress);
+      const programId = getTokenProgramId(asset);
+      const treasuryTokenAccount = await getAssociatedTokenAddress(
+        mint,
+        treasury.publicKey,
+        false,
+        programId
+      );
+      const destinationTokenAccount = await getAssociatedTokenAddress(
+        mint,
+        destination,
+        false,
+        programId
+      );
+      transaction.add(
+        createTransferCheckedInstruction(
+          treasuryTokenAccount,
+          mint,
+          destinationTokenAccount,
+          treasury.publicKey,
+          Math.floor(payout.cryptoAmount * 10 ** asset.decimals),
+          asset.decimals,
+          [],
+          programId
+        )
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("confirmed");
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = treasury.publicKey;
+    transaction.sign(treasury);
+
+    const raw = transaction.serialize();
+    return {
+      txSignature: bs58.encode(transaction.signature!),
+      validUntil: lastValidBlockHeight,
+      async send() {
+        await connection.sendRawTransaction(raw, { maxRetries: 5 });
+      },
+    };
+  },
+
+  async check(txSignature, validUntil) {
+    const connection = getSolanaConnection();
+    const { value } = await connection.getSignatureStatuses([txSignature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+
+    if (status) {
+      if (status.err) {
+        return {
+          state: "failed",
+          error: `Transaction failed on-chain: ${JSON.stringify(status.err)}`,
+        };
+      }
+      if (
+        status.confirmationStatus === "confirmed" ||
+        status.confirmationStatus === "finalized"
+      ) {
+        return { state: "confirmed" };
+      }
+      return { state: "pending" };
+    }
+
+    // Not seen: once the blockhash has expired it can never land
+    const blockHeight = await connection.getBlockHeight("confirmed");
+    return { state: blockHeight > validUntil ? "dropped" : "pending" };
+  },
+};
+
+const SENDERS = Object.fromEntries(
+  (Object.keys(NETWORKS) as WithdrawalNetwork[]).map((network) => [
+    network,
+    isEvmNetwork(network) ? createEvmPayoutSender(network) : solanaPayoutSender,
+  ])
+) as Record<WithdrawalNetwork, PayoutSender>;
+
+const sendersOverride: Partial<Record<WithdrawalNetwork, PayoutSender>> = {};
+
+// Replace a network's sender (e.g. with a fake in tests); pass null to restore the default
+export function setPayoutSender(
+  network: WithdrawalNetwork,
+  sender: PayoutSender | null
+): void {
+  if (sender) {
+    sendersOverride[network] = sender;
+  } else {
+    delete sendersOverride[network];
+  }
+}
+
+export function getPayoutSender(network: WithdrawalNetwork): PayoutSender {
+  const sender = sendersOverride[network] || SENDERS[network];
+  if (!sender) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+  return sender;
+}
+
+// Block explorer link for a payout transaction
+export function getPayoutExplorerUrl(
+  network: WithdrawalNetwork,
+  txSignature: string
+): string {
+  return `${NETWORKS[network].explorer}${txSignature}`;
+}
@@ -1,15 +1,17 @@
 /**
  * Pending Deposits Tracker
- * 
+ *
  * Tracks Kripicard deposits via Cryptomus and automatically
  * triggers card creation when deposits are confirmed.
- * 
- * Uses Vercel KV for persistent storage.
+ *
+ * Uses Vercel KV for persistent storage: one record per deposit,
+ * indexed by status, wallet and Cryptomus payment ID (see kv-store).
  */
 
-import { kv } from '@vercel/kv';
+import { createRecordStore } from '@/lib/kv-store';
 
-const DEPOSITS_KEY = 'pending_deposits';
+// Legacy single-array key, migrated on first access
+const LEGACY_DEPOSITS_KEY = 'pending_deposits';
 
 export interface PendingDeposit {
   id: string;
@@ -31,86 +33,121 @@ export interface PendingDeposit {
   error?: string;
 }
 
+type DepositStatus = PendingDeposit['status'];
+
+const ALL_STATUSES: DepositStatus[] = ['pending', 'sent', 'confirmed', 'credited', 'failed', 'expired'];
+
+// Statuses each status may move to - anything else is rejected
+const ALLOWED_TRANSITIONS: Record<DepositStatus, DepositStatus[]> = {
+  pending: ['sent', 'confirmed', 'failed', 'expired'],
+  sent: ['confirmed', 'failed', 'expired'],
+  confirmed: ['credited', 'failed'],
+  credited: [],
+  failed: [],
+  expired: ['confirmed'], // Late payments still count
+};
+
+const store = createRecordStore<PendingDeposit>({
+  prefix: 'pending_deposit',
+  indexes: {
+    status: d => d.status,
+    wallet: d => d.walletAddress,
+    paymentId: d => d.paymentId,
+  },
+});
+
+let migration: Promise<number> | null = null;
+
+// Move the old `pending_deposits` array over (once per process; idempotent across processes)
+export function migratePendingDeposits(): Promise<number> {
+  if (!migration) {
+    migration = store.migrateLegacyArray(LEGACY_DEPOSITS_KEY).catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+}
+
 export async function loadPendingDeposits(): Promise<PendingDeposit[]> {
   try {
-    const deposits = await kv.get<PendingDeposit[]>(DEPOSITS_KEY);
-    return deposits || [];
+    await migratePendingDeposits();
+    const deposits = await store.list();
+    return deposits.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   } catch (error) {
     console.error('Failed to load pending deposits:', error);
     return [];
   }
 }
 
-export async function savePendingDeposits(deposits: PendingDeposit[]): Promise<void> {
-  try {
-    await kv.set(DEPOSITS_KEY, deposits);
-  } catch (error) {
-    console.error('Failed to save pending deposits:', error);
-    throw error;
-  }
+async function loadByStatus(statuses: DepositStatus[]): Promise<PendingDeposit[]> {
+  await migratePendingDeposits();
+  const groups = await Promise.all(statuses.map(status => store.listByIndex('status', status)));
+  return groups.flat();
 }
 
 export async function addPendingDeposit(deposit: Omit<PendingDeposit, 'id' | 'createdAt' | 'status'>): Promise<PendingDeposit> {
-  const deposits = await loadPendingDeposits();
-  
+  await migratePendingDeposits();
+
   const newDeposit: PendingDeposit = {
     ...deposit,
     id: crypto.randomUUID(),
     createdAt: new Date().toISOString(),
     status: 'pending',
   };
-  
-  deposits.push(newDeposit);
-  await savePendingDeposits(deposits);
-  
+
+  await store.insert(newDeposit);
+
   console.log('Added pending deposit:', newDeposit.paymentId);
   return newDeposit;
 }
 
+/**
+ * Move a deposit to a new status. Only valid transitions are applied
+ * (see ALLOWED_TRANSITIONS); returns null if the deposit doesn't exist
+ * or is not in a state that can move to `status`.
+ */
 export async function updateDepositStatus(
-  paymentId: string, 
-  status: PendingDeposit['status'],
+  paymentId: string,
+  status: DepositStatus,
   additionalData?: Partial<PendingDeposit>
 ): Promise<PendingDeposit | null> {
-  const deposits = await loadPendingDeposits();
-  const index = deposits.findIndex(d => d.paymentId === paymentId);
-  
-  if (index !== -1) {
-    deposits[index] = {
-      ...deposits[index],
-      ...additionalData,
-      status,
-    };
-    await savePendingDeposits(deposits);
-    console.log('Updated deposit status:', deposits[index].paymentId, '->', status);
-    return deposits[index];
+  const deposit = await getDepositByPaymentId(paymentId);
+  if (!deposit) return null;
+
+  const from = ALL_STATUSES.filter(s => ALLOWED_TRANSITIONS[s].includes(status));
+  const updated = await store.transition(deposit.id, 'status', from, status, additionalData);
+
+  if (updated) {
+    console.log('Updated deposit status:', updated.paymentId, '->', status);
+  } else {
+    console.log('Skipped deposit status change:', paymentId, '->', status);
   }
-  return null;
+  return updated;
 }
 
 export async function getDepositByPaymentId(paymentId: string): Promise<PendingDeposit | null> {
-  const deposits = await loadPendingDeposits();
-  return deposits.find(d => d.paymentId === paymentId) || null;
+  await migratePendingDeposits();
+  const deposits = await store.listByIndex('paymentId', paymentId);
+  return deposits[0] || null;
 }
 
 export async function getDepositsByWallet(walletAddress: string): Promise<PendingDeposit[]> {
-  const deposits = await loadPendingDeposits();
-  return deposits.filter(d => d.walletAddress === walletAddress);
+  await migratePendingDeposits();
+  return store.listByIndex('wallet', walletAddress);
 }
 
 export async function getPendingDeposits(): Promise<PendingDeposit[]> {
-  const deposits = await loadPendingDeposits();
-  return deposits.filter(d => d.status === 'pending' || d.status === 'sent');
+  return loadByStatus(['pending', 'sent']);
 }
 
 export async function getConfirmedDeposits(): Promise<PendingDeposit[]> {
-  const deposits = await loadPendingDeposits();
-  return deposits.filter(d => d.status === 'confirmed' || d.status === 'credited');
+  return loadByStatus(['confirmed', 'credited']);
 }
 
 // Mark deposit as sent (transaction submitted to blockchain)
 export async function markDepositAsSent(
-  paymentId: string, 
+  paymentId: string,
   transactionSignature: string
 ): Promise<PendingDeposit | null> {
   return updateDepositStatus(paymentId, 'sent', {
@@ -128,7 +165,7 @@ export async function markDepositAsConfirmed(paymentId: string): Promise<Pending
 
 // Mark deposit as credited (funds available in Kripicard)
 export async function markDepositAsCredited(
-  paymentId: string, 
+  paymentId: string,
   cardCreated: boolean = false,
   cardId?: string
 ): Promise<PendingDeposit | null> {
@@ -146,26 +183,24 @@ export async function markDepositAsFailed(paymentId: string, error: string): Pro
 
 // Clean up old deposits (older than 7 days)
 export async function cleanupExpiredDeposits(): Promise<number> {
-  const deposits = await loadPendingDeposits();
+  const deposits = await getPendingDeposits();
   const now = Date.now();
   const SEVEN_DAYS = 7 * 24 * 60 * 60 * 1000;
-  
+
   let expiredCount = 0;
   for (const deposit of deposits) {
-    if (deposit.status === 'pending' || deposit.status === 'sent') {
-      const age = now - new Date(deposit.createdAt).getTime();
-      if (age > SEVEN_DAYS) {
-        deposit.status = 'expired';
-        expiredCount++;
-      }
+    const age = now - new Date(deposit.createdAt).getTime();
+    if (age > SEVEN_DAYS) {
+      // Compare-and-set so a deposit confirmed meanwhile is left alone
+      const expired = await store.transition(deposit.id, 'status', ['pending', 'sent'], 'expired');
+      if (expired) expiredCount++;
     }
   }
-  
+
   if (expiredCount > 0) {
-    await savePendingDeposits(deposits);
     console.log(`Expired ${expiredCount} old deposits`);
   }
-  
+
   return expiredCount;
 }
 
@@ -181,7 +216,7 @@ export async function getDepositSummary(): Promise<{
   totalAmountUsd: number;
 }> {
   const deposits = await loadPendingDeposits();
-  
+
   return {
     total: deposits.length,
     pending: deposits.filter(d => d.status === 'pending').length,
@@ -1,112 +1,132 @@
 /**
  * Pending Refunds Tracker
- * 
+ *
  * When a card creation fails on KripiCard but money was already taken,
  * KripiCard sends a refund back. This module tracks pending refunds
  * and credits users when refunds are detected.
- * 
- * Uses Vercel KV for persistent storage.
+ *
+ * Only creations whose outcome is unknown are tracked here (the card may
+ * exist after all); one the issuer refused is refunded on the spot by
+ * /api/cards/create instead.
+ *
+ * Uses Vercel KV for persistent storage: one record per refund,
+ * indexed by status and wallet (see kv-store).
  */
 
-import { kv } from '@vercel/kv';
+import { createRecordStore } from '@/lib/kv-store';
 
-const REFUNDS_KEY = 'pending_refunds';
+// Legacy single-array key, migrated on first access
+const LEGACY_REFUNDS_KEY = 'pending_refunds';
 
 export interface PendingRefund {
   id: string;
   walletAddress: string; // User's wallet
   amount: number; // Amount expected to be refunded
   reason: string; // Why the refund is expected
-  kripiCardBalanceBefore: number; // KripiCard balance when failure occurred
+  kripiCardBalanceBefore?: number; // KripiCard balance before the failed attempt, if it could be read
   createdAt: string;
   status: 'pending' | 'detected' | 'credited' | 'expired';
   detectedAt?: string;
   creditedAt?: string;
 }
 
+const store = createRecordStore<PendingRefund>({
+  prefix: 'pending_refund',
+  indexes: {
+    status: r => r.status,
+    wallet: r => r.walletAddress,
+  },
+});
+
+let migration: Promise<number> | null = null;
+
+// Move the old `pending_refunds` array over (once per process; idempotent across processes)
+export function migratePendingRefunds(): Promise<number> {
+  if (!migration) {
+    migration = store.migrateLegacyArray(LEGACY_REFUNDS_KEY).catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+}
+
 export async function loadPendingRefunds(): Promise<PendingRefund[]> {
   try {
-    const refunds = await kv.get<PendingRefund[]>(REFUNDS_KEY);
-    return refunds || [];
+    await migratePendingRefunds();
+    return await store.list();
   } catch (error) {
     console.error('Failed to load pending refunds:', error);
     return [];
   }
 }
 
-export async function savePendingRefunds(refunds: PendingRefund[]): Promise<void> {
-  try {
-    await kv.set(REFUNDS_KEY, refunds);
-  } catch (error) {
-    console.error('Failed to save pending refunds:', error);
-    throw error;
-  }
+export async function getPendingRefund(refundId: string): Promise<PendingRefund | null> {
+  await migratePendingRefunds();
+  return store.get(refundId);
 }
 
 export async function addPendingRefund(refund: Omit<PendingRefund, 'id' | 'createdAt' | 'status'>): Promise<PendingRefund> {
-  const refunds = await loadPendingRefunds();
-  
+  await migratePendingRefunds();
+
   const newRefund: PendingRefund = {
     ...refund,
     id: crypto.randomUUID(),
     createdAt: new Date().toISOString(),
     status: 'pending',
   };
-  
-  refunds.push(newRefund);
-  await savePendingRefunds(refunds);
-  
+
+  await store.insert(newRefund);
+
   console.log('Added pending refund:', newRefund);
   return newRefund;
 }
 
+/**
+ * Set a refund's status. Pass `from` to make it a compare-and-set: the
+ * update only applies if the refund is currently in one of those statuses.
+ * Returns the updated refund, or null if nothing was changed.
+ */
 export async function updateRefundStatus(
-  refundId: string, 
+  refundId: string,
   status: PendingRefund['status'],
-  additionalData?: Partial<PendingRefund>
-): Promise<void> {
-  const refunds = await loadPendingRefunds();
-  const index = refunds.findIndex(r => r.id === refundId);
-  
-  if (index !== -1) {
-    refunds[index] = {
-      ...refunds[index],
-      ...additionalData,
-      status,
-    };
-    await savePendingRefunds(refunds);
-    console.log('Updated refund status:', refunds[index]);
+  additionalData?: Partial<PendingRefund>,
+  from?: PendingRefund['status'][]
+): Promise<PendingRefund | null> {
+  await migratePendingRefunds();
+
+  const updated = from
+    ? await store.transition(refundId, 'status', from, status, additionalData)
+    : await store.update(refundId, current => ({ ...current, ...additionalData, status }));
+
+  if (updated) {
+    console.log('Updated refund status:', updated);
   }
+  return updated;
 }
 
 export async function getPendingRefundsForWallet(walletAddress: string): Promise<PendingRefund[]> {
-  const refunds = await loadPendingRefunds();
-  return refunds.filter(r => r.walletAddress === walletAddress && r.status === 'pending');
+  await migratePendingRefunds();
+  const refunds = await store.listByIndex('wallet', walletAddress);
+  return refunds.filter(r => r.status === 'pending');
 }
 
 export async function getAllPendingRefunds(): Promise<PendingRefund[]> {
-  const refunds = await loadPendingRefunds();
-  return refunds.filter(r => r.status === 'pending');
+  await migratePendingRefunds();
+  return store.listByIndex('status', 'pending');
 }
 
 // Clean up old refunds (older than 24 hours)
 export async function cleanupExpiredRefunds(): Promise<void> {
-  const refunds = await loadPendingRefunds();
+  const refunds = await getAllPendingRefunds();
   const now = Date.now();
   const ONE_DAY = 24 * 60 * 60 * 1000;
-  
-  let changed = false;
+
   for (const refund of refunds) {
-    if (refund.status === 'pending') {
-      const age = now - new Date(refund.createdAt).getTime();
-      if (age > ONE_DAY) {
-        refund.status = 'expired';
-        changed = true;
-      }
+    const age = now - new Date(refund.createdAt).getTime();
+    if (age > ONE_DAY) {
+      // Compare-and-set so a refund credited meanwhile is left alone
+      await store.transition(refund.id, 'status', ['pending'], 'expired');
     }
   }
-  
-  if (changed) {
-    await savePendingRefunds(refunds);
-  }
 }
@@ -0,0 +1,275 @@
+/**
+ * Price Oracle (server only)
+ *
+ * The one place the server gets crypto prices from. Prices are fetched
+ * from every configured provider (see price-providers.ts) in parallel;
+ * observations older than PRICE_MAX_AGE_SECONDS are discarded and the
+ * median of the rest is used. If fewer than PRICE_MIN_SOURCES fresh
+ * observations remain, pricing fails rather than falling back to a
+ * guessed price.
+ *
+ * Deposits and withdrawals lock a price quote: the quoted price is stored
+ * in Vercel KV with an expiry, and the server prices the transaction with
+ * that quote. Prices sent by the client are never used.
+ */
+
+import { kv } from "@vercel/kv";
+import {
+  PRICE_PROVIDERS,
+  getMockPriceProvider,
+  type PriceObservation,
+  type PriceProvider,
+  type PriceSymbol,
+} from "@/lib/price-providers";
+import { getDepositAssets, getWithdrawalAssets } from "@/lib/assets";
+
+export type { PriceSymbol } from "@/lib/price-providers";
+
+const DEFAULT_PROVIDERS = "coingecko,coinbase";
+const DEFAULT_MAX_AGE_SECONDS = 120;
+const DEFAULT_MIN_SOURCES = 1;
+
+// Aggregated prices are reused briefly so a burst of requests doesn't hit every provider
+const CACHE_DURATION_MS = 15 * 1000;
+
+// Every currency an enabled asset is in (see assets.ts)
+export const PRICE_SYMBOLS: PriceSymbol[] = Array.from(
+  new Set(
+    [...getDepositAssets(), ...getWithdrawalAssets()].map((a) => a.symbol)
+  )
+);
+
+export interface AggregatedPrice {
+  symbol: PriceSymbol;
+  price: number; // Median of fresh observations (USD)
+  sources: string[];
+  observations: PriceObservation[];
+  aggregatedAt: string;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? fallback : value;
+}
+
+// PRICE_PROVIDERS=mock swaps in the mock provider (refused in production)
+export function isMockPricingEnabled(): boolean {
+  const names = (process.env.PRICE_PROVIDERS || "")
+    .split(",")
+    .map((n) => n.trim());
+  if (!names.includes("mock")) return false;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The mock price provider cannot be used in production");
+  }
+  return true;
+}
+
+let providersOverride: PriceProvider[] | null = null;
+
+// Replace the providers (e.g. with a MockPriceProvider in tests); pass null to restore the default
+export function setPriceProviders(providers: PriceProvider[] | null): void {
+  providersOverride = providers;
+  priceCache.clear();
+}
+
+export function getPriceProviders(): PriceProvider[] {
+  if (providersOverride) return providersOverride;
+  if (isMockPricingEnabled()) return [getMockPriceProvider()];
+
+  const names = (process.env.PRICE_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(",")
+    .map((n) => n.trim());
+  const providers = names.map((name) => PRICE_PROVIDERS[name]).filter(Boolean);
+  if (providers.length === 0) {
+    throw new Error(
+      `No known price providers in PRICE_PROVIDERS=${process.env.PRICE_PROVIDERS}`
+    );
+  }
+  return providers;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Combine observations for one symbol, dropping stale ones
+export function aggregateObservations(
+  symbol: PriceSymbol,
+  observations: PriceObservation[],
+  now = Date.now()
+): AggregatedPrice {
+  const maxAgeMs =
+    readNumberEnv("PRICE_MAX_AGE_SECONDS", DEFAULT_MAX_AGE_SECONDS) * 1000;
+  const minSources = readNumberEnv("PRICE_MIN_SOURCES", DEFAULT_MIN_SOURCES);
+
+  const fresh = observations.filter(
+    (o) => o.symbol === symbol && o.price > 0 && now - o.observedAt <= maxAgeMs
+  );
+
+  if (fresh.length < minSources) {
+    const stale =
+      observations.filter((o) => o.symbol === symbol).length - fresh.length;
+    throw new Error(
+      `Price unavailable for ${symbol}: ${fresh.length} fresh source(s), ${minSources} required` +
+        (stale > 0 ? ` (${stale} stale)` : "")
+    );
+  }
+
+  return {
+    symbol,
+    price: median(fresh.map((o) => o.price)),
+    sources: fresh.map((o) => o.source),
+    observations: fresh,
+    aggregatedAt: new Date(now).toISOString(),
+  };
+}
+
+const priceCache = new Map<
+  PriceSymbol,
+  { price: AggregatedPrice; timestamp: number }
+>();
+
+// Current prices for `symbols`; throws if any of them can't be priced
+export async function getPrices(
+  symbols: PriceSymbol[] = PRICE_SYMBOLS
+): Promise<Record<PriceSymbol, AggregatedPrice>> {
+  const result = {} as Record<PriceSymbol, AggregatedPrice>;
+  const missing: PriceSymbol[] = [];
+
+  for (const symbol of symbols) {
+    const cached = priceCache.get(symbol);
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
+      result[symbol] = cached.price;
+    } else {
+      missing.push(symbol);
+    }
+  }
+
+  if (missing.length === 0) return result;
+
+  const providers = getPriceProviders();
+  const responses = await Promise.allSettled(
+    providers.map((p) => p.fetchPrices(missing))
+  );
+
+  const observations: PriceObservation[] = [];
+  responses.forEach((response, i) => {
+    if (response.status === "fulfilled") {
+      observations.push(...response.value);
+    } else {
+      console.error(
+        `Price provider ${providers[i].name} failed:`,
+        response.reason
+      );
+    }
+  });
+
+  for (const symbol of missing) {
+    const price = aggregateObservations(symbol, observations);
+    priceCache.set(symbol, { price, timestamp: Date.now() });
+    result[symbol] = price;
+  }
+
+  return result;
+}
+
+// Forget cached prices so the next lookup asks the providers again
+export function clearPriceCache(): void {
+  priceCache.clear();
+}
+
+export async function getPrice(symbol: PriceSymbol): Promise<number> {
+  const prices = await getPrices([symbol]);
+  return prices[symbol].price;
+}
+
+// ============ QUOTE LOCKING ============
+
+export type PriceQuotePurpose = "deposit" | "withdrawal";
+
+export interface PriceQuote {
+  id: string;
+  walletAddress: string;
+  symbol: PriceSymbol;
+  purpose: PriceQuotePurpose;
+  price: number;
+  sources: string[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+const QUOTE_PREFIX = "price_quote:";
+
+// How long a locked price holds. Withdrawals are priced and sent right
+// away; a deposit quote has to cover the time it takes the user to pay.
+const QUOTE_TTL_SECONDS: Record<PriceQuotePurpose, number> = {
+  deposit: 15 * 60,
+  withdrawal: 60,
+};
+
+export async function lockPriceQuote(params: {
+  walletAddress: string;
+  symbol: PriceSymbol;
+  purpose: PriceQuotePurpose;
+}): Promise<PriceQuote> {
+  const price = (await getPrices([params.symbol]))[params.symbol];
+  const ttlSeconds = QUOTE_TTL_SECONDS[params.purpose];
+  const now = Date.now();
+
+  const quote: PriceQuote = {
+    id: crypto.randomUUID(),
+    walletAddress: params.walletAddress,
+    symbol: params.symbol,
+    purpose: params.purpose,
+    price: price.price,
+    sources: price.sources,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+  };
+
+  await kv.set(`${QUOTE_PREFIX}${quote.id}`, quote, { ex: ttlSeconds });
+  return quote;
+}
+
+// A quote that hasn't expired or been used, if it was issued for this wallet, symbol and purpose
+export async function getPriceQuote(
+  quoteId: string,
+  expected: {
+    walletAddress: string;
+    symbol: PriceSymbol;
+    purpose: PriceQuotePurpose;
+  }
+): Promise<PriceQuote | null> {
+  if (!quoteId) return null;
+
+  const quote = await kv.get<PriceQuote>(`${QUOTE_PREFIX}${quoteId}`);
+  if (!quote) return null;
+
+  if (
+    quote.walletAddress !== expected.walletAddress ||
+    quote.symbol !== expected.symbol ||
+    quote.purpose !== expected.purpose ||
+    new Date(quote.expiresAt).getTime() <= Date.now()
+  ) {
+    return null;
+  }
+  return quote;
+}
+
+// Take a quote for use. Each quote prices exactly one transaction.
+export async function consumePriceQuote(
+  quoteId: string,
+  expected: {
+    walletAddress: string;
+    symbol: PriceSymbol;
+    purpose: PriceQuotePurpose;
+  }
+): Promise<PriceQuote | null> {
+  const quote = await getPriceQuote(quoteId, expected);
+  if (!quote) return null;
+
+  const claimed = await kv.getdel<PriceQuote>(`${QUOTE_PREFIX}${quoteId}`);
+  return claimed ? quote : null;
+}
@@ -0,0 +1,191 @@
+/**
+ * Price Providers
+ *
+ * Sources of USD spot prices for the price oracle (see price-oracle.ts).
+ * Each provider reports an observation per symbol with the time the price
+ * was observed, so the oracle can discard stale prices. A provider that
+ * fails or doesn't list a symbol simply returns fewer observations.
+ *
+ * MockPriceProvider serves fixed prices for development and tests
+ * (PRICE_PROVIDERS=mock).
+ */
+
+import { CURRENCIES, type CryptoCurrency } from "@/lib/assets";
+
+export type PriceSymbol = CryptoCurrency;
+
+export interface PriceObservation {
+  symbol: PriceSymbol;
+  price: number; // USD
+  observedAt: number; // Unix ms
+  source: string;
+}
+
+export interface PriceProvider {
+  name: string;
+  fetchPrices(symbols: PriceSymbol[]): Promise<PriceObservation[]>;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, {
+    cache: "no-store",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+  }
+  return response.json();
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+// ============ COINGECKO ============
+
+export const coingeckoProvider: PriceProvider = {
+  name: "coingecko",
+  async fetchPrices(symbols) {
+    const ids = symbols.map((s) => CURRENCIES[s].coingeckoId).join(",");
+    const data = asRecord(
+      await fetchJson(
+        `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=usd&include_last_updated_at=true`
+      )
+    );
+
+    const observations: PriceObservation[] = [];
+    for (const symbol of symbols) {
+      const entry = asRecord(data?.[CURRENCIES[symbol].coingeckoId]);
+      const price = Number(entry?.usd);
+      if (!(price > 0)) continue;
+      const updatedAt = Number(entry?.last_updated_at);
+      observations.push({
+        symbol,
+        price,
+        observedAt: updatedAt > 0 ? updatedAt * 1000 : Date.now(),
+        source: "coingecko",
+      });
+    }
+    return observations;
+  },
+};
+
+// ============ COINBASE ============
+
+export const coinbaseProvider: PriceProvider = {
+  name: "coinbase",
+  async fetchPrices(symbols) {
+    const results = await Promise.allSettled(
+      symbols.map(async (symbol): Promise<PriceObservation> => {
+        const data = await fetchJson(
+          `https://api.coinbase.com/v2/prices/${symbol}-USD/spot`
+        );
+        const price = parseFloat(
+          String(asRecord(asRecord(data)?.data)?.amount)
+        );
+        if (!(price > 0)) {
+          throw new Error(`No Coinbase price for ${symbol}`);
+        }
+        // Spot prices are live; Coinbase doesn't return a timestamp
+        return { symbol, price, observedAt: Date.now(), source: "coinbase" };
+      })
+    );
+
+    return results
+      .filter(
+        (r): r is PromiseFulfilledResult<PriceObservation> =>
+          r.status === "fulfilled"
+      )
+      .map((r) => r.value);
+  },
+};
+
+// ============ MOCK ============
+
+const DEFAULT_MOCK_PRICES: Record<PriceSymbol, number> = {
+  SOL: 185,
+  ETH: 3200,
+  USDT: 1,
+  USDC: 1,
+  PYUSD: 1,
+};
+
+export class MockPriceProvider implements PriceProvider {
+  name = "mock";
+  private prices = new Map<PriceSymbol, { price: number; ageMs: number }>();
+  private failing = false;
+
+  constructor(
+    prices: Partial<Record<PriceSymbol, number>> = DEFAULT_MOCK_PRICES
+  ) {
+    for (const [symbol, price] of Object.entries(prices)) {
+      this.setPrice(symbol as PriceSymbol, price);
+    }
+  }
+
+  // Serve `price` for `symbol`, reported as observed `ageMs` ago
+  setPrice(symbol: PriceSymbol, price: number, ageMs = 0): void {
+    this.prices.set(symbol, { price, ageMs });
+  }
+
+  removePrice(symbol: PriceSymbol): void {
+    this.prices.delete(symbol);
+  }
+
+  // Make every fetch throw, as if the upstream API were down
+  setFailing(failing: boolean): void {
+    this.failing = failing;
+  }
+
+  reset(): void {
+    this.prices.clear();
+    this.failing = false;
+    for (const [symbol, price] of Object.entries(DEFAULT_MOCK_PRICES)) {
+      this.setPrice(symbol as PriceSymbol, price);
+    }
+  }
+
+  getState() {
+    return { failing: this.failing, prices: Object.fromEntries(this.prices) };
+  }
+
+  async fetchPrices(symbols: PriceSymbol[]): Promise<PriceObservation[]> {
+    if (this.failing) {
+      throw new Error("Mock price provider is failing");
+    }
+
+    const observations: PriceObservation[] = [];
+    for (const symbol of symbols) {
+      const entry = this.prices.get(symbol);
+      if (!entry) continue;
+      observations.push({
+        symbol,
+        price: entry.price,
+        observedAt: Date.now() - entry.ageMs,
+        source: this.name,
+      });
+    }
+    return observations;
+  }
+}
+
+// One mock per server process (kept on globalThis so dev reloads don't reset it)
+const globalForMock = globalThis as unknown as {
+  mockPriceProvider?: MockPriceProvider;
+};
+
+export function getMockPriceProvider(): MockPriceProvider {
+  if (!globalForMock.mockPriceProvider) {
+    globalForMock.mockPriceProvider = new MockPriceProvider();
+  }
+  return globalForMock.mockPriceProvider;
+}
+
+export const PRICE_PROVIDERS: Record<string, PriceProvider> = {
+  coingecko: coingeckoProvider,
+  coinbase: coinbaseProvider,
+};
@@ -0,0 +1,105 @@
+// Client-side wallet session management
+// Holds the session token issued by /api/auth/session and attaches it to API calls
+
+import bs58 from "bs58";
+
+const SESSION_KEY = "trenchbank_session";
+
+export const SESSION_EXPIRED_EVENT = "trenchbank:session-expired";
+
+export interface ClientSession {
+  token: string;
+  walletAddress: string;
+  expiresAt: string;
+}
+
+// Get the stored session for a wallet (null if missing or expired)
+export function getStoredSession(walletAddress?: string): ClientSession | null {
+  if (typeof window === "undefined") return null;
+  const stored = sessionStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+
+  const session: ClientSession = JSON.parse(stored);
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    sessionStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+  if (walletAddress && session.walletAddress !== walletAddress) {
+    return null;
+  }
+  return session;
+}
+
+function storeSession(session: ClientSession): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearStoredSession(): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.removeItem(SESSION_KEY);
+}
+
+// Sign a nonce with the connected wallet and exchange it for a session token
+export async function signInWithWallet(
+  walletAddress: string,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<ClientSession> {
+  const nonceResponse = await fetch("/api/auth/nonce", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ walletAddress }),
+  });
+  const nonceData = await nonceResponse.json();
+  if (!nonceData.success) {
+    throw new Error(nonceData.message || "Failed to start sign-in");
+  }
+
+  const signature = await signMessage(
+    new TextEncoder().encode(nonceData.data.message)
+  );
+
+  const sessionResponse = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      walletAddress,
+      nonce: nonceData.data.nonce,
+      signature: bs58.encode(signature),
+    }),
+  });
+  const sessionData = await sessionResponse.json();
+  if (!sessionData.success) {
+    throw new Error(sessionData.message || "Failed to sign in");
+  }
+
+  const session: ClientSession = {
+    token: sessionData.data.token,
+    walletAddress,
+    expiresAt: sessionData.data.expiresAt,
+  };
+  storeSession(session);
+  return session;
+}
+
+// fetch() with the session token attached
+export async function authFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const session = getStoredSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set("Authorization", `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+
+  // Session expired or revoked - let the session provider prompt for a new signature
+  if (response.status === 401 && session) {
+    clearStoredSession();
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+
+  return response;
+}
@@ -0,0 +1,205 @@
+/**
+ * Used Transaction Registry (server only)
+ *
+ * Makes sure an on-chain payment credits at most one deposit. Each
+ * transaction that pays a deposit is claimed under its own KV key
+ * (`used_tx:<signature>`), written with set-if-absent, so of two
+ * concurrent claims - a manual verify and the deposit watcher, or two
+ * verifies - exactly one wins. The entry records which deposit and wallet
+ * claimed it, for support lookups (GET /api/crypto-deposit/used-transactions).
+ *
+ * A claim is only released when its deposit is reverted (see
+ * crypto-deposit-store.ts), so the same payment can be matched again if
+ * it's re-included on-chain.
+ *
+ * EVM transaction hashes are hex and case-insensitive, so `0x` hashes are
+ * claimed in lowercase; Solana signatures (base58) are kept as given.
+ *
+ * Replaces the old `used_transactions` array, which is moved over the
+ * first time the registry is used, together with any `0x` claims saved in
+ * mixed case before hashes were lowercased.
+ */
+
+import { kv } from "@vercel/kv";
+import { withLock } from "@/lib/kv-store";
+import type { CryptoNetwork } from "@/lib/crypto-deposit";
+
+const CLAIM_PREFIX = "used_tx:";
+const WALLET_INDEX_PREFIX = "used_tx:wallet:";
+const LEGACY_KEY = "used_transactions";
+const CASE_MIGRATED_KEY = "used_tx:case_migrated";
+
+export interface TransactionClaim {
+  txSignature: string;
+  network?: CryptoNetwork;
+  depositId?: string; // Missing for entries moved over from the legacy array
+  walletAddress?: string;
+  source: "verify" | "watcher" | "legacy";
+  claimedAt: string;
+}
+
+let legacyMigrated = false;
+
+function normalize(txSignature: string): string {
+  const trimmed = txSignature.trim();
+  return /^0x[0-9a-f]+$/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+// Re-key `0x` claims saved in mixed case under their lowercase hash, once
+async function migrateMixedCaseClaims(): Promise<void> {
+  if (await kv.get(CASE_MIGRATED_KEY)) return;
+
+  let moved = 0;
+  let cursor: string | number = 0;
+  do {
+    const [next, keys]: [string | number, string[]] = await kv.scan(cursor, {
+      match: `${CLAIM_PREFIX}0[xX]*`,
+      count: 500,
+    });
+    for (const key of keys) {
+      const txSignature = key.slice(CLAIM_PREFIX.length);
+      const normalized = normalize(txSignature);
+      if (normalized === txSignature) continue;
+
+      const claim = await kv.get<TransactionClaim>(key);
+      if (!claim) continue;
+      const entry: TransactionClaim = { ...claim, txSignature: normalized };
+      if (
+        !(await kv.set(`${CLAIM_PREFIX}${normalized}`, entry, { nx: true }))
+      ) {
+        // Claimed under both forms already; keep both for support to look into
+        console.warn(
+          `Transaction ${normalized} is claimed under more than one casing`
+        );
+        continue;
+      }
+      await kv.del(key);
+      if (claim.walletAddress) {
+        await kv.srem(
+          `${WALLET_INDEX_PREFIX}${claim.walletAddress}`,
+          txSignature
+        );
+        await kv.sadd(
+          `${WALLET_INDEX_PREFIX}${claim.walletAddress}`,
+          normalized
+        );
+      }
+      moved++;
+    }
+    cursor = next;
+  } while (String(cursor) !== "0");
+
+  await kv.set(CASE_MIGRATED_KEY, new Date().toISOString());
+  if (moved > 0)
+    console.log(`Lowercased ${moved} mixed-case transaction claims`);
+}
+
+// Move the legacy signature array over once (entries without a deposit)
+async function migrateLegacyRegistry(): Promise<void> {
+  if (legacyMigrated) return;
+
+  await withLock(`${CLAIM_PREFIX}migration`, async () => {
+    await migrateMixedCaseClaims();
+
+    const legacy = await kv.get<string[]>(LEGACY_KEY);
+    if (legacy && legacy.length > 0) {
+      const claimedAt = new Date().toISOString();
+      for (const txSignature of legacy) {
+        const entry: TransactionClaim = {
+          txSignature: normalize(txSignature),
+          source: "legacy",
+          claimedAt,
+        };
+        await kv.set(`${CLAIM_PREFIX}${entry.txSignature}`, entry, {
+          nx: true,
+        });
+      }
+      await kv.rename(LEGACY_KEY, `${LEGACY_KEY}:migrated`);
+      console.log(
+        `Migrated ${legacy.length} used transactions from ${LEGACY_KEY}`
+      );
+    }
+  });
+  legacyMigrated = true;
+}
+
+export async function getTransactionClaim(
+  txSignature: string
+): Promise<TransactionClaim | null> {
+  await migrateLegacyRegistry();
+  return kv.get<TransactionClaim>(`${CLAIM_PREFIX}${normalize(txSignature)}`);
+}
+
+/**
+ * Claim a transaction for a deposit. Returns false if it was already
+ * claimed - by anyone, including this deposit.
+ */
+export async function claimTransaction(
+  txSignature: string,
+  claim: Omit<TransactionClaim, "txSignature" | "claimedAt">
+): Promise<boolean> {
+  await migrateLegacyRegistry();
+
+  const entry: TransactionClaim = {
+    ...claim,
+    txSignature: normalize(txSignature),
+    claimedAt: new Date().toISOString(),
+  };
+  const claimed = await kv.set(`${CLAIM_PREFIX}${entry.txSignature}`, entry, {
+    nx: true,
+  });
+  if (!claimed) return false;
+
+  if (entry.walletAddress) {
+    await kv.sadd(
+      `${WALLET_INDEX_PREFIX}${entry.walletAddress}`,
+      entry.txSignature
+    );
+  }
+  return true;
+}
+
+// Give up a claim, only if `depositId` holds it
+export async function releaseTransaction(
+  txSignature: string,
+  depositId: string
+): Promise<boolean> {
+  const key = `${CLAIM_PREFIX}${normalize(txSignature)}`;
+
+  return withLock(key, async () => {
+    const claim = await kv.get<TransactionClaim>(key);
+    if (!claim || claim.depositId !== depositId) return false;
+
+    await kv.del(key);
+    if (claim.walletAddress) {
+      await kv.srem(
+        `${WALLET_INDEX_PREFIX}${claim.walletAddress}`,
+        claim.txSignature
+      );
+    }
+    console.warn(
+      `Released transaction ${claim.txSignature} from deposit ${depositId}`
+    );
+    return true;
+  });
+}
+
+// Transactions claimed for a wallet's deposits, newest first
+export async function getWalletTransactionClaims(
+  walletAddress: string
+): Promise<TransactionClaim[]> {
+  const signatures = await kv.smembers(
+    `${WALLET_INDEX_PREFIX}${walletAddress}`
+  );
+  if (signatures.length === 0) return [];
+
+  const claims = await kv.mget<(TransactionClaim | null)[]>(
+    ...signatures.map((sig) => `${CLAIM_PREFIX}${sig}`)
+  );
+  return claims
+    .filter((c): c is TransactionClaim => c !== null)
+    .sort(
+      (a, b) =>
+        new Date(b.claimedAt).getTime() - new Date(a.claimedAt).getTime()
+    );
+}
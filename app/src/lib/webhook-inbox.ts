@@ -0,0 +1,244 @@
+/**
+ * Webhook Inbox
+ *
+ * Records every Cryptomus webhook delivery and makes sure each payment
+ * state transition is applied exactly once.
+ *
+ * - Deliveries are keyed by `<uuid>:<status>`; retries of the same
+ *   delivery bump `deliveryCount` instead of being handled again
+ * - Each delivery moves received -> processing -> processed via
+ *   compare-and-set, so concurrent retries can't both run the handler
+ * - Payment statuses are ranked (process/check < paid/cancel/... < refunds);
+ *   a delivery that ranks at or below the payment's current status is stale
+ *   (e.g. `check` arriving after `paid`) and is recorded but not applied
+ *
+ * Uses Vercel KV for persistent storage (see kv-store).
+ */
+
+import { createRecordStore, withLock } from "@/lib/kv-store";
+import type { CryptomusWebhookPayload } from "@/lib/cryptomus";
+
+export type WebhookSource = "deposit" | "kripicard";
+
+export interface WebhookDelivery {
+  id: string; // `<uuid>:<status>`
+  paymentId: string; // Cryptomus payment UUID
+  orderId: string;
+  status: string; // Cryptomus payment status
+  source: WebhookSource; // Which webhook route received it
+  state: "received" | "processing" | "processed";
+  outcome?: "applied" | "stale";
+  payload: CryptomusWebhookPayload;
+  deliveryCount: number;
+  firstReceivedAt: string;
+  lastReceivedAt: string;
+  processingStartedAt?: string;
+  processedAt?: string;
+  error?: string;
+}
+
+// Latest status applied for a payment
+export interface PaymentWebhookState {
+  id: string; // Cryptomus payment UUID
+  status: string;
+  deliveryId: string;
+  updatedAt: string;
+}
+
+export interface WebhookResult {
+  delivery: WebhookDelivery;
+  result: "applied" | "duplicate" | "stale";
+}
+
+// Later stages outrank earlier ones; statuses within a stage are mutually exclusive
+const STATUS_RANK: Record<string, number> = {
+  process: 1,
+  check: 1,
+  confirm_check: 1,
+  wrong_amount_waiting: 1,
+  paid: 2,
+  paid_over: 2,
+  wrong_amount: 2,
+  fail: 2,
+  cancel: 2,
+  system_fail: 2,
+  refund_process: 3,
+  refund_fail: 4,
+  refund_paid: 4,
+};
+
+// A delivery stuck in `processing` this long (crashed handler) can be claimed again
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const deliveries = createRecordStore<WebhookDelivery>({
+  prefix: "webhook_delivery",
+  indexes: {
+    paymentId: (d) => d.paymentId,
+    state: (d) => d.state,
+  },
+});
+
+const paymentStates = createRecordStore<PaymentWebhookState>({
+  prefix: "webhook_payment",
+  indexes: {},
+});
+
+export function deliveryId(paymentId: string, status: string): string {
+  return `${paymentId}:${status}`;
+}
+
+function statusRank(status: string): number {
+  return STATUS_RANK[status] ?? 0;
+}
+
+// Store a delivery, or count a retry of one we've already seen
+async function recordDelivery(
+  source: WebhookSource,
+  payload: CryptomusWebhookPayload
+): Promise<WebhookDelivery> {
+  const id = deliveryId(payload.uuid, payload.status);
+  const now = new Date().toISOString();
+
+  const retried = await deliveries.update(id, (current) => ({
+    ...current,
+    deliveryCount: current.deliveryCount + 1,
+    lastReceivedAt: now,
+  }));
+  if (retried) return retried;
+
+  const delivery: WebhookDelivery = {
+    id,
+    paymentId: payload.uuid,
+    orderId: payload.order_id,
+    status: payload.status,
+    source,
+    state: "received",
+    payload,
+    deliveryCount: 1,
+    firstReceivedAt: now,
+    lastReceivedAt: now,
+  };
+  if (await deliveries.insert(delivery)) {
+    return delivery;
+  }
+
+  // Lost an insert race with a concurrent retry
+  return (await deliveries.update(id, (current) => ({
+    ...current,
+    deliveryCount: current.deliveryCount + 1,
+    lastReceivedAt: now,
+  })))!;
+}
+
+/**
+ * Record a verified webhook and run `apply` at most once for it.
+ *
+ * `apply` receives the payload and the previously applied status (if any).
+ * If it throws, the delivery goes back to `received` so a Cryptomus retry
+ * can process it again.
+ */
+export async function handleWebhookDelivery(
+  source: WebhookSource,
+  payload: CryptomusWebhookPayload,
+  apply: (
+    payload: CryptomusWebhookPayload,
+    previousStatus: string | null
+  ) => Promise<void>
+): Promise<WebhookResult> {
+  const delivery = await recordDelivery(source, payload);
+
+  // Claim the delivery - fails if another request processed or is processing it
+  const claimed = await deliveries.update(delivery.id, (current) => {
+    const stuck =
+      current.state === "processing" &&
+      Date.now() - new Date(current.processingStartedAt || 0).getTime() >
+        PROCESSING_TIMEOUT_MS;
+    if (current.state !== "received" && !stuck) return null;
+    return {
+      ...current,
+      state: "processing",
+      processingStartedAt: new Date().toISOString(),
+    };
+  });
+  if (!claimed) {
+    return { delivery, result: "duplicate" };
+  }
+
+  try {
+    return await withLock(`webhook_payment:${payload.uuid}`, async () => {
+      const current = await paymentStates.get(payload.uuid);
+
+      if (current && statusRank(payload.status) <= statusRank(current.status)) {
+        console.log(
+          `Stale webhook ${delivery.id}: payment already ${current.status}`
+        );
+        const stale = await deliveries.transition(
+          delivery.id,
+          "state",
+          ["processing"],
+          "processed",
+          {
+            outcome: "stale",
+            processedAt: new Date().toISOString(),
+          }
+        );
+        return { delivery: stale ?? claimed, result: "stale" as const };
+      }
+
+      await apply(payload, current?.status ?? null);
+
+      const now = new Date().toISOString();
+      const state: PaymentWebhookState = {
+        id: payload.uuid,
+        status: payload.status,
+        deliveryId: delivery.id,
+        updatedAt: now,
+      };
+      if (!(await paymentStates.insert(state))) {
+        await paymentStates.update(payload.uuid, () => state);
+      }
+
+      const applied = await deliveries.transition(
+        delivery.id,
+        "state",
+        ["processing"],
+        "processed",
+        {
+          outcome: "applied",
+          processedAt: now,
+          error: undefined,
+        }
+      );
+      return { delivery: applied ?? claimed, result: "applied" as const };
+    });
+  } catch (error) {
+    await deliveries.transition(
+      delivery.id,
+      "state",
+      ["processing"],
+      "received",
+      {
+        error: error instanceof Error ? error.message : String(error),
+      }
+    );
+    throw error;
+  }
+}
+
+// All deliveries received for a payment, oldest first
+export async function getDeliveryHistory(
+  paymentId: string
+): Promise<WebhookDelivery[]> {
+  const history = await deliveries.listByIndex("paymentId", paymentId);
+  return history.sort(
+    (a, b) =>
+      new Date(a.firstReceivedAt).getTime() -
+      new Date(b.firstReceivedAt).getTime()
+  );
+}
+
+export async function getPaymentWebhookState(
+  paymentId: string
+): Promise<PaymentWebhookState | null> {
+  return paymentStates.get(paymentId);
+}
@@ -0,0 +1,383 @@
+/**
+ * Withdrawal Risk Policy (server only)
+ *
+ * Decides whether a new withdrawal is rejected, held, sent to manual
+ * review or approved automatically, and guards treasury outflow:
+ *
+ * - Per-wallet velocity limits over rolling 24h and 7d windows
+ * - Destination cool-down: an address seen for the first time is added
+ *   to the wallet's address book and can't be paid out to until
+ *   WITHDRAWAL_ADDRESS_COOLDOWN_HOURS have passed
+ * - Optional allow-list mode: only address-book entries past their
+ *   cool-down are accepted. Turning it off also waits out the cool-down,
+ *   so a hijacked session can't switch it off and withdraw at once
+ * - Withdrawals at or above WITHDRAWAL_REVIEW_THRESHOLD_USD wait for
+ *   manual review (/api/withdrawal/review)
+ * - Treasury-wide hourly outflow cap: a payout that would cross it pauses
+ *   all payouts until they are resumed manually
+ *
+ * Limits are read from env vars with the defaults below. Address books,
+ * settings, outflow counters and the pause flag live in Vercel KV.
+ */
+
+import { kv } from "@vercel/kv";
+import { createRecordStore } from "@/lib/kv-store";
+import type { WithdrawalNetwork } from "@/lib/withdrawal";
+import { isEvmNetwork } from "@/lib/assets";
+
+const DEFAULT_DAILY_LIMIT_USD = 2000;
+const DEFAULT_WEEKLY_LIMIT_USD = 10000;
+const DEFAULT_ADDRESS_COOLDOWN_HOURS = 24;
+const DEFAULT_REVIEW_THRESHOLD_USD = 1000;
+const DEFAULT_HOURLY_OUTFLOW_CAP_USD = 10000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const SETTINGS_PREFIX = "withdrawal_settings:";
+const OUTFLOW_PREFIX = "treasury_outflow:";
+const PAUSE_KEY = "withdrawals:paused";
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? fallback : value;
+}
+
+export function getWithdrawalLimits() {
+  return {
+    dailyLimitUsd: readNumberEnv(
+      "WITHDRAWAL_DAILY_LIMIT_USD",
+      DEFAULT_DAILY_LIMIT_USD
+    ),
+    weeklyLimitUsd: readNumberEnv(
+      "WITHDRAWAL_WEEKLY_LIMIT_USD",
+      DEFAULT_WEEKLY_LIMIT_USD
+    ),
+    addressCooldownMs:
+      readNumberEnv(
+        "WITHDRAWAL_ADDRESS_COOLDOWN_HOURS",
+        DEFAULT_ADDRESS_COOLDOWN_HOURS
+      ) * HOUR_MS,
+    reviewThresholdUsd: readNumberEnv(
+      "WITHDRAWAL_REVIEW_THRESHOLD_USD",
+      DEFAULT_REVIEW_THRESHOLD_USD
+    ),
+    hourlyOutflowCapUsd: readNumberEnv(
+      "TREASURY_HOURLY_OUTFLOW_CAP_USD",
+      DEFAULT_HOURLY_OUTFLOW_CAP_USD
+    ),
+  };
+}
+
+// ============ ADDRESS BOOK ============
+
+export interface AddressBookEntry {
+  id: string; // <wallet>:<network>:<address>
+  walletAddress: string;
+  network: WithdrawalNetwork;
+  address: string;
+  label?: string;
+  addedAt: string;
+  availableAt: string; // End of the cool-down
+  removedAt?: string;
+}
+
+export interface WithdrawalSettings {
+  allowListOnly: boolean;
+  allowListOnlyUntil?: string; // Allow-listing stays enforced until this time after being turned off
+}
+
+const addressBook = createRecordStore<AddressBookEntry>({
+  prefix: "address_book",
+  indexes: {
+    wallet: (e) => e.walletAddress,
+  },
+});
+
+function addressEntryId(
+  walletAddress: string,
+  network: WithdrawalNetwork,
+  address: string
+): string {
+  // EVM addresses are case-insensitive
+  const normalized = isEvmNetwork(network) ? address.toLowerCase() : address;
+  return `${walletAddress}:${network}:${normalized}`;
+}
+
+export async function getAddressBook(
+  walletAddress: string
+): Promise<AddressBookEntry[]> {
+  const entries = (
+    await addressBook.listByIndex("wallet", walletAddress)
+  ).filter((e) => !e.removedAt);
+  return entries.sort(
+    (a, b) => new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime()
+  );
+}
+
+export async function getAddressBookEntry(
+  walletAddress: string,
+  network: WithdrawalNetwork,
+  address: string
+): Promise<AddressBookEntry | null> {
+  const entry = await addressBook.get(
+    addressEntryId(walletAddress, network, address)
+  );
+  return entry && !entry.removedAt ? entry : null;
+}
+
+// Add a destination; it can be withdrawn to once the cool-down has passed.
+// Existing entries are returned as-is; a removed one starts a new cool-down.
+export async function addAddressBookEntry(
+  walletAddress: string,
+  network: WithdrawalNetwork,
+  address: string,
+  label?: string
+): Promise<AddressBookEntry> {
+  const now = Date.now();
+  const entry: AddressBookEntry = {
+    id: addressEntryId(walletAddress, network, address),
+    walletAddress,
+    network,
+    address,
+    label,
+    addedAt: new Date(now).toISOString(),
+    availableAt: new Date(
+      now + getWithdrawalLimits().addressCooldownMs
+    ).toISOString(),
+  };
+
+  if (await addressBook.insert(entry)) return entry;
+
+  const existing = await addressBook.update(entry.id, (current) =>
+    current.removedAt ? { ...entry, label: label ?? current.label } : null
+  );
+  return existing ?? (await addressBook.get(entry.id)) ?? entry;
+}
+
+export async function removeAddressBookEntry(
+  walletAddress: string,
+  entryId: string
+): Promise<boolean> {
+  const removed = await addressBook.update(entryId, (current) =>
+    current.walletAddress === walletAddress && !current.removedAt
+      ? { ...current, removedAt: new Date().toISOString() }
+      : null
+  );
+  return Boolean(removed);
+}
+
+export async function getWithdrawalSettings(
+  walletAddress: string
+): Promise<WithdrawalSettings> {
+  const settings = await kv.get<WithdrawalSettings>(
+    `${SETTINGS_PREFIX}${walletAddress}`
+  );
+  return settings || { allowListOnly: false };
+}
+
+export async function setAllowListOnly(
+  walletAddress: string,
+  enabled: boolean
+): Promise<WithdrawalSettings> {
+  const current = await getWithdrawalSettings(walletAddress);
+  const settings: WithdrawalSettings = enabled
+    ? { allowListOnly: true }
+    : {
+        allowListOnly: false,
+        // Turning it off only takes effect after the cool-down
+        allowListOnlyUntil: current.allowListOnly
+          ? new Date(
+              Date.now() + getWithdrawalLimits().addressCooldownMs
+            ).toISOString()
+          : current.allowListOnlyUntil,
+      };
+  await kv.set(`${SETTINGS_PREFIX}${walletAddress}`, settings);
+  return settings;
+}
+
+function isAllowListEnforced(settings: WithdrawalSettings): boolean {
+  if (settings.allowListOnly) return true;
+  return Boolean(
+    settings.allowListOnlyUntil &&
+      new Date(settings.allowListOnlyUntil).getTime() > Date.now()
+  );
+}
+
+// ============ POLICY ============
+
+export interface PolicyDecision {
+  decision: "reject" | "review" | "approve";
+  reasons: string[];
+  holdUntil?: string; // Don't pay out before this (destination cool-down)
+}
+
+/**
+ * Evaluate a new withdrawal. `recentWithdrawals` are the wallet's
+ * earlier withdrawals; failed ones don't count towards the limits.
+ * A destination seen for the first time is added to the address book.
+ * Callers hold the wallet's `withdraw:<wallet>` lock until the withdrawal
+ * is queued, so concurrent requests can't both fit under the limits.
+ */
+export async function evaluateWithdrawal(params: {
+  walletAddress: string;
+  amount: number;
+  network: WithdrawalNetwork;
+  destinationAddress: string;
+  recentWithdrawals: { amount: number; status: string; createdAt: string }[];
+}): Promise<PolicyDecision> {
+  const limits = getWithdrawalLimits();
+  const now = Date.now();
+
+  // Velocity limits
+  const counted = params.recentWithdrawals.filter((w) => w.status !== "failed");
+  const withinMs = (ms: number) =>
+    counted
+      .filter((w) => now - new Date(w.createdAt).getTime() < ms)
+      .reduce((sum, w) => sum + w.amount, 0);
+
+  const daily = withinMs(DAY_MS);
+  if (daily + params.amount > limits.dailyLimitUsd) {
+    return {
+      decision: "reject",
+      reasons: [
+        `Daily withdrawal limit is $${limits.dailyLimitUsd} ($${Math.max(
+          0,
+          limits.dailyLimitUsd - daily
+        ).toFixed(2)} remaining)`,
+      ],
+    };
+  }
+  const weekly = withinMs(7 * DAY_MS);
+  if (weekly + params.amount > limits.weeklyLimitUsd) {
+    return {
+      decision: "reject",
+      reasons: [
+        `Weekly withdrawal limit is $${limits.weeklyLimitUsd} ($${Math.max(
+          0,
+          limits.weeklyLimitUsd - weekly
+        ).toFixed(2)} remaining)`,
+      ],
+    };
+  }
+
+  // Destination
+  const settings = await getWithdrawalSettings(params.walletAddress);
+  let entry = await getAddressBookEntry(
+    params.walletAddress,
+    params.network,
+    params.destinationAddress
+  );
+
+  if (isAllowListEnforced(settings)) {
+    if (!entry) {
+      return {
+        decision: "reject",
+        reasons: [
+          "Destination is not in your address book (allow-list mode is on)",
+        ],
+      };
+    }
+    if (new Date(entry.availableAt).getTime() > now) {
+      return {
+        decision: "reject",
+        reasons: [
+          `Destination is in its cool-down until ${new Date(
+            entry.availableAt
+          ).toISOString()}`,
+        ],
+      };
+    }
+  } else if (!entry) {
+    entry = await addAddressBookEntry(
+      params.walletAddress,
+      params.network,
+      params.destinationAddress
+    );
+  }
+
+  const reasons: string[] = [];
+  let holdUntil: string | undefined;
+  if (new Date(entry.availableAt).getTime() > now) {
+    holdUntil = entry.availableAt;
+    reasons.push(`New destination: held until ${entry.availableAt}`);
+  }
+
+  if (params.amount >= limits.reviewThresholdUsd) {
+    reasons.push(
+      `Amount $${params.amount} is at or above the $${limits.reviewThresholdUsd} review threshold`
+    );
+    return { decision: "review", reasons, holdUntil };
+  }
+
+  return { decision: "approve", reasons, holdUntil };
+}
+
+// ============ TREASURY OUTFLOW ============
+
+export interface PayoutPause {
+  reason: string;
+  pausedAt: string;
+}
+
+function outflowKey(at = Date.now()): string {
+  return `${OUTFLOW_PREFIX}${new Date(at).toISOString().slice(0, 13)}`; // Per UTC hour
+}
+
+export async function getPayoutPause(): Promise<PayoutPause | null> {
+  return kv.get<PayoutPause>(PAUSE_KEY);
+}
+
+export async function pausePayouts(reason: string): Promise<PayoutPause> {
+  const pause: PayoutPause = { reason, pausedAt: new Date().toISOString() };
+  // Keep the first reason if already paused
+  await kv.set(PAUSE_KEY, pause, { nx: true });
+  console.error("Withdrawal payouts paused:", reason);
+  return (await getPayoutPause()) ?? pause;
+}
+
+export async function resumePayouts(): Promise<void> {
+  await kv.del(PAUSE_KEY);
+  console.log("Withdrawal payouts resumed");
+}
+
+export async function getHourlyOutflow(): Promise<number> {
+  return (await kv.get<number>(outflowKey())) || 0;
+}
+
+/**
+ * Count a payout of `amountUsd` against this hour's treasury outflow.
+ * Returns the hourly window it was counted in, to release it against
+ * later - or null, and pauses all payouts, if it would cross the cap;
+ * nothing is counted in that case.
+ */
+export async function claimTreasuryOutflow(
+  amountUsd: number
+): Promise<string | null> {
+  const cap = getWithdrawalLimits().hourlyOutflowCapUsd;
+  const key = outflowKey();
+
+  const total = await kv.incrbyfloat(key, amountUsd);
+  await kv.expire(key, 2 * 60 * 60);
+
+  if (total > cap) {
+    await kv.incrbyfloat(key, -amountUsd);
+    await pausePayouts(
+      `Hourly treasury outflow cap of $${cap} reached ($${(
+        total - amountUsd
+      ).toFixed(2)} sent this hour, next payout $${amountUsd.toFixed(2)})`
+    );
+    return null;
+  }
+  return key;
+}
+
+// Give back a claimed outflow for a payout that never went out, in the window it was claimed in
+export async function releaseTreasuryOutflow(
+  amountUsd: number,
+  window: string
+): Promise<void> {
+  // A window that has expired no longer counts against anything
+  if (!(await kv.exists(window))) return;
+  await kv.incrbyfloat(window, -amountUsd);
+}
@@ -0,0 +1,582 @@
+/**
+ * Withdrawal Queue (server only)
+ *
+ * Durable queue of withdrawals, one record per withdrawal in Vercel KV
+ * (see kv-store). Creating a withdrawal reserves its amount on the ledger
+ * straight away; a worker then pays it out:
+ *
+ *   pending -> approved -> broadcast -> confirmed
+ *                              |
+ *                              +-> failed (reservation released)
+ *
+ * - Each step is a compare-and-set on the record's status, so two workers
+ *   (or a double submit) can never broadcast the same withdrawal twice
+ * - The transaction's signature is recorded before it is broadcast, so a
+ *   payout whose broadcast outcome is unknown is looked up, not resent
+ * - A payout that can no longer land (see payout-senders) goes back to
+ *   `approved` and is retried with backoff, up to MAX_ATTEMPTS
+ * - A stuck payout may be replaced by its sender (same nonce, higher
+ *   fees); the replaced transactions are watched too until one lands
+ * - A failed withdrawal's reservation is released back to the balance;
+ *   a confirmed one is settled as a withdrawal debit. The ledger posts
+ *   either at most once per withdrawal
+ *
+ * A pending withdrawal is approved once its destination cool-down
+ * (`holdUntil`) has passed, unless it is waiting for manual review.
+ * Nothing is broadcast while payouts are paused, or when a payout would
+ * cross the treasury's hourly outflow cap (see withdrawal-policy.ts).
+ */
+
+import { createRecordStore, withLock } from "@/lib/kv-store";
+import {
+  releaseWithdrawal,
+  reserveWithdrawal,
+  settleWithdrawal,
+} from "@/lib/ledger";
+import { getPayoutSender } from "@/lib/payout-senders";
+import {
+  claimTreasuryOutflow,
+  getPayoutPause,
+  releaseTreasuryOutflow,
+} from "@/lib/withdrawal-policy";
+import type {
+  WithdrawalCurrency,
+  WithdrawalNetwork,
+  WithdrawalStatus,
+} from "@/lib/withdrawal";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+export interface QueuedWithdrawal {
+  id: string;
+  walletAddress: string;
+  destinationAddress: string;
+  amount: number; // USD reserved from the balance
+  cryptoAmount: number; // Crypto to send
+  cryptoPrice: number; // Locked price the crypto amount was computed at
+  priceQuoteId: string;
+  currency: WithdrawalCurrency;
+  network: WithdrawalNetwork;
+  feeUsd: number;
+  networkFeeUsd: number;
+  netAmountUsd: number;
+  feeScheduleVersion: string;
+  status: WithdrawalStatus;
+  holdUntil?: string; // Not approved before this (destination cool-down)
+  review?: WithdrawalReview;
+  attempts: number; // Broadcasts so far
+  txSignature?: string; // Latest broadcast transaction
+  validUntil?: number; // Until when txSignature can land (see payout-senders)
+  previousTxSignatures?: string[]; // Earlier broadcasts that were dropped
+  replacedTxSignatures?: string[]; // Replaced by txSignature; one of them may still land
+  replacedAt?: string;
+  nextAttemptAt?: string;
+  lastError?: string;
+  outflowWindow?: string; // Treasury outflow window (see withdrawal-policy) the latest broadcast was counted in
+  createdAt: string;
+  approvedAt?: string;
+  broadcastAt?: string;
+  confirmedAt?: string;
+  failedAt?: string;
+  settledAt?: string; // Ledger settlement (confirmed) or release (failed) posted
+}
+
+export interface WithdrawalReview {
+  reasons: string[];
+  requestedAt: string;
+  decision?: "approved" | "rejected";
+  reviewedAt?: string;
+  note?: string;
+}
+
+const store = createRecordStore<QueuedWithdrawal>({
+  prefix: "withdrawal",
+  indexes: {
+    wallet: (w) => w.walletAddress,
+    status: (w) => w.status,
+  },
+});
+
+/**
+ * Queue a withdrawal, reserving its amount from the wallet's balance.
+ * Returns null (and queues nothing) if the balance can't cover it.
+ */
+export async function createWithdrawal(
+  params: Omit<
+    QueuedWithdrawal,
+    "id" | "status" | "attempts" | "createdAt" | "review"
+  > & {
+    reviewReasons?: string[]; // Hold the withdrawal for manual review
+  }
+): Promise<QueuedWithdrawal | null> {
+  const { reviewReasons, ...fields } = params;
+  const now = new Date().toISOString();
+
+  const withdrawal: QueuedWithdrawal = {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: "pending",
+    review: reviewReasons?.length
+      ? { reasons: reviewReasons, requestedAt: now }
+      : undefined,
+    attempts: 0,
+    createdAt: now,
+  };
+
+  const reserved = await reserveWithdrawal(
+    withdrawal.walletAddress,
+    withdrawal.amount,
+    withdrawal.id,
+    withdrawal.feeScheduleVersion
+  );
+  if (!reserved) return null;
+
+  await store.insert(withdrawal);
+  console.log(
+    `Withdrawal ${withdrawal.id} queued: $${withdrawal.amount} as ${withdrawal.cryptoAmount} ${withdrawal.currency}` +
+      (withdrawal.review ? " (awaiting review)" : "")
+  );
+  return withdrawal;
+}
+
+export async function getWithdrawal(
+  id: string
+): Promise<QueuedWithdrawal | null> {
+  return store.get(id);
+}
+
+// A wallet's withdrawals, newest first
+export async function getWalletWithdrawals(
+  walletAddress: string
+): Promise<QueuedWithdrawal[]> {
+  const withdrawals = await store.listByIndex("wallet", walletAddress);
+  return withdrawals.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+export async function getWithdrawalsByStatus(
+  status: WithdrawalStatus
+): Promise<QueuedWithdrawal[]> {
+  return store.listByIndex("status", status);
+}
+
+// Pending withdrawals waiting for a reviewer's decision
+export async function getWithdrawalsAwaitingReview(): Promise<
+  QueuedWithdrawal[]
+> {
+  const pending = await getWithdrawalsByStatus("pending");
+  return pending
+    .filter((w) => w.review && !w.review.decision)
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+}
+
+export async function approveWithdrawal(
+  id: string
+): Promise<QueuedWithdrawal | null> {
+  return store.transition(id, "status", ["pending"], "approved", {
+    approvedAt: new Date().toISOString(),
+  });
+}
+
+// Whether a pending withdrawal can be approved now
+function isReadyForApproval(withdrawal: QueuedWithdrawal): boolean {
+  if (withdrawal.review && withdrawal.review.decision !== "approved")
+    return false;
+  return (
+    !withdrawal.holdUntil ||
+    new Date(withdrawal.holdUntil).getTime() <= Date.now()
+  );
+}
+
+// Post the ledger side of a finished withdrawal. The ledger posts each withdrawal's
+// settlement or release once, so a retry after a failed `settledAt` write is harmless.
+async function settleLedger(
+  withdrawal: QueuedWithdrawal
+): Promise<QueuedWithdrawal> {
+  if (withdrawal.settledAt) return withdrawal;
+
+  if (withdrawal.status === "confirmed") {
+    await settleWithdrawal(
+      withdrawal.walletAddress,
+      withdrawal.amount,
+      withdrawal.id,
+      withdrawal.feeScheduleVersion
+    );
+  } else if (withdrawal.status === "failed") {
+    await releaseWithdrawal(
+      withdrawal.walletAddress,
+      withdrawal.amount,
+      withdrawal.id,
+      `Withdrawal failed: ${withdrawal.lastError || "unknown error"}`
+    );
+  } else {
+    return withdrawal;
+  }
+
+  const settled = await store.update(withdrawal.id, (current) => ({
+    ...current,
+    settledAt: new Date().toISOString(),
+  }));
+  return settled ?? withdrawal;
+}
+
+// Fail a withdrawal that hasn't confirmed and release its reservation
+export async function failWithdrawal(
+  id: string,
+  error: string
+): Promise<QueuedWithdrawal | null> {
+  const failed = await store.transition(
+    id,
+    "status",
+    ["pending", "approved", "broadcast"],
+    "failed",
+    {
+      failedAt: new Date().toISOString(),
+      lastError: error,
+    }
+  );
+  if (!failed) return null;
+
+  console.error(`Withdrawal ${id} failed: ${error}`);
+  return settleLedger(failed);
+}
+
+// Record a reviewer's approval. The worker sends it once any hold has passed.
+export async function approveReviewedWithdrawal(
+  id: string,
+  note?: string
+): Promise<QueuedWithdrawal | null> {
+  const approved = await store.update(id, (current) =>
+    current.status === "pending" && current.review && !current.review.decision
+      ? {
+          ...current,
+          review: {
+            ...current.review,
+            decision: "approved",
+            reviewedAt: new Date().toISOString(),
+            note,
+          },
+        }
+      : null
+  );
+  if (approved) console.log(`Withdrawal ${id} approved in review`);
+  return approved;
+}
+
+// Reject a withdrawal in review; its reservation is released.
+// Holds the worker's lock so a worker run can't settle it at the same time.
+export async function rejectReviewedWithdrawal(
+  id: string,
+  note?: string
+): Promise<QueuedWithdrawal | null> {
+  return withLock(`withdrawal_worker:${id}`, async () => {
+    const rejected = await store.update(id, (current) =>
+      current.status === "pending" && current.review && !current.review.decision
+        ? {
+            ...current,
+            review: {
+              ...current.review,
+              decision: "rejected",
+              reviewedAt: new Date().toISOString(),
+              note,
+            },
+          }
+        : null
+    );
+    if (!rejected) return null;
+
+    return failWithdrawal(
+      id,
+      note ? `Rejected in review: ${note}` : "Rejected in review"
+    );
+  });
+}
+
+function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+// A payout attempt didn't go through: schedule a retry, or fail once out of attempts
+async function retryOrFail(
+  withdrawal: QueuedWithdrawal,
+  from: WithdrawalStatus,
+  error: string
+): Promise<QueuedWithdrawal | null> {
+  if (withdrawal.attempts >= MAX_ATTEMPTS) {
+    return failWithdrawal(
+      withdrawal.id,
+      `${error} (after ${withdrawal.attempts} attempts)`
+    );
+  }
+
+  return store.transition(withdrawal.id, "status", [from], "approved", {
+    attempts: withdrawal.attempts,
+    lastError: error,
+    nextAttemptAt: new Date(
+      Date.now() + retryDelay(withdrawal.attempts)
+    ).toISOString(),
+  });
+}
+
+// Sign and broadcast an approved withdrawal
+async function broadcast(
+  withdrawal: QueuedWithdrawal
+): Promise<QueuedWithdrawal | null> {
+  if (
+    withdrawal.nextAttemptAt &&
+    new Date(withdrawal.nextAttemptAt).getTime() > Date.now()
+  ) {
+    return withdrawal;
+  }
+
+  if (await getPayoutPause()) return withdrawal;
+  const outflowWindow = await claimTreasuryOutflow(withdrawal.netAmountUsd);
+  if (!outflowWindow) return withdrawal;
+
+  const sender = getPayoutSender(withdrawal.network);
+  let signed;
+  try {
+    signed = await sender.sign(withdrawal);
+  } catch (error) {
+    await releaseTreasuryOutflow(withdrawal.netAmountUsd, outflowWindow);
+    // Nothing was sent; count it as an attempt so a persistent error eventually fails
+    return retryOrFail(
+      { ...withdrawal, attempts: withdrawal.attempts + 1 },
+      "approved",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  // Claim the broadcast: only the worker that records the signature sends
+  const claimed = await store.transition(
+    withdrawal.id,
+    "status",
+    ["approved"],
+    "broadcast",
+    {
+      txSignature: signed.txSignature,
+      validUntil: signed.validUntil,
+      previousTxSignatures: withdrawal.txSignature
+        ? [
+            ...(withdrawal.previousTxSignatures || []),
+            ...(withdrawal.replacedTxSignatures || []),
+            withdrawal.txSignature,
+          ]
+        : withdrawal.previousTxSignatures,
+      replacedTxSignatures: undefined,
+      replacedAt: undefined,
+      attempts: withdrawal.attempts + 1,
+      outflowWindow,
+      broadcastAt: new Date().toISOString(),
+      nextAttemptAt: undefined,
+    }
+  );
+  if (!claimed) {
+    await signed.release?.();
+    await releaseTreasuryOutflow(withdrawal.netAmountUsd, outflowWindow);
+    return null;
+  }
+
+  try {
+    await signed.send();
+    console.log(`Withdrawal ${withdrawal.id} broadcast: ${signed.txSignature}`);
+  } catch (error) {
+    // The outcome is unknown - confirmation tracking decides whether it landed
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Withdrawal ${withdrawal.id} broadcast error:`, message);
+    return store.update(withdrawal.id, (current) => ({
+      ...current,
+      lastError: message,
+    }));
+  }
+  return claimed;
+}
+
+// Replace a stuck transaction if its sender supports it
+async function replaceStuck(
+  withdrawal: QueuedWithdrawal
+): Promise<QueuedWithdrawal> {
+  const sender = getPayoutSender(withdrawal.network);
+  if (
+    !sender.replace ||
+    !withdrawal.txSignature ||
+    withdrawal.validUntil === undefined
+  )
+    return withdrawal;
+
+  const sentAt = new Date(
+    withdrawal.replacedAt || withdrawal.broadcastAt || withdrawal.createdAt
+  );
+  const signed = await sender.replace(
+    withdrawal,
+    withdrawal.txSignature,
+    withdrawal.validUntil,
+    sentAt
+  );
+  if (!signed) return withdrawal;
+
+  const previous = withdrawal.txSignature;
+  // Record the replacement before sending it, as for the first broadcast
+  const recorded = await store.update(withdrawal.id, (current) =>
+    current.status === "broadcast" && current.txSignature === previous
+      ? {
+          ...current,
+          txSignature: signed.txSignature,
+          validUntil: signed.validUntil,
+          replacedTxSignatures: [
+            ...(current.replacedTxSignatures || []),
+            previous,
+          ],
+          replacedAt: new Date().toISOString(),
+        }
+      : null
+  );
+  if (!recorded) return withdrawal;
+
+  try {
+    await signed.send();
+    console.log(
+      `Withdrawal ${withdrawal.id} replaced stuck ${previous} with ${signed.txSignature}`
+    );
+  } catch (error) {
+    // The original may have been mined meanwhile - tracking sorts it out
+    console.error(`Withdrawal ${withdrawal.id} replacement error:`, error);
+  }
+  return recorded;
+}
+
+// Track a broadcast withdrawal's transaction
+async function trackConfirmation(
+  withdrawal: QueuedWithdrawal
+): Promise<QueuedWithdrawal | null> {
+  if (!withdrawal.txSignature || withdrawal.validUntil === undefined) {
+    return retryOrFail(
+      withdrawal,
+      "broadcast",
+      "Broadcast record is missing its transaction"
+    );
+  }
+
+  const sender = getPayoutSender(withdrawal.network);
+  let { state, error } = await sender.check(
+    withdrawal.txSignature,
+    withdrawal.validUntil
+  );
+
+  // Dropped may just mean a transaction it replaced was mined instead
+  if (state === "dropped") {
+    for (const replaced of withdrawal.replacedTxSignatures || []) {
+      const result = await sender.check(replaced, withdrawal.validUntil);
+      if (result.state === "dropped") continue;
+
+      withdrawal =
+        (await store.update(withdrawal.id, (current) => ({
+          ...current,
+          txSignature: replaced,
+        }))) ?? withdrawal;
+      ({ state, error } = result);
+      break;
+    }
+  }
+
+  switch (state) {
+    case "confirmed": {
+      const confirmed = await store.transition(
+        withdrawal.id,
+        "status",
+        ["broadcast"],
+        "confirmed",
+        {
+          confirmedAt: new Date().toISOString(),
+          lastError: undefined,
+        }
+      );
+      if (!confirmed) return null;
+      console.log(
+        `Withdrawal ${withdrawal.id} confirmed: ${withdrawal.txSignature}`
+      );
+      return settleLedger(confirmed);
+    }
+    case "failed":
+      return failWithdrawal(withdrawal.id, error || "Transaction failed");
+    case "dropped":
+      return retryOrFail(
+        withdrawal,
+        "broadcast",
+        `Transaction ${withdrawal.txSignature} was dropped`
+      );
+    default:
+      return replaceStuck(withdrawal);
+  }
+}
+
+/**
+ * Move one withdrawal forward as far as it can go right now.
+ * Runs under a per-withdrawal lock so concurrent nudges don't overlap.
+ */
+export async function advanceWithdrawal(
+  id: string
+): Promise<QueuedWithdrawal | null> {
+  return withLock(`withdrawal_worker:${id}`, async () => {
+    let withdrawal = await store.get(id);
+    if (!withdrawal) return null;
+
+    try {
+      if (withdrawal.status === "pending" && isReadyForApproval(withdrawal)) {
+        withdrawal = (await approveWithdrawal(id)) ?? withdrawal;
+      }
+      if (withdrawal.status === "approved") {
+        withdrawal = (await broadcast(withdrawal)) ?? (await store.get(id));
+      } else if (withdrawal.status === "broadcast") {
+        withdrawal =
+          (await trackConfirmation(withdrawal)) ?? (await store.get(id));
+      }
+      if (
+        withdrawal &&
+        (withdrawal.status === "confirmed" || withdrawal.status === "failed")
+      ) {
+        withdrawal = await settleLedger(withdrawal);
+      }
+    } catch (error) {
+      // RPC trouble and the like - leave the record as-is for the next run
+      console.error(`Withdrawal ${id} worker error:`, error);
+    }
+    return withdrawal;
+  });
+}
+
+// Worker entry point: advance every withdrawal that still has work to do
+export async function processWithdrawalQueue(): Promise<{
+  processed: number;
+  byStatus: Record<string, number>;
+}> {
+  const active = [
+    ...(await getWithdrawalsByStatus("pending")),
+    ...(await getWithdrawalsByStatus("approved")),
+    ...(await getWithdrawalsByStatus("broadcast")),
+  ];
+  const unsettled = [
+    ...(await getWithdrawalsByStatus("confirmed")),
+    ...(await getWithdrawalsByStatus("failed")),
+  ].filter((w) => !w.settledAt);
+
+  const byStatus: Record<string, number> = {};
+  for (const withdrawal of [...active, ...unsettled]) {
+    let status: string;
+    try {
+      status = (await advanceWithdrawal(withdrawal.id))?.status || "missing";
+    } catch (error) {
+      // Another worker holds it
+      console.error(`Withdrawal ${withdrawal.id} skipped:`, error);
+      status = withdrawal.status;
+    }
+    byStatus[status] = (byStatus[status] || 0) + 1;
+  }
+
+  return { processed: active.length + unsettled.length, byStatus };
+}
@@ -1,8 +1,14 @@
 // Automated Withdrawal System
-// Sends SOL, USDT (Solana SPL), and ETH to user wallets
+// Sends the assets enabled for withdrawals in the asset registry (see assets.ts) to user wallets
 
-export type WithdrawalNetwork = 'solana' | 'ethereum';
-export type WithdrawalCurrency = 'SOL' | 'USDT' | 'ETH';
+import { quoteWithdrawal, type FeeTier, type WithdrawalQuote } from '@/lib/fees';
+import { isEvmNetwork, type CryptoCurrency, type CryptoNetwork } from '@/lib/assets';
+
+export type WithdrawalNetwork = CryptoNetwork;
+export type WithdrawalCurrency = CryptoCurrency;
+
+// Server-side lifecycle (see withdrawal-queue.ts)
+export type WithdrawalStatus = 'pending' | 'approved' | 'broadcast' | 'confirmed' | 'failed';
 
 export interface WithdrawalRequest {
   id: string;
@@ -12,34 +18,13 @@ export interface WithdrawalRequest {
   cryptoAmount: number; // Amount in crypto to send
   currency: WithdrawalCurrency;
   network: WithdrawalNetwork;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: WithdrawalStatus;
   txSignature?: string; // Transaction signature once sent
   errorMessage?: string;
   createdAt: string;
   processedAt?: string;
 }
 
-// Withdrawal fees (percentage)
-export const WITHDRAWAL_FEES: Record<WithdrawalCurrency, number> = {
-  SOL: 0.01, // 1% fee
-  USDT: 0.01, // 1% fee
-  ETH: 0.02, // 2% fee (higher gas costs)
-};
-
-// Minimum withdrawal amounts in USD
-export const MIN_WITHDRAWAL: Record<WithdrawalCurrency, number> = {
-  SOL: 10,
-  USDT: 10,
-  ETH: 25, // Higher due to gas costs
-};
-
-// Network fees (estimated, in USD) - covers gas
-export const NETWORK_FEES: Record<WithdrawalCurrency, number> = {
-  SOL: 0.01, // ~0.01 USD for Solana tx
-  USDT: 0.02, // SPL token transfer
-  ETH: 5, // ETH gas is expensive
-};
-
 // Local storage key
 const WITHDRAWALS_KEY = 'trenchbank_withdrawals';
 
@@ -65,7 +50,7 @@ export function getUserWithdrawals(walletAddress: string): WithdrawalRequest[] {
 
 // Get pending withdrawals
 export function getPendingWithdrawals(walletAddress: string): WithdrawalRequest[] {
-  return getUserWithdrawals(walletAddress).filter(w => w.status === 'pending' || w.status === 'processing');
+  return getUserWithdrawals(walletAddress).filter(w => w.status !== 'confirmed' && w.status !== 'failed');
 }
 
 // Create a withdrawal request locally
@@ -105,43 +90,32 @@ export function updateWithdrawalLocal(withdrawalId: string, updates: Partial<Wit
   return withdrawals[index];
 }
 
-// Calculate withdrawal details
+// Calculate withdrawal details (fees come from the fee schedule, see fees.ts)
 export function calculateWithdrawal(
   amountUsd: number,
   currency: WithdrawalCurrency,
-  cryptoPrice: number
-): {
-  grossAmount: number; // USD before fees
-  feePercent: number;
-  feeUsd: number;
-  networkFeeUsd: number;
-  netAmountUsd: number; // USD after fees
+  cryptoPrice: number,
+  tier: FeeTier = 'standard'
+): WithdrawalQuote & {
   cryptoAmount: number; // Crypto to receive
 } {
-  const feePercent = WITHDRAWAL_FEES[currency];
-  const feeUsd = amountUsd * feePercent;
-  const networkFeeUsd = NETWORK_FEES[currency];
-  const netAmountUsd = amountUsd - feeUsd - networkFeeUsd;
-  const cryptoAmount = netAmountUsd / cryptoPrice;
-  
+  const quote = quoteWithdrawal(currency, amountUsd, tier);
+  const cryptoAmount = quote.netAmountUsd / cryptoPrice;
+
   return {
-    grossAmount: amountUsd,
-    feePercent,
-    feeUsd,
-    networkFeeUsd,
-    netAmountUsd: Math.max(0, netAmountUsd),
+    ...quote,
     cryptoAmount: Math.max(0, cryptoAmount),
   };
 }
 
 // Validate destination address format
 export function isValidAddress(address: string, network: WithdrawalNetwork): boolean {
-  if (network === 'solana') {
+  if (isEvmNetwork(network)) {
+    // EVM addresses are 0x followed by 40 hex chars
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  } else {
     // Solana addresses are base58 encoded, 32-44 chars
     return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
-  } else {
-    // Ethereum addresses are 0x followed by 40 hex chars
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
   }
 }
 